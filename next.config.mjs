@@ -24,6 +24,18 @@ const nextConfig = {
     unoptimized: false,
   },
 
+  // Database drivers used by SQL integrations load optional native modules
+  // at runtime, so they are required from node_modules instead of bundled
+  experimental: {
+    serverComponentsExternalPackages: ['mssql', 'mysql2'],
+  },
+
+  // The public API is documented at https://api.fraudlr.com/v1, which
+  // serves the /api/v1 route handlers
+  async rewrites() {
+    return [{ source: '/v1/:path*', destination: '/api/v1/:path*' }];
+  },
+
   // Environment variables that will be available on the client-side
   // Note: Only add PUBLIC variables here, never secrets
   env: {
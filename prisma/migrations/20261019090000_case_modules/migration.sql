@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "cases" ADD COLUMN     "modules" TEXT[] DEFAULT ARRAY[]::TEXT[];
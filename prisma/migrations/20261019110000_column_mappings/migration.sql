@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "cases" ADD COLUMN     "columnMapping" JSONB;
+
+-- CreateTable
+CREATE TABLE "mapping_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "headers" TEXT[],
+    "mapping" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "mapping_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mapping_templates_userId_name_key" ON "mapping_templates"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "mapping_templates" ADD CONSTRAINT "mapping_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
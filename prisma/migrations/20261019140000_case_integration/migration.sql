@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "cases" ADD COLUMN     "integrationId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "cases" ADD CONSTRAINT "cases_integrationId_fkey" FOREIGN KEY ("integrationId") REFERENCES "integrations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "SyncStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "SyncTrigger" AS ENUM ('SCHEDULE', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "integrations" ADD COLUMN     "lastSyncedAt" TIMESTAMP(3),
+ADD COLUMN     "nextSyncAt" TIMESTAMP(3),
+ADD COLUMN     "schedule" TEXT,
+ADD COLUMN     "syncModules" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "syncRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "watermark" TEXT;
+
+-- CreateTable
+CREATE TABLE "sync_runs" (
+    "id" TEXT NOT NULL,
+    "status" "SyncStatus" NOT NULL DEFAULT 'RUNNING',
+    "trigger" "SyncTrigger" NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "rowsRead" INTEGER NOT NULL DEFAULT 0,
+    "watermarkFrom" TEXT,
+    "watermarkTo" TEXT,
+    "error" TEXT,
+    "integrationId" TEXT NOT NULL,
+    "caseId" TEXT,
+
+    CONSTRAINT "sync_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "integrations_nextSyncAt_idx" ON "integrations"("nextSyncAt");
+
+-- CreateIndex
+CREATE INDEX "sync_runs_integrationId_startedAt_idx" ON "sync_runs"("integrationId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "sync_runs" ADD CONSTRAINT "sync_runs_integrationId_fkey" FOREIGN KEY ("integrationId") REFERENCES "integrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sync_runs" ADD CONSTRAINT "sync_runs_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "cases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('ACCEPTED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "WindowStatus" AS ENUM ('OPEN', 'CLOSING', 'CLOSED', 'FAILED');
+
+-- AlterEnum
+ALTER TYPE "IntegrationType" ADD VALUE 'WEBHOOK';
+
+-- CreateTable
+CREATE TABLE "webhook_deliveries" (
+    "id" TEXT NOT NULL,
+    "status" "DeliveryStatus" NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "records" INTEGER NOT NULL DEFAULT 0,
+    "bytes" INTEGER NOT NULL DEFAULT 0,
+    "signature" TEXT,
+    "reason" TEXT,
+    "integrationId" TEXT NOT NULL,
+    "windowId" TEXT,
+
+    CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_windows" (
+    "id" TEXT NOT NULL,
+    "status" "WindowStatus" NOT NULL DEFAULT 'OPEN',
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closesAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "records" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "integrationId" TEXT NOT NULL,
+    "caseId" TEXT,
+
+    CONSTRAINT "webhook_windows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_records" (
+    "id" BIGSERIAL NOT NULL,
+    "data" JSONB NOT NULL,
+    "windowId" TEXT NOT NULL,
+
+    CONSTRAINT "webhook_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "webhook_deliveries_integrationId_receivedAt_idx" ON "webhook_deliveries"("integrationId", "receivedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_deliveries_integrationId_signature_key" ON "webhook_deliveries"("integrationId", "signature");
+
+-- CreateIndex
+CREATE INDEX "webhook_windows_status_closesAt_idx" ON "webhook_windows"("status", "closesAt");
+
+-- CreateIndex
+CREATE INDEX "webhook_windows_integrationId_openedAt_idx" ON "webhook_windows"("integrationId", "openedAt");
+
+-- CreateIndex
+CREATE INDEX "webhook_records_windowId_id_idx" ON "webhook_records"("windowId", "id");
+
+-- AddForeignKey
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_integrationId_fkey" FOREIGN KEY ("integrationId") REFERENCES "integrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_windowId_fkey" FOREIGN KEY ("windowId") REFERENCES "webhook_windows"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "webhook_windows" ADD CONSTRAINT "webhook_windows_integrationId_fkey" FOREIGN KEY ("integrationId") REFERENCES "integrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "webhook_windows" ADD CONSTRAINT "webhook_windows_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "cases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "webhook_records" ADD CONSTRAINT "webhook_records_windowId_fkey" FOREIGN KEY ("windowId") REFERENCES "webhook_windows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "scopes" TEXT[];
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "mfaRequired" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Two-Factor Requirement
+ *
+ * Usage:
+ *   npm run mfa:require -- --all                  Require MFA for every account
+ *   npm run mfa:require -- alice@example.com ...  Require it for these accounts
+ *   npm run mfa:require -- --off --all            Stop requiring it (also with emails)
+ *
+ * Accounts that must use MFA set it up at their next login and can't turn
+ * it off. Those without it are signed out everywhere right away. To also
+ * cover accounts created later, set MFA_REQUIRED=true instead.
+ */
+
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const args = process.argv.slice(2);
+  const required = !args.includes("--off");
+  const all = args.includes("--all");
+  const emails = args.filter((arg) => !arg.startsWith("--"));
+
+  if (all === emails.length > 0) {
+    console.error("Pass either --all or one or more email addresses.");
+    process.exit(1);
+  }
+
+  // Imported after the environment is loaded so config is read correctly
+  const { setMfaRequired } = await import("../src/lib/mfa");
+  const { prisma } = await import("../src/lib/prisma");
+
+  const { updated, signedOut } = await setMfaRequired(
+    all ? { all: true } : { emails },
+    required
+  );
+  console.log(
+    required
+      ? `MFA is now required for ${updated} accounts; signed out ${signedOut} without it.`
+      : `MFA is no longer required for ${updated} accounts.`
+  );
+
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error("Changing the MFA requirement failed:", error);
+  process.exit(1);
+});
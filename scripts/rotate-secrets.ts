@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Master Key Rotation
+ *
+ * Usage: npm run secrets:rotate
+ *
+ * Re-wraps every stored integration credential, webhook endpoint secret
+ * and two-factor authentication secret with the first key in
+ * SECRETS_MASTER_KEYS. Run it after adding a new key to the front of the
+ * list; when it has finished, the old key can be removed. Safe to run
+ * more than once.
+ */
+
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after the environment is loaded so config is read correctly
+  const { rotateIntegrationSecrets } = await import("../src/lib/integrations");
+  const { rotateWebhookSecrets } = await import("../src/lib/outbound-webhooks");
+  const { rotateMfaSecrets } = await import("../src/lib/mfa");
+  const { prisma } = await import("../src/lib/prisma");
+
+  const { scanned, updated } = await rotateIntegrationSecrets();
+  console.log(`Checked ${scanned} integrations, re-wrapped credentials of ${updated}.`);
+
+  const endpoints = await rotateWebhookSecrets();
+  console.log(
+    `Checked ${endpoints.scanned} webhook endpoints, re-wrapped secrets of ${endpoints.updated}.`
+  );
+
+  const mfa = await rotateMfaSecrets();
+  console.log(`Checked ${mfa.scanned} users with MFA, re-wrapped secrets of ${mfa.updated}.`);
+
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error("Key rotation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Local Webhook Receiver
+ *
+ * Usage: npm run webhooks:receive -- --secret whsec_... [--port 4000] [--fail 2]
+ *
+ * A small HTTP server for trying out outbound webhooks on a development
+ * machine. It verifies each delivery's signature with the endpoint secret
+ * (also read from WEBHOOK_RECEIVER_SECRET) and prints the event. With
+ * --fail N, the first N deliveries are answered with a 500 to watch the
+ * retries in the delivery log.
+ *
+ * Register http://localhost:4000 as an endpoint in Settings → Webhooks.
+ * The worker only sends to local addresses when
+ * INTEGRATIONS_ALLOW_PRIVATE_NETWORKS is "true".
+ */
+
+import { createServer } from "http";
+import { parseArgs } from "util";
+import { verifySignature } from "../src/lib/signatures";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "4000" },
+    secret: { type: "string" },
+    fail: { type: "string", default: "0" },
+  },
+});
+
+const secret = values.secret ?? process.env.WEBHOOK_RECEIVER_SECRET;
+const port = Number(values.port);
+let failuresLeft = Number(values.fail) || 0;
+
+if (!secret) {
+  console.error("Pass the endpoint secret with --secret or WEBHOOK_RECEIVER_SECRET");
+  process.exit(1);
+}
+
+const server = createServer((request, response) => {
+  const chunks: Buffer[] = [];
+  request.on("data", (chunk: Buffer) => chunks.push(chunk));
+  request.on("end", () => {
+    const body = Buffer.concat(chunks);
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (typeof value === "string") headers.set(name, value);
+    }
+
+    const event = headers.get("x-fraudlr-event") ?? "(no event header)";
+    const check = verifySignature(secret, headers, body);
+
+    if (!check.ok) {
+      console.log(`✗ ${event}: ${check.reason}`);
+      response.writeHead(401).end(check.reason);
+      return;
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`… ${event}: verified, answering 500 (${failuresLeft} more to fail)`);
+      response.writeHead(500).end("Failing on purpose");
+      return;
+    }
+
+    console.log(`✓ ${event} (delivery ${headers.get("x-fraudlr-delivery")})`);
+    console.log(JSON.stringify(JSON.parse(body.toString("utf-8")), null, 2));
+    response.writeHead(200, { "Content-Type": "application/json" }).end('{"received":true}');
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Analysis Worker Entry Point
+ *
+ * Usage: npm run worker
+ *
+ * Loads environment variables the same way Next.js does (.env, .env.local, ...)
+ * and processes the analysis queue until it receives SIGINT or SIGTERM.
+ * Run one or more of these alongside the web server.
+ */
+
+import { loadEnvConfig } from "@next/env";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after the environment is loaded so config is read correctly
+  const { runWorker } = await import("../src/lib/worker");
+  const { prisma } = await import("../src/lib/prisma");
+
+  const controller = new AbortController();
+  const stop = () => {
+    console.log("Shutting down after the current job...");
+    controller.abort();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  await runWorker({ signal: controller.signal });
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error("Worker crashed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Single API Key API Route
+ *
+ * DELETE /api/api-keys/:id - Revoke an API key
+ *
+ * Keys belonging to other users are reported as not found.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { revokeApiKey } from "@/lib/api-keys";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * DELETE handler for revoking a key
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const revoked = await revokeApiKey(authUser.userId, params.id);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "API key not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "API key revoked successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Revoke API key error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while revoking the API key" },
+      { status: 500 }
+    );
+  }
+}
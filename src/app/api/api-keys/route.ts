@@ -0,0 +1,96 @@
+/**
+ * @fileoverview API Keys API Route
+ *
+ * GET  /api/api-keys - List the current user's API keys
+ * POST /api/api-keys - Create an API key
+ *
+ * Keys are listed by name and prefix with their scopes, expiry and last
+ * use. The key itself is only in the response that creates it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { createApiKey, listApiKeys } from "@/lib/api-keys";
+import { createApiKeySchema } from "@/lib/validations/api-key";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * GET handler for listing API keys
+ */
+export async function GET() {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const apiKeys = await listApiKeys(authUser.userId);
+
+    return NextResponse.json({ apiKeys }, { status: 200 });
+  } catch (error) {
+    console.error("List API keys error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading API keys" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for API key creation
+ *
+ * Request body:
+ * - name: string (required)
+ * - scopes: ("cases:read" | "cases:write" | "integrations:manage")[] (at least one)
+ * - expiresInDays: number (optional, 1-3650) - omitted keys never expire
+ *
+ * Response: { key, apiKey } - `key` is shown this once and cannot be retrieved again
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = createApiKeySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await createApiKey(authUser.userId, parsed.data);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { key: result.key, apiKey: result.apiKey },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create API key error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while creating the API key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Change Password API Route
+ *
+ * POST /api/auth/change-password
+ *
+ * Changes the signed-in user's password.
+ * - Verifies the current password
+ * - Applies the password policy to the new one
+ * - Signs out every other session
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { changePassword } from "@/lib/account";
+import { changePasswordSchema } from "@/lib/validations/auth";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for password changes
+ *
+ * Request body:
+ * - currentPassword: string (required)
+ * - newPassword: string (required, min 8 characters, see the password policy)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = changePasswordSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await changePassword(
+      authUser.userId,
+      authUser.sessionId,
+      parsed.data.currentPassword,
+      parsed.data.newPassword
+    );
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Password updated. Other sessions have been signed out." },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Change password error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while changing the password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Forgot Password API Route
+ *
+ * POST /api/auth/forgot-password
+ *
+ * Emails a single-use password reset link to a registered address.
+ * - Same response whether or not the email is registered
+ * - Rate limited per client address (429 with Retry-After)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requestPasswordReset } from "@/lib/password-reset";
+import { clientIp } from "@/lib/rate-limit";
+import { forgotPasswordSchema } from "@/lib/validations/auth";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for reset link requests
+ *
+ * Request body:
+ * - email: string (required)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = forgotPasswordSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await requestPasswordReset(parsed.data.email, clientIp(request));
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        {
+          status: result.status,
+          headers: { "Retry-After": String(result.retryAfterSeconds) },
+        }
+      );
+    }
+
+    // Use generic message to prevent email enumeration
+    return NextResponse.json(
+      {
+        message:
+          "If an account exists for that email, we've sent a link to reset its password.",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Forgot password error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while requesting a password reset" },
+      { status: 500 }
+    );
+  }
+}
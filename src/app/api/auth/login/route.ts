@@ -5,12 +5,17 @@
  * 
  * Authenticates a user with email and password.
  * - Verifies credentials against database
- * - Returns JWT token in HTTP-only cookie
+ * - Asks for an authentication code first when the user has two-factor
+ *   authentication on (see /api/auth/mfa/verify)
+ * - Has MFA set up first when the user must use it but has not yet (see
+ *   /api/auth/mfa/setup and /api/auth/mfa/enable)
+ * - Starts a session (JWT and refresh token in HTTP-only cookies)
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { comparePasswords, createToken, setAuthCookie } from "@/lib/auth";
+import { comparePasswords, setMfaChallengeCookie, startSession } from "@/lib/auth";
+import { isMfaRequired } from "@/lib/mfa";
 
 /**
  * POST handler for user login
@@ -41,6 +46,8 @@ export async function POST(request: NextRequest) {
         email: true,
         name: true,
         password: true,
+        mfaEnabledAt: true,
+        mfaRequired: true,
       },
     });
 
@@ -63,15 +70,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create JWT token
-    const token = await createToken({
+    // With MFA on, the session starts only after the code is verified
+    if (user.mfaEnabledAt) {
+      await setMfaChallengeCookie({
+        userId: user.id,
+        email: user.email,
+      });
+
+      return NextResponse.json(
+        {
+          message: "Enter the code from your authenticator app",
+          mfaRequired: true,
+        },
+        { status: 200 }
+      );
+    }
+
+    // MFA is required but not set up: set it up before the session starts
+    if (isMfaRequired(user)) {
+      await setMfaChallengeCookie({
+        userId: user.id,
+        email: user.email,
+      });
+
+      return NextResponse.json(
+        {
+          message: "Set up two-factor authentication to continue",
+          mfaSetupRequired: true,
+        },
+        { status: 200 }
+      );
+    }
+
+    // Start a session and set the auth cookies
+    await startSession({
       userId: user.id,
       email: user.email,
     });
 
-    // Set the auth cookie
-    await setAuthCookie(token);
-
     // Return success response
     return NextResponse.json(
       {
@@ -3,19 +3,27 @@
  * 
  * POST /api/auth/logout
  * 
- * Logs out the current user by clearing the authentication cookie.
+ * Logs out the current user by signing out their session and clearing
+ * the authentication cookies.
  */
 
 import { NextResponse } from "next/server";
-import { clearAuthCookie } from "@/lib/auth";
+import { clearAuthCookie, getCurrentUser } from "@/lib/auth";
+import { revokeSession } from "@/lib/sessions";
 
 /**
  * POST handler for user logout
- * Clears the auth cookie and returns success response
+ * Signs out the session, clears the auth cookies and returns success response
  */
 export async function POST() {
   try {
-    // Clear the authentication cookie
+    // Sign out the session so its tokens stop working everywhere
+    const authUser = await getCurrentUser();
+    if (authUser?.sessionId) {
+      await revokeSession(authUser.userId, authUser.sessionId);
+    }
+
+    // Clear the authentication cookies
     await clearAuthCookie();
 
     return NextResponse.json(
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Disable Two-Factor Authentication API Route
+ *
+ * POST /api/auth/mfa/disable
+ *
+ * Turns MFA off for the current user. Being signed in is not enough: the
+ * password and an authentication code are checked again.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { disableMfa } from "@/lib/mfa";
+import { disableMfaSchema } from "@/lib/validations/auth";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for disabling MFA
+ *
+ * Request body:
+ * - password: string (required)
+ * - code: string (required) - authenticator app code or unused recovery code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = disableMfaSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await disableMfa(authUser.userId, parsed.data.password, parsed.data.code);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Two-factor authentication turned off" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Disable MFA error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while disabling two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Enable Two-Factor Authentication API Route
+ *
+ * POST /api/auth/mfa/enable
+ *
+ * Turns MFA on when a code from the authenticator app confirms the secret
+ * from POST /api/auth/mfa/setup. During login (with the challenge cookie
+ * of a user who must use MFA) it also starts the session.
+ *
+ * Response: { recoveryCodes } - shown this once and cannot be retrieved again
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  clearMfaChallengeCookie,
+  getCurrentUser,
+  getMfaChallenge,
+  startSession,
+} from "@/lib/auth";
+import { enableMfa } from "@/lib/mfa";
+import { mfaCodeBodySchema } from "@/lib/validations/auth";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for enabling MFA
+ *
+ * Request body:
+ * - code: string (required) - current code from the authenticator app
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Signed in, or setting up MFA at login because it is required
+    const sessionUser = await getCurrentUser();
+    const challenge = sessionUser ? null : await getMfaChallenge();
+    const authUser = sessionUser ?? challenge;
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = mfaCodeBodySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await enableMfa(authUser.userId, parsed.data.code);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    if (challenge) {
+      await clearMfaChallengeCookie();
+      await startSession(challenge);
+    }
+
+    return NextResponse.json(
+      { recoveryCodes: result.recoveryCodes },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Enable MFA error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while enabling two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview MFA Recovery Codes API Route
+ *
+ * POST /api/auth/mfa/recovery-codes
+ *
+ * Replaces the current user's recovery codes; the old ones stop working.
+ *
+ * Response: { recoveryCodes } - shown this once and cannot be retrieved again
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { regenerateRecoveryCodes } from "@/lib/mfa";
+import { mfaCodeBodySchema } from "@/lib/validations/auth";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for new recovery codes
+ *
+ * Request body:
+ * - code: string (required) - authenticator app code or unused recovery code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = mfaCodeBodySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await regenerateRecoveryCodes(authUser.userId, parsed.data.code);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { recoveryCodes: result.recoveryCodes },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Regenerate recovery codes error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while creating recovery codes" },
+      { status: 500 }
+    );
+  }
+}
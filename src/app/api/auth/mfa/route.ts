@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Two-Factor Authentication Status API Route
+ *
+ * GET /api/auth/mfa - Whether the current user has MFA on
+ *
+ * Response: { mfa: { enabled, enabledAt, recoveryCodesLeft } }
+ */
+
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getMfaStatus } from "@/lib/mfa";
+
+/**
+ * GET handler for the MFA status
+ */
+export async function GET() {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const mfa = await getMfaStatus(authUser.userId);
+
+    return NextResponse.json({ mfa }, { status: 200 });
+  } catch (error) {
+    console.error("Get MFA status error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
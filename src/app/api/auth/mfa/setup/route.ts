@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Two-Factor Authentication Setup API Route
+ *
+ * POST /api/auth/mfa/setup
+ *
+ * Creates a secret for the current user's authenticator app. MFA is not
+ * on yet: POST /api/auth/mfa/enable with a code from the app turns it on.
+ * Users who must use MFA call it during login, with the challenge cookie
+ * instead of a session.
+ *
+ * Response: { secret, otpauthUrl, qrCode } - `qrCode` is a PNG data URL
+ * of `otpauthUrl`; `secret` is for typing into the app by hand
+ */
+
+import { NextResponse } from "next/server";
+import { getCurrentUser, getMfaChallenge } from "@/lib/auth";
+import { startMfaSetup } from "@/lib/mfa";
+
+/**
+ * POST handler for starting MFA setup
+ */
+export async function POST() {
+  try {
+    // Signed in, or setting up MFA at login because it is required
+    const authUser = (await getCurrentUser()) ?? (await getMfaChallenge());
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const result = await startMfaSetup(authUser.userId);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { secret: result.secret, otpauthUrl: result.otpauthUrl, qrCode: result.qrCode },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("MFA setup error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while setting up two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
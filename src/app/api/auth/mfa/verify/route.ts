@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Two-Factor Sign-In API Route
+ *
+ * POST /api/auth/mfa/verify
+ *
+ * Second step of signing in for users with MFA on, after POST
+ * /api/auth/login accepted their password and set the challenge cookie.
+ * - Checks an authenticator app code or a recovery code
+ * - Starts a session (JWT and refresh token in HTTP-only cookies)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { clearMfaChallengeCookie, getMfaChallenge, startSession } from "@/lib/auth";
+import { verifyMfaCode } from "@/lib/mfa";
+import { mfaCodeBodySchema } from "@/lib/validations/auth";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for the second sign-in step
+ *
+ * Request body:
+ * - code: string (required) - authenticator app code or unused recovery code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const challenge = await getMfaChallenge();
+
+    if (!challenge) {
+      return NextResponse.json(
+        { error: "Your sign-in has expired. Please log in again." },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = mfaCodeBodySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await verifyMfaCode(challenge.userId, parsed.data.code);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    await clearMfaChallengeCookie();
+    await startSession({
+      userId: user.id,
+      email: user.email,
+    });
+
+    return NextResponse.json(
+      {
+        message: "Login successful",
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+        },
+        usedRecoveryCode: result.usedRecoveryCode,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("MFA verify error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred during login" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Token Refresh API Route
+ *
+ * GET  /api/auth/refresh?next=/dashboard - Renew and go back to the page
+ * POST /api/auth/refresh                 - Renew and answer with JSON
+ *
+ * Issues a new access token from the refresh cookie.
+ * - The refresh token is replaced (rotated) and the session extended
+ * - A refresh token that was already replaced signs the session out
+ *
+ * API routes renew an expired access token by themselves. The middleware
+ * sends page requests with an expired one through GET, which returns to
+ * the page, or to the login page when the session is gone; POST is for
+ * clients that want to renew ahead of time.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { clearAuthCookie, refreshAuth } from "@/lib/auth";
+import { safeNextPath } from "@/lib/utils";
+
+/**
+ * GET handler for renewing during page navigation
+ *
+ * Query parameters:
+ * - next: string (optional) - path to return to, default /dashboard
+ */
+export async function GET(request: NextRequest) {
+  const next = safeNextPath(request.nextUrl.searchParams.get("next"));
+
+  try {
+    const user = await refreshAuth();
+
+    if (user) {
+      return NextResponse.redirect(new URL(next, request.url));
+    }
+  } catch (error) {
+    console.error("Token refresh error:", error);
+  }
+
+  await clearAuthCookie();
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", next);
+  return NextResponse.redirect(loginUrl);
+}
+
+/**
+ * POST handler for token refresh
+ */
+export async function POST() {
+  try {
+    const user = await refreshAuth();
+
+    if (!user) {
+      await clearAuthCookie();
+
+      return NextResponse.json(
+        { error: "Session expired. Please log in again." },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { user: { id: user.userId, email: user.email } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Token refresh error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while refreshing the session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Reset Password API Route
+ *
+ * POST /api/auth/reset-password
+ *
+ * Sets a new password with the token from a reset link.
+ * - The token works once and expires after an hour
+ * - The user signs in with the new password afterwards
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { resetPassword } from "@/lib/password-reset";
+import { resetPasswordSchema } from "@/lib/validations/auth";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for password resets
+ *
+ * Request body:
+ * - token: string (required) - from the emailed link
+ * - password: string (required, min 8 characters)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = resetPasswordSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await resetPassword(parsed.data.token, parsed.data.password);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Your password has been reset. You can now log in." },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Reset password error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while resetting the password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Single Session API Route
+ *
+ * DELETE /api/auth/sessions/:id - Sign out one device
+ *
+ * Signing out the current session also clears this browser's cookies.
+ * Sessions belonging to other users are reported as not found.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { clearAuthCookie, getCurrentUser } from "@/lib/auth";
+import { revokeSession } from "@/lib/sessions";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * DELETE handler for signing out a session
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const revoked = await revokeSession(authUser.userId, params.id);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    const current = params.id === authUser.sessionId;
+    if (current) {
+      await clearAuthCookie();
+    }
+
+    return NextResponse.json(
+      { message: "Session signed out", current },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Revoke session error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while signing out the session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Sessions API Route
+ *
+ * GET    /api/auth/sessions - List the current user's signed-in devices
+ * DELETE /api/auth/sessions - Sign out everywhere, this device included
+ *
+ * Sessions are listed by device, address and last use; the one making the
+ * request is marked `current`.
+ */
+
+import { NextResponse } from "next/server";
+import { clearAuthCookie, getCurrentUser } from "@/lib/auth";
+import { listSessions, revokeAllSessions } from "@/lib/sessions";
+
+/**
+ * GET handler for listing sessions
+ */
+export async function GET() {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const sessions = await listSessions(authUser.userId, authUser.sessionId);
+
+    return NextResponse.json({ sessions }, { status: 200 });
+  } catch (error) {
+    console.error("List sessions error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler for signing out everywhere
+ */
+export async function DELETE() {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const count = await revokeAllSessions(authUser.userId);
+    await clearAuthCookie();
+
+    return NextResponse.json(
+      { message: `Signed out of ${count} session${count === 1 ? "" : "s"}` },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Revoke all sessions error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while signing out" },
+      { status: 500 }
+    );
+  }
+}
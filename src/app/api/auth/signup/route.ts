@@ -7,12 +7,14 @@
  * - Validates email uniqueness
  * - Hashes password securely
  * - Creates user with FREE subscription tier
- * - Returns JWT token in HTTP-only cookie
+ * - Starts a session (JWT and refresh token in HTTP-only cookies), or
+ *   has MFA set up first when every account must use it (MFA_REQUIRED)
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { hashPassword, createToken, setAuthCookie } from "@/lib/auth";
+import { hashPassword, setMfaChallengeCookie, startSession } from "@/lib/auth";
+import { isMfaRequired } from "@/lib/mfa";
 
 /**
  * POST handler for user registration
@@ -87,18 +89,32 @@ export async function POST(request: NextRequest) {
         id: true,
         email: true,
         name: true,
+        mfaRequired: true,
       },
     });
 
-    // Create JWT token for authentication
-    const token = await createToken({
+    // MFA is required for everyone: set it up before the session starts
+    if (isMfaRequired(user)) {
+      await setMfaChallengeCookie({
+        userId: user.id,
+        email: user.email,
+      });
+
+      return NextResponse.json(
+        {
+          message: "Account created. Set up two-factor authentication to continue.",
+          mfaSetupRequired: true,
+        },
+        { status: 201 }
+      );
+    }
+
+    // Start a session and set the auth cookies
+    await startSession({
       userId: user.id,
       email: user.email,
     });
 
-    // Set the auth cookie
-    await setAuthCookie(token);
-
     // Return success response (without sensitive data)
     return NextResponse.json(
       {
@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Single Case API Route
+ *
+ * GET    /api/cases/:id - Get a case with its full results
+ * PATCH  /api/cases/:id - Update a case's name or description
+ * DELETE /api/cases/:id - Delete a case
+ *
+ * Cases belonging to other users are reported as not found.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { deleteCase, getCase, updateCase } from "@/lib/cases";
+import { updateCaseSchema } from "@/lib/validations/case";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET handler for a single case
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const caseItem = await getCase(authUser.userId, params.id);
+
+    if (!caseItem) {
+      return NextResponse.json(
+        { error: "Case not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ case: caseItem }, { status: 200 });
+  } catch (error) {
+    console.error("Get case error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading the case" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler for updating a case
+ *
+ * Request body (at least one field):
+ * - name: string
+ * - description: string | null
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = updateCaseSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const caseItem = await updateCase(authUser.userId, params.id, parsed.data);
+
+    if (!caseItem) {
+      return NextResponse.json(
+        { error: "Case not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ case: caseItem }, { status: 200 });
+  } catch (error) {
+    console.error("Update case error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while updating the case" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler for removing a case
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await deleteCase(authUser.userId, params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Case not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Case deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete case error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while deleting the case" },
+      { status: 500 }
+    );
+  }
+}
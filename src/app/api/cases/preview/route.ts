@@ -0,0 +1,97 @@
+/**
+ * @fileoverview CSV Preview API Route
+ *
+ * POST /api/cases/preview
+ *
+ * First step of the column mapping wizard. Receives the start of a CSV
+ * file (the browser sends only the first 64 KB) and returns:
+ * - The detected encoding, delimiter, decimal separator and date formats
+ * - The header row and the first data rows
+ * - A suggested column mapping, taken from a saved template when the
+ *   headers match one
+ *
+ * Nothing is stored; the file itself is uploaded later with the mapping.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { previewCsv, SAMPLE_BYTES } from "@/lib/csv-format";
+import { defaultMapping } from "@/lib/column-mapping";
+import { findMatchingTemplate } from "@/lib/mapping-templates";
+import { previewOverridesSchema } from "@/lib/validations/mapping";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for file previews
+ *
+ * Multipart form fields:
+ * - file: File (required, the start of the CSV)
+ * - partial: "true" when the file was cut to a sample
+ * - encoding, delimiter: optional overrides chosen in the wizard
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "A CSV file is required" },
+        { status: 400 }
+      );
+    }
+
+    const overrides = previewOverridesSchema.safeParse({
+      encoding: formData.get("encoding") ?? undefined,
+      delimiter: formData.get("delimiter") ?? undefined,
+    });
+
+    if (!overrides.success) {
+      return NextResponse.json(
+        { error: firstIssue(overrides.error) },
+        { status: 400 }
+      );
+    }
+
+    // Only the sample is needed, even if the client sent more
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const preview = previewCsv(bytes.subarray(0, SAMPLE_BYTES), {
+      ...overrides.data,
+      partial: formData.get("partial") === "true" || bytes.length > SAMPLE_BYTES,
+    });
+
+    if (preview.headers.length === 0) {
+      return NextResponse.json(
+        { error: "File is missing a header row" },
+        { status: 400 }
+      );
+    }
+
+    const template = await findMatchingTemplate(authUser.userId, preview.headers);
+
+    return NextResponse.json(
+      {
+        preview,
+        mapping: template?.mapping ?? defaultMapping(preview),
+        template: template ? { id: template.id, name: template.name } : null,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("CSV preview error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while reading the file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Cases API Route
+ *
+ * GET  /api/cases - List the current user's cases
+ * POST /api/cases - Create a new case
+ *
+ * All queries are scoped to the authenticated user.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { createCase, listCases } from "@/lib/cases";
+import { createCaseSchema, listCasesQuerySchema } from "@/lib/validations/case";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * GET handler for the case list
+ *
+ * Query parameters:
+ * - search: string (optional) - matches name or description
+ * - status: PENDING | PROCESSING | COMPLETED | FAILED (optional)
+ * - sort: createdAt | updatedAt | name | status (default createdAt)
+ * - order: asc | desc (default desc)
+ * - cursor: string (optional) - `nextCursor` from the previous page
+ * - limit: number (1-100, default 20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const params = Object.fromEntries(request.nextUrl.searchParams);
+    const parsed = listCasesQuerySchema.safeParse(params);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const page = await listCases(authUser.userId, parsed.data);
+
+    return NextResponse.json(page, { status: 200 });
+  } catch (error) {
+    console.error("List cases error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading cases" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for case creation
+ *
+ * Request body:
+ * - name: string (required)
+ * - description: string (optional)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = createCaseSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const newCase = await createCase(authUser.userId, parsed.data);
+
+    return NextResponse.json({ case: newCase }, { status: 201 });
+  } catch (error) {
+    console.error("Create case error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while creating the case" },
+      { status: 500 }
+    );
+  }
+}
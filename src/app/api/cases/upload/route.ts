@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Case Upload API Route
+ *
+ * POST /api/cases/upload
+ *
+ * Accepts a multipart CSV upload and creates a case for it.
+ * - Rejects users whose monthly upload quota is used up (402), before
+ *   reading the file
+ * - Streams the file to storage without buffering it in memory
+ * - Rejects files over the size limit (413) and invalid CSV content (400)
+ * - Stores the column mapping from the wizard (or a detected one) on the case
+ * - Stores the file and sets `Case.fileUrl`
+ * - Creates the case as PENDING and queues the selected modules
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { checkUploadAllowed } from "@/lib/entitlements";
+import {
+  createCaseFromUpload,
+  discardUpload,
+  MAX_UPLOAD_BYTES,
+  receiveUpload,
+} from "@/lib/uploads";
+import { uploadCaseSchema } from "@/lib/validations/case";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for CSV uploads
+ *
+ * Multipart form fields:
+ * - file: File (required, CSV)
+ * - name: string (required)
+ * - description: string (optional)
+ * - modules: string (repeated, one per module: benford, mscore, zscore)
+ * - mapping: string (optional, JSON column mapping from the mapping wizard)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    // Reject oversized requests before reading the body
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > MAX_UPLOAD_BYTES + 64 * 1024) {
+      return NextResponse.json(
+        { error: "File exceeds the upload limit" },
+        { status: 413 }
+      );
+    }
+
+    const denied = await checkUploadAllowed(authUser.userId);
+    if (denied) {
+      return NextResponse.json(denied.body, { status: denied.status });
+    }
+
+    const received = await receiveUpload(request, authUser.userId);
+
+    if (!received.ok) {
+      return NextResponse.json(
+        { error: received.error },
+        { status: received.status }
+      );
+    }
+
+    const { fields, file } = received;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "A CSV file is required" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = uploadCaseSchema.safeParse({
+      name: fields.name?.[0],
+      description: fields.description?.[0],
+      modules: fields.modules ?? [],
+      mapping: fields.mapping?.[0],
+    });
+
+    if (!parsed.success) {
+      await discardUpload(file);
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await createCaseFromUpload(authUser.userId, file, parsed.data);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        result.limit ?? { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ case: result.case }, { status: 201 });
+  } catch (error) {
+    console.error("Case upload error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while uploading the file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Entitlements API Route
+ *
+ * GET /api/entitlements
+ *
+ * Returns the current user's subscription tier with usage and limits for
+ * CSV uploads (per billing month) and integrations. The dashboard uses it
+ * to show the remaining quota.
+ */
+
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getEntitlements } from "@/lib/entitlements";
+
+/**
+ * GET handler for usage and limits
+ *
+ * Limits and remaining counts are null on unlimited tiers.
+ */
+export async function GET() {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const entitlements = await getEntitlements(authUser.userId);
+
+    return NextResponse.json({ entitlements }, { status: 200 });
+  } catch (error) {
+    console.error("Get entitlements error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading your usage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Inbound Webhook API Route
+ *
+ * POST /api/ingest/:id
+ *
+ * Receives a batch of records for a webhook integration. Public: senders
+ * authenticate with the integration's signing secret instead of a session.
+ *
+ * Headers:
+ * - X-Fraudlr-Timestamp: Unix time in seconds
+ * - X-Fraudlr-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ * - Content-Type: application/json, or application/x-ndjson for one
+ *   record per line
+ *
+ * Responds 202 with the number of records buffered; they are analyzed
+ * when the integration's window closes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { receiveDelivery } from "@/lib/inbound-webhooks";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST handler for webhook deliveries
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const result = await receiveDelivery(params.id, request);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { accepted: result.accepted, windowId: result.windowId },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Webhook delivery error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while receiving the delivery" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Webhook Delivery History API Route
+ *
+ * GET /api/integrations/:id/deliveries
+ *
+ * Lists a webhook integration's recent deliveries (accepted and rejected,
+ * with the reason) and its recent windows with the case each one created.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { listDeliveries } from "@/lib/inbound-webhooks";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET handler for a webhook integration's deliveries
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const history = await listDeliveries(authUser.userId, params.id);
+
+    if (!history) {
+      return NextResponse.json(
+        { error: "Webhook integration not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error("Webhook delivery history error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while fetching the deliveries" },
+      { status: 500 }
+    );
+  }
+}
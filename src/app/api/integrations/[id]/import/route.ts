@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Integration Import API Route
+ *
+ * POST /api/integrations/:id/import
+ *
+ * Creates a case from an integration's data: the table or query chosen
+ * for a SQL integration, or every page of an API integration's endpoint.
+ * The case is created as PENDING and queued; the worker reads the data
+ * from the source and then runs the selected modules on it, exactly as
+ * for an uploaded CSV.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { createCaseFromIntegration } from "@/lib/imports";
+import { importCaseSchema } from "@/lib/validations/case";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST handler for importing an integration's data into a new case
+ *
+ * Request body:
+ * - name: string (required)
+ * - description: string (optional)
+ * - modules: string[] (required, at least one of benford, mscore, zscore)
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = importCaseSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await createCaseFromIntegration(authUser.userId, params.id, parsed.data);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ case: result.case }, { status: 201 });
+  } catch (error) {
+    console.error("Integration import error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while starting the import" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Single Integration API Route
+ *
+ * GET    /api/integrations/:id - Get an integration (without credentials)
+ * PATCH  /api/integrations/:id - Rename, enable/disable, or change settings or credentials
+ * DELETE /api/integrations/:id - Delete an integration
+ *
+ * Integrations belonging to other users are reported as not found.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { deleteIntegration, getIntegration, updateIntegration } from "@/lib/integrations";
+import { updateIntegrationSchema } from "@/lib/validations/integration";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET handler for a single integration
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const integration = await getIntegration(authUser.userId, params.id);
+
+    if (!integration) {
+      return NextResponse.json(
+        { error: "Integration not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ integration }, { status: 200 });
+  } catch (error) {
+    console.error("Get integration error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading the integration" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler for integration updates
+ *
+ * Request body (all optional, at least one required):
+ * - name: string
+ * - isActive: boolean
+ * - config: object - replaces the settings
+ * - secrets: object - string sets a credential, null removes it, omitted keeps it
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = updateIntegrationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateIntegration(authUser.userId, params.id, parsed.data);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ integration: result.integration }, { status: 200 });
+  } catch (error) {
+    console.error("Update integration error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while updating the integration" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler for integrations
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await deleteIntegration(authUser.userId, params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Integration not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Integration deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete integration error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while deleting the integration" },
+      { status: 500 }
+    );
+  }
+}
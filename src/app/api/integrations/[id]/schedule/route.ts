@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Integration Schedule API Route
+ *
+ * PUT /api/integrations/:id/schedule
+ *
+ * Sets when an integration syncs by itself and which analysis modules
+ * run on the cases its syncs create. Schedules are cron expressions in
+ * UTC and need a plan that includes scheduled syncs (Pro); a null
+ * schedule turns scheduled syncs off.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { updateSchedule } from "@/lib/sync";
+import { scheduleIntegrationSchema } from "@/lib/validations/integration";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * PUT handler for setting an integration's sync schedule
+ *
+ * Request body:
+ * - schedule: string | null (required; e.g. "0 * * * *" or "@daily")
+ * - modules: string[] (optional, at least one of benford, mscore, zscore)
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = scheduleIntegrationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateSchedule(authUser.userId, params.id, parsed.data);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        result.body ?? { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ integration: result.integration });
+  } catch (error) {
+    console.error("Integration schedule error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while updating the schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Integration Sync API Route
+ *
+ * POST /api/integrations/:id/sync
+ *
+ * Asks for a sync right away ("Sync now"). The sync runs in the worker:
+ * it reads the records added since the last sync into a new case and
+ * queues its analysis. Follow it with GET /api/integrations/:id/syncs.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { requestSync } from "@/lib/sync";
+import { syncIntegrationSchema } from "@/lib/validations/integration";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST handler for requesting a sync
+ *
+ * Request body (optional):
+ * - resetWatermark: boolean (read everything instead of only new records)
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    // The body is optional
+    const body = await request.json().catch(() => ({}));
+    const parsed = syncIntegrationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await requestSync(authUser.userId, params.id, parsed.data.resetWatermark);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        result.body ?? { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ integration: result.integration }, { status: 202 });
+  } catch (error) {
+    console.error("Integration sync error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while requesting the sync" },
+      { status: 500 }
+    );
+  }
+}
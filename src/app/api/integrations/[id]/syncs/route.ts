@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Integration Sync History API Route
+ *
+ * GET /api/integrations/:id/syncs
+ *
+ * Lists an integration's recent sync runs, newest first, with their
+ * status, row count, duration, error and the case each one created.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { listSyncRuns } from "@/lib/sync";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET handler for an integration's sync runs
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const runs = await listSyncRuns(authUser.userId, params.id);
+
+    if (!runs) {
+      return NextResponse.json(
+        { error: "Integration not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("Integration sync history error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while fetching the sync history" },
+      { status: 500 }
+    );
+  }
+}
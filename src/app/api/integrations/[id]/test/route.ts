@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Saved Integration Test API Route
+ *
+ * POST /api/integrations/:id/test
+ *
+ * Tests the connection of a saved integration with its stored credentials.
+ * A failed connection is a successful request: the response is 200 with
+ * `result.ok` false and the kind of problem in `result.problem`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { testSavedIntegration } from "@/lib/integrations";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST handler for testing a saved integration
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const outcome = await testSavedIntegration(authUser.userId, params.id);
+
+    if (!outcome.ok) {
+      return NextResponse.json(
+        { error: outcome.error },
+        { status: outcome.status }
+      );
+    }
+
+    return NextResponse.json({ result: outcome.result }, { status: 200 });
+  } catch (error) {
+    console.error("Test integration error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while testing the connection" },
+      { status: 500 }
+    );
+  }
+}
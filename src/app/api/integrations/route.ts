@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Integrations API Route
+ *
+ * GET  /api/integrations - List the current user's integrations
+ * POST /api/integrations - Create an integration
+ *
+ * Credentials are encrypted before they are stored and are never included
+ * in responses; integrations list only which credential fields are set.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { checkIntegrationAllowed } from "@/lib/entitlements";
+import { createIntegration, listIntegrations } from "@/lib/integrations";
+import { createIntegrationSchema } from "@/lib/validations/integration";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * GET handler for the integration list
+ */
+export async function GET() {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const integrations = await listIntegrations(authUser.userId);
+
+    return NextResponse.json({ integrations }, { status: 200 });
+  } catch (error) {
+    console.error("List integrations error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading integrations" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for integration creation
+ *
+ * Request body:
+ * - type: "API" | "SQL" | "WEBHOOK" (required)
+ * - name: string (required)
+ * - config: API { url, auth?, pagination?, recordsPath?, fields? } | SQL { engine, host, port, database, username, source? }
+ *   | WEBHOOK { windowMinutes?, modules?, recordsPath?, fields? }
+ * - secrets: API { apiKey?, password?, clientSecret? } (as the auth scheme needs) | SQL { password? }
+ *   | WEBHOOK { signingSecret }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const denied = await checkIntegrationAllowed(authUser.userId);
+    if (denied) {
+      return NextResponse.json(denied.body, { status: denied.status });
+    }
+
+    const body = await request.json();
+    const parsed = createIntegrationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const created = await createIntegration(authUser.userId, parsed.data);
+
+    if (!created.ok) {
+      return NextResponse.json(created.denied.body, { status: created.denied.status });
+    }
+
+    return NextResponse.json({ integration: created.integration }, { status: 201 });
+  } catch (error) {
+    console.error("Create integration error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while creating the integration" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Integration Settings Test API Route
+ *
+ * POST /api/integrations/test
+ *
+ * Tests settings from the integration form before they are saved. Tries a
+ * real connection (with a timeout) and returns a categorized result with
+ * a sample of the data the integration would ingest. A failed connection
+ * is a successful request: the response is 200 with `result.ok` false.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { testIntegrationSettings } from "@/lib/integrations";
+import { testIntegrationSchema } from "@/lib/validations/integration";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for testing unsaved settings
+ *
+ * Request body:
+ * - type: "API" | "SQL" (required)
+ * - config: settings, as for POST /api/integrations
+ * - secrets: credentials (optional when integrationId is given)
+ * - integrationId: string (optional) - saved integration whose credentials fill in blanks
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = testIntegrationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const outcome = await testIntegrationSettings(authUser.userId, parsed.data);
+
+    if (!outcome.ok) {
+      return NextResponse.json(
+        { error: outcome.error },
+        { status: outcome.status }
+      );
+    }
+
+    return NextResponse.json({ result: outcome.result }, { status: 200 });
+  } catch (error) {
+    console.error("Test integration error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while testing the connection" },
+      { status: 500 }
+    );
+  }
+}
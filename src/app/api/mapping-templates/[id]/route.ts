@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Single Column Mapping Template API Route
+ *
+ * DELETE /api/mapping-templates/:id - Delete a template
+ *
+ * Templates belonging to other users are reported as not found.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { deleteMappingTemplate } from "@/lib/mapping-templates";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * DELETE handler for a template
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await deleteMappingTemplate(authUser.userId, params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Template deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete mapping template error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while deleting the template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Column Mapping Templates API Route
+ *
+ * GET  /api/mapping-templates - List the current user's templates
+ * POST /api/mapping-templates - Save a template (replaces one with the same name)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { listMappingTemplates, saveMappingTemplate } from "@/lib/mapping-templates";
+import { createMappingTemplateSchema } from "@/lib/validations/mapping";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * GET handler for listing templates
+ */
+export async function GET() {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const templates = await listMappingTemplates(authUser.userId);
+
+    return NextResponse.json({ templates }, { status: 200 });
+  } catch (error) {
+    console.error("List mapping templates error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading templates" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for saving a template
+ *
+ * Request body:
+ * - name: string (required)
+ * - headers: string[] (required, header row the template applies to)
+ * - mapping: { format, roles } (required)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = createMappingTemplateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const template = await saveMappingTemplate(authUser.userId, parsed.data);
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error("Save mapping template error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while saving the template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Public API: Analyze Route
+ *
+ * POST /api/v1/analyze
+ *
+ * Uploads a CSV and queues its analysis, like the dashboard upload: the
+ * file is streamed to storage, its columns are detected (or taken from a
+ * matching mapping template) and the case counts towards the monthly
+ * upload quota. Responds 202 with the PENDING case; poll
+ * GET /api/v1/cases/:id for the results.
+ *
+ * Authenticated with a bearer API key with the cases:write scope.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getApiUser } from "@/lib/api-keys";
+import { toV1Case, v1AuthError, v1Error, v1LimitError } from "@/lib/api-v1";
+import { getCase } from "@/lib/cases";
+import { checkUploadAllowed } from "@/lib/entitlements";
+import {
+  createCaseFromUpload,
+  discardUpload,
+  MAX_UPLOAD_BYTES,
+  receiveUpload,
+} from "@/lib/uploads";
+import { v1AnalyzeSchema } from "@/lib/validations/v1";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for CSV analysis
+ *
+ * Multipart form fields:
+ * - file: File (required, CSV)
+ * - case_name: string (required)
+ * - description: string (optional)
+ * - modules: string (optional, repeated or comma-separated: benford, mscore, zscore)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getApiUser(request, "cases:write");
+
+    if (!auth.ok) {
+      return v1AuthError(auth);
+    }
+
+    const apiUser = auth.user;
+
+    // Reject oversized requests before reading the body
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > MAX_UPLOAD_BYTES + 64 * 1024) {
+      return v1Error(413, "payload_too_large", "File exceeds the upload limit");
+    }
+
+    const denied = await checkUploadAllowed(apiUser.userId);
+    if (denied) {
+      return v1LimitError(denied);
+    }
+
+    const received = await receiveUpload(request, apiUser.userId);
+
+    if (!received.ok) {
+      return v1Error(
+        received.status,
+        received.status === 413 ? "payload_too_large" : "invalid_request",
+        received.error
+      );
+    }
+
+    const { fields, file } = received;
+
+    if (!file) {
+      return v1Error(400, "invalid_request", "A CSV file is required");
+    }
+
+    const parsed = v1AnalyzeSchema.safeParse({
+      case_name: fields.case_name?.[0],
+      description: fields.description?.[0],
+      modules: fields.modules ?? [],
+    });
+
+    if (!parsed.success) {
+      await discardUpload(file);
+      return v1Error(400, "invalid_request", firstIssue(parsed.error));
+    }
+
+    const result = await createCaseFromUpload(apiUser.userId, file, {
+      name: parsed.data.case_name,
+      description: parsed.data.description,
+      modules: parsed.data.modules,
+    });
+
+    if (!result.ok) {
+      return result.limit
+        ? v1LimitError({ status: result.status as 402 | 403, body: result.limit })
+        : v1Error(result.status, "invalid_request", result.error);
+    }
+
+    const created = await getCase(apiUser.userId, result.case.id);
+
+    if (!created) {
+      return v1Error(404, "not_found", "Case not found");
+    }
+
+    return NextResponse.json(
+      { data: toV1Case({ ...created, anomaliesFound: 0, highRiskItems: 0 }) },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("API v1 analyze error:", error);
+
+    return v1Error(500, "internal_error", "An error occurred while uploading the file");
+  }
+}
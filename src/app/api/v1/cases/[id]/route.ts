@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Public API: Single Case Route
+ *
+ * GET /api/v1/cases/:id
+ *
+ * Gets one of the API key owner's cases with its analysis job and, once
+ * the analysis has completed, its full results. Cases belonging to other
+ * users are reported as not found.
+ *
+ * Authenticated with a bearer API key with the cases:read scope.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getApiUser } from "@/lib/api-keys";
+import { toV1CaseDetail, v1AuthError, v1Error } from "@/lib/api-v1";
+import { getCase } from "@/lib/cases";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET handler for a single case
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await getApiUser(request, "cases:read");
+
+    if (!auth.ok) {
+      return v1AuthError(auth);
+    }
+
+    const apiUser = auth.user;
+
+    const caseItem = await getCase(apiUser.userId, params.id);
+
+    if (!caseItem) {
+      return v1Error(404, "not_found", "Case not found");
+    }
+
+    return NextResponse.json({ data: toV1CaseDetail(caseItem) });
+  } catch (error) {
+    console.error("API v1 get case error:", error);
+
+    return v1Error(500, "internal_error", "An error occurred while loading the case");
+  }
+}
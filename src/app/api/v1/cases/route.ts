@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Public API: Cases Route
+ *
+ * GET /api/v1/cases
+ *
+ * Lists the API key owner's cases, newest first, a page at a time.
+ *
+ * Authenticated with a bearer API key with the cases:read scope.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getApiUser } from "@/lib/api-keys";
+import { toV1Case, v1AuthError, v1Error } from "@/lib/api-v1";
+import { listCases } from "@/lib/cases";
+import { v1ListCasesQuerySchema, type V1CaseList } from "@/lib/validations/v1";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * GET handler for the case list
+ *
+ * Query parameters:
+ * - status: PENDING | PROCESSING | COMPLETED | FAILED (optional)
+ * - search: string (optional) - matches name or description
+ * - order: asc | desc (default desc, by creation time)
+ * - cursor: string (optional) - `pagination.next_cursor` from the previous page
+ * - limit: number (1-100, default 20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getApiUser(request, "cases:read");
+
+    if (!auth.ok) {
+      return v1AuthError(auth);
+    }
+
+    const apiUser = auth.user;
+
+    const params = Object.fromEntries(request.nextUrl.searchParams);
+    const parsed = v1ListCasesQuerySchema.safeParse(params);
+
+    if (!parsed.success) {
+      return v1Error(400, "invalid_request", firstIssue(parsed.error));
+    }
+
+    const page = await listCases(apiUser.userId, { ...parsed.data, sort: "createdAt" });
+
+    const body: V1CaseList = {
+      data: page.cases.map(toV1Case),
+      pagination: {
+        limit: parsed.data.limit,
+        has_more: page.nextCursor !== null,
+        next_cursor: page.nextCursor,
+      },
+    };
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error("API v1 list cases error:", error);
+
+    return v1Error(500, "internal_error", "An error occurred while loading cases");
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Public API: Integrations Route
+ *
+ * POST /api/v1/integrations
+ *
+ * Creates an integration for the API key owner, subject to their plan's
+ * integration limit. Settings and credentials are the same as for the
+ * dashboard; credentials are encrypted and never returned.
+ *
+ * Authenticated with a bearer API key with the integrations:manage scope.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getApiUser } from "@/lib/api-keys";
+import { toV1Integration, v1AuthError, v1Error, v1LimitError } from "@/lib/api-v1";
+import { checkIntegrationAllowed } from "@/lib/entitlements";
+import { createIntegration } from "@/lib/integrations";
+import { createIntegrationSchema } from "@/lib/validations/integration";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * POST handler for integration creation
+ *
+ * Request body (JSON):
+ * - name: string (required)
+ * - type: "API" | "SQL" | "WEBHOOK" (required)
+ * - config: object (required) - connection settings, as for POST /api/integrations
+ * - secrets: object (optional) - credentials the connection needs
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getApiUser(request, "integrations:manage");
+
+    if (!auth.ok) {
+      return v1AuthError(auth);
+    }
+
+    const apiUser = auth.user;
+
+    const denied = await checkIntegrationAllowed(apiUser.userId);
+    if (denied) {
+      return v1LimitError(denied);
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (body === null) {
+      return v1Error(400, "invalid_request", "The request body must be a JSON object");
+    }
+
+    const parsed = createIntegrationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return v1Error(400, "invalid_request", firstIssue(parsed.error));
+    }
+
+    const created = await createIntegration(apiUser.userId, parsed.data);
+
+    if (!created.ok) {
+      return v1LimitError(created.denied);
+    }
+
+    return NextResponse.json({ data: toV1Integration(created.integration) }, { status: 201 });
+  } catch (error) {
+    console.error("API v1 create integration error:", error);
+
+    return v1Error(500, "internal_error", "An error occurred while creating the integration");
+  }
+}
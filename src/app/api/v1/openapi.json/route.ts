@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Public API: OpenAPI Document Route
+ *
+ * GET /api/v1/openapi.json
+ *
+ * Serves the OpenAPI 3.1 document of the public API, generated from the
+ * v1 route schemas (see lib/openapi). It is public, like any API
+ * reference, and does not depend on the request, so Next.js renders it
+ * once at build time.
+ */
+
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+/**
+ * GET handler for the OpenAPI document
+ */
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Webhook Redelivery API Route
+ *
+ * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+ *
+ * Sends a delivery's event to its endpoint again. The redelivery is a
+ * new delivery with the same event id, so receivers can tell it apart
+ * from a new event; the worker sends it shortly.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { redeliver } from "@/lib/outbound-webhooks";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string; deliveryId: string };
+}
+
+/**
+ * POST handler for redelivering an event
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const result = await redeliver(authUser.userId, params.id, params.deliveryId);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ delivery: result.delivery }, { status: 202 });
+  } catch (error) {
+    console.error("Webhook redelivery error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while queueing the redelivery" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Webhook Endpoint Delivery Log API Route
+ *
+ * GET /api/webhooks/:id/deliveries
+ *
+ * Lists an endpoint's recent deliveries with the outcome of their last
+ * attempt: status code, start of the response body or error, and when
+ * the next retry is due.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { listOutboundDeliveries } from "@/lib/outbound-webhooks";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET handler for an endpoint's deliveries
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const deliveries = await listOutboundDeliveries(authUser.userId, params.id);
+
+    if (!deliveries) {
+      return NextResponse.json(
+        { error: "Webhook endpoint not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error("Webhook delivery log error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while fetching the deliveries" },
+      { status: 500 }
+    );
+  }
+}
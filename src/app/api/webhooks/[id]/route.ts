@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Single Webhook Endpoint API Route
+ *
+ * PATCH  /api/webhooks/:id - Change the URL, description or events, or enable/disable
+ * DELETE /api/webhooks/:id - Delete an endpoint and its delivery log
+ *
+ * Endpoints belonging to other users are reported as not found.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { deleteWebhookEndpoint, updateWebhookEndpoint } from "@/lib/outbound-webhooks";
+import { updateWebhookEndpointSchema } from "@/lib/validations/webhook";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * PATCH handler for webhook endpoint updates
+ *
+ * Request body (all optional, at least one required):
+ * - url: string
+ * - description: string | null
+ * - events: string[] (at least one)
+ * - isActive: boolean
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = updateWebhookEndpointSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateWebhookEndpoint(authUser.userId, params.id, parsed.data);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ endpoint: result.endpoint }, { status: 200 });
+  } catch (error) {
+    console.error("Update webhook endpoint error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while updating the webhook endpoint" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler for webhook endpoints
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const deleted = await deleteWebhookEndpoint(authUser.userId, params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Webhook endpoint not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "Webhook endpoint deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Delete webhook endpoint error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while deleting the webhook endpoint" },
+      { status: 500 }
+    );
+  }
+}
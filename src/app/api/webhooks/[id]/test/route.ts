@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Webhook Test Event API Route
+ *
+ * POST /api/webhooks/:id/test
+ *
+ * Queues a `webhook.test` event for an endpoint, whatever events it
+ * subscribes to, to check that it receives and verifies deliveries. The
+ * outcome appears in the endpoint's delivery log.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { sendTestEvent } from "@/lib/outbound-webhooks";
+
+/**
+ * Route segment parameters
+ */
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST handler for sending a test event
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const result = await sendTestEvent(authUser.userId, params.id);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ delivery: result.delivery }, { status: 202 });
+  } catch (error) {
+    console.error("Webhook test event error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while queueing the test event" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Webhook Endpoints API Route
+ *
+ * GET  /api/webhooks - List the current user's webhook endpoints
+ * POST /api/webhooks - Register a webhook endpoint
+ *
+ * Endpoints receive the events they subscribe to, signed with their
+ * secret. The secret is only in the response that creates the endpoint.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { createWebhookEndpoint, listWebhookEndpoints } from "@/lib/outbound-webhooks";
+import { createWebhookEndpointSchema } from "@/lib/validations/webhook";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * GET handler for listing webhook endpoints
+ */
+export async function GET() {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const endpoints = await listWebhookEndpoints(authUser.userId);
+
+    return NextResponse.json({ endpoints }, { status: 200 });
+  } catch (error) {
+    console.error("List webhook endpoints error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while loading webhook endpoints" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for webhook endpoint creation
+ *
+ * Request body:
+ * - url: string (required, http or https)
+ * - description: string (optional)
+ * - events: ("case.created" | "case.completed" | "case.failed" |
+ *   "anomaly.high_risk" | "integration.sync_failed")[] (at least one)
+ *
+ * Response: { endpoint, secret } - `secret` is shown this once and cannot be retrieved again
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authUser = await getCurrentUser();
+
+    if (!authUser) {
+      return NextResponse.json(
+        { error: "Not authenticated" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = createWebhookEndpointSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: firstIssue(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await createWebhookEndpoint(authUser.userId, parsed.data);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { endpoint: result.endpoint, secret: result.secret },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create webhook endpoint error:", error);
+
+    return NextResponse.json(
+      { error: "An error occurred while creating the webhook endpoint" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * @fileoverview Case Detail Page
+ *
+ * Shows a single fraud detection case and its analysis results.
+ * Features:
+ * - Case metadata and status
+ * - Per-module progress while the analysis runs (refreshed automatically)
+ * - Source file information
+ * - Data summary and rows skipped while reading the file
+ * - Results section for each analysis module that has run
+ */
+
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ArrowLeft, FileText, Loader2, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { StatusBadge } from "@/components/dashboard/status-badge";
+import { BenfordResults } from "@/components/cases/benford-results";
+import { MScoreResults } from "@/components/cases/mscore-results";
+import { ZScoreResults } from "@/components/cases/zscore-results";
+import { IngestionReport } from "@/components/cases/ingestion-report";
+import type { CaseResults } from "@/lib/analysis/types";
+import type { AnalysisProgress } from "@/lib/analysis/runner";
+
+/**
+ * Latest analysis job attached to the case
+ */
+interface CaseJob {
+  status: "QUEUED" | "RUNNING" | "SUCCEEDED" | "FAILED";
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  progress: AnalysisProgress | null;
+  lastError: string | null;
+}
+
+/**
+ * Module names shown in the progress list
+ */
+const moduleNames: Record<string, string> = {
+  benford: "Benford's Law",
+  mscore: "M-Score (Beneish)",
+  zscore: "Z-Score (Altman)",
+};
+
+/**
+ * How often to refresh the case while analysis is in progress
+ */
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Case as returned by GET /api/cases/:id
+ */
+interface CaseDetail {
+  id: string;
+  name: string;
+  description: string | null;
+  status: "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED";
+  fileUrl: string | null;
+  modules: string[];
+  results: CaseResults | null;
+  error: string | null;
+  jobs: CaseJob[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Case Detail Page Component
+ */
+export default function CaseDetailPage({ params }: { params: { id: string } }) {
+  const [caseItem, setCaseItem] = React.useState<CaseDetail | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  // Load the case when the page opens
+  const loadCase = React.useCallback(async () => {
+    try {
+      const response = await fetch(`/api/cases/${params.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load case");
+      }
+      setCaseItem(data.case);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load case");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params.id]);
+
+  React.useEffect(() => {
+    loadCase();
+  }, [loadCase]);
+
+  // Keep refreshing while the analysis has not finished
+  const isActive = caseItem?.status === "PENDING" || caseItem?.status === "PROCESSING";
+  React.useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(loadCase, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isActive, loadCase]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !caseItem) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card>
+          <CardContent className="py-16 text-center">
+            <AlertCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium mb-2">Case not available</h3>
+            <p className="text-muted-foreground mb-4">{error}</p>
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/cases">Back to cases</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const modules = caseItem.results?.modules ?? {};
+  const hasResults = Boolean(modules.benford || modules.mscore || modules.zscore);
+  const fileName = caseItem.fileUrl?.split("/").pop();
+  const job = caseItem.jobs[0];
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Page Header */}
+      <div>
+        <Button variant="ghost" size="sm" asChild className="mb-2 -ml-3">
+          <Link href="/dashboard/cases">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All cases
+          </Link>
+        </Button>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">{caseItem.name}</h1>
+            {caseItem.description && (
+              <p className="text-muted-foreground">{caseItem.description}</p>
+            )}
+          </div>
+          <StatusBadge status={caseItem.status} />
+        </div>
+      </div>
+
+      {/* Case Metadata */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid sm:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-muted-foreground">Created</dt>
+              <dd>{new Date(caseItem.createdAt).toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Last updated</dt>
+              <dd>{new Date(caseItem.updatedAt).toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Source file</dt>
+              <dd className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-muted-foreground" />
+                {fileName ?? "No file uploaded"}
+              </dd>
+            </div>
+          </dl>
+        </CardContent>
+      </Card>
+
+      {/* Failure Reason */}
+      {caseItem.status === "FAILED" && caseItem.error && (
+        <div className="flex items-start gap-3 p-4 rounded-lg border border-red-500/50 bg-red-500/5">
+          <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <p className="font-medium">Analysis failed</p>
+            <p className="text-muted-foreground">{caseItem.error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Analysis Progress */}
+      {job && (isActive || job.progress) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Analysis Progress</CardTitle>
+            <CardDescription>
+              Attempt {job.attempts} of {job.maxAttempts}
+              {job.status === "QUEUED" && job.attempts > 0 &&
+                ` · retrying at ${new Date(job.runAt).toLocaleTimeString()}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2 text-sm">
+              {caseItem.modules.map((moduleId) => {
+                const progress = job.progress?.[moduleId as keyof AnalysisProgress];
+                return (
+                  <li key={moduleId} className="flex items-start justify-between gap-4">
+                    <span>{moduleNames[moduleId] ?? moduleId}</span>
+                    <span className="text-right">
+                      <span
+                        className={`capitalize ${
+                          progress?.status === "failed"
+                            ? "text-red-500"
+                            : progress?.status === "completed"
+                            ? "text-green-500"
+                            : "text-muted-foreground"
+                        }`}
+                      >
+                        {progress?.status ?? "pending"}
+                      </span>
+                      {progress?.rowsProcessed !== undefined && (
+                        <span className="block text-xs text-muted-foreground">
+                          {progress.rowsProcessed.toLocaleString()} rows
+                        </span>
+                      )}
+                      {progress?.error && (
+                        <span className="block text-xs text-muted-foreground">
+                          {progress.error}
+                        </span>
+                      )}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Data Summary */}
+      {caseItem.results?.ingestion && (
+        <IngestionReport report={caseItem.results.ingestion} />
+      )}
+
+      {/* Module Results */}
+      {modules.benford && <BenfordResults result={modules.benford} />}
+      {modules.mscore && <MScoreResults result={modules.mscore} />}
+      {modules.zscore && <ZScoreResults result={modules.zscore} />}
+
+      {!hasResults && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Results</CardTitle>
+            <CardDescription>
+              {caseItem.status === "FAILED"
+                ? "The analysis did not complete."
+                : "Results will appear here once the analysis has finished."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,8 @@
  * Displays a list of all fraud detection cases created by the user.
  * Features:
  * - Case list with status indicators
- * - Search and filter functionality
+ * - Server-side search, status filter and sorting
+ * - "Load more" cursor pagination
  * - Quick actions for each case
  */
 
@@ -12,15 +13,7 @@
 
 import * as React from "react";
 import Link from "next/link";
-import {
-  Search,
-  FileText,
-  Clock,
-  CheckCircle2,
-  AlertCircle,
-  Loader2,
-  PlusCircle,
-} from "lucide-react";
+import { Search, FileText, Loader2, PlusCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -30,73 +23,150 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import { StatusBadge } from "@/components/dashboard/status-badge";
 
 /**
- * Mock data for cases (in production, this would come from the API)
+ * Case list item as returned by GET /api/cases
  */
-const mockCases: Array<{
+interface CaseListItem {
   id: string;
   name: string;
   status: "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED";
   createdAt: string;
   anomaliesFound: number;
-}> = [];
+}
 
 /**
- * Status badge component
+ * Status filter options ("" means all statuses)
  */
-function StatusBadge({ status }: { status: string }) {
-  const config = {
-    PENDING: {
-      icon: Clock,
-      text: "Pending",
-      className: "text-yellow-500 bg-yellow-500/10",
-    },
-    PROCESSING: {
-      icon: Loader2,
-      text: "Processing",
-      className: "text-blue-500 bg-blue-500/10",
-    },
-    COMPLETED: {
-      icon: CheckCircle2,
-      text: "Completed",
-      className: "text-green-500 bg-green-500/10",
-    },
-    FAILED: {
-      icon: AlertCircle,
-      text: "Failed",
-      className: "text-red-500 bg-red-500/10",
-    },
-  }[status] || {
-    icon: Clock,
-    text: status,
-    className: "text-muted-foreground bg-muted",
-  };
+const statusFilters = [
+  { value: "", label: "All" },
+  { value: "PENDING", label: "Pending" },
+  { value: "PROCESSING", label: "Processing" },
+  { value: "COMPLETED", label: "Completed" },
+  { value: "FAILED", label: "Failed" },
+];
 
-  const Icon = config.icon;
+/**
+ * Sort options, encoded as "field:order"
+ */
+const sortOptions = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "name:asc", label: "Name (A-Z)" },
+  { value: "name:desc", label: "Name (Z-A)" },
+  { value: "updatedAt:desc", label: "Recently updated" },
+];
 
-  return (
-    <span
-      className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${config.className}`}
-    >
-      <Icon className={`h-3 w-3 ${status === "PROCESSING" && "animate-spin"}`} />
-      {config.text}
-    </span>
-  );
-}
+/**
+ * Number of cases requested per page
+ */
+const PAGE_SIZE = 20;
 
 /**
  * Case History Page Component
  */
 export default function CasesPage() {
-  // State for search
+  // State for search, filters and sorting
   const [searchQuery, setSearchQuery] = React.useState("");
+  const [debouncedSearch, setDebouncedSearch] = React.useState("");
+  const [status, setStatus] = React.useState("");
+  const [sort, setSort] = React.useState(sortOptions[0].value);
+
+  // Loaded cases and pagination state
+  const [cases, setCases] = React.useState<CaseListItem[]>([]);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false);
+
+  const { toast } = useToast();
+
+  // Wait for the user to stop typing before searching
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  /**
+   * Fetch a page of cases from the API
+   */
+  const fetchCases = React.useCallback(
+    async (cursor?: string) => {
+      const [sortField, order] = sort.split(":");
+      const params = new URLSearchParams({
+        sort: sortField,
+        order,
+        limit: String(PAGE_SIZE),
+      });
+      if (debouncedSearch) params.set("search", debouncedSearch);
+      if (status) params.set("status", status);
+      if (cursor) params.set("cursor", cursor);
 
-  // Filter cases based on search
-  const filteredCases = mockCases.filter((c) =>
-    c.name.toLowerCase().includes(searchQuery.toLowerCase())
+      const response = await fetch(`/api/cases?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load cases");
+      }
+
+      return data as { cases: CaseListItem[]; nextCursor: string | null };
+    },
+    [debouncedSearch, status, sort]
   );
 
+  // Reload the first page whenever the search, filter or sort changes
+  React.useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchCases()
+      .then((data) => {
+        if (cancelled) return;
+        setCases(data.cases);
+        setNextCursor(data.nextCursor);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load cases",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchCases, toast]);
+
+  /**
+   * Append the next page of cases
+   */
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+
+    try {
+      const data = await fetchCases(nextCursor);
+      setCases((prev) => [...prev, ...data.cases]);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load cases",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const isFiltered = Boolean(debouncedSearch || status);
+
   return (
     <div className="max-w-4xl mx-auto space-y-6">
       {/* Page Header */}
@@ -115,21 +185,57 @@ export default function CasesPage() {
         </Button>
       </div>
 
-      {/* Search Bar */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search cases..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="pl-10"
-        />
+      {/* Search Bar and Sort */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search cases..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value)}
+          aria-label="Sort cases"
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+        >
+          {sortOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Status Filter */}
+      <div className="flex flex-wrap gap-2">
+        {statusFilters.map((filter) => (
+          <button
+            key={filter.value}
+            type="button"
+            onClick={() => setStatus(filter.value)}
+            className={`px-3 py-1.5 text-sm rounded-full border transition-colors ${
+              status === filter.value
+                ? "border-[#FD4D53] bg-[#FD4D53]/10 text-[#FD4D53]"
+                : "bg-muted text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
       </div>
 
       {/* Cases List */}
-      {filteredCases.length > 0 ? (
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : cases.length > 0 ? (
         <div className="space-y-4">
-          {filteredCases.map((caseItem) => (
+          {cases.map((caseItem) => (
             <Card
               key={caseItem.id}
               className="hover:border-[#FD4D53]/50 transition-colors"
@@ -168,6 +274,26 @@ export default function CasesPage() {
               </CardContent>
             </Card>
           ))}
+
+          {/* Pagination */}
+          {nextCursor && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Load more"
+                )}
+              </Button>
+            </div>
+          )}
         </div>
       ) : (
         /* Empty State */
@@ -176,11 +302,11 @@ export default function CasesPage() {
             <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-medium mb-2">No cases found</h3>
             <p className="text-muted-foreground mb-4">
-              {searchQuery
+              {isFiltered
                 ? "No cases match your search criteria"
                 : "Create your first case to start detecting fraud"}
             </p>
-            {!searchQuery && (
+            {!isFiltered && (
               <Button asChild className="bg-[#FD4D53] hover:bg-[#FD4D53]/90">
                 <Link href="/dashboard/new-case">
                   <PlusCircle className="mr-2 h-4 w-4" />
@@ -1,17 +1,34 @@
 /**
  * @fileoverview Integration Page
  * 
- * Page for managing external data integrations (API and SQL connections).
+ * Page for managing external data integrations (API and SQL connections,
+ * and inbound webhooks).
  * Allows users to connect their data sources for automated analysis.
+ * Integrations are loaded from and saved to /api/integrations; the number
+ * a user can add depends on their plan. Each card shows when the
+ * integration last synced and opens its sync schedule and history;
+ * webhook cards show their inbound URL and open their recent deliveries.
  */
 
 "use client";
 
 import * as React from "react";
-import { Plug, Plus, Database, Globe, Settings, Trash2 } from "lucide-react";
+import {
+  Plug,
+  Plus,
+  Database,
+  Globe,
+  Settings,
+  Trash2,
+  Loader2,
+  Activity,
+  Download,
+  Clock,
+  Inbox,
+  Webhook,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Card,
   CardContent,
@@ -19,47 +36,206 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/components/ui/use-toast";
+import {
+  IntegrationDialog,
+  type IntegrationItem,
+} from "@/components/integrations/integration-dialog";
+import { ConnectionTestPanel } from "@/components/integrations/connection-test";
+import { ImportDialog } from "@/components/integrations/import-dialog";
+import { SyncDialog } from "@/components/integrations/sync-dialog";
+import {
+  WebhookDeliveriesDialog,
+  webhookUrl,
+} from "@/components/integrations/webhook-deliveries-dialog";
+import { SQL_ENGINES, type ConnectionTestResult } from "@/lib/connectors/types";
+import type { SqlEngine } from "@/lib/validations/integration";
+import { TIER_NAMES, type Entitlements } from "@/lib/plans";
+
+/**
+ * Short description of an integration's target, e.g. the URL or host/database
+ */
+function describeTarget(integration: IntegrationItem): string {
+  const { config } = integration;
+  if (integration.type === "API") return String(config.url ?? "");
+  if (integration.type === "WEBHOOK") return webhookUrl(integration.id);
+
+  const engine = (config.engine as SqlEngine | undefined) ?? "postgres";
+  if (engine === "sqlite") return `SQLite • ${config.database}`;
+
+  const port = config.port ?? SQL_ENGINES[engine].defaultPort;
+  return `${SQL_ENGINES[engine].label} • ${config.host}:${port}/${config.database}`;
+}
 
 /**
- * Mock integrations data
+ * Whether an integration has something to import (SQL integrations need a
+ * table or query; webhooks receive their records instead)
  */
-const mockIntegrations: Array<{
-  id: string;
-  name: string;
-  type: "API" | "SQL";
-  status: "active" | "inactive";
-  lastSync: string;
-}> = [];
+function canImport(integration: IntegrationItem): boolean {
+  if (integration.type === "WEBHOOK") return false;
+  return integration.type === "API" || Boolean(integration.config.source);
+}
+
+/**
+ * Sync status line of a card, e.g. "Last synced: 19/10/2026, 14:00 • Next: ..."
+ */
+function describeSync(integration: IntegrationItem): string {
+  const last = integration.lastSyncedAt
+    ? new Date(integration.lastSyncedAt).toLocaleString()
+    : "Never";
+  if (integration.syncRequestedAt) return `Last synced: ${last} • Sync requested`;
+  if (integration.schedule && integration.nextSyncAt && integration.isActive) {
+    return `Last synced: ${last} • Next: ${new Date(integration.nextSyncAt).toLocaleString()}`;
+  }
+  return `Last synced: ${last}`;
+}
 
 /**
  * Integration Page Component
  */
 export default function IntegrationPage() {
   const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [editing, setEditing] = React.useState<IntegrationItem | null>(null);
+  // Integration whose data is being imported into a new case
+  const [importing, setImporting] = React.useState<IntegrationItem | null>(null);
+  // Integration whose sync schedule and history are open
+  const [syncing, setSyncing] = React.useState<IntegrationItem | null>(null);
+  // Webhook integration whose deliveries are open
+  const [inspecting, setInspecting] = React.useState<IntegrationItem | null>(null);
+  const [integrations, setIntegrations] = React.useState<IntegrationItem[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [entitlements, setEntitlements] = React.useState<Entitlements | null>(null);
+  // Latest connection test per integration, and the one being tested
+  const [testResults, setTestResults] = React.useState<Record<string, ConnectionTestResult>>({});
+  const [testingId, setTestingId] = React.useState<string | null>(null);
   const { toast } = useToast();
 
   /**
-   * Handle new integration creation
+   * Reload the plan usage (after adding or deleting an integration)
+   */
+  const loadEntitlements = React.useCallback(() => {
+    fetch("/api/entitlements")
+      .then((response) => (response.ok ? response.json() : { entitlements: null }))
+      .then((data) => setEntitlements(data.entitlements ?? null))
+      .catch(() => setEntitlements(null));
+  }, []);
+
+  // Load integrations and plan usage once on mount
+  React.useEffect(() => {
+    fetch("/api/integrations")
+      .then((response) => (response.ok ? response.json() : { integrations: [] }))
+      .then((data) => setIntegrations(data.integrations ?? []))
+      .catch(() => setIntegrations([]))
+      .finally(() => setIsLoading(false));
+    loadEntitlements();
+  }, [loadEntitlements]);
+
+  const remaining = entitlements?.integrations.remaining;
+  const canAdd = remaining !== 0;
+
+  /**
+   * Open the dialog for a new integration or to edit one
+   */
+  const openDialog = (integration: IntegrationItem | null) => {
+    setEditing(integration);
+    setIsDialogOpen(true);
+  };
+
+  /**
+   * Put a created or updated integration into the list
+   */
+  const handleSaved = (saved: IntegrationItem) => {
+    setIntegrations((current) =>
+      current.some((item) => item.id === saved.id)
+        ? current.map((item) => (item.id === saved.id ? saved : item))
+        : [saved, ...current]
+    );
+    loadEntitlements();
+  };
+
+  /**
+   * Enable or disable an integration
+   */
+  const handleToggle = async (integration: IntegrationItem, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/integrations/${integration.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update integration");
+      }
+
+      handleSaved(data.integration);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update integration",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Test a saved integration's connection
+   */
+  const handleTest = async (integration: IntegrationItem) => {
+    setTestingId(integration.id);
+
+    try {
+      const response = await fetch(`/api/integrations/${integration.id}/test`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to test connection");
+      }
+
+      setTestResults((current) => ({ ...current, [integration.id]: data.result }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to test connection",
+        variant: "destructive",
+      });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  /**
+   * Delete an integration after confirmation
    */
-  const handleCreateIntegration = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    toast({
-      title: "Integration created",
-      description: "Your data source has been connected successfully.",
-    });
-    
-    setIsDialogOpen(false);
+  const handleDelete = async (integration: IntegrationItem) => {
+    if (!window.confirm(`Delete the integration "${integration.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/integrations/${integration.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete integration");
+      }
+
+      setIntegrations((current) => current.filter((item) => item.id !== integration.id));
+      loadEntitlements();
+      toast({
+        title: "Integration deleted",
+        description: `${integration.name} has been removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete integration",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -73,183 +249,201 @@ export default function IntegrationPage() {
           </p>
         </div>
 
-        {/* Add Integration Dialog */}
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="bg-[#FD4D53] hover:bg-[#FD4D53]/90">
-              <Plus className="mr-2 h-4 w-4" />
-              Add Integration
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-lg">
-            <DialogHeader>
-              <DialogTitle>Add New Integration</DialogTitle>
-              <DialogDescription>
-                Connect an API endpoint or SQL database to automatically ingest data.
-              </DialogDescription>
-            </DialogHeader>
-
-            <Tabs defaultValue="api" className="mt-4">
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="api">
-                  <Globe className="mr-2 h-4 w-4" />
-                  API
-                </TabsTrigger>
-                <TabsTrigger value="sql">
-                  <Database className="mr-2 h-4 w-4" />
-                  SQL Database
-                </TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="api">
-                <form onSubmit={handleCreateIntegration} className="space-y-4 mt-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="api-name">Integration Name</Label>
-                    <Input
-                      id="api-name"
-                      placeholder="e.g., Transaction API"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="api-url">API Endpoint URL</Label>
-                    <Input
-                      id="api-url"
-                      type="url"
-                      placeholder="https://api.example.com/transactions"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="api-key">API Key (optional)</Label>
-                    <Input
-                      id="api-key"
-                      type="password"
-                      placeholder="Your API key"
-                    />
-                  </div>
-                  <Button type="submit" className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90">
-                    Create Integration
-                  </Button>
-                </form>
-              </TabsContent>
-
-              <TabsContent value="sql">
-                <form onSubmit={handleCreateIntegration} className="space-y-4 mt-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="sql-name">Integration Name</Label>
-                    <Input
-                      id="sql-name"
-                      placeholder="e.g., Accounting Database"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="sql-host">Host</Label>
-                    <Input
-                      id="sql-host"
-                      placeholder="localhost or database.example.com"
-                      required
-                    />
-                  </div>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="sql-port">Port</Label>
-                      <Input
-                        id="sql-port"
-                        placeholder="5432"
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="sql-database">Database</Label>
-                      <Input
-                        id="sql-database"
-                        placeholder="mydb"
-                        required
-                      />
-                    </div>
-                  </div>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="sql-user">Username</Label>
-                      <Input id="sql-user" required />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="sql-password">Password</Label>
-                      <Input id="sql-password" type="password" required />
-                    </div>
-                  </div>
-                  <Button type="submit" className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90">
-                    Create Integration
-                  </Button>
-                </form>
-              </TabsContent>
-            </Tabs>
-          </DialogContent>
-        </Dialog>
+        <Button
+          onClick={() => openDialog(null)}
+          disabled={!canAdd}
+          className="bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Integration
+        </Button>
       </div>
 
+      {/* Add / Edit Integration Dialog */}
+      <IntegrationDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        integration={editing}
+        onSaved={handleSaved}
+      />
+
+      {/* Import Into a New Case Dialog */}
+      <ImportDialog
+        open={importing !== null}
+        onOpenChange={(open) => !open && setImporting(null)}
+        integration={importing}
+      />
+
+      {/* Sync Schedule and History Dialog */}
+      <SyncDialog
+        open={syncing !== null}
+        onOpenChange={(open) => !open && setSyncing(null)}
+        integration={syncing}
+        canSchedule={entitlements?.scheduledSync ?? false}
+        onUpdated={(updated) => {
+          handleSaved(updated);
+          setSyncing(updated);
+        }}
+      />
+
+      {/* Webhook Deliveries Dialog */}
+      <WebhookDeliveriesDialog
+        open={inspecting !== null}
+        onOpenChange={(open) => !open && setInspecting(null)}
+        integration={inspecting}
+      />
+
       {/* Tier Notice */}
-      <Card className="border-[#FD4D53]/50 bg-[#FD4D53]/5">
-        <CardContent className="flex items-center gap-4 py-4">
-          <Plug className="h-8 w-8 text-[#FD4D53]" />
-          <div className="flex-1">
-            <h3 className="font-medium">Free Tier Limit</h3>
-            <p className="text-sm text-muted-foreground">
-              Free tier includes 0 integrations. Upgrade to Standard for 1 integration,
-              or Pro for unlimited.
-            </p>
-          </div>
-          <Button variant="outline" className="border-[#FD4D53] text-[#FD4D53]">
-            Upgrade
-          </Button>
-        </CardContent>
-      </Card>
+      {entitlements && !canAdd && (
+        <Card className="border-[#FD4D53]/50 bg-[#FD4D53]/5">
+          <CardContent className="flex items-center gap-4 py-4">
+            <Plug className="h-8 w-8 text-[#FD4D53]" />
+            <div className="flex-1">
+              <h3 className="font-medium">{TIER_NAMES[entitlements.tier]} Plan Limit</h3>
+              <p className="text-sm text-muted-foreground">
+                {entitlements.integrations.limit === 0
+                  ? `The ${TIER_NAMES[entitlements.tier]} plan does not include integrations. Upgrade to Standard for 1 integration, or Pro for unlimited.`
+                  : `You are using all ${entitlements.integrations.limit} integration(s) on your plan. Upgrade to Pro for unlimited integrations.`}
+              </p>
+            </div>
+            <Button variant="outline" className="border-[#FD4D53] text-[#FD4D53]">
+              Upgrade
+            </Button>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Integrations List */}
-      {mockIntegrations.length > 0 ? (
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16 text-muted-foreground">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : integrations.length > 0 ? (
         <div className="space-y-4">
-          {mockIntegrations.map((integration) => (
+          {integrations.map((integration) => (
             <Card key={integration.id}>
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
                   <div className="flex items-center gap-3">
                     {integration.type === "API" ? (
                       <Globe className="h-5 w-5 text-blue-500" />
+                    ) : integration.type === "WEBHOOK" ? (
+                      <Webhook className="h-5 w-5 text-purple-500" />
                     ) : (
                       <Database className="h-5 w-5 text-green-500" />
                     )}
                     <div>
                       <CardTitle className="text-lg">{integration.name}</CardTitle>
-                      <CardDescription>{integration.type} Integration</CardDescription>
+                      <CardDescription>
+                        {integration.type} Integration • {describeTarget(integration)}
+                      </CardDescription>
                     </div>
                   </div>
-                  <span
-                    className={`px-2 py-1 rounded-full text-xs font-medium ${
-                      integration.status === "active"
-                        ? "bg-green-500/10 text-green-500"
-                        : "bg-muted text-muted-foreground"
-                    }`}
-                  >
-                    {integration.status}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        integration.isActive
+                          ? "bg-green-500/10 text-green-500"
+                          : "bg-muted text-muted-foreground"
+                      }`}
+                    >
+                      {integration.isActive ? "active" : "inactive"}
+                    </span>
+                    <Switch
+                      checked={integration.isActive}
+                      onCheckedChange={(checked) => handleToggle(integration, checked)}
+                      aria-label={integration.isActive ? "Disable integration" : "Enable integration"}
+                    />
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">
-                    Last synced: {integration.lastSync}
+                    {integration.type === "WEBHOOK"
+                      ? "Receives signed deliveries"
+                      : describeSync(integration)}
                   </span>
                   <div className="flex gap-2">
-                    <Button variant="ghost" size="icon">
+                    {integration.type === "WEBHOOK" ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setInspecting(integration)}
+                        aria-label="Webhook URL and deliveries"
+                        title="Webhook URL and deliveries"
+                      >
+                        <Inbox className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setSyncing(integration)}
+                          disabled={!canImport(integration)}
+                          aria-label="Sync schedule and history"
+                          title={
+                            canImport(integration)
+                              ? "Sync schedule and history"
+                              : "Choose a table or query in the settings first"
+                          }
+                        >
+                          <Clock className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setImporting(integration)}
+                          disabled={!integration.isActive || !canImport(integration)}
+                          aria-label="Import data into a new case"
+                          title={
+                            canImport(integration)
+                              ? "Import data into a new case"
+                              : "Choose a table or query in the settings first"
+                          }
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleTest(integration)}
+                          disabled={testingId === integration.id}
+                          aria-label="Test connection"
+                        >
+                          {testingId === integration.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Activity className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openDialog(integration)}
+                      aria-label="Edit integration"
+                    >
                       <Settings className="h-4 w-4" />
                     </Button>
-                    <Button variant="ghost" size="icon" className="text-red-500">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-red-500"
+                      onClick={() => handleDelete(integration)}
+                      aria-label="Delete integration"
+                    >
                       <Trash2 className="h-4 w-4" />
                     </Button>
                   </div>
                 </div>
+                {testResults[integration.id] && (
+                  <div className="mt-4">
+                    <ConnectionTestPanel result={testResults[integration.id]} />
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -264,7 +458,8 @@ export default function IntegrationPage() {
               Connect your data sources to automate fraud detection
             </p>
             <Button
-              onClick={() => setIsDialogOpen(true)}
+              onClick={() => openDialog(null)}
+              disabled={!canAdd}
               className="bg-[#FD4D53] hover:bg-[#FD4D53]/90"
             >
               <Plus className="mr-2 h-4 w-4" />
@@ -4,9 +4,11 @@
  * Page for creating a new fraud detection case.
  * Features:
  * - CSV file upload
+ * - Column mapping wizard (format detection, role mapping, templates)
  * - Case naming
- * - AI module selection (Benford Law, M-Score)
+ * - AI module selection (Benford Law, M-Score, Z-Score)
  * - Analysis configuration
+ * - Remaining monthly upload quota for the user's plan
  */
 
 "use client";
@@ -26,30 +28,11 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
-
-/**
- * Available AI analysis modules
- */
-const analysisModules = [
-  {
-    id: "benford",
-    name: "Benford's Law",
-    description: "Detect anomalies in digit distribution patterns",
-    enabled: true,
-  },
-  {
-    id: "mscore",
-    name: "M-Score (Beneish)",
-    description: "Assess likelihood of financial manipulation",
-    enabled: true,
-  },
-  {
-    id: "zscore",
-    name: "Z-Score (Altman)",
-    description: "Evaluate financial health and bankruptcy risk",
-    enabled: false,
-  },
-];
+import { ColumnMappingCard } from "@/components/cases/column-mapping";
+import { SAMPLE_BYTES, type CsvFormat, type CsvPreview } from "@/lib/csv-format";
+import type { ColumnMapping } from "@/lib/column-mapping";
+import { TIER_NAMES, type Entitlements } from "@/lib/plans";
+import { ANALYSIS_MODULES, DEFAULT_MODULES } from "@/lib/analysis/modules";
 
 /**
  * New Case Page Component
@@ -59,13 +42,113 @@ export default function NewCasePage() {
   const [caseName, setCaseName] = React.useState("");
   const [description, setDescription] = React.useState("");
   const [file, setFile] = React.useState<File | null>(null);
-  const [selectedModules, setSelectedModules] = React.useState<string[]>(["benford", "mscore"]);
+  const [selectedModules, setSelectedModules] = React.useState<string[]>(DEFAULT_MODULES);
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [isDragging, setIsDragging] = React.useState(false);
 
+  // Column mapping wizard state
+  const [preview, setPreview] = React.useState<CsvPreview | null>(null);
+  const [mapping, setMapping] = React.useState<ColumnMapping | null>(null);
+  const [appliedTemplate, setAppliedTemplate] = React.useState<string | null>(null);
+  const [templateName, setTemplateName] = React.useState("");
+  const [isPreviewLoading, setIsPreviewLoading] = React.useState(false);
+
+  // Plan usage; null until loaded
+  const [entitlements, setEntitlements] = React.useState<Entitlements | null>(null);
+
   const router = useRouter();
   const { toast } = useToast();
 
+  // Load the remaining upload quota once on mount
+  React.useEffect(() => {
+    fetch("/api/entitlements")
+      .then((response) => (response.ok ? response.json() : { entitlements: null }))
+      .then((data) => setEntitlements(data.entitlements ?? null))
+      .catch(() => setEntitlements(null));
+  }, []);
+
+  const uploadsRemaining = entitlements?.uploads.remaining;
+  const isOutOfUploads = uploadsRemaining === 0;
+
+  /**
+   * Sends the start of the file to the server for format detection
+   *
+   * @param selectedFile - File chosen by the user
+   * @param overrides - Encoding or delimiter picked in the wizard
+   */
+  const loadPreview = async (
+    selectedFile: File,
+    overrides: Partial<Pick<CsvFormat, "encoding" | "delimiter">> = {}
+  ) => {
+    setIsPreviewLoading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile.slice(0, SAMPLE_BYTES), selectedFile.name);
+      formData.append("partial", String(selectedFile.size > SAMPLE_BYTES));
+      if (overrides.encoding) formData.append("encoding", overrides.encoding);
+      if (overrides.delimiter) formData.append("delimiter", overrides.delimiter);
+
+      const response = await fetch("/api/cases/preview", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to read file");
+      }
+
+      setPreview(data.preview);
+      setMapping(data.mapping);
+      setAppliedTemplate(data.template?.name ?? null);
+    } catch (error) {
+      setPreview(null);
+      setMapping(null);
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Failed to read file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  /**
+   * Selects a file and starts the mapping wizard
+   */
+  const selectFile = (selectedFile: File | null) => {
+    setFile(selectedFile);
+    setPreview(null);
+    setMapping(null);
+    setAppliedTemplate(null);
+    if (selectedFile) loadPreview(selectedFile);
+  };
+
+  /**
+   * Applies a mapping change from the wizard
+   *
+   * Changing the encoding or delimiter changes how the file splits into
+   * columns, so the preview is fetched again with the new settings.
+   */
+  const handleMappingChange = (next: ColumnMapping) => {
+    if (
+      file &&
+      mapping &&
+      (next.format.encoding !== mapping.format.encoding ||
+        next.format.delimiter !== mapping.format.delimiter)
+    ) {
+      loadPreview(file, {
+        encoding: next.format.encoding,
+        delimiter: next.format.delimiter,
+      });
+      return;
+    }
+    setMapping(next);
+  };
+
   /**
    * Handle file selection
    */
@@ -80,7 +163,7 @@ export default function NewCasePage() {
         });
         return;
       }
-      setFile(selectedFile);
+      selectFile(selectedFile);
     }
   };
 
@@ -101,7 +184,7 @@ export default function NewCasePage() {
         });
         return;
       }
-      setFile(droppedFile);
+      selectFile(droppedFile);
     }
   };
 
@@ -122,6 +205,15 @@ export default function NewCasePage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (selectedModules.length === 0) {
+      toast({
+        title: "No modules selected",
+        description: "Select at least one analysis module",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!file || !caseName.trim()) {
       toast({
         title: "Missing information",
@@ -134,20 +226,54 @@ export default function NewCasePage() {
     setIsSubmitting(true);
 
     try {
-      // In production, this would upload to the API
-      // For now, simulate the process
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      // Save the mapping first so the template exists even if analysis fails
+      if (preview && mapping && templateName.trim()) {
+        const templateResponse = await fetch("/api/mapping-templates", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: templateName.trim(),
+            headers: preview.headers,
+            mapping,
+          }),
+        });
+
+        if (!templateResponse.ok) {
+          const data = await templateResponse.json();
+          throw new Error(data.error || "Failed to save mapping template");
+        }
+      }
+
+      // Send the file and case details as a multipart upload
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("name", caseName.trim());
+      if (description.trim()) formData.append("description", description.trim());
+      selectedModules.forEach((moduleId) => formData.append("modules", moduleId));
+      if (mapping) formData.append("mapping", JSON.stringify(mapping));
+
+      const response = await fetch("/api/cases/upload", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create case");
+      }
 
       toast({
         title: "Case created!",
         description: "Your file is being analyzed. This may take a few minutes.",
       });
 
-      router.push("/dashboard/cases");
+      router.push(`/dashboard/cases/${data.case.id}`);
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to create case. Please try again.",
+        description:
+          error instanceof Error ? error.message : "Failed to create case. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -206,7 +332,7 @@ export default function NewCasePage() {
                     type="button"
                     variant="ghost"
                     size="sm"
-                    onClick={() => setFile(null)}
+                    onClick={() => selectFile(null)}
                   >
                     Remove
                   </Button>
@@ -234,6 +360,17 @@ export default function NewCasePage() {
           </CardContent>
         </Card>
 
+        {/* Column Mapping Wizard */}
+        <ColumnMappingCard
+          preview={preview}
+          mapping={mapping}
+          onMappingChange={handleMappingChange}
+          appliedTemplate={appliedTemplate}
+          templateName={templateName}
+          onTemplateNameChange={setTemplateName}
+          isLoading={isPreviewLoading}
+        />
+
         {/* Case Details Card */}
         <Card>
           <CardHeader>
@@ -277,7 +414,7 @@ export default function NewCasePage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {analysisModules.map((module) => (
+              {ANALYSIS_MODULES.map((module) => (
                 <label
                   key={module.id}
                   className={`flex items-center gap-4 p-4 rounded-lg border cursor-pointer transition-colors ${
@@ -311,18 +448,37 @@ export default function NewCasePage() {
         </Card>
 
         {/* Usage Notice */}
-        <div className="flex items-start gap-3 p-4 bg-muted rounded-lg">
-          <AlertCircle className="h-5 w-5 text-muted-foreground flex-shrink-0 mt-0.5" />
-          <div className="text-sm text-muted-foreground">
-            <p className="font-medium text-foreground">Free Tier Usage</p>
-            <p>You have 2 CSV uploads remaining this month.</p>
+        {entitlements && (
+          <div className="flex items-start gap-3 p-4 bg-muted rounded-lg">
+            <AlertCircle
+              className={`h-5 w-5 flex-shrink-0 mt-0.5 ${
+                isOutOfUploads ? "text-[#FD4D53]" : "text-muted-foreground"
+              }`}
+            />
+            <div className="text-sm text-muted-foreground">
+              <p className="font-medium text-foreground">
+                {TIER_NAMES[entitlements.tier]} Plan Usage
+              </p>
+              {uploadsRemaining === null ? (
+                <p>Your plan includes unlimited CSV uploads.</p>
+              ) : (
+                <p>
+                  You have {uploadsRemaining} CSV upload{uploadsRemaining === 1 ? "" : "s"}{" "}
+                  remaining this month.
+                  {isOutOfUploads &&
+                    ` Your quota resets on ${new Date(entitlements.uploads.resetsAt).toLocaleDateString()}, or upgrade your plan to upload more now.`}
+                </p>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Submit Button */}
         <Button
           type="submit"
-          disabled={isSubmitting || !file || !caseName.trim()}
+          disabled={
+            isSubmitting || isPreviewLoading || isOutOfUploads || !file || !caseName.trim()
+          }
           className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90"
         >
           {isSubmitting ? "Creating Case..." : "Create Case & Analyze"}
@@ -5,7 +5,7 @@
  * Features a ChatGPT-style interface with:
  * - Welcome message and quick actions
  * - Recent cases summary
- * - Usage statistics
+ * - Usage statistics (uploads and integrations against the plan's limits)
  * - Quick start prompts
  */
 
@@ -21,6 +21,7 @@ import {
   ArrowRight,
   Upload,
   Sparkles,
+  Loader2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -31,6 +32,19 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { StatusBadge } from "@/components/dashboard/status-badge";
+import { TIER_NAMES, type Entitlements } from "@/lib/plans";
+
+/**
+ * Recent case as returned by GET /api/cases
+ */
+interface RecentCase {
+  id: string;
+  name: string;
+  status: string;
+  createdAt: string;
+  anomaliesFound: number;
+}
 
 /**
  * Quick action cards for the dashboard
@@ -78,6 +92,31 @@ export default function DashboardPage() {
   // State for the chat input
   const [prompt, setPrompt] = React.useState("");
 
+  // Most recent cases for the "Recent Cases" card
+  const [recentCases, setRecentCases] = React.useState<RecentCase[]>([]);
+  const [isLoadingCases, setIsLoadingCases] = React.useState(true);
+
+  // Load the five newest cases once on mount
+  React.useEffect(() => {
+    fetch("/api/cases?limit=5&sort=createdAt&order=desc")
+      .then((response) => (response.ok ? response.json() : { cases: [] }))
+      .then((data) => setRecentCases(data.cases ?? []))
+      .catch(() => setRecentCases([]))
+      .finally(() => setIsLoadingCases(false));
+  }, []);
+
+  // Plan usage for the "This Month" cards; null until loaded
+  const [entitlements, setEntitlements] = React.useState<Entitlements | null>(null);
+
+  React.useEffect(() => {
+    fetch("/api/entitlements")
+      .then((response) => (response.ok ? response.json() : { entitlements: null }))
+      .then((data) => setEntitlements(data.entitlements ?? null))
+      .catch(() => setEntitlements(null));
+  }, []);
+
+  const tierName = entitlements ? TIER_NAMES[entitlements.tier] : "";
+
   /**
    * Handle prompt submission
    */
@@ -163,12 +202,16 @@ export default function DashboardPage() {
         <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
           <Card>
             <CardHeader className="pb-2">
-              <CardDescription>Cases Analyzed</CardDescription>
-              <CardTitle className="text-3xl">0</CardTitle>
+              <CardDescription>CSV Uploads</CardDescription>
+              <CardTitle className="text-3xl">{entitlements?.uploads.used ?? 0}</CardTitle>
             </CardHeader>
             <CardContent>
               <p className="text-xs text-muted-foreground">
-                2 remaining on Free tier
+                {!entitlements
+                  ? "Loading usage..."
+                  : entitlements.uploads.remaining === null
+                    ? `Unlimited on ${tierName} plan`
+                    : `${entitlements.uploads.remaining} remaining on ${tierName} plan`}
               </p>
             </CardContent>
           </Card>
@@ -200,11 +243,13 @@ export default function DashboardPage() {
           <Card>
             <CardHeader className="pb-2">
               <CardDescription>Integrations</CardDescription>
-              <CardTitle className="text-3xl">0</CardTitle>
+              <CardTitle className="text-3xl">{entitlements?.integrations.used ?? 0}</CardTitle>
             </CardHeader>
             <CardContent>
               <p className="text-xs text-muted-foreground">
-                Connect data sources
+                {entitlements?.integrations.limit === 0
+                  ? `Not included on ${tierName} plan`
+                  : "Connect data sources"}
               </p>
             </CardContent>
           </Card>
@@ -220,19 +265,55 @@ export default function DashboardPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-12">
-            <AlertTriangle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-medium mb-2">No cases yet</h3>
-            <p className="text-muted-foreground mb-4">
-              Upload your first CSV file to start detecting fraud patterns
-            </p>
-            <Button asChild className="bg-[#FD4D53] hover:bg-[#FD4D53]/90">
-              <Link href="/dashboard/new-case">
-                <PlusCircle className="mr-2 h-4 w-4" />
-                Create New Case
-              </Link>
-            </Button>
-          </div>
+          {isLoadingCases ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : recentCases.length > 0 ? (
+            <div className="divide-y">
+              {recentCases.map((caseItem) => (
+                <Link
+                  key={caseItem.id}
+                  href={`/dashboard/cases/${caseItem.id}`}
+                  className="flex items-center justify-between py-3 hover:text-[#FD4D53] transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium">{caseItem.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(caseItem.createdAt).toLocaleDateString()} ·{" "}
+                        {caseItem.anomaliesFound} anomalies
+                      </p>
+                    </div>
+                  </div>
+                  <StatusBadge status={caseItem.status} />
+                </Link>
+              ))}
+              <div className="pt-4">
+                <Button variant="outline" size="sm" asChild>
+                  <Link href="/dashboard/cases">
+                    View all cases
+                    <ArrowRight className="ml-2 h-4 w-4" />
+                  </Link>
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <AlertTriangle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">No cases yet</h3>
+              <p className="text-muted-foreground mb-4">
+                Upload your first CSV file to start detecting fraud patterns
+              </p>
+              <Button asChild className="bg-[#FD4D53] hover:bg-[#FD4D53]/90">
+                <Link href="/dashboard/new-case">
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Create New Case
+                </Link>
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -2,6 +2,7 @@
  * @fileoverview Profile Page
  * 
  * User profile management page for account information and subscription.
+ * Subscription usage and limits are loaded from GET /api/entitlements.
  */
 
 "use client";
@@ -30,6 +31,13 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/components/ui/use-toast";
+import {
+  formatUsage,
+  TIER_NAMES,
+  TIER_PRICES_USD,
+  usagePercent,
+  type Entitlements,
+} from "@/lib/plans";
 
 /**
  * Profile Page Component
@@ -44,15 +52,18 @@ export default function ProfilePage() {
     company: "Acme Corp",
     role: "Fraud Analyst",
     bio: "Experienced fraud analyst with a focus on financial crime detection.",
-    tier: "Standard",
-    casesUsed: 45,
-    casesLimit: 100,
-    integrationsUsed: 2,
-    integrationsLimit: 5,
-    nextBillingDate: "2024-02-15",
-    monthlyPrice: 499,
   });
 
+  // Plan usage; null until loaded
+  const [entitlements, setEntitlements] = React.useState<Entitlements | null>(null);
+
+  React.useEffect(() => {
+    fetch("/api/entitlements")
+      .then((response) => (response.ok ? response.json() : { entitlements: null }))
+      .then((data) => setEntitlements(data.entitlements ?? null))
+      .catch(() => setEntitlements(null));
+  }, []);
+
   /**
    * Save profile changes
    */
@@ -105,10 +116,12 @@ export default function ProfilePage() {
             <div>
               <h3 className="font-semibold text-lg">{user.name}</h3>
               <p className="text-muted-foreground">{user.email}</p>
-              <div className="flex items-center gap-2 mt-2">
-                <Crown className="h-4 w-4 text-[#FD4D53]" />
-                <span className="text-sm font-medium">{user.tier} Plan</span>
-              </div>
+              {entitlements && (
+                <div className="flex items-center gap-2 mt-2">
+                  <Crown className="h-4 w-4 text-[#FD4D53]" />
+                  <span className="text-sm font-medium">{TIER_NAMES[entitlements.tier]} Plan</span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -169,52 +182,64 @@ export default function ProfilePage() {
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Current Plan */}
-          <div className="p-4 bg-muted rounded-lg">
-            <div className="flex items-center justify-between mb-4">
-              <div>
-                <h3 className="font-semibold">{user.tier} Plan</h3>
-                <p className="text-sm text-muted-foreground">
-                  ${user.monthlyPrice}/month • Billed monthly
-                </p>
-              </div>
-              <Button variant="outline">Change Plan</Button>
-            </div>
-            <Separator className="my-4" />
-            <div className="grid grid-cols-2 gap-4 text-sm">
-              <div>
-                <p className="text-muted-foreground">Cases Used</p>
-                <p className="font-medium">
-                  {user.casesUsed} / {user.casesLimit}
-                </p>
-                <div className="w-full h-2 bg-background rounded-full mt-1">
-                  <div
-                    className="h-full bg-[#FD4D53] rounded-full"
-                    style={{ width: `${(user.casesUsed / user.casesLimit) * 100}%` }}
-                  />
+          {entitlements && (
+            <div className="p-4 bg-muted rounded-lg">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="font-semibold">{TIER_NAMES[entitlements.tier]} Plan</h3>
+                  <p className="text-sm text-muted-foreground">
+                    ${TIER_PRICES_USD[entitlements.tier]}/month • Billed monthly
+                  </p>
                 </div>
+                <Button variant="outline">Change Plan</Button>
               </div>
-              <div>
-                <p className="text-muted-foreground">Integrations</p>
-                <p className="font-medium">
-                  {user.integrationsUsed} / {user.integrationsLimit}
-                </p>
-                <div className="w-full h-2 bg-background rounded-full mt-1">
-                  <div
-                    className="h-full bg-[#FD4D53] rounded-full"
-                    style={{ width: `${(user.integrationsUsed / user.integrationsLimit) * 100}%` }}
-                  />
+              <Separator className="my-4" />
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">CSV Uploads This Month</p>
+                  <p className="font-medium">
+                    {formatUsage(entitlements.uploads.used, entitlements.uploads.limit)}
+                  </p>
+                  <div className="w-full h-2 bg-background rounded-full mt-1">
+                    <div
+                      className="h-full bg-[#FD4D53] rounded-full"
+                      style={{
+                        width: `${usagePercent(entitlements.uploads.used, entitlements.uploads.limit)}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Integrations</p>
+                  <p className="font-medium">
+                    {entitlements.integrations.limit === 0
+                      ? "Not included"
+                      : formatUsage(entitlements.integrations.used, entitlements.integrations.limit)}
+                  </p>
+                  <div className="w-full h-2 bg-background rounded-full mt-1">
+                    <div
+                      className="h-full bg-[#FD4D53] rounded-full"
+                      style={{
+                        width: `${usagePercent(entitlements.integrations.used, entitlements.integrations.limit)}%`,
+                      }}
+                    />
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Billing Info */}
           <div className="space-y-4">
             <h4 className="font-medium">Billing Information</h4>
             <div className="grid gap-2 text-sm">
               <div className="flex justify-between">
-                <span className="text-muted-foreground">Next billing date</span>
-                <span>{user.nextBillingDate}</span>
+                <span className="text-muted-foreground">Usage resets on</span>
+                <span>
+                  {entitlements
+                    ? new Date(entitlements.uploads.resetsAt).toLocaleDateString()
+                    : "—"}
+                </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Payment method</span>
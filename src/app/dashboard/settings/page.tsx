@@ -2,15 +2,18 @@
  * @fileoverview Settings Page
  * 
  * User settings page for account preferences and configuration.
+ * API keys for the public API are managed here (see api-keys.tsx), and
+ * so are outbound webhook endpoints (see webhooks.tsx), the password
+ * (see security.tsx), two-factor authentication (see two-factor.tsx) and
+ * signed-in devices (see sessions.tsx).
  */
 
 "use client";
 
 import * as React from "react";
 import { useTheme } from "next-themes";
-import { Save, Moon, Sun, Bell, Shield, Key } from "lucide-react";
+import { Save, Moon, Sun, Bell } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import {
@@ -22,6 +25,11 @@ import {
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/components/ui/use-toast";
+import { ApiKeysCard } from "@/components/settings/api-keys";
+import { WebhooksCard } from "@/components/settings/webhooks";
+import { SecurityCard } from "@/components/settings/security";
+import { SessionsCard } from "@/components/settings/sessions";
+import { TwoFactorCard } from "@/components/settings/two-factor";
 
 /**
  * Settings Page Component
@@ -154,62 +162,19 @@ export default function SettingsPage() {
       </Card>
 
       {/* API Keys */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Key className="h-5 w-5" />
-            API Keys
-          </CardTitle>
-          <CardDescription>
-            Manage API keys for programmatic access
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="p-4 bg-muted rounded-lg">
-            <p className="text-sm text-muted-foreground mb-4">
-              API keys allow you to access Fraudlr programmatically. Keep your
-              keys secure and never share them publicly.
-            </p>
-            <Button variant="outline">Generate New API Key</Button>
-          </div>
-        </CardContent>
-      </Card>
+      <ApiKeysCard />
+
+      {/* Outbound Webhooks */}
+      <WebhooksCard />
 
       {/* Security Settings */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Shield className="h-5 w-5" />
-            Security
-          </CardTitle>
-          <CardDescription>
-            Manage your account security settings
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="current-password">Change Password</Label>
-            <div className="grid gap-4">
-              <Input
-                id="current-password"
-                type="password"
-                placeholder="Current password"
-              />
-              <Input
-                type="password"
-                placeholder="New password"
-              />
-              <Input
-                type="password"
-                placeholder="Confirm new password"
-              />
-            </div>
-            <Button variant="outline" className="mt-2">
-              Update Password
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+      <SecurityCard />
+
+      {/* Two-Factor Authentication */}
+      <TwoFactorCard />
+
+      {/* Active Sessions */}
+      <SessionsCard />
 
       {/* Save Button */}
       <div className="flex justify-end">
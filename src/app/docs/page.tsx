@@ -0,0 +1,53 @@
+/**
+ * @fileoverview API Docs Page
+ *
+ * The interactive reference of the public API at /docs, rendered from
+ * the OpenAPI document at /api/v1/openapi.json. The landing page's Docs
+ * section links here.
+ */
+
+import type { Metadata } from "next";
+import Link from "next/link";
+import Image from "next/image";
+import { ArrowLeft } from "lucide-react";
+import { ApiReference } from "@/components/docs/api-reference";
+
+export const metadata: Metadata = {
+  title: "API Reference",
+};
+
+/**
+ * API Docs Page Component
+ */
+export default function DocsPage() {
+  return (
+    <main className="min-h-screen bg-white text-[#0F0F0F]">
+      <header className="border-b">
+        <div className="container mx-auto flex items-center justify-between px-4 py-4">
+          <Link href="/" className="flex items-center gap-2">
+            <Image
+              src="/images/Fraudlr Icon logo red.png"
+              alt="Fraudlr Logo"
+              width={32}
+              height={32}
+            />
+            <span className="text-lg font-bold">Fraudlr API</span>
+          </Link>
+          <div className="flex items-center gap-6 text-sm">
+            <Link href="/dashboard/settings" className="hover:text-[#FD4D53]">
+              Get an API key
+            </Link>
+            <Link href="/" className="flex items-center gap-1 hover:text-[#FD4D53]">
+              <ArrowLeft className="h-4 w-4" />
+              Back to site
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        <ApiReference />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Forgot Password Page
+ *
+ * Asks for the account email and requests a password reset link.
+ * Features:
+ * - Same confirmation whether or not the email is registered
+ * - Link back to the login page
+ * - Error handling (including too many requests)
+ */
+
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, MailCheck } from "lucide-react";
+
+/**
+ * Forgot Password Page Component
+ *
+ * After submitting, the form is replaced by a note to check the inbox.
+ */
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = React.useState("");
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [sentMessage, setSentMessage] = React.useState<string | null>(null);
+  const { toast } = useToast();
+
+  /**
+   * Handle form submission
+   * Requests a reset link; the answer never says whether the email exists
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+
+      setSentMessage(data.message);
+    } catch (error) {
+      toast({
+        title: "Could not send reset link",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0F0F0F] flex items-center justify-center p-8">
+      <div className="w-full max-w-md space-y-8">
+        {/* Logo */}
+        <div className="text-center">
+          <Image
+            src="/images/Fraudlr Icon logo red.png"
+            alt="Fraudlr"
+            width={60}
+            height={60}
+            className="mx-auto mb-4"
+          />
+          <h2 className="text-2xl font-bold text-[#F3F3F3]">
+            Forgot your password?
+          </h2>
+          <p className="mt-2 text-[#545454]">
+            Enter your email and we&apos;ll send you a link to choose a new one.
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <div className="rounded-lg border border-[#545454] bg-[#1a1a1a] p-6 text-center space-y-3">
+            <MailCheck className="mx-auto h-8 w-8 text-[#FD4D53]" />
+            <p className="text-[#D9D9D9]">{sentMessage}</p>
+            <p className="text-sm text-[#545454]">
+              The link works once and expires after an hour.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Email Field */}
+            <div className="space-y-2">
+              <Label htmlFor="email" className="text-[#D9D9D9]">
+                Email address
+              </Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="name@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                disabled={isLoading}
+                className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+              />
+            </div>
+
+            {/* Submit Button */}
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="w-full h-12 bg-[#FD4D53] hover:bg-[#FD4D53]/90 font-semibold"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending link...
+                </>
+              ) : (
+                "Send reset link"
+              )}
+            </Button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-[#545454]">
+          Remembered it?{" "}
+          <Link href="/login" className="text-[#FD4D53] hover:underline font-medium">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
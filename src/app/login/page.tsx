@@ -4,6 +4,10 @@
  * The authentication login page following shadcn/ui authentication style.
  * Features:
  * - Email/password login form
+ * - Authentication code step for accounts with two-factor authentication
+ * - Two-factor setup step for accounts that must use it but have not set
+ *   it up yet
+ * - Returns to the page in `?next=` (set by the middleware) after login
  * - Link to signup page
  * - Form validation
  * - Error handling
@@ -19,6 +23,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
+import { MfaEnrollment } from "@/components/auth/mfa-enrollment";
+import { safeNextPath } from "@/lib/utils";
 import { Loader2 } from "lucide-react";
 
 /**
@@ -32,11 +38,23 @@ export default function LoginPage() {
   const [email, setEmail] = React.useState("");
   const [password, setPassword] = React.useState("");
   const [isLoading, setIsLoading] = React.useState(false);
+  // Second step for accounts with two-factor authentication
+  const [mfaRequired, setMfaRequired] = React.useState(false);
+  const [code, setCode] = React.useState("");
+  // Two-factor setup for accounts that must use it
+  const [mfaSetup, setMfaSetup] = React.useState(false);
   
   // Hooks for navigation and notifications
   const router = useRouter();
   const { toast } = useToast();
 
+  /**
+   * Page to open after login: the `next` query parameter if it is a path
+   * on this site, otherwise the dashboard
+   */
+  const nextPath = () =>
+    safeNextPath(new URLSearchParams(window.location.search).get("next"));
+
   /**
    * Handle form submission
    * Sends credentials to the login API and redirects on success
@@ -59,14 +77,26 @@ export default function LoginPage() {
         throw new Error(data.error || "Login failed");
       }
 
+      // The password was right; ask for the authentication code next
+      if (data.mfaRequired) {
+        setMfaRequired(true);
+        return;
+      }
+
+      // MFA is required but not set up yet; set it up first
+      if (data.mfaSetupRequired) {
+        setMfaSetup(true);
+        return;
+      }
+
       // Show success message
       toast({
         title: "Welcome back!",
         description: "You have successfully logged in.",
       });
 
-      // Redirect to dashboard
-      router.push("/dashboard");
+      // Redirect to the requested page, or the dashboard
+      router.push(nextPath());
       router.refresh();
     } catch (error) {
       // Show error message
@@ -80,6 +110,52 @@ export default function LoginPage() {
     }
   };
 
+  /**
+   * Handle authentication code submission
+   * Sends the code (or a recovery code) and redirects on success
+   */
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/mfa/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        // The challenge expired: start over with the password
+        if (response.status === 401) {
+          setMfaRequired(false);
+          setCode("");
+        }
+        throw new Error(data.error || "Verification failed");
+      }
+
+      toast({
+        title: "Welcome back!",
+        description: data.usedRecoveryCode
+          ? "You used a recovery code. Create new ones in Settings if you are running low."
+          : "You have successfully logged in.",
+      });
+
+      router.push(nextPath());
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Login failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-[#0F0F0F] flex">
       {/* Left Side - Branding */}
@@ -135,66 +211,115 @@ export default function LoginPage() {
             </p>
           </div>
 
-          {/* Login Form */}
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Email Field */}
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-[#D9D9D9]">
-                Email address
-              </Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="name@company.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
+          {mfaSetup ? (
+            <MfaEnrollment
+              onDone={() => {
+                router.push(nextPath());
+                router.refresh();
+              }}
+              onExpired={() => setMfaSetup(false)}
+            />
+          ) : mfaRequired ? (
+            /* Authentication Code Form */
+            <form onSubmit={handleVerify} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="code" className="text-[#D9D9D9]">
+                  Authentication code
+                </Label>
+                <Input
+                  id="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="6-digit code or recovery code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                  disabled={isLoading}
+                  className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+                />
+                <p className="text-sm text-[#545454]">
+                  Open your authenticator app, or enter one of your recovery codes.
+                </p>
+              </div>
+
+              <Button
+                type="submit"
                 disabled={isLoading}
-                className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
-              />
-            </div>
-
-            {/* Password Field */}
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="password" className="text-[#D9D9D9]">
-                  Password
+                className="w-full h-12 bg-[#FD4D53] hover:bg-[#FD4D53]/90 font-semibold"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  "Verify"
+                )}
+              </Button>
+            </form>
+          ) : (
+            /* Login Form */
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Email Field */}
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-[#D9D9D9]">
+                  Email address
                 </Label>
-                <Link
-                  href="/forgot-password"
-                  className="text-sm text-[#FD4D53] hover:underline"
-                >
-                  Forgot password?
-                </Link>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="name@company.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={isLoading}
+                  className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+                />
+              </div>
+
+              {/* Password Field */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password" className="text-[#D9D9D9]">
+                    Password
+                  </Label>
+                  <Link
+                    href="/forgot-password"
+                    className="text-sm text-[#FD4D53] hover:underline"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={isLoading}
+                  className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+                />
               </div>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
+
+              {/* Submit Button */}
+              <Button
+                type="submit"
                 disabled={isLoading}
-                className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
-              />
-            </div>
-
-            {/* Submit Button */}
-            <Button
-              type="submit"
-              disabled={isLoading}
-              className="w-full h-12 bg-[#FD4D53] hover:bg-[#FD4D53]/90 font-semibold"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                "Sign in"
-              )}
-            </Button>
-          </form>
+                className="w-full h-12 bg-[#FD4D53] hover:bg-[#FD4D53]/90 font-semibold"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  "Sign in"
+                )}
+              </Button>
+            </form>
+          )}
 
           {/* Terms Notice */}
           <p className="text-center text-xs text-[#545454]">
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Reset Password Page
+ *
+ * Opened from the link in a password reset email. The token comes from
+ * the `token` query parameter; the user picks a new password and is sent
+ * to the login page once it is saved.
+ */
+
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2 } from "lucide-react";
+
+/**
+ * New password form (reads the token from the URL)
+ */
+function ResetPasswordForm() {
+  const [password, setPassword] = React.useState("");
+  const [confirmPassword, setConfirmPassword] = React.useState("");
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const router = useRouter();
+  const token = useSearchParams().get("token");
+  const { toast } = useToast();
+
+  /**
+   * Handle form submission
+   * Checks the two passwords match, then saves the new password
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords do not match",
+        description: "Enter the same password twice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Password reset failed");
+      }
+
+      toast({
+        title: "Password reset",
+        description: data.message,
+      });
+
+      router.push("/login");
+    } catch (error) {
+      toast({
+        title: "Password reset failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <p className="text-center text-[#D9D9D9]">
+        This reset link is incomplete.{" "}
+        <Link href="/forgot-password" className="text-[#FD4D53] hover:underline font-medium">
+          Request a new one
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* New Password Field */}
+      <div className="space-y-2">
+        <Label htmlFor="password" className="text-[#D9D9D9]">
+          New password
+        </Label>
+        <Input
+          id="password"
+          type="password"
+          placeholder="At least 8 characters"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          minLength={8}
+          disabled={isLoading}
+          className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+        />
+      </div>
+
+      {/* Confirm Password Field */}
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword" className="text-[#D9D9D9]">
+          Confirm new password
+        </Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          placeholder="Enter the password again"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          disabled={isLoading}
+          className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+        />
+      </div>
+
+      {/* Submit Button */}
+      <Button
+        type="submit"
+        disabled={isLoading}
+        className="w-full h-12 bg-[#FD4D53] hover:bg-[#FD4D53]/90 font-semibold"
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          "Reset password"
+        )}
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Reset Password Page Component
+ *
+ * The form reads the query string, so it renders inside a Suspense boundary.
+ */
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-[#0F0F0F] flex items-center justify-center p-8">
+      <div className="w-full max-w-md space-y-8">
+        {/* Logo */}
+        <div className="text-center">
+          <Image
+            src="/images/Fraudlr Icon logo red.png"
+            alt="Fraudlr"
+            width={60}
+            height={60}
+            className="mx-auto mb-4"
+          />
+          <h2 className="text-2xl font-bold text-[#F3F3F3]">
+            Choose a new password
+          </h2>
+        </div>
+
+        <React.Suspense fallback={null}>
+          <ResetPasswordForm />
+        </React.Suspense>
+
+        <p className="text-center text-sm text-[#545454]">
+          <Link href="/login" className="text-[#FD4D53] hover:underline font-medium">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
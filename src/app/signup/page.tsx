@@ -3,6 +3,8 @@
  * 
  * The user registration page following shadcn/ui authentication style.
  * Creates a new user account in the database and redirects to dashboard.
+ * When every account must use two-factor authentication, it is set up
+ * first (see MfaEnrollment).
  */
 
 "use client";
@@ -15,6 +17,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
+import { MfaEnrollment } from "@/components/auth/mfa-enrollment";
 import { Loader2 } from "lucide-react";
 
 /**
@@ -30,6 +33,8 @@ export default function SignupPage() {
   const [password, setPassword] = React.useState("");
   const [confirmPassword, setConfirmPassword] = React.useState("");
   const [isLoading, setIsLoading] = React.useState(false);
+  // Two-factor setup, when every account must use it
+  const [mfaSetup, setMfaSetup] = React.useState(false);
   
   // Hooks for navigation and notifications
   const router = useRouter();
@@ -78,6 +83,12 @@ export default function SignupPage() {
         throw new Error(data.error || "Registration failed");
       }
 
+      // The account exists; two-factor authentication comes before the session
+      if (data.mfaSetupRequired) {
+        setMfaSetup(true);
+        return;
+      }
+
       // Show success message
       toast({
         title: "Account created!",
@@ -170,95 +181,105 @@ export default function SignupPage() {
             </p>
           </div>
 
-          {/* Signup Form */}
-          <form onSubmit={handleSubmit} className="space-y-5">
-            {/* Name Field */}
-            <div className="space-y-2">
-              <Label htmlFor="name" className="text-[#D9D9D9]">
-                Full name
-              </Label>
-              <Input
-                id="name"
-                type="text"
-                placeholder="John Doe"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                required
-                disabled={isLoading}
-                className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
-              />
-            </div>
+          {mfaSetup ? (
+            <MfaEnrollment
+              onDone={() => {
+                router.push("/dashboard");
+                router.refresh();
+              }}
+              onExpired={() => router.push("/login")}
+            />
+          ) : (
+            /* Signup Form */
+            <form onSubmit={handleSubmit} className="space-y-5">
+              {/* Name Field */}
+              <div className="space-y-2">
+                <Label htmlFor="name" className="text-[#D9D9D9]">
+                  Full name
+                </Label>
+                <Input
+                  id="name"
+                  type="text"
+                  placeholder="John Doe"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                  disabled={isLoading}
+                  className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+                />
+              </div>
 
-            {/* Email Field */}
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-[#D9D9D9]">
-                Email address
-              </Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="name@company.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                disabled={isLoading}
-                className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
-              />
-            </div>
+              {/* Email Field */}
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-[#D9D9D9]">
+                  Email address
+                </Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="name@company.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={isLoading}
+                  className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+                />
+              </div>
 
-            {/* Password Field */}
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-[#D9D9D9]">
-                Password
-              </Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Create a strong password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                disabled={isLoading}
-                className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
-              />
-              <p className="text-xs text-[#545454]">
-                Must be at least 8 characters
-              </p>
-            </div>
+              {/* Password Field */}
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-[#D9D9D9]">
+                  Password
+                </Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Create a strong password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={isLoading}
+                  className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+                />
+                <p className="text-xs text-[#545454]">
+                  Must be at least 8 characters
+                </p>
+              </div>
 
-            {/* Confirm Password Field */}
-            <div className="space-y-2">
-              <Label htmlFor="confirmPassword" className="text-[#D9D9D9]">
-                Confirm password
-              </Label>
-              <Input
-                id="confirmPassword"
-                type="password"
-                placeholder="Confirm your password"
-                value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
-                required
-                disabled={isLoading}
-                className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
-              />
-            </div>
+              {/* Confirm Password Field */}
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword" className="text-[#D9D9D9]">
+                  Confirm password
+                </Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Confirm your password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  disabled={isLoading}
+                  className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+                />
+              </div>
 
-            {/* Submit Button */}
-            <Button
-              type="submit"
-              disabled={isLoading}
-              className="w-full h-12 bg-[#FD4D53] hover:bg-[#FD4D53]/90 font-semibold"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Creating account...
-                </>
-              ) : (
-                "Create account"
-              )}
-            </Button>
-          </form>
+              {/* Submit Button */}
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="w-full h-12 bg-[#FD4D53] hover:bg-[#FD4D53]/90 font-semibold"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating account...
+                  </>
+                ) : (
+                  "Create account"
+                )}
+              </Button>
+            </form>
+          )}
 
           {/* Terms Notice */}
           <p className="text-center text-xs text-[#545454]">
@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Two-Factor Enrollment Component
+ *
+ * Sign-in step for accounts that must use two-factor authentication but
+ * have not set it up yet (shown by the login and signup pages). Shows the
+ * QR code and secret for an authenticator app, asks for a first code, then
+ * shows the recovery codes once. Enabling MFA this way also starts the
+ * session, so `onDone` can go straight on to the app.
+ */
+
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import { Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+
+/**
+ * Setup details as returned by POST /api/auth/mfa/setup
+ */
+interface MfaSetup {
+  secret: string;
+  qrCode: string;
+}
+
+interface MfaEnrollmentProps {
+  /** Called after the recovery codes were shown, with the session started */
+  onDone: () => void;
+  /** Called when the sign-in expired and has to start over */
+  onExpired: () => void;
+}
+
+/**
+ * Two-Factor Enrollment Component
+ */
+export function MfaEnrollment({ onDone, onExpired }: MfaEnrollmentProps) {
+  const [setup, setSetup] = React.useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(null);
+  const [code, setCode] = React.useState("");
+  const [isLoading, setIsLoading] = React.useState(false);
+  const { toast } = useToast();
+
+  /**
+   * Show an error; an expired sign-in starts over
+   */
+  const handleError = React.useCallback(
+    (response: Response, error: string) => {
+      toast({ title: "Two-factor setup failed", description: error, variant: "destructive" });
+      if (response.status === 401) onExpired();
+    },
+    [onExpired, toast]
+  );
+
+  // Create the secret once on mount (a new secret replaces the previous one)
+  const started = React.useRef(false);
+  React.useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    fetch("/api/auth/mfa/setup", { method: "POST" }).then(async (response) => {
+      const data = await response.json();
+      if (!response.ok) {
+        handleError(response, data.error || "Setup failed");
+        return;
+      }
+      setSetup({ secret: data.secret, qrCode: data.qrCode });
+    });
+  }, [handleError]);
+
+  /**
+   * Confirm the first code, turning MFA on and starting the session
+   */
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/mfa/enable", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        handleError(response, data.error || "Verification failed");
+        return;
+      }
+
+      setRecoveryCodes(data.recoveryCodes);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Copy the recovery codes to the clipboard
+   */
+  const handleCopyCodes = async () => {
+    await navigator.clipboard.writeText((recoveryCodes ?? []).join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-[#D9D9D9]">
+          Each recovery code signs you in once without the app. Store them
+          somewhere safe; they are not shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 p-4 bg-[#1a1a1a] border border-[#545454] rounded-lg font-mono text-sm text-[#F3F3F3]">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopyCodes} className="flex-1 h-12">
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button
+            onClick={onDone}
+            className="flex-1 h-12 bg-[#FD4D53] hover:bg-[#FD4D53]/90 font-semibold"
+          >
+            Continue
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!setup) {
+    return (
+      <div className="flex justify-center py-8 text-[#545454]">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-6">
+      <p className="text-sm text-[#D9D9D9]">
+        Your account requires two-factor authentication. Scan the QR code
+        with your authenticator app, then enter the code it shows.
+      </p>
+      <Image
+        src={setup.qrCode}
+        unoptimized
+        alt="QR code for your authenticator app"
+        width={200}
+        height={200}
+        className="mx-auto rounded-lg bg-white"
+      />
+      <div className="space-y-1">
+        <p className="text-xs text-[#545454]">Or enter this key by hand:</p>
+        <p className="font-mono text-xs break-all text-[#D9D9D9]">{setup.secret}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="setup-code" className="text-[#D9D9D9]">
+          Authentication code
+        </Label>
+        <Input
+          id="setup-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="6-digit code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          required
+          autoFocus
+          disabled={isLoading}
+          className="bg-[#1a1a1a] border-[#545454] text-[#F3F3F3] placeholder:text-[#545454] h-12"
+        />
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isLoading}
+        className="w-full h-12 bg-[#FD4D53] hover:bg-[#FD4D53]/90 font-semibold"
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          "Turn On and Continue"
+        )}
+      </Button>
+    </form>
+  );
+}
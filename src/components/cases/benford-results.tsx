@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Benford Results Component
+ *
+ * Renders the Benford's Law module output on the case detail page:
+ * - Observed vs expected digit distribution chart for each test
+ * - Chi-square, Kolmogorov-Smirnov and MAD conformity summary
+ * - Source rows that fall in over-represented digit bins
+ */
+
+"use client";
+
+import * as React from "react";
+import { BarChart3 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type {
+  BenfordConformity,
+  BenfordResult,
+  BenfordTestId,
+  BenfordTestResult,
+} from "@/lib/analysis/benford";
+
+/**
+ * Tab labels for each Benford test
+ */
+const testLabels: Record<BenfordTestId, string> = {
+  firstDigit: "First Digit",
+  secondDigit: "Second Digit",
+  firstTwoDigits: "First Two",
+  lastTwoDigits: "Last Two",
+};
+
+/**
+ * Display styling for MAD conformity levels
+ */
+const conformityStyles: Record<BenfordConformity, { text: string; className: string }> = {
+  close: { text: "Close conformity", className: "text-green-500 bg-green-500/10" },
+  acceptable: { text: "Acceptable conformity", className: "text-blue-500 bg-blue-500/10" },
+  marginal: { text: "Marginal conformity", className: "text-yellow-500 bg-yellow-500/10" },
+  nonconformity: { text: "Nonconformity", className: "text-red-500 bg-red-500/10" },
+};
+
+/**
+ * Observed vs expected bar chart
+ *
+ * Bars show observed frequencies (red when the bin is statistically
+ * significant); the dark markers show the Benford expectation.
+ */
+function DistributionChart({ result }: { result: BenfordTestResult }) {
+  const width = 600;
+  const height = 200;
+  const padding = 24;
+
+  const max = Math.max(...result.bins.map((b) => Math.max(b.observed, b.expected)), 0.0001);
+  const slot = (width - padding * 2) / result.bins.length;
+  const barWidth = Math.max(slot * 0.7, 1);
+  const y = (value: number) => height - padding - (value / max) * (height - padding * 2);
+
+  // Label every bin for small tests, every tenth for the two-digit tests
+  const labelEvery = result.bins.length > 20 ? 10 : 1;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`${testLabels[result.test]} observed vs expected distribution`}
+    >
+      {result.bins.map((bin, i) => {
+        const x = padding + i * slot + (slot - barWidth) / 2;
+        return (
+          <g key={bin.digits}>
+            <rect
+              x={x}
+              y={y(bin.observed)}
+              width={barWidth}
+              height={height - padding - y(bin.observed)}
+              className={bin.significant ? "fill-[#FD4D53]" : "fill-[#FD4D53]/40"}
+            >
+              <title>
+                {`${bin.digits}: observed ${(bin.observed * 100).toFixed(2)}%, expected ${(bin.expected * 100).toFixed(2)}% (z = ${bin.zScore})`}
+              </title>
+            </rect>
+            <rect
+              x={x - 1}
+              y={y(bin.expected) - 1}
+              width={barWidth + 2}
+              height={2}
+              className="fill-foreground"
+            />
+            {i % labelEvery === 0 && (
+              <text
+                x={x + barWidth / 2}
+                y={height - padding / 3}
+                textAnchor="middle"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {bin.digits}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * Goodness-of-fit statistics for one test
+ */
+function TestStatistics({ result }: { result: BenfordTestResult }) {
+  const conformity = conformityStyles[result.mad.conformity];
+
+  return (
+    <div className="grid sm:grid-cols-3 gap-4 text-sm">
+      <div className="p-3 rounded-lg bg-muted">
+        <p className="text-muted-foreground">Chi-square</p>
+        <p className="font-medium">
+          {result.chiSquare.statistic} (df {result.chiSquare.degreesOfFreedom})
+        </p>
+        <p className="text-xs text-muted-foreground">p = {result.chiSquare.pValue}</p>
+      </div>
+      <div className="p-3 rounded-lg bg-muted">
+        <p className="text-muted-foreground">Kolmogorov-Smirnov</p>
+        <p className="font-medium">{result.kolmogorovSmirnov.statistic}</p>
+        <p className="text-xs text-muted-foreground">
+          Critical {result.kolmogorovSmirnov.criticalValue} ·{" "}
+          {result.kolmogorovSmirnov.passes ? "passes" : "fails"}
+        </p>
+      </div>
+      <div className="p-3 rounded-lg bg-muted">
+        <p className="text-muted-foreground">MAD</p>
+        <p className="font-medium">{result.mad.value}</p>
+        <span
+          className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${conformity.className}`}
+        >
+          {conformity.text}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Benford Results Component
+ */
+export function BenfordResults({ result }: { result: BenfordResult }) {
+  // Context columns are only present when they were mapped on upload
+  const hasVendors = result.flaggedRows.some((row) => row.vendor);
+  const hasDocumentNumbers = result.flaggedRows.some((row) => row.documentNumber);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-[#FD4D53]" />
+          Benford&apos;s Law
+        </CardTitle>
+        <CardDescription>
+          Column <strong>{result.column}</strong> · {result.analyzedValues.toLocaleString()}{" "}
+          values analyzed, {result.excludedValues.toLocaleString()} below{" "}
+          {result.minValue} excluded
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Tabs defaultValue="firstDigit">
+          <TabsList className="grid w-full grid-cols-4">
+            {(Object.keys(testLabels) as BenfordTestId[]).map((test) => (
+              <TabsTrigger key={test} value={test}>
+                {testLabels[test]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {(Object.keys(testLabels) as BenfordTestId[]).map((test) => (
+            <TabsContent key={test} value={test} className="space-y-4 mt-4">
+              <DistributionChart result={result.tests[test]} />
+              <TestStatistics result={result.tests[test]} />
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        {/* Flagged Rows */}
+        <div>
+          <h4 className="font-medium mb-2">
+            Flagged rows ({result.flaggedRows.length})
+          </h4>
+          {result.flaggedRows.length > 0 ? (
+            <div className="max-h-72 overflow-y-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr className="text-left">
+                    <th className="px-3 py-2 font-medium">Line</th>
+                    {hasDocumentNumbers && (
+                      <th className="px-3 py-2 font-medium">Document</th>
+                    )}
+                    {hasVendors && <th className="px-3 py-2 font-medium">Vendor</th>}
+                    <th className="px-3 py-2 font-medium">Value</th>
+                    <th className="px-3 py-2 font-medium">First two digits</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.flaggedRows.map((row) => (
+                    <tr key={row.line} className="border-t">
+                      <td className="px-3 py-2 text-muted-foreground">{row.line}</td>
+                      {hasDocumentNumbers && (
+                        <td className="px-3 py-2">{row.documentNumber}</td>
+                      )}
+                      {hasVendors && <td className="px-3 py-2">{row.vendor}</td>}
+                      <td className="px-3 py-2">{row.value.toLocaleString()}</td>
+                      <td className="px-3 py-2">{row.digits}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No rows fall in significantly over-represented digit ranges.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
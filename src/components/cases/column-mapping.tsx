@@ -0,0 +1,293 @@
+/**
+ * @fileoverview Column Mapping Wizard
+ *
+ * Second step of the New Case flow, shown once a file has been chosen.
+ * Displays the first rows of the file with the detected format and lets
+ * the user:
+ * - Correct the encoding, delimiter, decimal separator and date format
+ * - Map columns to semantic roles (amount, date, vendor, ...)
+ * - Save the mapping as a template for files with the same headers
+ */
+
+"use client";
+
+import * as React from "react";
+import { Columns3, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  COLUMN_ROLES,
+  COLUMN_ROLE_LABELS,
+  type ColumnMapping,
+  type ColumnRole,
+} from "@/lib/column-mapping";
+import {
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  DATE_FORMATS,
+  DECIMAL_SEPARATORS,
+  type CsvFormat,
+  type CsvPreview,
+} from "@/lib/csv-format";
+
+/**
+ * Display labels for the format options
+ */
+const delimiterLabels: Record<string, string> = {
+  ",": "Comma (,)",
+  ";": "Semicolon (;)",
+  "\t": "Tab",
+  "|": "Pipe (|)",
+};
+
+const decimalLabels: Record<string, string> = {
+  ".": "Point (1,234.56)",
+  ",": "Comma (1.234,56)",
+};
+
+const selectClassName =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm";
+
+/**
+ * Props for the column mapping wizard
+ */
+interface ColumnMappingCardProps {
+  preview: CsvPreview | null;
+  mapping: ColumnMapping | null;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  /** Name of the saved template that was applied, if any */
+  appliedTemplate: string | null;
+  /** Template name to save under; empty means "don't save" */
+  templateName: string;
+  onTemplateNameChange: (name: string) => void;
+  isLoading: boolean;
+}
+
+/**
+ * Column Mapping Wizard Component
+ */
+export function ColumnMappingCard({
+  preview,
+  mapping,
+  onMappingChange,
+  appliedTemplate,
+  templateName,
+  onTemplateNameChange,
+  isLoading,
+}: ColumnMappingCardProps) {
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Reading file...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!preview || !mapping) return null;
+
+  /**
+   * Updates one format setting
+   */
+  const setFormat = <K extends keyof CsvFormat>(key: K, value: CsvFormat[K]) => {
+    onMappingChange({ ...mapping, format: { ...mapping.format, [key]: value } });
+  };
+
+  /**
+   * Maps a role to a column, or unmaps it when the column is empty.
+   * A column can only hold one role, so it is removed from any other.
+   */
+  const setRole = (role: ColumnRole, column: string) => {
+    const roles = { ...mapping.roles };
+    for (const other of COLUMN_ROLES) {
+      if (roles[other] === column) delete roles[other];
+    }
+    if (column) roles[role] = column;
+    else delete roles[role];
+
+    const format = { ...mapping.format };
+    if (role === "date") {
+      // Use the detected date format of the newly mapped column
+      const detected = column ? preview.dateFormats[column] : undefined;
+      if (detected) format.dateFormat = detected;
+      else delete format.dateFormat;
+    }
+
+    onMappingChange({ format, roles });
+  };
+
+  const mappedRole = (header: string) =>
+    COLUMN_ROLES.find((role) => mapping.roles[role] === header);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns3 className="h-5 w-5 text-[#FD4D53]" />
+          Map Columns
+        </CardTitle>
+        <CardDescription>
+          {appliedTemplate
+            ? `Applied your saved template "${appliedTemplate}". Check the mapping before continuing.`
+            : "We detected the file format and suggested a mapping. Adjust anything that looks wrong."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Detected Format */}
+        <div className="grid sm:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="encoding">Encoding</Label>
+            <select
+              id="encoding"
+              value={mapping.format.encoding}
+              onChange={(e) => setFormat("encoding", e.target.value as CsvFormat["encoding"])}
+              className={selectClassName}
+            >
+              {CSV_ENCODINGS.map((encoding) => (
+                <option key={encoding} value={encoding}>
+                  {encoding.toUpperCase()}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delimiter">Delimiter</Label>
+            <select
+              id="delimiter"
+              value={mapping.format.delimiter}
+              onChange={(e) => setFormat("delimiter", e.target.value as CsvFormat["delimiter"])}
+              className={selectClassName}
+            >
+              {CSV_DELIMITERS.map((delimiter) => (
+                <option key={delimiter} value={delimiter}>
+                  {delimiterLabels[delimiter]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="decimalSeparator">Decimal separator</Label>
+            <select
+              id="decimalSeparator"
+              value={mapping.format.decimalSeparator}
+              onChange={(e) =>
+                setFormat("decimalSeparator", e.target.value as CsvFormat["decimalSeparator"])
+              }
+              className={selectClassName}
+            >
+              {DECIMAL_SEPARATORS.map((separator) => (
+                <option key={separator} value={separator}>
+                  {decimalLabels[separator]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dateFormat">Date format</Label>
+            <select
+              id="dateFormat"
+              value={mapping.format.dateFormat ?? ""}
+              onChange={(e) =>
+                setFormat(
+                  "dateFormat",
+                  (e.target.value || undefined) as CsvFormat["dateFormat"]
+                )
+              }
+              className={selectClassName}
+            >
+              <option value="">Not set</option>
+              {DATE_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {format}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Role Mapping */}
+        <div className="grid sm:grid-cols-2 gap-4">
+          {COLUMN_ROLES.map((role) => (
+            <div key={role} className="space-y-2">
+              <Label htmlFor={`role-${role}`}>{COLUMN_ROLE_LABELS[role]}</Label>
+              <select
+                id={`role-${role}`}
+                value={mapping.roles[role] ?? ""}
+                onChange={(e) => setRole(role, e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Not mapped</option>
+                {preview.headers.map((header) => (
+                  <option key={header} value={header}>
+                    {header}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        {/* Preview Rows */}
+        <div>
+          <h4 className="font-medium mb-2">Preview</h4>
+          <div className="max-h-72 overflow-auto rounded-lg border">
+            <table className="w-full text-sm whitespace-nowrap">
+              <thead className="bg-muted sticky top-0">
+                <tr className="text-left">
+                  {preview.headers.map((header) => {
+                    const role = mappedRole(header);
+                    return (
+                      <th key={header} className="px-3 py-2 font-medium">
+                        {header}
+                        {role && (
+                          <span className="block text-xs font-normal text-[#FD4D53]">
+                            {COLUMN_ROLE_LABELS[role]}
+                          </span>
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row, i) => (
+                  <tr key={i} className="border-t">
+                    {preview.headers.map((header, j) => (
+                      <td key={header} className="px-3 py-2">
+                        {row[j]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Save as Template */}
+        <div className="space-y-2">
+          <Label htmlFor="templateName">Save as template (optional)</Label>
+          <Input
+            id="templateName"
+            placeholder="e.g., SAP GL export"
+            value={templateName}
+            onChange={(e) => onTemplateNameChange(e.target.value)}
+            maxLength={100}
+          />
+          <p className="text-xs text-muted-foreground">
+            Files with the same columns will use this mapping automatically.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
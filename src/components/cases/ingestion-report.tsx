@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Ingestion Report Component
+ *
+ * Renders what happened while a case's file was read:
+ * - Rows analyzed and rows skipped
+ * - Data profile (amount totals, date range, distinct counts)
+ * - Skipped rows with their line numbers and the reason
+ */
+
+import { Database } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { COLUMN_ROLE_LABELS } from "@/lib/column-mapping";
+import type { IngestionReport as IngestionReportData } from "@/lib/analysis/types";
+
+/**
+ * Single statistic tile
+ */
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="p-4 rounded-lg bg-muted">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-xl font-bold">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+/**
+ * Ingestion Report Component
+ */
+export function IngestionReport({ report }: { report: IngestionReportData }) {
+  const { profile } = report;
+  const distinct = Object.entries(profile.distinct) as Array<
+    [keyof typeof COLUMN_ROLE_LABELS, { column: string; approximate: number }]
+  >;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5 text-[#FD4D53]" />
+          Data Summary
+        </CardTitle>
+        <CardDescription>
+          {report.rowCount.toLocaleString()} rows analyzed
+          {report.errorCount > 0 &&
+            `, ${report.errorCount.toLocaleString()} rows skipped because they could not be read`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Profile */}
+        <div className="grid sm:grid-cols-3 gap-4">
+          {profile.amount && (
+            <>
+              <Stat
+                label={`Total ${profile.amount.column}`}
+                value={profile.amount.sum.toLocaleString()}
+                hint={`${profile.amount.count.toLocaleString()} values, mean ${profile.amount.mean.toLocaleString()}`}
+              />
+              <Stat
+                label="Range"
+                value={`${profile.amount.min.toLocaleString()} – ${profile.amount.max.toLocaleString()}`}
+              />
+            </>
+          )}
+          {profile.dates && (
+            <Stat
+              label={`Period (${profile.dates.column})`}
+              value={`${profile.dates.from} – ${profile.dates.to}`}
+              hint={
+                profile.dates.invalid > 0
+                  ? `${profile.dates.invalid.toLocaleString()} values not in the expected format`
+                  : undefined
+              }
+            />
+          )}
+          {distinct.map(([role, stats]) => (
+            <Stat
+              key={role}
+              label={`Distinct ${COLUMN_ROLE_LABELS[role].toLowerCase()}s`}
+              value={`≈ ${stats.approximate.toLocaleString()}`}
+              hint={stats.column}
+            />
+          ))}
+        </div>
+
+        {/* Skipped Rows */}
+        {report.errors.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-2">
+              Skipped rows
+              {report.errorCount > report.errors.length &&
+                ` (first ${report.errors.length} of ${report.errorCount.toLocaleString()})`}
+            </h4>
+            <div className="max-h-72 overflow-y-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr className="text-left">
+                    <th className="px-3 py-2 font-medium">Line</th>
+                    <th className="px-3 py-2 font-medium">Problem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.errors.map((error, i) => (
+                    <tr key={i} className="border-t">
+                      <td className="px-3 py-2 text-muted-foreground">{error.line}</td>
+                      <td className="px-3 py-2">{error.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
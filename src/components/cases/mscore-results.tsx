@@ -0,0 +1,122 @@
+/**
+ * @fileoverview M-Score Results Component
+ *
+ * Renders the Beneish M-Score module output on the case detail page:
+ * - 8-variable and 5-variable scores with their likelihood classification
+ * - Ratio table with the inputs each ratio was calculated from
+ */
+
+import { Scale } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type {
+  ManipulationLikelihood,
+  MScoreModel,
+  MScoreResult,
+} from "@/lib/analysis/mscore";
+
+/**
+ * Display styling for likelihood classifications
+ */
+const likelihoodStyles: Record<ManipulationLikelihood, { text: string; className: string }> = {
+  likely: { text: "Likely manipulator", className: "text-red-500 bg-red-500/10" },
+  possible: { text: "Possible manipulator", className: "text-yellow-500 bg-yellow-500/10" },
+  unlikely: { text: "Unlikely manipulator", className: "text-green-500 bg-green-500/10" },
+};
+
+/**
+ * Formats a line-item key for display ("costOfGoodsSold" -> "cost of goods sold")
+ */
+function formatLineItem(key: string): string {
+  return key.replace(/([A-Z])/g, " $1").toLowerCase();
+}
+
+/**
+ * Score card for one Beneish model
+ */
+function ModelScore({ title, model }: { title: string; model: MScoreModel }) {
+  const style = likelihoodStyles[model.likelihood];
+
+  return (
+    <div className="p-4 rounded-lg bg-muted">
+      <p className="text-sm text-muted-foreground">{title}</p>
+      <p className="text-3xl font-bold">{model.score}</p>
+      <p className="text-xs text-muted-foreground mb-2">Threshold {model.threshold}</p>
+      <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>
+        {style.text}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * M-Score Results Component
+ */
+export function MScoreResults({ result }: { result: MScoreResult }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5 text-[#FD4D53]" />
+          M-Score (Beneish)
+        </CardTitle>
+        <CardDescription>
+          {result.currentPeriod} compared with {result.priorPeriod}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <ModelScore title="8-variable model" model={result.eightVariable} />
+          <ModelScore title="5-variable model" model={result.fiveVariable} />
+        </div>
+
+        {/* Ratio Table */}
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr className="text-left">
+                <th className="px-3 py-2 font-medium">Ratio</th>
+                <th className="px-3 py-2 font-medium">Value</th>
+                <th className="px-3 py-2 font-medium">Manipulator mean</th>
+                <th className="px-3 py-2 font-medium">Inputs (current / prior)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.ratios.map((ratio) => (
+                <tr key={ratio.id} className="border-t align-top">
+                  <td className="px-3 py-2">
+                    <p className="font-medium">{ratio.id}</p>
+                    <p className="text-xs text-muted-foreground">{ratio.name}</p>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={ratio.flagged ? "font-semibold text-[#FD4D53]" : ""}>
+                      {ratio.value}
+                    </span>
+                    {ratio.neutral && (
+                      <p className="text-xs text-muted-foreground">neutral (zero denominator)</p>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-muted-foreground">{ratio.manipulatorMean}</td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground">
+                    {Object.entries(ratio.inputs.current).map(([item, value]) => (
+                      <p key={item}>
+                        {formatLineItem(item)}: {value.toLocaleString()}
+                        {ratio.inputs.prior[item as keyof typeof ratio.inputs.prior] !== undefined &&
+                          ` / ${ratio.inputs.prior[item as keyof typeof ratio.inputs.prior]!.toLocaleString()}`}
+                      </p>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Z-Score Results Component
+ *
+ * Renders the Altman Z-Score module output on the case detail page:
+ * - Score and zone for each period and variant
+ * - Trend direction across periods
+ */
+
+import { TrendingDown, TrendingUp, Minus, Activity } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Z_SCORE_VARIANT_NAMES,
+  type ZScoreResult,
+  type ZScoreVariant,
+  type ZScoreZone,
+} from "@/lib/analysis/zscore";
+
+/**
+ * Display styling for zones
+ */
+const zoneStyles: Record<ZScoreZone, string> = {
+  distress: "text-red-500 bg-red-500/10",
+  grey: "text-yellow-500 bg-yellow-500/10",
+  safe: "text-green-500 bg-green-500/10",
+};
+
+/**
+ * Trend direction icons
+ */
+const trendIcons = {
+  improving: TrendingUp,
+  deteriorating: TrendingDown,
+  stable: Minus,
+};
+
+/**
+ * Z-Score Results Component
+ */
+export function ZScoreResults({ result }: { result: ZScoreResult }) {
+  const variants = result.trends.map((t) => t.variant);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5 text-[#FD4D53]" />
+          Z-Score (Altman)
+        </CardTitle>
+        <CardDescription>
+          Primary model: {Z_SCORE_VARIANT_NAMES[result.primaryVariant]}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Trend Summary */}
+        <div className="grid sm:grid-cols-3 gap-4">
+          {result.trends.map((trend) => {
+            const Icon = trendIcons[trend.direction];
+            return (
+              <div key={trend.variant} className="p-4 rounded-lg bg-muted">
+                <p className="text-sm text-muted-foreground">
+                  {Z_SCORE_VARIANT_NAMES[trend.variant]}
+                </p>
+                <p className="flex items-center gap-2 font-medium capitalize">
+                  <Icon className="h-4 w-4" />
+                  {trend.direction}
+                </p>
+                {trend.points.length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    {trend.change > 0 ? "+" : ""}
+                    {trend.change} since {trend.points[0].period}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Period Table */}
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr className="text-left">
+                <th className="px-3 py-2 font-medium">Period</th>
+                {variants.map((variant: ZScoreVariant) => (
+                  <th key={variant} className="px-3 py-2 font-medium">
+                    {Z_SCORE_VARIANT_NAMES[variant]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {result.periods.map((period) => (
+                <tr key={period.period} className="border-t">
+                  <td className="px-3 py-2 font-medium">{period.period}</td>
+                  {variants.map((variant) => {
+                    const value = period.variants[variant];
+                    return (
+                      <td key={variant} className="px-3 py-2">
+                        {value ? (
+                          <span className="flex items-center gap-2">
+                            {value.score}
+                            <span
+                              className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${zoneStyles[value.zone]}`}
+                            >
+                              {value.zone}
+                            </span>
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">n/a</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Case Status Badge Component
+ *
+ * Small pill showing a case's analysis status with a matching icon.
+ * Used on the case list, case detail page and dashboard overview.
+ */
+
+import { Clock, CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
+
+/**
+ * Status badge component
+ */
+export function StatusBadge({ status }: { status: string }) {
+  const config = {
+    PENDING: {
+      icon: Clock,
+      text: "Pending",
+      className: "text-yellow-500 bg-yellow-500/10",
+    },
+    PROCESSING: {
+      icon: Loader2,
+      text: "Processing",
+      className: "text-blue-500 bg-blue-500/10",
+    },
+    COMPLETED: {
+      icon: CheckCircle2,
+      text: "Completed",
+      className: "text-green-500 bg-green-500/10",
+    },
+    FAILED: {
+      icon: AlertCircle,
+      text: "Failed",
+      className: "text-red-500 bg-red-500/10",
+    },
+  }[status] || {
+    icon: Clock,
+    text: status,
+    className: "text-muted-foreground bg-muted",
+  };
+
+  const Icon = config.icon;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${config.className}`}
+    >
+      <Icon className={`h-3 w-3 ${status === "PROCESSING" && "animate-spin"}`} />
+      {config.text}
+    </span>
+  );
+}
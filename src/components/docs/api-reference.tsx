@@ -0,0 +1,38 @@
+/**
+ * @fileoverview API Reference Component
+ *
+ * Renders the public API's OpenAPI document with Swagger UI. Swagger UI
+ * only runs in the browser, so it is loaded on the client. "Try it out"
+ * sends real requests: click Authorize and paste an API key (created in
+ * Settings → API Keys); it is kept in this browser across reloads.
+ */
+
+"use client";
+
+import dynamic from "next/dynamic";
+import { Loader2 } from "lucide-react";
+import "swagger-ui-react/swagger-ui.css";
+
+const SwaggerUI = dynamic(() => import("swagger-ui-react"), {
+  ssr: false,
+  loading: () => (
+    <div className="flex justify-center py-24 text-muted-foreground">
+      <Loader2 className="h-6 w-6 animate-spin" />
+    </div>
+  ),
+});
+
+/**
+ * API Reference Component
+ */
+export function ApiReference() {
+  return (
+    <SwaggerUI
+      url="/api/v1/openapi.json"
+      persistAuthorization
+      tryItOutEnabled
+      docExpansion="list"
+      defaultModelsExpandDepth={0}
+    />
+  );
+}
@@ -0,0 +1,535 @@
+/**
+ * @fileoverview API Integration Fields Component
+ *
+ * The API tab of the integration dialog: endpoint, auth scheme,
+ * pagination, where the records are in each response, which record
+ * fields feed the analysis columns and which field incremental syncs
+ * follow. Holds no state of its own; the
+ * dialog owns the values and turns them into settings and credentials
+ * with `buildApiSettings`.
+ */
+
+"use client";
+
+import * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FieldMapping } from "@/components/integrations/field-mapping";
+import type { ColumnRoles } from "@/lib/column-mapping";
+import type { ApiAuth, ApiPagination, WatermarkKind } from "@/lib/validations/integration";
+
+/**
+ * Form values of the API tab (credentials start blank when editing)
+ */
+export interface ApiFormState {
+  url: string;
+  authType: ApiAuth["type"];
+  /** Bearer token or header API key */
+  apiKey: string;
+  username: string;
+  password: string;
+  header: string;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  paginationType: ApiPagination["type"];
+  /** Offset, page or cursor parameter name */
+  pageParam: string;
+  /** Limit or page size parameter name */
+  sizeParam: string;
+  pageSize: string;
+  cursorPath: string;
+  maxPages: string;
+  recordsPath: string;
+  fields: ColumnRoles;
+  /** Record field that grows with new records; empty syncs read everything */
+  incrementalField: string;
+  incrementalKind: WatermarkKind;
+  /** Query parameter that asks for records after a value */
+  incrementalParam: string;
+}
+
+export const emptyApiForm: ApiFormState = {
+  url: "",
+  authType: "none",
+  apiKey: "",
+  username: "",
+  password: "",
+  header: "X-API-Key",
+  tokenUrl: "",
+  clientId: "",
+  clientSecret: "",
+  scope: "",
+  paginationType: "none",
+  pageParam: "",
+  sizeParam: "",
+  pageSize: "",
+  cursorPath: "",
+  maxPages: "",
+  recordsPath: "",
+  fields: {},
+  incrementalField: "",
+  incrementalKind: "timestamp",
+  incrementalParam: "",
+};
+
+const AUTH_LABELS: Record<ApiAuth["type"], string> = {
+  none: "None",
+  bearer: "Bearer token",
+  basic: "Basic auth (username and password)",
+  header: "API key header",
+  oauth2: "OAuth2 client credentials",
+};
+
+const PAGINATION_LABELS: Record<ApiPagination["type"], string> = {
+  none: "None (single request)",
+  offset: "Offset and limit",
+  page: "Page number",
+  cursor: "Cursor from the response",
+  link: "Link header (rel=\"next\")",
+};
+
+/**
+ * Default parameter names per pagination style, shown as placeholders
+ */
+const PARAM_PLACEHOLDERS: Record<ApiPagination["type"], { page: string; size: string }> = {
+  none: { page: "", size: "" },
+  offset: { page: "offset", size: "limit" },
+  page: { page: "page", size: "per_page (optional)" },
+  cursor: { page: "cursor", size: "" },
+  link: { page: "", size: "" },
+};
+
+const selectClassName =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm";
+
+/**
+ * Fills the API form from saved settings
+ *
+ * Settings saved before auth schemes existed used a bearer token when
+ * an API key was saved.
+ *
+ * @param config - Saved settings
+ * @param secretFields - Names of the saved credentials
+ */
+export function apiFormFromConfig(
+  config: Record<string, unknown>,
+  secretFields: string[]
+): ApiFormState {
+  const auth = config.auth as ApiAuth | undefined;
+  const pagination = config.pagination as ApiPagination | undefined;
+  const incremental = config.incremental as
+    | { field: string; kind: WatermarkKind; param?: string }
+    | undefined;
+
+  const pageParam =
+    pagination?.type === "offset"
+      ? pagination.offsetParam
+      : pagination?.type === "page"
+        ? pagination.pageParam
+        : pagination?.type === "cursor"
+          ? pagination.cursorParam
+          : "";
+  const sizeParam =
+    pagination?.type === "offset"
+      ? pagination.limitParam
+      : pagination?.type === "page"
+        ? pagination.sizeParam
+        : "";
+  const pageSize =
+    pagination?.type === "offset" || pagination?.type === "page" ? pagination.pageSize : undefined;
+
+  return {
+    ...emptyApiForm,
+    url: String(config.url ?? ""),
+    authType: auth?.type ?? (secretFields.includes("apiKey") ? "bearer" : "none"),
+    username: auth?.type === "basic" ? auth.username : "",
+    header: auth?.type === "header" ? auth.header : emptyApiForm.header,
+    tokenUrl: auth?.type === "oauth2" ? auth.tokenUrl : "",
+    clientId: auth?.type === "oauth2" ? auth.clientId : "",
+    scope: auth?.type === "oauth2" ? (auth.scope ?? "") : "",
+    paginationType: pagination?.type ?? "none",
+    pageParam,
+    sizeParam: sizeParam ?? "",
+    pageSize: pageSize ? String(pageSize) : "",
+    cursorPath: pagination?.type === "cursor" ? pagination.cursorPath : "",
+    maxPages: config.maxPages ? String(config.maxPages) : "",
+    recordsPath: String(config.recordsPath ?? ""),
+    fields: (config.fields as ColumnRoles | undefined) ?? {},
+    incrementalField: incremental?.field ?? "",
+    incrementalKind: incremental?.kind ?? "timestamp",
+    incrementalParam: incremental?.param ?? "",
+  };
+}
+
+/**
+ * Settings and typed-in credentials from the API form
+ *
+ * Blank optional fields are left out so the server defaults apply.
+ */
+export function buildApiSettings(form: ApiFormState): {
+  config: Record<string, unknown>;
+  secrets: Record<string, string>;
+} {
+  const optional = (value: string) => value.trim() || undefined;
+  const number = (value: string) => (value.trim() ? Number(value) : undefined);
+
+  const auth =
+    form.authType === "basic"
+      ? { type: "basic", username: form.username }
+      : form.authType === "header"
+        ? { type: "header", header: form.header }
+        : form.authType === "oauth2"
+          ? {
+              type: "oauth2",
+              tokenUrl: form.tokenUrl,
+              clientId: form.clientId,
+              scope: optional(form.scope),
+            }
+          : { type: form.authType };
+
+  const pagination =
+    form.paginationType === "offset"
+      ? {
+          type: "offset",
+          offsetParam: optional(form.pageParam),
+          limitParam: optional(form.sizeParam),
+          pageSize: number(form.pageSize),
+        }
+      : form.paginationType === "page"
+        ? {
+            type: "page",
+            pageParam: optional(form.pageParam),
+            sizeParam: optional(form.sizeParam),
+            pageSize: number(form.pageSize),
+          }
+        : form.paginationType === "cursor"
+          ? { type: "cursor", cursorParam: optional(form.pageParam), cursorPath: form.cursorPath }
+          : { type: form.paginationType };
+
+  const fields = Object.fromEntries(
+    Object.entries(form.fields).filter(([, path]) => path?.trim())
+  );
+
+  // Only the credential the auth scheme uses, and only if typed in
+  const typed =
+    form.authType === "bearer" || form.authType === "header"
+      ? { apiKey: form.apiKey }
+      : form.authType === "basic"
+        ? { password: form.password }
+        : form.authType === "oauth2"
+          ? { clientSecret: form.clientSecret }
+          : {};
+
+  return {
+    config: {
+      url: form.url,
+      auth,
+      pagination,
+      maxPages: form.paginationType === "none" ? undefined : number(form.maxPages),
+      recordsPath: optional(form.recordsPath),
+      fields: Object.keys(fields).length > 0 ? fields : undefined,
+      incremental: form.incrementalField.trim()
+        ? {
+            field: form.incrementalField,
+            kind: form.incrementalKind,
+            param: optional(form.incrementalParam),
+          }
+        : undefined,
+    },
+    secrets: Object.fromEntries(Object.entries(typed).filter(([, value]) => value)),
+  };
+}
+
+interface ApiFieldsProps {
+  form: ApiFormState;
+  onChange: (patch: Partial<ApiFormState>) => void;
+  /** Names of the credentials saved for the integration being edited */
+  secretFields: string[];
+}
+
+/**
+ * API Integration Fields Component
+ */
+export function ApiFields({ form, onChange, secretFields }: ApiFieldsProps) {
+  /**
+   * Returns an onChange handler for a text field
+   */
+  const text =
+    (
+      key: Exclude<keyof ApiFormState, "authType" | "paginationType" | "fields" | "incrementalKind">
+    ) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      onChange({ [key]: e.target.value });
+
+  /**
+   * Props for a credential input: blank keeps a saved value
+   */
+  const secret = (name: string, key: "apiKey" | "password" | "clientSecret") => ({
+    type: "password",
+    autoComplete: "new-password",
+    placeholder: secretFields.includes(name) ? "Saved. Leave blank to keep it" : "",
+    value: form[key],
+    onChange: text(key),
+    required: !secretFields.includes(name),
+  });
+
+  const placeholders = PARAM_PLACEHOLDERS[form.paginationType];
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="api-url">API Endpoint URL</Label>
+        <Input
+          id="api-url"
+          type="url"
+          placeholder="https://api.example.com/transactions"
+          value={form.url}
+          onChange={text("url")}
+          required
+        />
+      </div>
+
+      {/* Authentication */}
+      <div className="space-y-2">
+        <Label htmlFor="api-auth">Authentication</Label>
+        <select
+          id="api-auth"
+          value={form.authType}
+          onChange={(e) => onChange({ authType: e.target.value as ApiAuth["type"] })}
+          className={selectClassName}
+        >
+          {(Object.keys(AUTH_LABELS) as Array<ApiAuth["type"]>).map((type) => (
+            <option key={type} value={type}>
+              {AUTH_LABELS[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {form.authType === "bearer" && (
+        <div className="space-y-2">
+          <Label htmlFor="api-token">Token</Label>
+          <Input id="api-token" {...secret("apiKey", "apiKey")} />
+        </div>
+      )}
+      {form.authType === "basic" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-username">Username</Label>
+            <Input
+              id="api-username"
+              value={form.username}
+              onChange={text("username")}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="api-password">Password</Label>
+            <Input id="api-password" {...secret("password", "password")} />
+          </div>
+        </div>
+      )}
+      {form.authType === "header" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-header">Header Name</Label>
+            <Input id="api-header" value={form.header} onChange={text("header")} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="api-key">API Key</Label>
+            <Input id="api-key" {...secret("apiKey", "apiKey")} />
+          </div>
+        </div>
+      )}
+      {form.authType === "oauth2" && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="api-token-url">Token URL</Label>
+            <Input
+              id="api-token-url"
+              type="url"
+              placeholder="https://auth.example.com/oauth/token"
+              value={form.tokenUrl}
+              onChange={text("tokenUrl")}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-client-id">Client ID</Label>
+              <Input
+                id="api-client-id"
+                value={form.clientId}
+                onChange={text("clientId")}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-client-secret">Client Secret</Label>
+              <Input id="api-client-secret" {...secret("clientSecret", "clientSecret")} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="api-scope">Scope (optional)</Label>
+            <Input
+              id="api-scope"
+              placeholder="e.g., transactions:read"
+              value={form.scope}
+              onChange={text("scope")}
+            />
+          </div>
+        </>
+      )}
+
+      {/* Pagination */}
+      <div className="space-y-2">
+        <Label htmlFor="api-pagination">Pagination</Label>
+        <select
+          id="api-pagination"
+          value={form.paginationType}
+          onChange={(e) =>
+            onChange({ paginationType: e.target.value as ApiPagination["type"] })
+          }
+          className={selectClassName}
+        >
+          {(Object.keys(PAGINATION_LABELS) as Array<ApiPagination["type"]>).map((type) => (
+            <option key={type} value={type}>
+              {PAGINATION_LABELS[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {(form.paginationType === "offset" || form.paginationType === "page") && (
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-page-param">Parameter</Label>
+            <Input
+              id="api-page-param"
+              placeholder={placeholders.page}
+              value={form.pageParam}
+              onChange={text("pageParam")}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="api-size-param">Size Parameter</Label>
+            <Input
+              id="api-size-param"
+              placeholder={placeholders.size}
+              value={form.sizeParam}
+              onChange={text("sizeParam")}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="api-page-size">Page Size</Label>
+            <Input
+              id="api-page-size"
+              inputMode="numeric"
+              placeholder={form.paginationType === "offset" ? "100" : ""}
+              value={form.pageSize}
+              onChange={text("pageSize")}
+            />
+          </div>
+        </div>
+      )}
+      {form.paginationType === "cursor" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-cursor-param">Cursor Parameter</Label>
+            <Input
+              id="api-cursor-param"
+              placeholder={placeholders.page}
+              value={form.pageParam}
+              onChange={text("pageParam")}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="api-cursor-path">Next Cursor Path</Label>
+            <Input
+              id="api-cursor-path"
+              placeholder="$.meta.next_cursor"
+              value={form.cursorPath}
+              onChange={text("cursorPath")}
+              required
+            />
+          </div>
+        </div>
+      )}
+      {form.paginationType !== "none" && (
+        <div className="space-y-2">
+          <Label htmlFor="api-max-pages">Page Limit (optional)</Label>
+          <Input
+            id="api-max-pages"
+            inputMode="numeric"
+            placeholder="100"
+            value={form.maxPages}
+            onChange={text("maxPages")}
+          />
+        </div>
+      )}
+
+      {/* Records and field mapping */}
+      <div className="space-y-2">
+        <Label htmlFor="api-records-path">Records Path (optional)</Label>
+        <Input
+          id="api-records-path"
+          placeholder="Detected automatically, e.g. $.data.transactions"
+          value={form.recordsPath}
+          onChange={text("recordsPath")}
+        />
+      </div>
+      <FieldMapping
+        idPrefix="api"
+        fields={form.fields}
+        onChange={(fields) => onChange({ fields })}
+      />
+      <details className="rounded-lg border p-3">
+        <summary className="cursor-pointer text-sm font-medium">
+          Incremental Sync (optional)
+        </summary>
+        <p className="mt-2 text-xs text-muted-foreground">
+          A record field that grows with new records. Syncs then keep only records above the last
+          synced value, and send that value as the query parameter when one is set.
+        </p>
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="api-incremental-field" className="text-xs">
+              Field
+            </Label>
+            <Input
+              id="api-incremental-field"
+              placeholder="e.g. updated_at"
+              value={form.incrementalField}
+              onChange={text("incrementalField")}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="api-incremental-kind" className="text-xs">
+              Field Holds
+            </Label>
+            <select
+              id="api-incremental-kind"
+              value={form.incrementalKind}
+              onChange={(e) => onChange({ incrementalKind: e.target.value as WatermarkKind })}
+              className={selectClassName}
+            >
+              <option value="timestamp">A timestamp</option>
+              <option value="id">An increasing id</option>
+            </select>
+          </div>
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="api-incremental-param" className="text-xs">
+              Query Parameter (optional)
+            </Label>
+            <Input
+              id="api-incremental-param"
+              placeholder="e.g. updated_since"
+              value={form.incrementalParam}
+              onChange={text("incrementalParam")}
+            />
+          </div>
+        </div>
+      </details>
+    </>
+  );
+}
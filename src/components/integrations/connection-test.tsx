@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Connection Test Result Component
+ *
+ * Shows the outcome of an integration connection test: success or the
+ * kind of problem (network, auth, TLS, permission, schema), the message,
+ * and a sample of the records the integration would ingest.
+ */
+
+import { CheckCircle2, XCircle } from "lucide-react";
+import type { ConnectionProblem, ConnectionTestResult } from "@/lib/connectors/types";
+
+/**
+ * Headline per problem category
+ */
+const PROBLEM_LABELS: Record<ConnectionProblem, string> = {
+  network: "Network / DNS problem",
+  auth: "Authentication failed",
+  tls: "TLS / certificate problem",
+  permission: "Permission denied",
+  schema: "Data not found",
+  unknown: "Connection failed",
+};
+
+/**
+ * Connection Test Result Component
+ */
+export function ConnectionTestPanel({ result }: { result: ConnectionTestResult }) {
+  return (
+    <div
+      className={`rounded-lg border p-3 text-sm space-y-2 ${
+        result.ok ? "border-green-500/50 bg-green-500/5" : "border-[#FD4D53]/50 bg-[#FD4D53]/5"
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        {result.ok ? (
+          <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0 mt-0.5" />
+        ) : (
+          <XCircle className="h-4 w-4 text-[#FD4D53] flex-shrink-0 mt-0.5" />
+        )}
+        <div>
+          <p className="font-medium">
+            {result.ok ? "Connection successful" : PROBLEM_LABELS[result.problem ?? "unknown"]}
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              {result.durationMs} ms
+            </span>
+          </p>
+          <p className="text-muted-foreground break-words">{result.message}</p>
+        </div>
+      </div>
+
+      {/* Sample Records */}
+      {result.sample && result.sample.rows.length > 0 && (
+        <div>
+          <p className="text-xs text-muted-foreground mb-1">
+            Sample from <code>{result.sample.source}</code>
+          </p>
+          <div className="max-h-48 overflow-auto rounded border bg-background">
+            <table className="w-full text-xs">
+              <thead className="bg-muted sticky top-0">
+                <tr className="text-left">
+                  {result.sample.columns.map((column) => (
+                    <th key={column} className="px-2 py-1 font-medium whitespace-nowrap">
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.sample.rows.map((row, i) => (
+                  <tr key={i} className="border-t">
+                    {row.map((cell, j) => (
+                      <td key={j} className="px-2 py-1 whitespace-nowrap">
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
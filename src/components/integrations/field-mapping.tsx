@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Field Mapping Component
+ *
+ * Collapsible editor for the path of each analysis column within a
+ * record, shared by the API and webhook tabs of the integration dialog.
+ * Blank paths leave a column unmapped.
+ */
+
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { COLUMN_ROLES, COLUMN_ROLE_LABELS, type ColumnRoles } from "@/lib/column-mapping";
+
+interface FieldMappingProps {
+  /** Prefix of the input ids, e.g. "api" */
+  idPrefix: string;
+  fields: ColumnRoles;
+  onChange: (fields: ColumnRoles) => void;
+}
+
+/**
+ * Field Mapping Component
+ */
+export function FieldMapping({ idPrefix, fields, onChange }: FieldMappingProps) {
+  return (
+    <details className="rounded-lg border p-3">
+      <summary className="cursor-pointer text-sm font-medium">
+        Field Mapping (optional)
+      </summary>
+      <p className="mt-2 text-xs text-muted-foreground">
+        Path of each field within a record, e.g. <code>amount.value</code>. Without a mapping,
+        every field becomes a column and the columns are detected as for a CSV upload.
+      </p>
+      <div className="mt-3 grid grid-cols-2 gap-3">
+        {COLUMN_ROLES.map((role) => (
+          <div key={role} className="space-y-1">
+            <Label htmlFor={`${idPrefix}-field-${role}`} className="text-xs">
+              {COLUMN_ROLE_LABELS[role]}
+            </Label>
+            <Input
+              id={`${idPrefix}-field-${role}`}
+              placeholder="Not mapped"
+              value={fields[role] ?? ""}
+              onChange={(e) => onChange({ ...fields, [role]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
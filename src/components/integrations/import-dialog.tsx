@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Integration Import Dialog Component
+ *
+ * Starts a case from an integration's data (a SQL table or query, or an
+ * API endpoint): the user names the case and picks the analysis modules,
+ * the worker reads the data.
+ * Opens the new case when it has been queued.
+ */
+
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { ANALYSIS_MODULES, DEFAULT_MODULES } from "@/lib/analysis/modules";
+import type { IntegrationItem } from "@/components/integrations/integration-dialog";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Integration to import from */
+  integration: IntegrationItem | null;
+}
+
+/**
+ * Integration Import Dialog Component
+ */
+export function ImportDialog({ open, onOpenChange, integration }: ImportDialogProps) {
+  const [caseName, setCaseName] = React.useState("");
+  const [selectedModules, setSelectedModules] = React.useState<string[]>(DEFAULT_MODULES);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  // Suggest a case name each time the dialog opens
+  React.useEffect(() => {
+    if (open && integration) {
+      setCaseName(`${integration.name} – ${new Date().toLocaleDateString()}`);
+      setSelectedModules(DEFAULT_MODULES);
+    }
+  }, [open, integration]);
+
+  /**
+   * Toggle module selection
+   */
+  const toggleModule = (moduleId: string) => {
+    setSelectedModules((prev) =>
+      prev.includes(moduleId) ? prev.filter((id) => id !== moduleId) : [...prev, moduleId]
+    );
+  };
+
+  /**
+   * Create the case and queue the import
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!integration) return;
+
+    if (selectedModules.length === 0) {
+      toast({
+        title: "No modules selected",
+        description: "Select at least one analysis module",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/integrations/${integration.id}/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: caseName, modules: selectedModules }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start the import");
+      }
+
+      toast({
+        title: "Import started",
+        description: "The data is being read and analyzed. This may take a few minutes.",
+      });
+      onOpenChange(false);
+      router.push(`/dashboard/cases/${data.case.id}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the import",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Data</DialogTitle>
+          <DialogDescription>
+            Create a case from {integration?.name ?? "this integration"}. The{" "}
+            {integration?.type === "API" ? "endpoint's records are" : "selected table or query is"}{" "}
+            read in the background and analyzed like an uploaded CSV.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-case-name">Case Name</Label>
+            <Input
+              id="import-case-name"
+              value={caseName}
+              onChange={(e) => setCaseName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Analysis Modules</Label>
+            {ANALYSIS_MODULES.map((module) => (
+              <label
+                key={module.id}
+                className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  selectedModules.includes(module.id)
+                    ? "border-[#FD4D53] bg-[#FD4D53]/5"
+                    : "border-muted hover:border-muted-foreground"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedModules.includes(module.id)}
+                  onChange={() => module.enabled && toggleModule(module.id)}
+                  disabled={!module.enabled}
+                  className="h-4 w-4 accent-[#FD4D53]"
+                />
+                <div>
+                  <p className="text-sm font-medium">{module.name}</p>
+                  <p className="text-xs text-muted-foreground">{module.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+          >
+            {isSubmitting ? "Starting..." : "Start Import"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,668 @@
+/**
+ * @fileoverview Integration Dialog Component
+ *
+ * Form for creating an API, SQL or webhook integration, or editing an
+ * existing one.
+ * Saved credentials are never sent back by the API, so when editing the
+ * credential fields start empty: leaving them blank keeps the saved
+ * value, typing a new value replaces it.
+ *
+ * API integrations choose an auth scheme, pagination and how records map
+ * onto the analysis columns (see api-fields.tsx). SQL integrations pick a
+ * database engine and what to import: a table (suggested from the tables
+ * the last test found) or a read-only query.
+ *
+ * Both types can name a growing field (a timestamp or an increasing id)
+ * so syncs read only new records. Webhook integrations receive signed
+ * deliveries instead and set how they are analyzed (see webhook-fields.tsx).
+ *
+ * "Test Connection" tries the entered settings against the real source
+ * (using the saved credentials for blank fields) and shows the result.
+ * Webhooks have no source to test.
+ */
+
+"use client";
+
+import * as React from "react";
+import { Database, Globe, Loader2, Webhook } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { ConnectionTestPanel } from "@/components/integrations/connection-test";
+import {
+  ApiFields,
+  apiFormFromConfig,
+  buildApiSettings,
+  emptyApiForm,
+  type ApiFormState,
+} from "@/components/integrations/api-fields";
+import {
+  WebhookFields,
+  buildWebhookSettings,
+  emptyWebhookForm,
+  webhookFormFromConfig,
+  type WebhookFormState,
+} from "@/components/integrations/webhook-fields";
+import { SQL_ENGINES, type ConnectionTestResult } from "@/lib/connectors/types";
+import type { SqlEngine, WatermarkKind } from "@/lib/validations/integration";
+
+/**
+ * Integration as returned by GET /api/integrations
+ */
+export interface IntegrationItem {
+  id: string;
+  name: string;
+  type: "API" | "SQL" | "WEBHOOK";
+  config: Record<string, unknown>;
+  isActive: boolean;
+  schedule: string | null;
+  syncModules: string[];
+  nextSyncAt: string | null;
+  syncRequestedAt: string | null;
+  lastSyncedAt: string | null;
+  watermark: string | null;
+  secretFields: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Form field values of the name and the SQL tab
+ */
+interface FormState {
+  name: string;
+  engine: SqlEngine;
+  host: string;
+  port: string;
+  database: string;
+  username: string;
+  password: string;
+  ssl: boolean;
+  /** What a SQL integration imports; empty until chosen */
+  sourceKind: "" | "table" | "query";
+  table: string;
+  query: string;
+  rowLimit: string;
+  /** Column that grows with new rows; empty syncs read everything */
+  incrementalColumn: string;
+  incrementalKind: WatermarkKind;
+}
+
+const emptyForm: FormState = {
+  name: "",
+  engine: "postgres",
+  host: "",
+  port: "5432",
+  database: "",
+  username: "",
+  password: "",
+  ssl: false,
+  sourceKind: "",
+  table: "",
+  query: "",
+  rowLimit: "",
+  incrementalColumn: "",
+  incrementalKind: "timestamp",
+};
+
+const selectClassName =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm";
+
+/**
+ * Fills the form from a saved integration (credentials stay blank)
+ */
+function formFromIntegration(integration: IntegrationItem | null): FormState {
+  if (!integration) return emptyForm;
+  const config = integration.config;
+  const engine = (config.engine as SqlEngine | undefined) ?? "postgres";
+  const source = config.source as
+    | { kind: "table"; table: string }
+    | { kind: "query"; query: string }
+    | undefined;
+  const incremental = config.incremental as { column: string; kind: WatermarkKind } | undefined;
+
+  return {
+    ...emptyForm,
+    name: integration.name,
+    engine,
+    host: String(config.host ?? ""),
+    port: String(config.port ?? SQL_ENGINES[engine].defaultPort ?? ""),
+    database: String(config.database ?? ""),
+    username: String(config.username ?? ""),
+    ssl: config.ssl === true,
+    sourceKind: source?.kind ?? "",
+    table: source?.kind === "table" ? source.table : "",
+    query: source?.kind === "query" ? source.query : "",
+    rowLimit: config.rowLimit ? String(config.rowLimit) : "",
+    incrementalColumn: incremental?.column ?? "",
+    incrementalKind: incremental?.kind ?? "timestamp",
+  };
+}
+
+interface IntegrationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Integration to edit; null to create a new one */
+  integration: IntegrationItem | null;
+  /** Called with the saved integration */
+  onSaved: (integration: IntegrationItem) => void;
+}
+
+/**
+ * Integration Dialog Component
+ */
+export function IntegrationDialog({
+  open,
+  onOpenChange,
+  integration,
+  onSaved,
+}: IntegrationDialogProps) {
+  const [type, setType] = React.useState<IntegrationItem["type"]>("API");
+  const [form, setForm] = React.useState<FormState>(emptyForm);
+  const [apiForm, setApiForm] = React.useState<ApiFormState>(emptyApiForm);
+  const [webhookForm, setWebhookForm] = React.useState<WebhookFormState>(emptyWebhookForm);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isTesting, setIsTesting] = React.useState(false);
+  const [testResult, setTestResult] = React.useState<ConnectionTestResult | null>(null);
+  const { toast } = useToast();
+
+  const isEditing = integration !== null;
+
+  // Reset the form each time the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setType(integration?.type ?? "API");
+      setForm(formFromIntegration(integration));
+      setApiForm(
+        integration?.type === "API"
+          ? apiFormFromConfig(integration.config, integration.secretFields)
+          : emptyApiForm
+      );
+      setWebhookForm(
+        integration?.type === "WEBHOOK"
+          ? webhookFormFromConfig(integration.config)
+          : emptyWebhookForm
+      );
+      setTestResult(null);
+    }
+  }, [open, integration]);
+
+  /**
+   * Returns an onChange handler for a form field
+   */
+  const field =
+    (key: Exclude<keyof FormState, "ssl" | "engine" | "sourceKind" | "incrementalKind">) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm((current) => ({ ...current, [key]: e.target.value }));
+
+  /**
+   * Switches the SQL engine, moving the port along if it was the old default
+   */
+  const setEngine = (engine: SqlEngine) =>
+    setForm((current) => {
+      const oldDefault = String(SQL_ENGINES[current.engine].defaultPort ?? "");
+      const port =
+        !current.port || current.port === oldDefault
+          ? String(SQL_ENGINES[engine].defaultPort ?? "")
+          : current.port;
+      return { ...current, engine, port };
+    });
+
+  const isSqlite = form.engine === "sqlite";
+
+  /**
+   * Placeholder for a credential input
+   */
+  const secretPlaceholder = (name: string, fallback: string) =>
+    integration?.secretFields.includes(name) ? "Saved. Leave blank to keep it" : fallback;
+
+  /**
+   * Settings and typed-in credentials for the selected type
+   */
+  const buildRequest = () => {
+    if (type === "API") return buildApiSettings(apiForm);
+    if (type === "WEBHOOK") return buildWebhookSettings(webhookForm);
+
+    const config = {
+      engine: form.engine,
+      host: form.host,
+      port: form.port ? Number(form.port) : undefined,
+      database: form.database,
+      username: form.username,
+      ssl: form.ssl,
+      source:
+        form.sourceKind === "table"
+          ? { kind: "table", table: form.table }
+          : form.sourceKind === "query"
+            ? { kind: "query", query: form.query }
+            : undefined,
+      rowLimit: form.rowLimit ? Number(form.rowLimit) : undefined,
+      incremental: form.incrementalColumn
+        ? { column: form.incrementalColumn, kind: form.incrementalKind }
+        : undefined,
+    };
+
+    // Only send credentials that were typed in
+    const secrets: Record<string, string> = form.password ? { password: form.password } : {};
+
+    return { config, secrets };
+  };
+
+  /**
+   * Try the entered settings against the real source
+   */
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+
+    try {
+      const response = await fetch("/api/integrations/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type, integrationId: integration?.id, ...buildRequest() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to test connection");
+      }
+
+      setTestResult(data.result);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to test connection",
+        variant: "destructive",
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  /**
+   * Create or update the integration
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const { config, secrets } = buildRequest();
+
+    try {
+      const response = await fetch(
+        isEditing ? `/api/integrations/${integration.id}` : "/api/integrations",
+        {
+          method: isEditing ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            isEditing
+              ? { name: form.name, config, secrets }
+              : { type, name: form.name, config, secrets }
+          ),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save integration");
+      }
+
+      toast({
+        title: isEditing ? "Integration updated" : "Integration created",
+        description: `${data.integration.name} has been saved.`,
+      });
+      onSaved(data.integration);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save integration",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submitLabel = isSaving
+    ? "Saving..."
+    : isEditing
+      ? "Save Changes"
+      : "Create Integration";
+
+  /**
+   * Test result and the test/save buttons, shared by all tabs
+   */
+  const formFooter = (
+    <>
+      {testResult && <ConnectionTestPanel result={testResult} />}
+      <div className="flex gap-2">
+        {type !== "WEBHOOK" && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleTest}
+            disabled={isTesting || isSaving}
+            className="flex-1"
+          >
+            {isTesting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isTesting ? "Testing..." : "Test Connection"}
+          </Button>
+        )}
+        <Button
+          type="submit"
+          disabled={isSaving}
+          className="flex-1 bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Integration" : "Add New Integration"}</DialogTitle>
+          <DialogDescription>
+            Connect an API endpoint or SQL database, or receive webhook deliveries, to
+            automatically ingest data.
+            Credentials are encrypted and never shown again after saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs
+          value={type.toLowerCase()}
+          onValueChange={(value) => {
+            setType(value.toUpperCase() as IntegrationItem["type"]);
+            setTestResult(null);
+          }}
+          className="mt-4"
+        >
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="api" disabled={isEditing && type !== "API"}>
+              <Globe className="mr-2 h-4 w-4" />
+              API
+            </TabsTrigger>
+            <TabsTrigger value="sql" disabled={isEditing && type !== "SQL"}>
+              <Database className="mr-2 h-4 w-4" />
+              SQL Database
+            </TabsTrigger>
+            <TabsTrigger value="webhook" disabled={isEditing && type !== "WEBHOOK"}>
+              <Webhook className="mr-2 h-4 w-4" />
+              Webhook
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="api">
+            <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-name">Integration Name</Label>
+                <Input
+                  id="api-name"
+                  placeholder="e.g., Transaction API"
+                  value={form.name}
+                  onChange={field("name")}
+                  required
+                />
+              </div>
+              <ApiFields
+                form={apiForm}
+                onChange={(patch) => setApiForm((current) => ({ ...current, ...patch }))}
+                secretFields={integration?.secretFields ?? []}
+              />
+              {formFooter}
+            </form>
+          </TabsContent>
+
+          <TabsContent value="sql">
+            <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+              <div className="space-y-2">
+                <Label htmlFor="sql-name">Integration Name</Label>
+                <Input
+                  id="sql-name"
+                  placeholder="e.g., Accounting Database"
+                  value={form.name}
+                  onChange={field("name")}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sql-engine">Database Engine</Label>
+                <select
+                  id="sql-engine"
+                  value={form.engine}
+                  onChange={(e) => setEngine(e.target.value as SqlEngine)}
+                  className={selectClassName}
+                >
+                  {(Object.keys(SQL_ENGINES) as SqlEngine[]).map((engine) => (
+                    <option key={engine} value={engine}>
+                      {SQL_ENGINES[engine].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {isSqlite ? (
+                <div className="space-y-2">
+                  <Label htmlFor="sql-database">Database File</Label>
+                  <Input
+                    id="sql-database"
+                    placeholder="ledger.db"
+                    value={form.database}
+                    onChange={field("database")}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Path inside your folder of the server&apos;s SQLite directory. The file is opened read-only.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="sql-host">Host</Label>
+                    <Input
+                      id="sql-host"
+                      placeholder="localhost or database.example.com"
+                      value={form.host}
+                      onChange={field("host")}
+                      required
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="sql-port">Port</Label>
+                      <Input
+                        id="sql-port"
+                        inputMode="numeric"
+                        placeholder={String(SQL_ENGINES[form.engine].defaultPort ?? "")}
+                        value={form.port}
+                        onChange={field("port")}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="sql-database">Database</Label>
+                      <Input
+                        id="sql-database"
+                        placeholder="mydb"
+                        value={form.database}
+                        onChange={field("database")}
+                        required
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="sql-user">Username</Label>
+                      <Input
+                        id="sql-user"
+                        value={form.username}
+                        onChange={field("username")}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="sql-password">Password</Label>
+                      <Input
+                        id="sql-password"
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder={secretPlaceholder("password", "")}
+                        value={form.password}
+                        onChange={field("password")}
+                        required={!integration?.secretFields.includes("password")}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="sql-ssl"
+                      checked={form.ssl}
+                      onCheckedChange={(ssl) => setForm((current) => ({ ...current, ssl }))}
+                    />
+                    <Label htmlFor="sql-ssl">Use TLS (verify server certificate)</Label>
+                  </div>
+                </>
+              )}
+
+              {/* Import Source */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sql-source">Import From</Label>
+                  <select
+                    id="sql-source"
+                    value={form.sourceKind}
+                    onChange={(e) =>
+                      setForm((current) => ({
+                        ...current,
+                        sourceKind: e.target.value as FormState["sourceKind"],
+                      }))
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">Choose later</option>
+                    <option value="table">A table or view</option>
+                    <option value="query">A SQL query</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sql-row-limit">Row Limit (optional)</Label>
+                  <Input
+                    id="sql-row-limit"
+                    inputMode="numeric"
+                    placeholder="Server maximum"
+                    value={form.rowLimit}
+                    onChange={field("rowLimit")}
+                  />
+                </div>
+              </div>
+              {form.sourceKind === "table" && (
+                <div className="space-y-2">
+                  <Label htmlFor="sql-table">Table</Label>
+                  <Input
+                    id="sql-table"
+                    list="sql-tables"
+                    placeholder="e.g., public.transactions"
+                    value={form.table}
+                    onChange={field("table")}
+                    required
+                  />
+                  {/* Tables found by the last connection test */}
+                  <datalist id="sql-tables">
+                    {testResult?.tables?.map((table) => (
+                      <option key={table} value={table} />
+                    ))}
+                  </datalist>
+                </div>
+              )}
+              {form.sourceKind === "query" && (
+                <div className="space-y-2">
+                  <Label htmlFor="sql-query">Query</Label>
+                  <Textarea
+                    id="sql-query"
+                    rows={5}
+                    className="font-mono text-xs"
+                    placeholder="SELECT posted_at, amount, vendor FROM transactions WHERE posted_at >= '2025-01-01'"
+                    value={form.query}
+                    onChange={field("query")}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    A single read-only SELECT. It runs in a read-only session with a time limit.
+                  </p>
+                </div>
+              )}
+              {form.sourceKind && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="sql-incremental-column">Incremental Column (optional)</Label>
+                    <Input
+                      id="sql-incremental-column"
+                      placeholder="e.g., updated_at"
+                      value={form.incrementalColumn}
+                      onChange={field("incrementalColumn")}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="sql-incremental-kind">Column Holds</Label>
+                    <select
+                      id="sql-incremental-kind"
+                      value={form.incrementalKind}
+                      onChange={(e) =>
+                        setForm((current) => ({
+                          ...current,
+                          incrementalKind: e.target.value as WatermarkKind,
+                        }))
+                      }
+                      disabled={!form.incrementalColumn}
+                      className={selectClassName}
+                    >
+                      <option value="timestamp">A timestamp</option>
+                      <option value="id">An increasing id</option>
+                    </select>
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    Syncs then read only rows where this column is above the last synced value.
+                  </p>
+                </div>
+              )}
+              {formFooter}
+            </form>
+          </TabsContent>
+
+          <TabsContent value="webhook">
+            <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-name">Integration Name</Label>
+                <Input
+                  id="webhook-name"
+                  placeholder="e.g., Payments Webhook"
+                  value={form.name}
+                  onChange={field("name")}
+                  required
+                />
+              </div>
+              <WebhookFields
+                form={webhookForm}
+                onChange={(patch) => setWebhookForm((current) => ({ ...current, ...patch }))}
+                secretFields={integration?.secretFields ?? []}
+              />
+              {formFooter}
+            </form>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,422 @@
+/**
+ * @fileoverview Integration Sync Dialog Component
+ *
+ * Sync settings and history of one integration:
+ * - Schedule: a preset or a custom cron expression (UTC), with a preview
+ *   of the next run, and the modules run on each case a sync creates.
+ *   Schedules need a plan that includes them.
+ * - "Sync Now", optionally reading everything again instead of only the
+ *   records after the watermark.
+ * - The recent runs with their row counts, durations and errors, linking
+ *   to the cases they created.
+ */
+
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { ANALYSIS_MODULES, DEFAULT_MODULES } from "@/lib/analysis/modules";
+import { nextCronTime } from "@/lib/cron";
+import { syncScheduleSchema } from "@/lib/validations/integration";
+import type { IntegrationItem } from "@/components/integrations/integration-dialog";
+
+/**
+ * Sync run as returned by GET /api/integrations/:id/syncs
+ */
+interface SyncRunItem {
+  id: string;
+  status: "RUNNING" | "SUCCEEDED" | "FAILED";
+  trigger: "SCHEDULE" | "MANUAL";
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  rowsRead: number;
+  watermarkFrom: string | null;
+  watermarkTo: string | null;
+  error: string | null;
+  caseId: string | null;
+}
+
+/**
+ * Schedule presets; "custom" shows the cron expression input
+ */
+const PRESETS = [
+  { value: "", label: "Off (sync manually)" },
+  { value: "0 * * * *", label: "Every hour" },
+  { value: "0 */6 * * *", label: "Every 6 hours" },
+  { value: "0 0 * * *", label: "Daily at 00:00 UTC" },
+  { value: "0 0 * * 1", label: "Weekly on Monday at 00:00 UTC" },
+  { value: "custom", label: "Custom (cron expression)" },
+];
+
+const STATUS_STYLES: Record<SyncRunItem["status"], string> = {
+  RUNNING: "bg-blue-500/10 text-blue-500",
+  SUCCEEDED: "bg-green-500/10 text-green-500",
+  FAILED: "bg-red-500/10 text-red-500",
+};
+
+const selectClassName =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm";
+
+/**
+ * Formats a run's duration, e.g. "850 ms" or "2.4 s"
+ */
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "–";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+interface SyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Integration whose syncs are shown */
+  integration: IntegrationItem | null;
+  /** Whether the user's plan includes scheduled syncs */
+  canSchedule: boolean;
+  /** Called with the integration after its sync settings changed */
+  onUpdated: (integration: IntegrationItem) => void;
+}
+
+/**
+ * Integration Sync Dialog Component
+ */
+export function SyncDialog({
+  open,
+  onOpenChange,
+  integration,
+  canSchedule,
+  onUpdated,
+}: SyncDialogProps) {
+  const [preset, setPreset] = React.useState("");
+  const [expression, setExpression] = React.useState("");
+  const [selectedModules, setSelectedModules] = React.useState<string[]>(DEFAULT_MODULES);
+  const [resetWatermark, setResetWatermark] = React.useState(false);
+  const [runs, setRuns] = React.useState<SyncRunItem[]>([]);
+  const [isLoadingRuns, setIsLoadingRuns] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isSyncing, setIsSyncing] = React.useState(false);
+  const { toast } = useToast();
+
+  /**
+   * Reload the sync history
+   */
+  const loadRuns = React.useCallback(() => {
+    if (!integration) return;
+    setIsLoadingRuns(true);
+    fetch(`/api/integrations/${integration.id}/syncs`)
+      .then((response) => (response.ok ? response.json() : { runs: [] }))
+      .then((data) => setRuns(data.runs ?? []))
+      .catch(() => setRuns([]))
+      .finally(() => setIsLoadingRuns(false));
+  }, [integration]);
+
+  // Fill the form from the saved settings and load the history each time the dialog opens
+  React.useEffect(() => {
+    if (open && integration) {
+      const schedule = integration.schedule ?? "";
+      const known = PRESETS.some((option) => option.value === schedule);
+      setPreset(known ? schedule : "custom");
+      setExpression(schedule);
+      setSelectedModules(
+        integration.syncModules.length > 0 ? integration.syncModules : DEFAULT_MODULES
+      );
+      setResetWatermark(false);
+      loadRuns();
+    }
+  }, [open, integration, loadRuns]);
+
+  const schedule = preset === "custom" ? expression.trim() : preset;
+  const checked = schedule ? syncScheduleSchema.safeParse(schedule) : null;
+  const scheduleError = checked && !checked.success ? checked.error.issues[0]?.message : null;
+  const nextRun = checked?.success ? nextCronTime(checked.data) : null;
+
+  /**
+   * Toggle module selection
+   */
+  const toggleModule = (moduleId: string) => {
+    setSelectedModules((prev) =>
+      prev.includes(moduleId) ? prev.filter((id) => id !== moduleId) : [...prev, moduleId]
+    );
+  };
+
+  /**
+   * Save the schedule and modules
+   */
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!integration) return;
+
+    if (selectedModules.length === 0) {
+      toast({
+        title: "No modules selected",
+        description: "Select at least one analysis module",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/integrations/${integration.id}/schedule`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ schedule: schedule || null, modules: selectedModules }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save the schedule");
+      }
+
+      onUpdated({ ...integration, ...data.integration });
+      toast({
+        title: "Schedule saved",
+        description: schedule
+          ? `${integration.name} will sync automatically.`
+          : `${integration.name} will only sync manually.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Ask the worker for a sync right away
+   */
+  const handleSyncNow = async () => {
+    if (!integration) return;
+    setIsSyncing(true);
+
+    try {
+      const response = await fetch(`/api/integrations/${integration.id}/sync`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resetWatermark }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start the sync");
+      }
+
+      onUpdated({ ...integration, ...data.integration });
+      setResetWatermark(false);
+      toast({
+        title: "Sync requested",
+        description: "The sync starts as soon as a worker is free. New records become a case.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the sync",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Syncs</DialogTitle>
+          <DialogDescription>
+            Each sync reads the new records of {integration?.name ?? "this integration"} into a
+            case and analyzes it.
+            {integration?.watermark && ` Synced up to ${integration.watermark}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Schedule */}
+        <form onSubmit={handleSave} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="sync-schedule">Schedule</Label>
+            <select
+              id="sync-schedule"
+              value={preset}
+              onChange={(e) => setPreset(e.target.value)}
+              disabled={!canSchedule && !integration?.schedule}
+              className={selectClassName}
+            >
+              {PRESETS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {preset === "custom" && (
+              <Input
+                id="sync-cron"
+                className="font-mono"
+                placeholder="*/30 * * * *"
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+                aria-label="Cron expression"
+              />
+            )}
+            {!canSchedule ? (
+              <p className="text-xs text-muted-foreground">
+                Scheduled syncs are included in the Pro plan. You can still sync manually.
+              </p>
+            ) : scheduleError ? (
+              <p className="text-xs text-red-500">{scheduleError}</p>
+            ) : schedule ? (
+              <p className="text-xs text-muted-foreground">
+                {nextRun
+                  ? `Next run: ${nextRun.toLocaleString()}`
+                  : "This schedule never runs."}
+              </p>
+            ) : null}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Analysis Modules</Label>
+            {ANALYSIS_MODULES.map((module) => (
+              <label
+                key={module.id}
+                className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  selectedModules.includes(module.id)
+                    ? "border-[#FD4D53] bg-[#FD4D53]/5"
+                    : "border-muted hover:border-muted-foreground"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedModules.includes(module.id)}
+                  onChange={() => module.enabled && toggleModule(module.id)}
+                  disabled={!module.enabled}
+                  className="h-4 w-4 accent-[#FD4D53]"
+                />
+                <div>
+                  <p className="text-sm font-medium">{module.name}</p>
+                  <p className="text-xs text-muted-foreground">{module.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <Button
+            type="submit"
+            disabled={isSaving || Boolean(scheduleError) || (!canSchedule && Boolean(schedule))}
+            className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+          >
+            {isSaving ? "Saving..." : "Save Schedule"}
+          </Button>
+        </form>
+
+        {/* Sync Now */}
+        <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={resetWatermark}
+              onChange={(e) => setResetWatermark(e.target.checked)}
+              className="h-4 w-4 accent-[#FD4D53]"
+            />
+            Full resync (read every record again)
+          </label>
+          <Button
+            variant="outline"
+            onClick={handleSyncNow}
+            disabled={isSyncing || !integration?.isActive || Boolean(integration?.syncRequestedAt)}
+          >
+            {isSyncing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {integration?.syncRequestedAt ? "Sync Requested" : "Sync Now"}
+          </Button>
+        </div>
+
+        {/* History */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Recent Syncs</h3>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={loadRuns}
+              disabled={isLoadingRuns}
+              aria-label="Refresh sync history"
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoadingRuns ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isLoadingRuns ? "Loading..." : "No syncs yet."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr className="text-left">
+                    <th className="px-3 py-2 font-medium">Started</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2 font-medium">Rows</th>
+                    <th className="px-3 py-2 font-medium">Duration</th>
+                    <th className="px-3 py-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map((run) => (
+                    <tr key={run.id} className="border-t align-top">
+                      <td className="px-3 py-2">
+                        <p>{new Date(run.startedAt).toLocaleString()}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {run.trigger === "SCHEDULE" ? "Scheduled" : "Manual"}
+                        </p>
+                      </td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[run.status]}`}
+                        >
+                          {run.status.toLowerCase()}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">{run.rowsRead.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-muted-foreground">
+                        {formatDuration(run.durationMs)}
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {run.error ? (
+                          <span className="text-red-500">{run.error}</span>
+                        ) : run.caseId ? (
+                          <Link
+                            href={`/dashboard/cases/${run.caseId}`}
+                            className="text-[#FD4D53] hover:underline"
+                          >
+                            View case
+                          </Link>
+                        ) : run.status === "SUCCEEDED" ? (
+                          <span className="text-muted-foreground">No new records</span>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Webhook Deliveries Dialog Component
+ *
+ * Inbound URL and activity of one webhook integration:
+ * - The URL senders POST to, with how to sign each delivery.
+ * - The recent windows: how many records each collected, when it closes
+ *   and the case it was analyzed as (or why that failed).
+ * - The recent deliveries, accepted or rejected with the reason.
+ */
+
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { Copy, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import type { IntegrationItem } from "@/components/integrations/integration-dialog";
+
+/**
+ * Delivery as returned by GET /api/integrations/:id/deliveries
+ */
+interface DeliveryItem {
+  id: string;
+  status: "ACCEPTED" | "REJECTED";
+  receivedAt: string;
+  records: number;
+  bytes: number;
+  reason: string | null;
+  windowId: string | null;
+}
+
+/**
+ * Window as returned by GET /api/integrations/:id/deliveries
+ */
+interface WindowItem {
+  id: string;
+  status: "OPEN" | "CLOSING" | "CLOSED" | "FAILED";
+  openedAt: string;
+  closesAt: string;
+  closedAt: string | null;
+  records: number;
+  error: string | null;
+  caseId: string | null;
+}
+
+const DELIVERY_STYLES: Record<DeliveryItem["status"], string> = {
+  ACCEPTED: "bg-green-500/10 text-green-500",
+  REJECTED: "bg-red-500/10 text-red-500",
+};
+
+const WINDOW_STYLES: Record<WindowItem["status"], string> = {
+  OPEN: "bg-blue-500/10 text-blue-500",
+  CLOSING: "bg-blue-500/10 text-blue-500",
+  CLOSED: "bg-green-500/10 text-green-500",
+  FAILED: "bg-red-500/10 text-red-500",
+};
+
+/**
+ * Formats a body size, e.g. "512 B" or "1.2 KB"
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Inbound URL of a webhook integration
+ */
+export function webhookUrl(integrationId: string): string {
+  const origin = typeof window === "undefined" ? "" : window.location.origin;
+  return `${origin}/api/ingest/${integrationId}`;
+}
+
+interface WebhookDeliveriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Webhook integration whose deliveries are shown */
+  integration: IntegrationItem | null;
+}
+
+/**
+ * Webhook Deliveries Dialog Component
+ */
+export function WebhookDeliveriesDialog({
+  open,
+  onOpenChange,
+  integration,
+}: WebhookDeliveriesDialogProps) {
+  const [deliveries, setDeliveries] = React.useState<DeliveryItem[]>([]);
+  const [windows, setWindows] = React.useState<WindowItem[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const { toast } = useToast();
+
+  /**
+   * Reload the deliveries and windows
+   */
+  const load = React.useCallback(() => {
+    if (!integration) return;
+    setIsLoading(true);
+    fetch(`/api/integrations/${integration.id}/deliveries`)
+      .then((response) => (response.ok ? response.json() : { deliveries: [], windows: [] }))
+      .then((data) => {
+        setDeliveries(data.deliveries ?? []);
+        setWindows(data.windows ?? []);
+      })
+      .catch(() => {
+        setDeliveries([]);
+        setWindows([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [integration]);
+
+  // Load the history each time the dialog opens
+  React.useEffect(() => {
+    if (open && integration) load();
+  }, [open, integration, load]);
+
+  const url = integration ? webhookUrl(integration.id) : "";
+
+  /**
+   * Copy the inbound URL to the clipboard
+   */
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Copied", description: "The webhook URL is on your clipboard." });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not copy the URL",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Webhook Deliveries{integration ? `: ${integration.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Records sent to this URL are collected and analyzed as one case per window.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Inbound URL */}
+        <div className="space-y-2">
+          <Label htmlFor="webhook-url">Webhook URL</Label>
+          <div className="flex gap-2">
+            <Input id="webhook-url" readOnly value={url} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy URL">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            POST a JSON array, an object holding the records, or NDJSON
+            (<code>application/x-ndjson</code>). Sign each delivery with the signing secret:
+            send <code>X-Fraudlr-Timestamp</code> (Unix seconds) and{" "}
+            <code>X-Fraudlr-Signature: sha256=</code> followed by the hex HMAC-SHA256 of{" "}
+            <code>timestamp.body</code>. Deliveries more than 5 minutes old, or sent twice, are
+            rejected.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-end">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={load}
+            disabled={isLoading}
+            aria-label="Refresh deliveries"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+
+        {/* Windows */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Recent Windows</h3>
+          {windows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isLoading ? "Loading..." : "No records received yet."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr className="text-left">
+                    <th className="px-3 py-2 font-medium">Opened</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2 font-medium">Records</th>
+                    <th className="px-3 py-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {windows.map((item) => (
+                    <tr key={item.id} className="border-t align-top">
+                      <td className="px-3 py-2">{new Date(item.openedAt).toLocaleString()}</td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${WINDOW_STYLES[item.status]}`}
+                        >
+                          {item.status.toLowerCase()}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">{item.records.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-xs">
+                        {item.caseId ? (
+                          <Link
+                            href={`/dashboard/cases/${item.caseId}`}
+                            className="text-[#FD4D53] hover:underline"
+                          >
+                            View case
+                          </Link>
+                        ) : item.error ? (
+                          <span className="text-red-500">{item.error}</span>
+                        ) : item.status === "OPEN" ? (
+                          <span className="text-muted-foreground">
+                            Closes {new Date(item.closesAt).toLocaleString()}
+                          </span>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Deliveries */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Recent Deliveries</h3>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isLoading ? "Loading..." : "No deliveries yet."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr className="text-left">
+                    <th className="px-3 py-2 font-medium">Received</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2 font-medium">Records</th>
+                    <th className="px-3 py-2 font-medium">Size</th>
+                    <th className="px-3 py-2 font-medium">Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.map((delivery) => (
+                    <tr key={delivery.id} className="border-t align-top">
+                      <td className="px-3 py-2">
+                        {new Date(delivery.receivedAt).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${DELIVERY_STYLES[delivery.status]}`}
+                        >
+                          {delivery.status.toLowerCase()}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">{delivery.records.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-muted-foreground">
+                        {formatBytes(delivery.bytes)}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-red-500">{delivery.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
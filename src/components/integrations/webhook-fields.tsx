@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Webhook Integration Fields Component
+ *
+ * The Webhook tab of the integration dialog: how long records are
+ * collected before each case is analyzed, the modules it runs, where the
+ * records are in each delivery, the field mapping and the signing secret
+ * senders sign deliveries with. Holds no state of its own; the dialog
+ * owns the values and turns them into settings and credentials with
+ * `buildWebhookSettings`.
+ */
+
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { FieldMapping } from "@/components/integrations/field-mapping";
+import { ANALYSIS_MODULES, DEFAULT_MODULES } from "@/lib/analysis/modules";
+import type { ColumnRoles } from "@/lib/column-mapping";
+
+/**
+ * Form values of the Webhook tab (the secret starts blank when editing)
+ */
+export interface WebhookFormState {
+  windowMinutes: string;
+  modules: string[];
+  recordsPath: string;
+  fields: ColumnRoles;
+  signingSecret: string;
+}
+
+export const emptyWebhookForm: WebhookFormState = {
+  windowMinutes: "60",
+  modules: DEFAULT_MODULES,
+  recordsPath: "",
+  fields: {},
+  signingSecret: "",
+};
+
+/**
+ * Fills the Webhook form from saved settings
+ */
+export function webhookFormFromConfig(config: Record<string, unknown>): WebhookFormState {
+  return {
+    ...emptyWebhookForm,
+    windowMinutes: config.windowMinutes ? String(config.windowMinutes) : "60",
+    modules: (config.modules as string[] | undefined) ?? DEFAULT_MODULES,
+    recordsPath: String(config.recordsPath ?? ""),
+    fields: (config.fields as ColumnRoles | undefined) ?? {},
+  };
+}
+
+/**
+ * Settings and typed-in credentials from the Webhook form
+ */
+export function buildWebhookSettings(form: WebhookFormState): {
+  config: Record<string, unknown>;
+  secrets: Record<string, string>;
+} {
+  const fields = Object.fromEntries(
+    Object.entries(form.fields).filter(([, path]) => path?.trim())
+  );
+
+  return {
+    config: {
+      windowMinutes: Number(form.windowMinutes),
+      modules: form.modules,
+      recordsPath: form.recordsPath.trim() || undefined,
+      fields: Object.keys(fields).length > 0 ? fields : undefined,
+    },
+    secrets: form.signingSecret ? { signingSecret: form.signingSecret } : {},
+  };
+}
+
+/**
+ * A random 256-bit signing secret, as hex
+ */
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+interface WebhookFieldsProps {
+  form: WebhookFormState;
+  onChange: (patch: Partial<WebhookFormState>) => void;
+  /** Names of the credentials saved for the integration being edited */
+  secretFields: string[];
+}
+
+/**
+ * Webhook Integration Fields Component
+ */
+export function WebhookFields({ form, onChange, secretFields }: WebhookFieldsProps) {
+  const hasSecret = secretFields.includes("signingSecret");
+
+  const toggleModule = (moduleId: string) =>
+    onChange({
+      modules: form.modules.includes(moduleId)
+        ? form.modules.filter((id) => id !== moduleId)
+        : [...form.modules, moduleId],
+    });
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="webhook-window">Analysis Window (minutes)</Label>
+        <Input
+          id="webhook-window"
+          type="number"
+          min={5}
+          max={1440}
+          value={form.windowMinutes}
+          onChange={(e) => onChange({ windowMinutes: e.target.value })}
+          required
+        />
+        <p className="text-xs text-muted-foreground">
+          Records are collected from the first delivery for this long, then analyzed as one case.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Analysis Modules</Label>
+        {ANALYSIS_MODULES.map((module) => (
+          <label
+            key={module.id}
+            className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+              form.modules.includes(module.id)
+                ? "border-[#FD4D53] bg-[#FD4D53]/5"
+                : "border-muted hover:border-muted-foreground"
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={form.modules.includes(module.id)}
+              onChange={() => module.enabled && toggleModule(module.id)}
+              disabled={!module.enabled}
+              className="h-4 w-4 accent-[#FD4D53]"
+            />
+            <div>
+              <p className="text-sm font-medium">{module.name}</p>
+              <p className="text-xs text-muted-foreground">{module.description}</p>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {/* Records and field mapping */}
+      <div className="space-y-2">
+        <Label htmlFor="webhook-records-path">Records Path (optional)</Label>
+        <Input
+          id="webhook-records-path"
+          placeholder="Detected automatically, e.g. $.events"
+          value={form.recordsPath}
+          onChange={(e) => onChange({ recordsPath: e.target.value })}
+        />
+      </div>
+      <FieldMapping
+        idPrefix="webhook"
+        fields={form.fields}
+        onChange={(fields) => onChange({ fields })}
+      />
+
+      {/* Signing secret */}
+      <div className="space-y-2">
+        <Label htmlFor="webhook-secret">Signing Secret</Label>
+        <div className="flex gap-2">
+          <Input
+            id="webhook-secret"
+            autoComplete="off"
+            className="font-mono text-xs"
+            placeholder={hasSecret ? "Saved. Leave blank to keep it" : "At least 32 characters"}
+            value={form.signingSecret}
+            onChange={(e) => onChange({ signingSecret: e.target.value })}
+            required={!hasSecret}
+            minLength={32}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onChange({ signingSecret: generateSecret() })}
+          >
+            Generate
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Copy it to the sender before saving; it is not shown again.
+        </p>
+      </div>
+    </>
+  );
+}
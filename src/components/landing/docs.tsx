@@ -2,10 +2,13 @@
  * @fileoverview Docs Section Component
  * 
  * Displays basic API documentation using a Swagger-like format.
- * Shows available endpoints and how to integrate with Fraudlr.
+ * Shows available endpoints and how to integrate with Fraudlr. The
+ * endpoint list comes from the OpenAPI operations, and the full
+ * interactive reference is on the /docs page.
  */
 
-import { Code2, FileJson, Key, Globe } from "lucide-react";
+import Link from "next/link";
+import { ArrowRight, Code2, FileJson, Key, Globe } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -14,45 +17,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-
-/**
- * API endpoint documentation
- */
-const endpoints = [
-  {
-    method: "POST",
-    path: "/api/v1/analyze",
-    description: "Upload and analyze a CSV file for fraud detection",
-    params: [
-      { name: "file", type: "File", required: true, description: "CSV file to analyze" },
-      { name: "case_name", type: "string", required: true, description: "Name for this analysis case" },
-    ],
-  },
-  {
-    method: "GET",
-    path: "/api/v1/cases",
-    description: "Retrieve all analysis cases for the authenticated user",
-    params: [],
-  },
-  {
-    method: "GET",
-    path: "/api/v1/cases/:id",
-    description: "Get detailed results for a specific case",
-    params: [
-      { name: "id", type: "string", required: true, description: "Case ID" },
-    ],
-  },
-  {
-    method: "POST",
-    path: "/api/v1/integrations",
-    description: "Create a new data integration (API or SQL)",
-    params: [
-      { name: "name", type: "string", required: true, description: "Integration name" },
-      { name: "type", type: "API | SQL", required: true, description: "Integration type" },
-      { name: "config", type: "object", required: true, description: "Connection configuration" },
-    ],
-  },
-];
+import { V1_OPERATIONS } from "@/lib/openapi";
 
 /**
  * Code examples for different languages
@@ -60,7 +25,6 @@ const endpoints = [
 const codeExamples = {
   curl: `curl -X POST https://api.fraudlr.com/v1/analyze \\
   -H "Authorization: Bearer YOUR_API_KEY" \\
-  -H "Content-Type: multipart/form-data" \\
   -F "file=@transactions.csv" \\
   -F "case_name=Q4 Audit 2025"`,
   
@@ -152,26 +116,33 @@ export function Docs() {
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                {endpoints.map((endpoint) => (
+                {V1_OPERATIONS.map((operation) => (
                   <div
-                    key={endpoint.path}
+                    key={operation.operationId}
                     className="p-4 bg-[#1a1a1a] rounded border border-[#545454]/30"
                   >
                     <div className="flex items-center gap-3 mb-2">
                       <span
                         className={`px-2 py-1 rounded text-xs font-mono font-bold ${
-                          endpoint.method === "POST"
+                          operation.method === "post"
                             ? "bg-green-500/20 text-green-400"
                             : "bg-blue-500/20 text-blue-400"
                         }`}
                       >
-                        {endpoint.method}
+                        {operation.method.toUpperCase()}
                       </span>
-                      <code className="text-[#F3F3F3]">{endpoint.path}</code>
+                      <code className="text-[#F3F3F3]">/api/v1{operation.path}</code>
                     </div>
-                    <p className="text-[#D9D9D9] text-sm">{endpoint.description}</p>
+                    <p className="text-[#D9D9D9] text-sm">{operation.summary}</p>
                   </div>
                 ))}
+                <Link
+                  href="/docs"
+                  className="inline-flex items-center gap-2 text-sm font-medium text-[#FD4D53] hover:underline"
+                >
+                  Full API reference with try it out
+                  <ArrowRight className="h-4 w-4" />
+                </Link>
               </CardContent>
             </Card>
           </div>
@@ -0,0 +1,349 @@
+/**
+ * @fileoverview API Keys Card Component
+ *
+ * The API Keys card of the Settings page: lists the user's keys by name
+ * and prefix with their scopes, expiry and last use, creates keys and
+ * revokes them. A new key is shown once, right after it is created, with
+ * a copy button; only its hash is stored.
+ */
+
+"use client";
+
+import * as React from "react";
+import { Copy, Key, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import type { ApiKeyScope } from "@/lib/validations/api-key";
+
+/**
+ * API key as returned by GET /api/api-keys
+ */
+interface ApiKeyItem {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const SCOPE_OPTIONS: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: "cases:read", label: "Read cases", description: "List cases and read their results" },
+  { value: "cases:write", label: "Write cases", description: "Upload files for analysis" },
+  {
+    value: "integrations:manage",
+    label: "Manage integrations",
+    description: "Create data integrations",
+  },
+];
+
+/**
+ * Expiry choices in days ("" = never)
+ */
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "", label: "Never" },
+];
+
+const selectClassName =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm";
+
+/**
+ * Expiry line of a key, e.g. "Expires 19/01/2027" or "Expired"
+ */
+function describeExpiry(expiresAt: string | null): string {
+  if (!expiresAt) return "Never expires";
+  const date = new Date(expiresAt);
+  return date <= new Date() ? "Expired" : `Expires ${date.toLocaleDateString()}`;
+}
+
+/**
+ * API Keys Card Component
+ */
+export function ApiKeysCard() {
+  const [apiKeys, setApiKeys] = React.useState<ApiKeyItem[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [scopes, setScopes] = React.useState<ApiKeyScope[]>(["cases:read"]);
+  const [expiresInDays, setExpiresInDays] = React.useState("90");
+  const [isCreating, setIsCreating] = React.useState(false);
+  // The key just created; shown until the dialog closes
+  const [createdKey, setCreatedKey] = React.useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Load the keys once on mount
+  React.useEffect(() => {
+    fetch("/api/api-keys")
+      .then((response) => (response.ok ? response.json() : { apiKeys: [] }))
+      .then((data) => setApiKeys(data.apiKeys ?? []))
+      .catch(() => setApiKeys([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  /**
+   * Open the dialog with an empty form
+   */
+  const openDialog = () => {
+    setName("");
+    setScopes(["cases:read"]);
+    setExpiresInDays("90");
+    setCreatedKey(null);
+    setIsDialogOpen(true);
+  };
+
+  const toggleScope = (scope: ApiKeyScope) =>
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+
+  /**
+   * Create the key and show it
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const response = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create API key");
+      }
+
+      setApiKeys((current) => [data.apiKey, ...current]);
+      setCreatedKey(data.key);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API key",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  /**
+   * Copy the new key to the clipboard
+   */
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      toast({ title: "Copied", description: "The API key is on your clipboard." });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not copy the key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Revoke a key after confirmation
+   */
+  const handleRevoke = async (apiKey: ApiKeyItem) => {
+    if (!window.confirm(`Revoke the API key "${apiKey.name}"? Programs using it will stop working.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/api-keys/${apiKey.id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to revoke API key");
+      }
+
+      setApiKeys((current) => current.filter((item) => item.id !== apiKey.id));
+      toast({
+        title: "API key revoked",
+        description: `${apiKey.name} can no longer be used.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke API key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Key className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Manage API keys for programmatic access
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-4 bg-muted rounded-lg">
+          <p className="text-sm text-muted-foreground mb-4">
+            API keys allow you to access Fraudlr programmatically. Keep your
+            keys secure and never share them publicly.
+          </p>
+          <Button variant="outline" onClick={openDialog}>
+            Generate New API Key
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : apiKeys.length > 0 ? (
+          <div className="divide-y rounded-lg border">
+            {apiKeys.map((apiKey) => (
+              <div key={apiKey.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{apiKey.name}</p>
+                  <p className="font-mono text-xs text-muted-foreground">{apiKey.prefix}…</p>
+                  <p className="text-xs text-muted-foreground">
+                    {apiKey.scopes.join(", ")} • {describeExpiry(apiKey.expiresAt)} • Last used:{" "}
+                    {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "Never"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-red-500"
+                  onClick={() => handleRevoke(apiKey)}
+                  aria-label="Revoke API key"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{createdKey ? "API Key Created" : "Generate API Key"}</DialogTitle>
+            <DialogDescription>
+              {createdKey
+                ? "Copy the key now. It is not stored and cannot be shown again."
+                : "Choose what the key may do and when it expires."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdKey ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input readOnly value={createdKey} className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy key">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button
+                onClick={() => setIsDialogOpen(false)}
+                className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+              >
+                Done
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="e.g., Nightly export script"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {SCOPE_OPTIONS.map((option) => (
+                  <label
+                    key={option.value}
+                    className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                      scopes.includes(option.value)
+                        ? "border-[#FD4D53] bg-[#FD4D53]/5"
+                        : "border-muted hover:border-muted-foreground"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(option.value)}
+                      onChange={() => toggleScope(option.value)}
+                      className="h-4 w-4 accent-[#FD4D53]"
+                    />
+                    <div>
+                      <p className="text-sm font-medium">{option.label}</p>
+                      <p className="text-xs text-muted-foreground">{option.description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="api-key-expiry">Expires After</Label>
+                <select
+                  id="api-key-expiry"
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                  className={selectClassName}
+                >
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.label} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isCreating || scopes.length === 0}
+                className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+              >
+                {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isCreating ? "Generating..." : "Generate Key"}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
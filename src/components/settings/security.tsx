@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Security Card Component
+ *
+ * The Security card of the Settings page: changes the password after
+ * checking the current one. A new password must follow the password
+ * policy (the API says why one is refused), and saving it signs out every
+ * other session of the account (see sessions.tsx).
+ */
+
+"use client";
+
+import * as React from "react";
+import { Loader2, Shield } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+
+/**
+ * Security Card Component
+ */
+export function SecurityCard() {
+  const [currentPassword, setCurrentPassword] = React.useState("");
+  const [newPassword, setNewPassword] = React.useState("");
+  const [confirmPassword, setConfirmPassword] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { toast } = useToast();
+
+  /**
+   * Change the password
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Passwords do not match",
+        description: "Enter the same new password twice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch("/api/auth/change-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update password");
+      }
+
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({
+        title: "Password updated",
+        description: data.message,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update password",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Security
+        </CardTitle>
+        <CardDescription>
+          Manage your account security settings
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <Label htmlFor="current-password">Change Password</Label>
+          <div className="grid gap-4">
+            <Input
+              id="current-password"
+              type="password"
+              placeholder="Current password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+              disabled={isSaving}
+            />
+            <Input
+              type="password"
+              placeholder="New password"
+              aria-label="New password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              required
+              minLength={8}
+              disabled={isSaving}
+            />
+            <Input
+              type="password"
+              placeholder="Confirm new password"
+              aria-label="Confirm new password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              disabled={isSaving}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            At least 8 characters; common passwords and ones containing your
+            email or name are not accepted. Other devices are signed out.
+          </p>
+          <Button type="submit" variant="outline" className="mt-2" disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update Password
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
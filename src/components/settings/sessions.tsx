@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Sessions Card Component
+ *
+ * The Active Sessions card of the Settings page: lists the devices signed
+ * in to the account with their address and last use, signs out a single
+ * device, or signs out everywhere. Signing out this device (or everywhere)
+ * returns to the login page.
+ */
+
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, LogOut, MonitorSmartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+
+/**
+ * Session as returned by GET /api/auth/sessions
+ */
+interface SessionItem {
+  id: string;
+  device: string;
+  ip: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+/**
+ * Sessions Card Component
+ */
+export function SessionsCard() {
+  const [sessions, setSessions] = React.useState<SessionItem[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSigningOutAll, setIsSigningOutAll] = React.useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  // Load the sessions once on mount
+  React.useEffect(() => {
+    fetch("/api/auth/sessions")
+      .then((response) => (response.ok ? response.json() : { sessions: [] }))
+      .then((data) => setSessions(data.sessions ?? []))
+      .catch(() => setSessions([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  /**
+   * Sign out one device
+   */
+  const handleSignOut = async (session: SessionItem) => {
+    const question = session.current
+      ? "Sign out of this device?"
+      : `Sign out ${session.device}? It will have to log in again.`;
+    if (!window.confirm(question)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to sign out session");
+      }
+
+      if (session.current) {
+        router.push("/login");
+        router.refresh();
+        return;
+      }
+
+      setSessions((current) => current.filter((item) => item.id !== session.id));
+      toast({
+        title: "Session signed out",
+        description: `${session.device} has been signed out.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign out session",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Sign out every device, this one included
+   */
+  const handleSignOutAll = async () => {
+    if (!window.confirm("Sign out of all devices, including this one?")) {
+      return;
+    }
+
+    setIsSigningOutAll(true);
+
+    try {
+      const response = await fetch("/api/auth/sessions", { method: "DELETE" });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to sign out");
+      }
+
+      router.push("/login");
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign out",
+        variant: "destructive",
+      });
+      setIsSigningOutAll(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices signed in to your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {session.device}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-500/10 text-green-500">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {session.ip ?? "Unknown address"} • Last seen:{" "}
+                    {new Date(session.lastSeenAt).toLocaleString()} • Signed in:{" "}
+                    {new Date(session.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-red-500"
+                  onClick={() => handleSignOut(session)}
+                  aria-label="Sign out this device"
+                >
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={handleSignOutAll} disabled={isSigningOutAll}>
+          {isSigningOutAll && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Sign Out Everywhere
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,374 @@
+/**
+ * @fileoverview Two-Factor Authentication Card Component
+ *
+ * The Two-Factor Authentication card of the Settings page. Turning it on
+ * shows a QR code (and the secret, for typing in) for an authenticator
+ * app and asks for a first code; the recovery codes are then shown once.
+ * Turning it off, or replacing the recovery codes, asks for a code again
+ * (and the password, to turn it off). Accounts that must use MFA can't
+ * turn it off.
+ */
+
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+/**
+ * MFA status as returned by GET /api/auth/mfa
+ */
+interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesLeft: number;
+  required: boolean;
+}
+
+/**
+ * Setup details as returned by POST /api/auth/mfa/setup
+ */
+interface MfaSetup {
+  secret: string;
+  qrCode: string;
+}
+
+/**
+ * What the dialog is showing
+ * - setup: QR code and first code
+ * - codes: recovery codes, after enabling or replacing them
+ * - regenerate: code to replace the recovery codes
+ * - disable: password and code to turn MFA off
+ */
+type DialogMode = "setup" | "codes" | "regenerate" | "disable";
+
+const DIALOG_TITLES: Record<DialogMode, string> = {
+  setup: "Set Up Two-Factor Authentication",
+  codes: "Recovery Codes",
+  regenerate: "New Recovery Codes",
+  disable: "Turn Off Two-Factor Authentication",
+};
+
+/**
+ * Two-Factor Authentication Card Component
+ */
+export function TwoFactorCard() {
+  const [status, setStatus] = React.useState<MfaStatus | null>(null);
+  const [mode, setMode] = React.useState<DialogMode | null>(null);
+  const [setup, setSetup] = React.useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[]>([]);
+  const [code, setCode] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [isBusy, setIsBusy] = React.useState(false);
+  const { toast } = useToast();
+
+  /**
+   * Reload the MFA status
+   */
+  const loadStatus = React.useCallback(() => {
+    fetch("/api/auth/mfa")
+      .then((response) => (response.ok ? response.json() : { mfa: null }))
+      .then((data) => setStatus(data.mfa ?? null))
+      .catch(() => setStatus(null));
+  }, []);
+
+  // Load the status once on mount
+  React.useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  /**
+   * Open the dialog with empty fields
+   */
+  const openDialog = (next: DialogMode) => {
+    setCode("");
+    setPassword("");
+    setMode(next);
+  };
+
+  /**
+   * Posts to an MFA route and returns its JSON, throwing its error message
+   */
+  const post = async (url: string, body?: object) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Request failed");
+    }
+    return data;
+  };
+
+  /**
+   * Run an action with the busy state, reporting failures in a toast
+   */
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Request failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Create a secret and show its QR code
+   */
+  const handleStart = () =>
+    run(async () => {
+      const data = await post("/api/auth/mfa/setup");
+      setSetup({ secret: data.secret, qrCode: data.qrCode });
+      openDialog("setup");
+    });
+
+  /**
+   * Confirm the first code, turning MFA on
+   */
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const data = await post("/api/auth/mfa/enable", { code });
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      openDialog("codes");
+      loadStatus();
+    });
+  };
+
+  /**
+   * Replace the recovery codes
+   */
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const data = await post("/api/auth/mfa/recovery-codes", { code });
+      setRecoveryCodes(data.recoveryCodes);
+      openDialog("codes");
+      loadStatus();
+    });
+  };
+
+  /**
+   * Turn MFA off
+   */
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await post("/api/auth/mfa/disable", { password, code });
+      setMode(null);
+      loadStatus();
+      toast({
+        title: "Two-factor authentication turned off",
+        description: "Signing in now only needs your password.",
+      });
+    });
+  };
+
+  /**
+   * Copy the recovery codes to the clipboard
+   */
+  const handleCopyCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  };
+
+  const codeField = (
+    <div className="space-y-2">
+      <Label htmlFor="mfa-code">Authentication code</Label>
+      <Input
+        id="mfa-code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder={mode === "setup" ? "6-digit code" : "6-digit code or recovery code"}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        required
+      />
+    </div>
+  );
+
+  const submitButton = (label: string) => (
+    <Button
+      type="submit"
+      disabled={isBusy}
+      className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+    >
+      {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+      {label}
+    </Button>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app when signing in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!status ? (
+          <div className="flex justify-center py-4 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : status.enabled ? (
+          <>
+            <div className="p-4 bg-muted rounded-lg text-sm">
+              <p className="font-medium text-green-500">On</p>
+              <p className="text-muted-foreground">
+                Since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : "—"} •{" "}
+                {status.recoveryCodesLeft} recovery code
+                {status.recoveryCodesLeft === 1 ? "" : "s"} left
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => openDialog("regenerate")}>
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="outline"
+                  className="text-red-500"
+                  onClick={() => openDialog("disable")}
+                >
+                  Turn Off
+                </Button>
+              )}
+            </div>
+            {status.required && (
+              <p className="text-xs text-muted-foreground">
+                Two-factor authentication is required for your account.
+              </p>
+            )}
+          </>
+        ) : (
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-sm text-muted-foreground mb-4">
+              Two-factor authentication is off. Turn it on so a stolen password
+              is not enough to sign in to your account.
+            </p>
+            <Button variant="outline" onClick={handleStart} disabled={isBusy}>
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Turn On
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && setMode(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{mode ? DIALOG_TITLES[mode] : ""}</DialogTitle>
+            <DialogDescription>
+              {mode === "setup" &&
+                "Scan the QR code with your authenticator app, then enter the code it shows."}
+              {mode === "codes" &&
+                "Each code signs you in once without the app. Store them somewhere safe; they are not shown again."}
+              {mode === "regenerate" &&
+                "Your current recovery codes will stop working. Enter a code to continue."}
+              {mode === "disable" &&
+                "Signing in will only need your password. Confirm it's you to continue."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {mode === "setup" && setup && (
+            <form onSubmit={handleEnable} className="space-y-4">
+              <Image
+                src={setup.qrCode}
+                unoptimized
+                alt="QR code for your authenticator app"
+                width={200}
+                height={200}
+                className="mx-auto rounded-lg bg-white"
+              />
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Or enter this key by hand:</p>
+                <p className="font-mono text-xs break-all">{setup.secret}</p>
+              </div>
+              {codeField}
+              {submitButton("Turn On")}
+            </form>
+          )}
+
+          {mode === "codes" && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 p-4 bg-muted rounded-lg font-mono text-sm">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleCopyCodes} className="flex-1">
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+                <Button
+                  onClick={() => setMode(null)}
+                  className="flex-1 bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+                >
+                  Done
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {mode === "regenerate" && (
+            <form onSubmit={handleRegenerate} className="space-y-4">
+              {codeField}
+              {submitButton("Create New Codes")}
+            </form>
+          )}
+
+          {mode === "disable" && (
+            <form onSubmit={handleDisable} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="mfa-password">Password</Label>
+                <Input
+                  id="mfa-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              {codeField}
+              {submitButton("Turn Off")}
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Webhook Delivery Log Dialog Component
+ *
+ * Recent deliveries of one outbound webhook endpoint: the event, its
+ * status and attempts, and the endpoint's answer to the last attempt (or
+ * why it failed). Any delivery can be sent again; the redelivery keeps
+ * the event id and appears as a new row.
+ */
+
+"use client";
+
+import * as React from "react";
+import { RefreshCw, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import type { WebhookEndpointItem } from "@/components/settings/webhooks";
+
+/**
+ * Delivery as returned by GET /api/webhooks/:id/deliveries
+ */
+interface OutboundDeliveryItem {
+  id: string;
+  eventId: string;
+  event: string;
+  status: "PENDING" | "SENDING" | "SUCCEEDED" | "FAILED";
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  durationMs: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+const STATUS_STYLES: Record<OutboundDeliveryItem["status"], string> = {
+  PENDING: "bg-blue-500/10 text-blue-500",
+  SENDING: "bg-blue-500/10 text-blue-500",
+  SUCCEEDED: "bg-green-500/10 text-green-500",
+  FAILED: "bg-red-500/10 text-red-500",
+};
+
+interface WebhookLogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Endpoint whose deliveries are shown */
+  endpoint: WebhookEndpointItem | null;
+}
+
+/**
+ * Webhook Delivery Log Dialog Component
+ */
+export function WebhookLogDialog({ open, onOpenChange, endpoint }: WebhookLogDialogProps) {
+  const [deliveries, setDeliveries] = React.useState<OutboundDeliveryItem[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [redelivering, setRedelivering] = React.useState<string | null>(null);
+  const { toast } = useToast();
+
+  /**
+   * Reload the deliveries
+   */
+  const load = React.useCallback(() => {
+    if (!endpoint) return;
+    setIsLoading(true);
+    fetch(`/api/webhooks/${endpoint.id}/deliveries`)
+      .then((response) => (response.ok ? response.json() : { deliveries: [] }))
+      .then((data) => setDeliveries(data.deliveries ?? []))
+      .catch(() => setDeliveries([]))
+      .finally(() => setIsLoading(false));
+  }, [endpoint]);
+
+  // Load the log each time the dialog opens
+  React.useEffect(() => {
+    if (open && endpoint) load();
+  }, [open, endpoint, load]);
+
+  /**
+   * Queue a delivery's event again
+   */
+  const handleRedeliver = async (delivery: OutboundDeliveryItem) => {
+    if (!endpoint) return;
+    setRedelivering(delivery.id);
+
+    try {
+      const response = await fetch(
+        `/api/webhooks/${endpoint.id}/deliveries/${delivery.id}/redeliver`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to redeliver");
+      }
+
+      setDeliveries((current) => [data.delivery, ...current]);
+      toast({
+        title: "Redelivery queued",
+        description: `${delivery.event} will be sent again shortly.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to redeliver",
+        variant: "destructive",
+      });
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Webhook Deliveries</DialogTitle>
+          <DialogDescription className="break-all">
+            {endpoint ? endpoint.url : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            Failed deliveries are retried with increasing delays for several hours.
+          </p>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={load}
+            disabled={isLoading}
+            aria-label="Refresh deliveries"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? "Loading..." : "No deliveries yet."}
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted">
+                <tr className="text-left">
+                  <th className="px-3 py-2 font-medium">Event</th>
+                  <th className="px-3 py-2 font-medium">Created</th>
+                  <th className="px-3 py-2 font-medium">Status</th>
+                  <th className="px-3 py-2 font-medium">Last Attempt</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id} className="border-t align-top">
+                    <td className="px-3 py-2">
+                      <p className="font-mono text-xs">{delivery.event}</p>
+                      <p className="font-mono text-xs text-muted-foreground">{delivery.eventId}</p>
+                    </td>
+                    <td className="px-3 py-2 text-xs">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[delivery.status]}`}
+                      >
+                        {delivery.status.toLowerCase()}
+                      </span>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                      </p>
+                    </td>
+                    <td className="px-3 py-2 text-xs">
+                      {delivery.responseStatus !== null && (
+                        <p>
+                          HTTP {delivery.responseStatus}
+                          {delivery.durationMs !== null ? ` in ${delivery.durationMs} ms` : ""}
+                        </p>
+                      )}
+                      {delivery.error && <p className="text-red-500">{delivery.error}</p>}
+                      {delivery.responseBody && (
+                        <pre className="mt-1 max-w-xs overflow-hidden text-ellipsis whitespace-pre-wrap break-all text-muted-foreground">
+                          {delivery.responseBody}
+                        </pre>
+                      )}
+                      {delivery.status === "PENDING" && delivery.attempts > 0 && (
+                        <p className="text-muted-foreground">
+                          Retry at {new Date(delivery.nextAttemptAt).toLocaleString()}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRedeliver(delivery)}
+                        disabled={redelivering === delivery.id}
+                      >
+                        <Send className="mr-1 h-3 w-3" />
+                        Redeliver
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
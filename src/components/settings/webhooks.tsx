@@ -0,0 +1,406 @@
+/**
+ * @fileoverview Webhooks Card Component
+ *
+ * The Webhooks card of the Settings page: registers endpoints that are
+ * notified of case and integration events, enables and disables them,
+ * sends test events and opens each endpoint's delivery log. An
+ * endpoint's signing secret is shown once, right after it is created.
+ */
+
+"use client";
+
+import * as React from "react";
+import { Copy, History, Loader2, Send, Trash2, Webhook } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { WebhookLogDialog } from "@/components/settings/webhook-log-dialog";
+import type { WebhookEvent } from "@/lib/validations/webhook";
+
+/**
+ * Endpoint as returned by GET /api/webhooks
+ */
+export interface WebhookEndpointItem {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const EVENT_OPTIONS: { value: WebhookEvent; description: string }[] = [
+  { value: "case.created", description: "A case was created and queued for analysis" },
+  { value: "case.completed", description: "A case's analysis finished" },
+  { value: "case.failed", description: "A case's analysis failed" },
+  { value: "anomaly.high_risk", description: "A completed analysis found high-risk items" },
+  { value: "integration.sync_failed", description: "An integration sync failed" },
+];
+
+/**
+ * Webhooks Card Component
+ */
+export function WebhooksCard() {
+  const [endpoints, setEndpoints] = React.useState<WebhookEndpointItem[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [url, setUrl] = React.useState("");
+  const [description, setDescription] = React.useState("");
+  const [events, setEvents] = React.useState<WebhookEvent[]>(["case.completed"]);
+  const [isCreating, setIsCreating] = React.useState(false);
+  // The secret of the endpoint just created; shown until the dialog closes
+  const [createdSecret, setCreatedSecret] = React.useState<string | null>(null);
+  const [logEndpoint, setLogEndpoint] = React.useState<WebhookEndpointItem | null>(null);
+  const { toast } = useToast();
+
+  // Load the endpoints once on mount
+  React.useEffect(() => {
+    fetch("/api/webhooks")
+      .then((response) => (response.ok ? response.json() : { endpoints: [] }))
+      .then((data) => setEndpoints(data.endpoints ?? []))
+      .catch(() => setEndpoints([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  /**
+   * Open the dialog with an empty form
+   */
+  const openDialog = () => {
+    setUrl("");
+    setDescription("");
+    setEvents(["case.completed"]);
+    setCreatedSecret(null);
+    setIsDialogOpen(true);
+  };
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents((current) =>
+      current.includes(event) ? current.filter((e) => e !== event) : [...current, event]
+    );
+
+  /**
+   * Create the endpoint and show its secret
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const response = await fetch("/api/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url, description: description || undefined, events }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create webhook endpoint");
+      }
+
+      setEndpoints((current) => [data.endpoint, ...current]);
+      setCreatedSecret(data.secret);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create webhook endpoint",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  /**
+   * Copy the new secret to the clipboard
+   */
+  const handleCopy = async () => {
+    if (!createdSecret) return;
+    try {
+      await navigator.clipboard.writeText(createdSecret);
+      toast({ title: "Copied", description: "The signing secret is on your clipboard." });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not copy the secret",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Enable or disable an endpoint
+   */
+  const handleToggle = async (endpoint: WebhookEndpointItem, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update webhook endpoint");
+      }
+
+      setEndpoints((current) =>
+        current.map((item) => (item.id === endpoint.id ? data.endpoint : item))
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update webhook endpoint",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Queue a test event for an endpoint
+   */
+  const handleTest = async (endpoint: WebhookEndpointItem) => {
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}/test`, { method: "POST" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send test event");
+      }
+
+      toast({
+        title: "Test event queued",
+        description: "Check the delivery log for the endpoint's answer.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send test event",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Delete an endpoint after confirmation
+   */
+  const handleDelete = async (endpoint: WebhookEndpointItem) => {
+    if (!window.confirm(`Delete the webhook endpoint ${endpoint.url}? Its delivery log is deleted too.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/webhooks/${endpoint.id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete webhook endpoint");
+      }
+
+      setEndpoints((current) => current.filter((item) => item.id !== endpoint.id));
+      toast({
+        title: "Webhook endpoint deleted",
+        description: `${endpoint.url} will no longer receive events.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete webhook endpoint",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Notify your systems when cases are created, completed or fail
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-4 bg-muted rounded-lg">
+          <p className="text-sm text-muted-foreground mb-4">
+            Events are POSTed as JSON and signed with the endpoint&apos;s secret
+            (<code>X-Fraudlr-Signature</code>). Failed deliveries are retried.
+          </p>
+          <Button variant="outline" onClick={openDialog}>
+            Add Endpoint
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : endpoints.length > 0 ? (
+          <div className="divide-y rounded-lg border">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0">
+                  <p className="truncate font-mono text-sm">{endpoint.url}</p>
+                  {endpoint.description && (
+                    <p className="text-xs text-muted-foreground">{endpoint.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">{endpoint.events.join(", ")}</p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Switch
+                    checked={endpoint.isActive}
+                    onCheckedChange={(checked) => handleToggle(endpoint, checked)}
+                    aria-label={endpoint.isActive ? "Disable endpoint" : "Enable endpoint"}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleTest(endpoint)}
+                    aria-label="Send test event"
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLogEndpoint(endpoint)}
+                    aria-label="Delivery log"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-500"
+                    onClick={() => handleDelete(endpoint)}
+                    aria-label="Delete endpoint"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{createdSecret ? "Endpoint Added" : "Add Webhook Endpoint"}</DialogTitle>
+            <DialogDescription>
+              {createdSecret
+                ? "Copy the signing secret now. It cannot be shown again."
+                : "Choose where events are sent and which ones."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdSecret ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input readOnly value={createdSecret} className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy secret">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Verify each delivery: the <code>X-Fraudlr-Signature</code> header is{" "}
+                <code>sha256=</code> followed by the hex HMAC-SHA256 of{" "}
+                <code>timestamp.body</code>, with the timestamp from{" "}
+                <code>X-Fraudlr-Timestamp</code>.
+              </p>
+              <Button
+                onClick={() => setIsDialogOpen(false)}
+                className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+              >
+                Done
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-endpoint-url">Endpoint URL</Label>
+                <Input
+                  id="webhook-endpoint-url"
+                  type="url"
+                  placeholder="https://example.com/fraudlr/events"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="webhook-endpoint-description">Description (Optional)</Label>
+                <Input
+                  id="webhook-endpoint-description"
+                  placeholder="e.g., Case management system"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Events</Label>
+                {EVENT_OPTIONS.map((option) => (
+                  <label
+                    key={option.value}
+                    className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                      events.includes(option.value)
+                        ? "border-[#FD4D53] bg-[#FD4D53]/5"
+                        : "border-muted hover:border-muted-foreground"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={events.includes(option.value)}
+                      onChange={() => toggleEvent(option.value)}
+                      className="h-4 w-4 accent-[#FD4D53]"
+                    />
+                    <div>
+                      <p className="font-mono text-sm">{option.value}</p>
+                      <p className="text-xs text-muted-foreground">{option.description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <Button
+                type="submit"
+                disabled={isCreating || events.length === 0}
+                className="w-full bg-[#FD4D53] hover:bg-[#FD4D53]/90"
+              >
+                {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isCreating ? "Adding..." : "Add Endpoint"}
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <WebhookLogDialog
+        open={logEndpoint !== null}
+        onOpenChange={(open) => !open && setLogEndpoint(null)}
+        endpoint={logEndpoint}
+      />
+    </Card>
+  );
+}
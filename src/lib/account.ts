@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Account Security
+ *
+ * Changing the password of a signed-in user. The current password must be
+ * given again, and wrong guesses are rate limited per user. The new
+ * password must follow the password policy (see password-policy.ts).
+ *
+ * A change signs out every other session of the account; the session that
+ * made the change stays signed in. Outstanding password reset links stop
+ * working too.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { comparePasswords, hashPassword } from "@/lib/auth";
+import { checkPasswordPolicy } from "@/lib/password-policy";
+import { consumeRateLimit } from "@/lib/rate-limit";
+import { revokeAllSessions } from "@/lib/sessions";
+
+/**
+ * Password change attempts allowed per user, per window
+ */
+const CHANGES_PER_USER = 5;
+const CHANGE_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Outcome of a password change, or an error with its HTTP status
+ */
+export type ChangePasswordResult =
+  | { ok: true; signedOutSessions: number }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Changes a user's password after checking the current one
+ *
+ * @param userId - The signed-in user
+ * @param sessionId - Session making the change, which stays signed in
+ * @param currentPassword - Password the user has now
+ * @param newPassword - Validated new password (length only)
+ */
+export async function changePassword(
+  userId: string,
+  sessionId: string | undefined,
+  currentPassword: string,
+  newPassword: string
+): Promise<ChangePasswordResult> {
+  const limit = await consumeRateLimit(
+    `password-change:user:${userId}`,
+    CHANGES_PER_USER,
+    CHANGE_WINDOW_MS
+  );
+  if (!limit.ok) {
+    return {
+      ok: false,
+      status: 429,
+      error: "Too many attempts. Please try again later.",
+    };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, password: true },
+  });
+  if (!user) {
+    return { ok: false, status: 404, error: "User not found" };
+  }
+
+  if (!(await comparePasswords(currentPassword, user.password))) {
+    return { ok: false, status: 400, error: "Current password is incorrect" };
+  }
+
+  if (currentPassword === newPassword) {
+    return {
+      ok: false,
+      status: 400,
+      error: "New password must be different from the current password",
+    };
+  }
+
+  const policyError = await checkPasswordPolicy(newPassword, user);
+  if (policyError) {
+    return { ok: false, status: 400, error: policyError };
+  }
+
+  const hashedPassword = await hashPassword(newPassword);
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: { password: hashedPassword },
+    }),
+    prisma.passwordResetToken.deleteMany({ where: { userId: user.id } }),
+  ]);
+  const signedOutSessions = await revokeAllSessions(user.id, sessionId);
+
+  return { ok: true, signedOutSessions };
+}
@@ -0,0 +1,422 @@
+/**
+ * @fileoverview Benford's Law Analysis
+ *
+ * Benford's Law states that in many naturally occurring datasets the leading
+ * digit is small more often than large: about 30.1% of values start with 1,
+ * while only 4.6% start with 9. Invented or manipulated amounts tend to drift
+ * away from this pattern, which makes it a standard audit test.
+ *
+ * Tests implemented (following Nigrini, "Benford's Law", 2012):
+ * - First digit (1-9)
+ * - Second digit (0-9)
+ * - First two digits (10-99)
+ * - Last two digits (00-99), expected to be uniform
+ *
+ * For each test we report observed vs expected frequencies and three
+ * goodness-of-fit measures:
+ * - Chi-square: sensitive to sample size, flags large datasets easily
+ * - Kolmogorov-Smirnov: largest gap between cumulative distributions
+ * - MAD (mean absolute deviation): Nigrini's preferred measure, with
+ *   published conformity ranges that do not depend on sample size
+ *
+ * Every test only needs digit counts, so values can be fed one at a time
+ * through a `BenfordAccumulator` and files of any size are analyzed in
+ * constant memory.
+ */
+
+import { chiSquarePValue, round } from "./stats";
+
+/**
+ * Available Benford tests
+ */
+export type BenfordTestId =
+  | "firstDigit"
+  | "secondDigit"
+  | "firstTwoDigits"
+  | "lastTwoDigits";
+
+/**
+ * Nigrini MAD conformity levels
+ */
+export type BenfordConformity =
+  | "close"
+  | "acceptable"
+  | "marginal"
+  | "nonconformity";
+
+/**
+ * Observed vs expected frequency for a single digit (or digit pair)
+ */
+export interface BenfordBin {
+  digits: string;
+  count: number;
+  observed: number;
+  expected: number;
+  zScore: number;
+  significant: boolean; // z-statistic above the 95% critical value
+}
+
+/**
+ * Result of a single Benford test
+ */
+export interface BenfordTestResult {
+  test: BenfordTestId;
+  sampleSize: number;
+  bins: BenfordBin[];
+  chiSquare: {
+    statistic: number;
+    degreesOfFreedom: number;
+    pValue: number;
+  };
+  kolmogorovSmirnov: {
+    statistic: number;
+    criticalValue: number;
+    passes: boolean;
+  };
+  mad: {
+    value: number;
+    conformity: BenfordConformity;
+  };
+}
+
+/**
+ * A source row whose value falls in an over-represented first-two-digits bin
+ */
+export interface BenfordFlaggedRow {
+  line: number;
+  value: number;
+  digits: string;
+  vendor?: string;
+  documentNumber?: string;
+}
+
+/**
+ * Full Benford module output stored in `Case.results.modules.benford`
+ */
+export interface BenfordResult {
+  column: string;
+  totalValues: number;
+  analyzedValues: number;
+  excludedValues: number;
+  minValue: number;
+  tests: Record<BenfordTestId, BenfordTestResult>;
+  flaggedRows: BenfordFlaggedRow[];
+  generatedAt: string;
+}
+
+/**
+ * A numeric value together with the CSV line it came from, plus the
+ * vendor and document number when those columns are mapped
+ */
+export interface BenfordEntry {
+  value: number;
+  line: number;
+  vendor?: string;
+  documentNumber?: string;
+}
+
+/**
+ * Options for the Benford analysis
+ */
+export interface BenfordOptions {
+  column: string;
+  /** Values below this (in absolute terms) are excluded, Nigrini uses 10 */
+  minValue?: number;
+  /** Maximum number of flagged rows kept in the result */
+  maxFlaggedRows?: number;
+}
+
+/**
+ * z-statistic critical value at the 5% significance level
+ */
+const Z_CRITICAL = 1.96;
+
+/**
+ * Nigrini's MAD conformity thresholds [close, acceptable, marginal].
+ * No table is published for the last-two-digits test, so it reuses the
+ * first-two-digits ranges, which have a comparable number of bins.
+ */
+const MAD_THRESHOLDS: Record<BenfordTestId, [number, number, number]> = {
+  firstDigit: [0.006, 0.012, 0.015],
+  secondDigit: [0.008, 0.01, 0.012],
+  firstTwoDigits: [0.0012, 0.0018, 0.0022],
+  lastTwoDigits: [0.0012, 0.0018, 0.0022],
+};
+
+/**
+ * Returns the expected Benford probabilities for a test, keyed by digit label
+ */
+export function expectedFrequencies(test: BenfordTestId): Array<[string, number]> {
+  switch (test) {
+    case "firstDigit":
+      return range(1, 9).map((d) => [String(d), Math.log10(1 + 1 / d)]);
+    case "secondDigit":
+      return range(0, 9).map((d) => {
+        // Sum over every possible first digit
+        const p = range(1, 9).reduce(
+          (sum, k) => sum + Math.log10(1 + 1 / (10 * k + d)),
+          0
+        );
+        return [String(d), p];
+      });
+    case "firstTwoDigits":
+      return range(10, 99).map((d) => [String(d), Math.log10(1 + 1 / d)]);
+    case "lastTwoDigits":
+      return range(0, 99).map((d) => [String(d).padStart(2, "0"), 0.01]);
+  }
+}
+
+/**
+ * Extracts the digits a test looks at from a value
+ *
+ * @returns Digit label, or null if the value cannot be used for this test
+ */
+export function extractDigits(value: number, test: BenfordTestId): string | null {
+  const abs = Math.abs(value);
+  if (!Number.isFinite(abs) || abs === 0) return null;
+
+  if (test === "lastTwoDigits") {
+    const integer = Math.floor(abs);
+    if (integer < 10) return null;
+    return String(integer % 100).padStart(2, "0");
+  }
+
+  // Scientific notation gives the significant digits regardless of magnitude,
+  // e.g. 0.0345 -> "3.45000000000000e-2"
+  const significand = abs.toExponential(14);
+  const first = significand[0];
+  const second = significand[2];
+
+  switch (test) {
+    case "firstDigit":
+      return first;
+    case "secondDigit":
+      return second;
+    case "firstTwoDigits":
+      return first + second;
+  }
+}
+
+/**
+ * Classifies a MAD value using Nigrini's conformity ranges
+ */
+function classifyMad(test: BenfordTestId, mad: number): BenfordConformity {
+  const [close, acceptable, marginal] = MAD_THRESHOLDS[test];
+  if (mad <= close) return "close";
+  if (mad <= acceptable) return "acceptable";
+  if (mad <= marginal) return "marginal";
+  return "nonconformity";
+}
+
+/**
+ * Creates an empty count table for a test, with a zero for every bin
+ */
+function emptyCounts(test: BenfordTestId): Map<string, number> {
+  return new Map(expectedFrequencies(test).map(([digits]) => [digits, 0]));
+}
+
+/**
+ * Runs a single Benford test on a list of values
+ *
+ * @param values - Values already filtered by the minimum value
+ * @param test - Which digit test to run
+ */
+export function runBenfordTest(values: number[], test: BenfordTestId): BenfordTestResult {
+  const counts = emptyCounts(test);
+
+  for (const value of values) {
+    const digits = extractDigits(value, test);
+    if (digits !== null && counts.has(digits)) {
+      counts.set(digits, (counts.get(digits) ?? 0) + 1);
+    }
+  }
+
+  return scoreBenfordTest(test, counts);
+}
+
+/**
+ * Computes a test's statistics from its digit counts
+ *
+ * @param test - Which digit test the counts belong to
+ * @param counts - Number of values per digit label
+ */
+function scoreBenfordTest(test: BenfordTestId, counts: Map<string, number>): BenfordTestResult {
+  const expected = expectedFrequencies(test);
+  let n = 0;
+  counts.forEach((count) => (n += count));
+
+  let chiSquare = 0;
+  let madSum = 0;
+  let cumulativeObserved = 0;
+  let cumulativeExpected = 0;
+  let ksStatistic = 0;
+
+  const bins: BenfordBin[] = expected.map(([digits, pe]) => {
+    const count = counts.get(digits) ?? 0;
+    const po = n > 0 ? count / n : 0;
+
+    chiSquare += n > 0 ? (n * (po - pe) ** 2) / pe : 0;
+    madSum += Math.abs(po - pe);
+
+    cumulativeObserved += po;
+    cumulativeExpected += pe;
+    ksStatistic = Math.max(ksStatistic, Math.abs(cumulativeObserved - cumulativeExpected));
+
+    // Nigrini's z-statistic with continuity correction
+    let z = 0;
+    if (n > 0) {
+      const correction = 1 / (2 * n);
+      const numerator = Math.max(Math.abs(po - pe) - correction, 0);
+      z = numerator / Math.sqrt((pe * (1 - pe)) / n);
+    }
+
+    return {
+      digits,
+      count,
+      observed: round(po),
+      expected: round(pe),
+      zScore: round(z, 3),
+      significant: z > Z_CRITICAL,
+    };
+  });
+
+  const degreesOfFreedom = expected.length - 1;
+  const mad = madSum / expected.length;
+  const ksCritical = n > 0 ? 1.36 / Math.sqrt(n) : 0;
+
+  return {
+    test,
+    sampleSize: n,
+    bins,
+    chiSquare: {
+      statistic: round(chiSquare, 4),
+      degreesOfFreedom,
+      pValue: n > 0 ? round(chiSquarePValue(chiSquare, degreesOfFreedom)) : 1,
+    },
+    kolmogorovSmirnov: {
+      statistic: round(ksStatistic),
+      criticalValue: round(ksCritical),
+      passes: ksStatistic <= ksCritical,
+    },
+    mad: {
+      value: round(mad),
+      conformity: classifyMad(test, mad),
+    },
+  };
+}
+
+const BENFORD_TESTS: BenfordTestId[] = [
+  "firstDigit",
+  "secondDigit",
+  "firstTwoDigits",
+  "lastTwoDigits",
+];
+
+/**
+ * Incremental Benford analysis
+ *
+ * Values are added one at a time; only digit counts and a bounded number
+ * of candidate rows per first-two-digits bin are kept. Since the
+ * suspicious bins are only known at the end, each bin remembers its first
+ * `maxFlaggedRows` rows, which is enough to report the first flagged rows
+ * in file order.
+ */
+export class BenfordAccumulator {
+  private readonly minValue: number;
+  private readonly maxFlaggedRows: number;
+  private readonly counts: Record<BenfordTestId, Map<string, number>>;
+  private readonly candidates = new Map<string, BenfordFlaggedRow[]>();
+  private totalValues = 0;
+  private analyzedValues = 0;
+
+  constructor(private readonly options: BenfordOptions) {
+    this.minValue = options.minValue ?? 10;
+    this.maxFlaggedRows = options.maxFlaggedRows ?? 500;
+    this.counts = {
+      firstDigit: emptyCounts("firstDigit"),
+      secondDigit: emptyCounts("secondDigit"),
+      firstTwoDigits: emptyCounts("firstTwoDigits"),
+      lastTwoDigits: emptyCounts("lastTwoDigits"),
+    };
+  }
+
+  /**
+   * Adds one value
+   */
+  add(entry: BenfordEntry): void {
+    this.totalValues++;
+
+    // Small amounts distort the digit distribution, so they are excluded
+    if (Math.abs(entry.value) < this.minValue) return;
+    this.analyzedValues++;
+
+    for (const test of BENFORD_TESTS) {
+      const digits = extractDigits(entry.value, test);
+      const counts = this.counts[test];
+      if (digits !== null && counts.has(digits)) {
+        counts.set(digits, (counts.get(digits) ?? 0) + 1);
+      }
+    }
+
+    const digits = extractDigits(entry.value, "firstTwoDigits");
+    if (digits === null) return;
+
+    const bin = this.candidates.get(digits) ?? [];
+    if (bin.length < this.maxFlaggedRows) {
+      bin.push({ ...entry, digits });
+      this.candidates.set(digits, bin);
+    }
+  }
+
+  /**
+   * Runs the tests on everything added so far
+   *
+   * @returns Result ready to be stored in `Case.results`
+   */
+  finish(): BenfordResult {
+    const tests = Object.fromEntries(
+      BENFORD_TESTS.map((test) => [test, scoreBenfordTest(test, this.counts[test])])
+    ) as Record<BenfordTestId, BenfordTestResult>;
+
+    // Rows in over-represented first-two-digit bins are the ones auditors drill into
+    const flaggedRows = tests.firstTwoDigits.bins
+      .filter((b) => b.significant && b.observed > b.expected)
+      .flatMap((b) => this.candidates.get(b.digits) ?? [])
+      .sort((a, b) => a.line - b.line)
+      .slice(0, this.maxFlaggedRows);
+
+    return {
+      column: this.options.column,
+      totalValues: this.totalValues,
+      analyzedValues: this.analyzedValues,
+      excludedValues: this.totalValues - this.analyzedValues,
+      minValue: this.minValue,
+      tests,
+      flaggedRows,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Runs all four Benford tests on a numeric column
+ *
+ * @param entries - Values with the CSV line they were read from
+ * @param options - Column name and filtering options
+ * @returns Result ready to be stored in `Case.results`
+ */
+export function runBenfordAnalysis(
+  entries: BenfordEntry[],
+  options: BenfordOptions
+): BenfordResult {
+  const accumulator = new BenfordAccumulator(options);
+  entries.forEach((entry) => accumulator.add(entry));
+  return accumulator.finish();
+}
+
+/**
+ * Inclusive integer range helper
+ */
+function range(start: number, end: number): number[] {
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+}
@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Financial Statement Input
+ *
+ * The ratio-based modules (M-Score, Z-Score) work on financial-statement
+ * line items rather than transaction rows. Users upload them as a CSV with
+ * one line item per row and one column per period, oldest first:
+ *
+ *   Line Item,2023,2024
+ *   Revenue,1200000,1450000
+ *   Accounts Receivable,180000,260000
+ *   ...
+ *
+ * Line-item names vary between accounting packages, so each item is
+ * matched against a list of common aliases.
+ */
+
+import { parseAmount, parseCsv, type ReadCsvOptions } from "@/lib/csv";
+
+/**
+ * Line items recognised by the financial modules
+ */
+export type LineItem =
+  | "revenue"
+  | "costOfGoodsSold"
+  | "receivables"
+  | "currentAssets"
+  | "propertyPlantEquipment"
+  | "securities"
+  | "totalAssets"
+  | "depreciation"
+  | "sgaExpense"
+  | "currentLiabilities"
+  | "longTermDebt"
+  | "netIncome"
+  | "cashFromOperations"
+  | "retainedEarnings"
+  | "ebit"
+  | "totalLiabilities"
+  | "bookValueEquity"
+  | "marketValueEquity";
+
+/**
+ * Line-item values for a single reporting period
+ */
+export interface FinancialPeriod {
+  label: string;
+  values: Partial<Record<LineItem, number>>;
+}
+
+/**
+ * Accepted names for each line item (compared case-insensitively,
+ * ignoring punctuation)
+ */
+const LINE_ITEM_ALIASES: Record<LineItem, string[]> = {
+  revenue: ["revenue", "sales", "net sales", "total revenue", "turnover"],
+  costOfGoodsSold: ["cost of goods sold", "cogs", "cost of sales", "cost of revenue"],
+  receivables: ["receivables", "accounts receivable", "trade receivables", "debtors"],
+  currentAssets: ["current assets", "total current assets"],
+  propertyPlantEquipment: [
+    "property plant and equipment",
+    "property plant & equipment",
+    "ppe",
+    "pp&e",
+    "net ppe",
+    "fixed assets",
+  ],
+  securities: ["securities", "investments", "long term investments"],
+  totalAssets: ["total assets", "assets"],
+  depreciation: ["depreciation", "depreciation and amortization", "depreciation expense"],
+  sgaExpense: [
+    "sga",
+    "sg&a",
+    "selling general and administrative",
+    "selling general and administrative expenses",
+    "operating expenses",
+  ],
+  currentLiabilities: ["current liabilities", "total current liabilities"],
+  longTermDebt: ["long term debt", "total long term debt", "non current borrowings"],
+  netIncome: [
+    "net income",
+    "income from continuing operations",
+    "profit after tax",
+    "net profit",
+  ],
+  cashFromOperations: [
+    "cash from operations",
+    "cash flow from operations",
+    "operating cash flow",
+    "net cash from operating activities",
+  ],
+  retainedEarnings: ["retained earnings", "accumulated profits", "retained income"],
+  ebit: ["ebit", "operating income", "operating profit", "earnings before interest and taxes"],
+  totalLiabilities: ["total liabilities", "liabilities"],
+  bookValueEquity: [
+    "total equity",
+    "shareholders equity",
+    "stockholders equity",
+    "book value of equity",
+  ],
+  marketValueEquity: ["market value of equity", "market capitalization", "market cap"],
+};
+
+/**
+ * Normalises a label for alias matching ("SG&A Expense" -> "sg&a expense")
+ */
+function normalizeLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9&]+/g, " ")
+    .trim();
+}
+
+/**
+ * Maps a free-text line-item label to a known line item
+ *
+ * @param label - Label from the first CSV column
+ * @returns Matching line item, or null if unrecognised
+ */
+export function matchLineItem(label: string): LineItem | null {
+  const normalized = normalizeLabel(label);
+
+  for (const [item, aliases] of Object.entries(LINE_ITEM_ALIASES)) {
+    if (aliases.some((alias) => normalizeLabel(alias) === normalized)) {
+      return item as LineItem;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Creates one empty period per period column of a statement header row
+ *
+ * @param headers - Header row: line-item column followed by period columns
+ */
+export function createPeriods(headers: string[]): FinancialPeriod[] {
+  if (headers.length < 2) {
+    throw new Error("Financial statements need a line-item column and at least one period column");
+  }
+
+  return headers.slice(1).map((label) => ({ label, values: {} }));
+}
+
+/**
+ * Adds one statement row to the periods; rows that are not a known line
+ * item are ignored
+ *
+ * @param periods - Periods from `createPeriods`
+ * @param row - Line-item label followed by one value per period
+ * @param decimalSeparator - Decimal separator of the file
+ */
+export function addStatementRow(
+  periods: FinancialPeriod[],
+  row: string[],
+  decimalSeparator?: ReadCsvOptions["decimalSeparator"]
+): void {
+  const item = matchLineItem(row[0] ?? "");
+  if (!item) return;
+
+  periods.forEach((period, i) => {
+    const value = parseAmount(row[i + 1] ?? "", decimalSeparator);
+    if (value !== null) {
+      period.values[item] = value;
+    }
+  });
+}
+
+/**
+ * Parses a financial statement CSV into periods (oldest first)
+ *
+ * @param csvText - CSV with line items as rows and periods as columns
+ * @param options - Delimiter and decimal separator of the file
+ * @returns One entry per period column
+ */
+export function parseFinancialStatements(
+  csvText: string,
+  options: ReadCsvOptions = {}
+): FinancialPeriod[] {
+  const { headers, rows } = parseCsv(csvText, options);
+  const periods = createPeriods(headers);
+
+  for (const row of rows) {
+    addStatementRow(periods, row, options.decimalSeparator);
+  }
+
+  return periods;
+}
+
+/**
+ * Reads required line items from a period, reporting every missing one
+ *
+ * @param period - Period to read from
+ * @param items - Line items the caller needs
+ * @returns Values keyed by line item
+ */
+export function requireLineItems<T extends LineItem>(
+  period: FinancialPeriod,
+  items: readonly T[]
+): Record<T, number> {
+  const missing = items.filter((item) => period.values[item] === undefined);
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Period "${period.label}" is missing line items: ${missing.join(", ")}`
+    );
+  }
+
+  return Object.fromEntries(items.map((item) => [item, period.values[item]])) as Record<
+    T,
+    number
+  >;
+}
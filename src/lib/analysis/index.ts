@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Analysis Modules Entry Point
+ *
+ * Server-side glue between raw case data and the analysis modules.
+ * Files are streamed once (see runner.ts) and every row is handed to a
+ * `ModuleAnalyzer` per selected module. Analyzers only keep aggregates
+ * (digit counts, statement line items), so memory stays bounded however
+ * large the file is. At the end each analyzer writes its output to
+ * `Case.results.modules[moduleId]`.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { findColumn, parseAmount } from "@/lib/csv";
+import { suggestRoles, type ColumnMapping } from "@/lib/column-mapping";
+import type { CsvRecord } from "@/lib/csv-stream";
+import { BenfordAccumulator, type BenfordEntry } from "./benford";
+import { addStatementRow, createPeriods, type FinancialPeriod } from "./financials";
+import { calculateMScore } from "./mscore";
+import { calculateZScore } from "./zscore";
+import type {
+  AnalysisModuleId,
+  CaseResults,
+  IngestionReport,
+  ModuleResults,
+} from "./types";
+
+export type { AnalysisModuleId, CaseResults, ModuleResults } from "./types";
+
+/**
+ * Incremental analysis of one module over a streamed file
+ *
+ * Any method may throw when the data does not suit the module; the runner
+ * then records that module as failed and keeps going with the others.
+ */
+export interface ModuleAnalyzer {
+  /** Receives the header row before any data rows */
+  start(headers: string[]): void;
+  /** Receives every data row that parsed correctly */
+  add(record: CsvRecord): void;
+  /** Computes the module's result and stores it in `results` */
+  finish(results: ModuleResults): void;
+}
+
+/**
+ * Benford's Law over the column mapped to the amount role
+ *
+ * Cases created before column mappings existed fall back to guessing the
+ * roles from the header names.
+ */
+function createBenfordAnalyzer(mapping: ColumnMapping | null): ModuleAnalyzer {
+  const decimalSeparator = mapping?.format.decimalSeparator;
+  let accumulator: BenfordAccumulator | null = null;
+  let amountIndex = -1;
+  let vendorIndex = -1;
+  let documentIndex = -1;
+
+  return {
+    start(headers) {
+      const roles = mapping?.roles ?? suggestRoles(headers);
+      if (!roles.amount) {
+        throw new Error("No amount column mapped for the Benford analysis");
+      }
+
+      amountIndex = findColumn(headers, roles.amount);
+      if (amountIndex === -1) {
+        throw new Error(`Column "${roles.amount}" not found in CSV`);
+      }
+
+      // Vendor and document number are copied onto flagged rows for context
+      vendorIndex = roles.vendor ? findColumn(headers, roles.vendor) : -1;
+      documentIndex = roles.documentNumber ? findColumn(headers, roles.documentNumber) : -1;
+      accumulator = new BenfordAccumulator({ column: roles.amount });
+    },
+
+    add({ line, fields }) {
+      const value = parseAmount(fields[amountIndex] ?? "", decimalSeparator);
+      if (value === null) return;
+
+      const entry: BenfordEntry = { value, line };
+      if (vendorIndex !== -1 && fields[vendorIndex]) entry.vendor = fields[vendorIndex];
+      if (documentIndex !== -1 && fields[documentIndex]) {
+        entry.documentNumber = fields[documentIndex];
+      }
+      accumulator?.add(entry);
+    },
+
+    finish(results) {
+      if (accumulator) results.benford = accumulator.finish();
+    },
+  };
+}
+
+/**
+ * Beneish M-Score or Altman Z-Score over a financial statement file
+ * (line items as rows, periods as columns)
+ *
+ * Only rows that match a known line item are kept, so memory is bounded
+ * by the number of line items rather than the number of rows.
+ */
+function createStatementAnalyzer(
+  moduleId: "mscore" | "zscore",
+  mapping: ColumnMapping | null
+): ModuleAnalyzer {
+  const decimalSeparator = mapping?.format.decimalSeparator;
+  let periods: FinancialPeriod[] = [];
+
+  return {
+    start(headers) {
+      periods = createPeriods(headers);
+    },
+
+    add({ fields }) {
+      addStatementRow(periods, fields, decimalSeparator);
+    },
+
+    finish(results) {
+      if (moduleId === "zscore") {
+        results.zscore = calculateZScore(periods);
+        return;
+      }
+
+      // The last two period columns are the prior and current period
+      if (periods.length < 2) {
+        throw new Error("The M-Score needs at least two periods of financial statements");
+      }
+      const [prior, current] = periods.slice(-2);
+      results.mscore = calculateMScore(prior, current);
+    },
+  };
+}
+
+/**
+ * Creates the analyzer for a module
+ *
+ * @param moduleId - Module selected for the case
+ * @param mapping - Column mapping stored on the case (null for older cases)
+ */
+export function createModuleAnalyzer(
+  moduleId: AnalysisModuleId,
+  mapping: ColumnMapping | null
+): ModuleAnalyzer {
+  switch (moduleId) {
+    case "benford":
+      return createBenfordAnalyzer(mapping);
+    case "mscore":
+    case "zscore":
+      return createStatementAnalyzer(moduleId, mapping);
+  }
+}
+
+/**
+ * Merges module results and the ingestion report into a case's results JSON
+ *
+ * Results of modules that did not run this time are kept.
+ *
+ * @param caseId - Case to update
+ * @param modules - Results produced by this run
+ * @param ingestion - Row counts, parse errors and data profile
+ * @param db - Client or transaction to write with
+ */
+export async function saveCaseResults(
+  caseId: string,
+  modules: ModuleResults,
+  ingestion: IngestionReport,
+  db: Prisma.TransactionClient = prisma
+): Promise<CaseResults> {
+  const existing = await db.case.findUnique({
+    where: { id: caseId },
+    select: { results: true },
+  });
+
+  if (!existing) {
+    throw new Error(`Case ${caseId} not found`);
+  }
+
+  const current = (existing.results as unknown as CaseResults | null) ?? { modules: {} };
+  const results: CaseResults = {
+    ...current,
+    modules: { ...current.modules, ...modules },
+    ingestion,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await db.case.update({
+    where: { id: caseId },
+    data: { results: results as unknown as Prisma.InputJsonValue },
+  });
+
+  return results;
+}
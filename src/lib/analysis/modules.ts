@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Analysis Module Catalog
+ *
+ * Names and descriptions of the modules users can select for a case.
+ * Client-safe, so the New Case page and the integration import dialog
+ * offer the same list.
+ */
+
+import type { AnalysisModuleId } from "./types";
+
+/**
+ * A selectable analysis module
+ */
+export interface AnalysisModuleInfo {
+  id: AnalysisModuleId;
+  name: string;
+  description: string;
+  enabled: boolean;
+}
+
+/**
+ * Available AI analysis modules
+ */
+export const ANALYSIS_MODULES: AnalysisModuleInfo[] = [
+  {
+    id: "benford",
+    name: "Benford's Law",
+    description: "Detect anomalies in digit distribution patterns",
+    enabled: true,
+  },
+  {
+    id: "mscore",
+    name: "M-Score (Beneish)",
+    description: "Assess likelihood of financial manipulation",
+    enabled: true,
+  },
+  {
+    id: "zscore",
+    name: "Z-Score (Altman)",
+    description: "Evaluate financial health and bankruptcy risk",
+    enabled: true,
+  },
+];
+
+/**
+ * Modules selected by default for a new case
+ */
+export const DEFAULT_MODULES: AnalysisModuleId[] = ["benford", "mscore"];
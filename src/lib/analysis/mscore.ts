@@ -0,0 +1,363 @@
+/**
+ * @fileoverview Beneish M-Score Analysis
+ *
+ * The Beneish M-Score (Beneish, 1999) estimates how likely it is that a
+ * company has manipulated its reported earnings. It combines eight ratios
+ * comparing the current period (t) with the prior period (t-1):
+ *
+ * - DSRI: Days Sales in Receivables Index
+ * - GMI:  Gross Margin Index
+ * - AQI:  Asset Quality Index
+ * - SGI:  Sales Growth Index
+ * - DEPI: Depreciation Index
+ * - SGAI: Sales, General and Administrative expenses Index
+ * - LVGI: Leverage Index
+ * - TATA: Total Accruals to Total Assets
+ *
+ * Both published models are computed:
+ * - 8-variable model: M > -1.78 suggests likely manipulation
+ * - 5-variable model (DSRI, GMI, AQI, SGI, DEPI): M > -2.22 suggests likely manipulation
+ *
+ * Every ratio keeps the inputs it was calculated from so reviewers can
+ * trace why a company was flagged.
+ */
+
+import { requireLineItems, type FinancialPeriod, type LineItem } from "./financials";
+import { round } from "./stats";
+
+/**
+ * The eight Beneish ratios
+ */
+export type BeneishRatioId =
+  | "DSRI"
+  | "GMI"
+  | "AQI"
+  | "SGI"
+  | "DEPI"
+  | "SGAI"
+  | "LVGI"
+  | "TATA";
+
+/**
+ * Manipulation likelihood classification
+ */
+export type ManipulationLikelihood = "likely" | "possible" | "unlikely";
+
+/**
+ * A single computed ratio with the figures behind it
+ */
+export interface BeneishRatio {
+  id: BeneishRatioId;
+  name: string;
+  formula: string;
+  value: number;
+  inputs: {
+    current: Partial<Record<LineItem, number>>;
+    prior: Partial<Record<LineItem, number>>;
+  };
+  manipulatorMean: number;
+  nonManipulatorMean: number;
+  /** True when the ratio is on the manipulators' side and raises the 8-variable score */
+  flagged: boolean;
+  /** True when a zero denominator forced the neutral value of 1 */
+  neutral: boolean;
+}
+
+/**
+ * Score from one of the Beneish models
+ */
+export interface MScoreModel {
+  score: number;
+  threshold: number;
+  likelihood: ManipulationLikelihood;
+  contributions: Partial<Record<BeneishRatioId, number>>;
+}
+
+/**
+ * Full M-Score module output stored in `Case.results.modules.mscore`
+ */
+export interface MScoreResult {
+  currentPeriod: string;
+  priorPeriod: string;
+  ratios: BeneishRatio[];
+  eightVariable: MScoreModel;
+  fiveVariable: MScoreModel;
+  generatedAt: string;
+}
+
+/**
+ * Line items each model needs (securities is optional and defaults to 0)
+ */
+const REQUIRED_ITEMS = [
+  "revenue",
+  "costOfGoodsSold",
+  "receivables",
+  "currentAssets",
+  "propertyPlantEquipment",
+  "totalAssets",
+  "depreciation",
+  "sgaExpense",
+  "currentLiabilities",
+  "longTermDebt",
+  "netIncome",
+  "cashFromOperations",
+] as const;
+
+/**
+ * Ratio metadata with Beneish's (1999) sample means
+ */
+const RATIO_INFO: Record<
+  BeneishRatioId,
+  { name: string; formula: string; manipulatorMean: number; nonManipulatorMean: number }
+> = {
+  DSRI: {
+    name: "Days Sales in Receivables Index",
+    formula: "(Receivables_t / Sales_t) / (Receivables_t-1 / Sales_t-1)",
+    manipulatorMean: 1.465,
+    nonManipulatorMean: 1.031,
+  },
+  GMI: {
+    name: "Gross Margin Index",
+    formula: "GrossMargin_t-1 / GrossMargin_t",
+    manipulatorMean: 1.193,
+    nonManipulatorMean: 1.014,
+  },
+  AQI: {
+    name: "Asset Quality Index",
+    formula:
+      "[1 - (CurrentAssets_t + PPE_t + Securities_t) / TotalAssets_t] / [1 - (CurrentAssets_t-1 + PPE_t-1 + Securities_t-1) / TotalAssets_t-1]",
+    manipulatorMean: 1.254,
+    nonManipulatorMean: 1.039,
+  },
+  SGI: {
+    name: "Sales Growth Index",
+    formula: "Sales_t / Sales_t-1",
+    manipulatorMean: 1.607,
+    nonManipulatorMean: 1.134,
+  },
+  DEPI: {
+    name: "Depreciation Index",
+    formula:
+      "[Depreciation_t-1 / (Depreciation_t-1 + PPE_t-1)] / [Depreciation_t / (Depreciation_t + PPE_t)]",
+    manipulatorMean: 1.077,
+    nonManipulatorMean: 1.001,
+  },
+  SGAI: {
+    name: "SG&A Expenses Index",
+    formula: "(SGA_t / Sales_t) / (SGA_t-1 / Sales_t-1)",
+    manipulatorMean: 1.041,
+    nonManipulatorMean: 1.054,
+  },
+  LVGI: {
+    name: "Leverage Index",
+    formula:
+      "[(CurrentLiabilities_t + LongTermDebt_t) / TotalAssets_t] / [(CurrentLiabilities_t-1 + LongTermDebt_t-1) / TotalAssets_t-1]",
+    manipulatorMean: 1.111,
+    nonManipulatorMean: 1.037,
+  },
+  TATA: {
+    name: "Total Accruals to Total Assets",
+    formula: "(NetIncome_t - CashFromOperations_t) / TotalAssets_t",
+    manipulatorMean: 0.031,
+    nonManipulatorMean: 0.018,
+  },
+};
+
+/**
+ * Model coefficients (Beneish 1999)
+ */
+const EIGHT_VARIABLE = {
+  intercept: -4.84,
+  threshold: -1.78,
+  coefficients: {
+    DSRI: 0.92,
+    GMI: 0.528,
+    AQI: 0.404,
+    SGI: 0.892,
+    DEPI: 0.115,
+    SGAI: -0.172,
+    TATA: 4.679,
+    LVGI: -0.327,
+  } as Partial<Record<BeneishRatioId, number>>,
+};
+
+const FIVE_VARIABLE = {
+  intercept: -6.065,
+  threshold: -2.22,
+  coefficients: {
+    DSRI: 0.823,
+    GMI: 0.906,
+    AQI: 0.593,
+    SGI: 0.717,
+    DEPI: 0.107,
+  } as Partial<Record<BeneishRatioId, number>>,
+};
+
+/**
+ * Lower bound of the grey zone for the 8-variable model. Scores between
+ * -2.22 and -1.78 are commonly treated as "possible" manipulation.
+ */
+const EIGHT_VARIABLE_GREY_ZONE = -2.22;
+
+/**
+ * Divides two ratios, falling back to the neutral value 1 when the
+ * denominator is zero (e.g. a company with no SG&A in the prior year)
+ */
+function safeIndex(numerator: number, denominator: number): { value: number; neutral: boolean } {
+  if (!Number.isFinite(numerator) || !Number.isFinite(denominator) || denominator === 0) {
+    return { value: 1, neutral: true };
+  }
+  return { value: numerator / denominator, neutral: false };
+}
+
+/**
+ * Whether a ratio points towards manipulation: it lies on the manipulators'
+ * side of the midpoint between the two sample means (below it for SGAI,
+ * whose manipulator mean is the lower one), and on that side it raises
+ * the 8-variable M-Score. LVGI is never flagged: manipulators average a
+ * higher LVGI, but its coefficient is negative, so a high LVGI lowers M.
+ */
+function isFlagged(id: BeneishRatioId, value: number): boolean {
+  const { manipulatorMean, nonManipulatorMean } = RATIO_INFO[id];
+  const direction = Math.sign(manipulatorMean - nonManipulatorMean);
+  const coefficient = EIGHT_VARIABLE.coefficients[id] ?? 0;
+  if (direction * coefficient <= 0) return false;
+
+  const midpoint = (manipulatorMean + nonManipulatorMean) / 2;
+  return direction * (value - midpoint) > 0;
+}
+
+/**
+ * Scores a model from the computed ratios
+ */
+function scoreModel(
+  ratios: Record<BeneishRatioId, number>,
+  model: typeof EIGHT_VARIABLE,
+  greyZone?: number
+): MScoreModel {
+  const contributions: Partial<Record<BeneishRatioId, number>> = {};
+  let score = model.intercept;
+
+  for (const [id, coefficient] of Object.entries(model.coefficients)) {
+    const contribution = coefficient * ratios[id as BeneishRatioId];
+    contributions[id as BeneishRatioId] = round(contribution, 4);
+    score += contribution;
+  }
+
+  let likelihood: ManipulationLikelihood = "unlikely";
+  if (score > model.threshold) {
+    likelihood = "likely";
+  } else if (greyZone !== undefined && score > greyZone) {
+    likelihood = "possible";
+  }
+
+  return {
+    score: round(score, 4),
+    threshold: model.threshold,
+    likelihood,
+    contributions,
+  };
+}
+
+/**
+ * Calculates the Beneish M-Score from two periods of financial statements
+ *
+ * @param prior - Prior period (t-1)
+ * @param current - Current period (t)
+ * @returns All eight ratios and both model scores
+ * @throws Error listing any missing line items
+ */
+export function calculateMScore(prior: FinancialPeriod, current: FinancialPeriod): MScoreResult {
+  const c = requireLineItems(current, REQUIRED_ITEMS);
+  const p = requireLineItems(prior, REQUIRED_ITEMS);
+  const cSecurities = current.values.securities ?? 0;
+  const pSecurities = prior.values.securities ?? 0;
+
+  const grossMargin = (sales: number, cogs: number) => (sales - cogs) / sales;
+  const softAssets = (ca: number, ppe: number, sec: number, ta: number) =>
+    1 - (ca + ppe + sec) / ta;
+  const depreciationRate = (dep: number, ppe: number) => dep / (dep + ppe);
+  const leverage = (cl: number, ltd: number, ta: number) => (cl + ltd) / ta;
+
+  const computed: Record<BeneishRatioId, { value: number; neutral: boolean; items: LineItem[] }> = {
+    DSRI: {
+      ...safeIndex(c.receivables / c.revenue, p.receivables / p.revenue),
+      items: ["receivables", "revenue"],
+    },
+    GMI: {
+      ...safeIndex(
+        grossMargin(p.revenue, p.costOfGoodsSold),
+        grossMargin(c.revenue, c.costOfGoodsSold)
+      ),
+      items: ["revenue", "costOfGoodsSold"],
+    },
+    AQI: {
+      ...safeIndex(
+        softAssets(c.currentAssets, c.propertyPlantEquipment, cSecurities, c.totalAssets),
+        softAssets(p.currentAssets, p.propertyPlantEquipment, pSecurities, p.totalAssets)
+      ),
+      items: ["currentAssets", "propertyPlantEquipment", "securities", "totalAssets"],
+    },
+    SGI: {
+      ...safeIndex(c.revenue, p.revenue),
+      items: ["revenue"],
+    },
+    DEPI: {
+      ...safeIndex(
+        depreciationRate(p.depreciation, p.propertyPlantEquipment),
+        depreciationRate(c.depreciation, c.propertyPlantEquipment)
+      ),
+      items: ["depreciation", "propertyPlantEquipment"],
+    },
+    SGAI: {
+      ...safeIndex(c.sgaExpense / c.revenue, p.sgaExpense / p.revenue),
+      items: ["sgaExpense", "revenue"],
+    },
+    LVGI: {
+      ...safeIndex(
+        leverage(c.currentLiabilities, c.longTermDebt, c.totalAssets),
+        leverage(p.currentLiabilities, p.longTermDebt, p.totalAssets)
+      ),
+      items: ["currentLiabilities", "longTermDebt", "totalAssets"],
+    },
+    TATA: {
+      // TATA is a level, not an index, so only the total-assets guard applies
+      ...(c.totalAssets === 0
+        ? { value: 0, neutral: true }
+        : { value: (c.netIncome - c.cashFromOperations) / c.totalAssets, neutral: false }),
+      items: ["netIncome", "cashFromOperations", "totalAssets"],
+    },
+  };
+
+  const pick = (values: Partial<Record<LineItem, number>>, items: LineItem[]) =>
+    Object.fromEntries(items.map((item) => [item, values[item] ?? 0]));
+
+  const ratios: BeneishRatio[] = (Object.keys(RATIO_INFO) as BeneishRatioId[]).map((id) => {
+    const info = RATIO_INFO[id];
+    const { value, neutral, items } = computed[id];
+    return {
+      id,
+      ...info,
+      value: round(value, 4),
+      inputs: {
+        current: pick(current.values, items),
+        prior: id === "TATA" ? {} : pick(prior.values, items),
+      },
+      flagged: !neutral && isFlagged(id, value),
+      neutral,
+    };
+  });
+
+  const values = Object.fromEntries(
+    (Object.keys(computed) as BeneishRatioId[]).map((id) => [id, computed[id].value])
+  ) as Record<BeneishRatioId, number>;
+
+  return {
+    currentPeriod: current.label,
+    priorPeriod: prior.label,
+    ratios,
+    eightVariable: scoreModel(values, EIGHT_VARIABLE, EIGHT_VARIABLE_GREY_ZONE),
+    fiveVariable: scoreModel(values, FIVE_VARIABLE),
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Data Profile
+ *
+ * Summary of an uploaded file built while it is streamed through the
+ * analysis: totals for the amount column, the date range, and distinct
+ * counts for the mapped text columns. Everything is an aggregate or a
+ * sketch, so the profile takes the same memory for ten rows or ten million.
+ */
+
+import { findColumn, parseAmount } from "@/lib/csv";
+import { parseDate } from "@/lib/csv-format";
+import type { ColumnMapping, ColumnRoles } from "@/lib/column-mapping";
+import { HyperLogLog } from "./sketches";
+import { round } from "./stats";
+
+/**
+ * Mapped text columns whose distinct values are counted
+ */
+const DISTINCT_ROLES = ["vendor", "account", "user", "documentNumber"] as const;
+
+type DistinctRole = (typeof DISTINCT_ROLES)[number];
+
+/**
+ * Profile stored in `Case.results.ingestion.profile`
+ */
+export interface DataProfile {
+  amount?: {
+    column: string;
+    count: number;
+    sum: number;
+    mean: number;
+    min: number;
+    max: number;
+  };
+  dates?: {
+    column: string;
+    from: string;
+    to: string;
+    /** Non-empty values that did not match the date format */
+    invalid: number;
+  };
+  /** Approximate number of distinct values per mapped column */
+  distinct: Partial<Record<DistinctRole, { column: string; approximate: number }>>;
+}
+
+/**
+ * Builds a `DataProfile` one row at a time
+ */
+export class ProfileAccumulator {
+  private readonly amountIndex: number;
+  private readonly dateIndex: number;
+  private readonly sketches: Array<{ role: DistinctRole; index: number; sketch: HyperLogLog }>;
+
+  private amountCount = 0;
+  private amountSum = 0;
+  private amountMin = Infinity;
+  private amountMax = -Infinity;
+  private dateFrom: Date | null = null;
+  private dateTo: Date | null = null;
+  private invalidDates = 0;
+
+  /**
+   * @param headers - Header row of the file
+   * @param roles - Mapped columns
+   * @param format - File format (decimal separator and date format)
+   */
+  constructor(
+    headers: string[],
+    private readonly roles: ColumnRoles,
+    private readonly format: ColumnMapping["format"] | undefined
+  ) {
+    this.amountIndex = roles.amount ? findColumn(headers, roles.amount) : -1;
+    this.dateIndex = roles.date && format?.dateFormat ? findColumn(headers, roles.date) : -1;
+    this.sketches = DISTINCT_ROLES.flatMap((role) => {
+      const column = roles[role];
+      const index = column ? findColumn(headers, column) : -1;
+      return index === -1 ? [] : [{ role, index, sketch: new HyperLogLog() }];
+    });
+  }
+
+  /**
+   * Adds one data row
+   */
+  add(fields: string[]): void {
+    if (this.amountIndex !== -1) {
+      const value = parseAmount(fields[this.amountIndex] ?? "", this.format?.decimalSeparator);
+      if (value !== null) {
+        this.amountCount++;
+        this.amountSum += value;
+        this.amountMin = Math.min(this.amountMin, value);
+        this.amountMax = Math.max(this.amountMax, value);
+      }
+    }
+
+    if (this.dateIndex !== -1 && this.format?.dateFormat) {
+      const raw = fields[this.dateIndex] ?? "";
+      if (raw.trim()) {
+        const date = parseDate(raw, this.format.dateFormat);
+        if (!date) {
+          this.invalidDates++;
+        } else {
+          if (!this.dateFrom || date < this.dateFrom) this.dateFrom = date;
+          if (!this.dateTo || date > this.dateTo) this.dateTo = date;
+        }
+      }
+    }
+
+    for (const { index, sketch } of this.sketches) {
+      const value = fields[index]?.trim();
+      if (value) sketch.add(value.toLowerCase());
+    }
+  }
+
+  /**
+   * Returns the profile of everything added so far
+   */
+  finish(): DataProfile {
+    const profile: DataProfile = { distinct: {} };
+
+    if (this.roles.amount && this.amountCount > 0) {
+      profile.amount = {
+        column: this.roles.amount,
+        count: this.amountCount,
+        sum: round(this.amountSum, 2),
+        mean: round(this.amountSum / this.amountCount, 2),
+        min: this.amountMin,
+        max: this.amountMax,
+      };
+    }
+
+    if (this.roles.date && this.dateFrom && this.dateTo) {
+      profile.dates = {
+        column: this.roles.date,
+        from: this.dateFrom.toISOString().slice(0, 10),
+        to: this.dateTo.toISOString().slice(0, 10),
+        invalid: this.invalidDates,
+      };
+    }
+
+    for (const { role, sketch } of this.sketches) {
+      profile.distinct[role] = { column: this.roles[role] as string, approximate: sketch.count() };
+    }
+
+    return profile;
+  }
+}
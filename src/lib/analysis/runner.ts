@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Case Analysis Runner
+ *
+ * Runs every module selected for a case against its uploaded file. Cases
+ * imported from an integration get their file first (see imports.ts).
+ *
+ * The file is streamed from storage and parsed once; each data row is
+ * passed to every module's analyzer and to the data profile. Nothing
+ * holds the whole file, so multi-million-row ledgers run in bounded memory.
+ *
+ * Error handling distinguishes three kinds of failure:
+ * - Row errors (unparseable row, wrong number of fields) skip that row
+ *   and are reported with their line number in `Case.results.ingestion`.
+ * - Module errors (missing column, missing line items, ...) are problems
+ *   with the data. Retrying will not help, so they are recorded as that
+ *   module's progress and the remaining modules still run.
+ * - Anything else (storage or database unavailable) is thrown, so the job
+ *   queue can retry the whole run later.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { readCsvRecords, type CsvRowError } from "@/lib/csv-stream";
+import { suggestRoles, type ColumnMapping } from "@/lib/column-mapping";
+import { getStorage } from "@/lib/storage";
+import { importCaseData } from "@/lib/imports";
+import { createModuleAnalyzer, type ModuleAnalyzer } from "./index";
+import { ProfileAccumulator } from "./profile";
+import type { AnalysisModuleId, IngestionReport, ModuleResults } from "./types";
+
+/**
+ * Progress of a single module within a run
+ */
+export interface ModuleProgress {
+  status: "pending" | "running" | "completed" | "failed";
+  startedAt?: string;
+  completedAt?: string;
+  /** Data rows read so far */
+  rowsProcessed?: number;
+  error?: string;
+}
+
+/**
+ * Progress of every module in a run, keyed by module id
+ */
+export type AnalysisProgress = Partial<Record<AnalysisModuleId, ModuleProgress>>;
+
+/**
+ * Outcome of a run
+ *
+ * The results are not saved yet: the job queue saves them when it
+ * records the outcome, so a run that lost its job cannot overwrite them.
+ */
+export interface AnalysisOutcome {
+  progress: AnalysisProgress;
+  completed: AnalysisModuleId[];
+  failed: AnalysisModuleId[];
+  /** Results produced by this run (see `saveCaseResults`) */
+  results: ModuleResults;
+  ingestion: IngestionReport;
+}
+
+/**
+ * How many skipped rows are listed in the results (all are counted)
+ */
+const MAX_REPORTED_ERRORS = 100;
+
+/**
+ * Progress is saved every this many rows
+ */
+const PROGRESS_INTERVAL_ROWS = 100_000;
+
+/**
+ * Runs all selected modules for a case
+ *
+ * @param caseId - Case to analyze
+ * @param onProgress - Called after every module state change and periodically while reading
+ * @returns Which modules completed and which failed, with their results
+ */
+export async function runCaseAnalysis(
+  caseId: string,
+  onProgress?: (progress: AnalysisProgress) => Promise<void>
+): Promise<AnalysisOutcome> {
+  const caseItem = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: { fileUrl: true, modules: true, columnMapping: true, integrationId: true },
+  });
+
+  if (!caseItem) {
+    throw new Error(`Case ${caseId} not found`);
+  }
+
+  let fileUrl = caseItem.fileUrl;
+  let mapping = caseItem.columnMapping as unknown as ColumnMapping | null;
+
+  // Imported cases read their data from the integration on the first attempt
+  if (!fileUrl && caseItem.integrationId) {
+    ({ fileUrl, mapping } = await importCaseData(caseId));
+  }
+  if (!fileUrl) {
+    throw new Error("Case has no uploaded file");
+  }
+
+  const modules = caseItem.modules as AnalysisModuleId[];
+  const stream = await getStorage().getStream(fileUrl);
+
+  const startedAt = new Date().toISOString();
+  const progress: AnalysisProgress = Object.fromEntries(
+    modules.map((moduleId) => [moduleId, { status: "running", startedAt }])
+  );
+  const outcome: Pick<AnalysisOutcome, "progress" | "completed" | "failed"> = {
+    progress,
+    completed: [],
+    failed: [],
+  };
+  await onProgress?.(progress);
+
+  // Modules still running; a module is removed as soon as it fails
+  const analyzers = new Map<AnalysisModuleId, ModuleAnalyzer>(
+    modules.map((moduleId) => [moduleId, createModuleAnalyzer(moduleId, mapping)])
+  );
+
+  const failModule = (moduleId: AnalysisModuleId, error: unknown) => {
+    analyzers.delete(moduleId);
+    progress[moduleId] = {
+      ...progress[moduleId],
+      status: "failed",
+      completedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+    outcome.failed.push(moduleId);
+  };
+
+  /**
+   * Calls every remaining analyzer, failing the ones that throw
+   */
+  const forEachAnalyzer = (fn: (analyzer: ModuleAnalyzer) => void) => {
+    analyzers.forEach((analyzer, moduleId) => {
+      try {
+        fn(analyzer);
+      } catch (error) {
+        failModule(moduleId, error);
+      }
+    });
+  };
+
+  const errors: CsvRowError[] = [];
+  let errorCount = 0;
+  const recordError = (error: CsvRowError) => {
+    errorCount++;
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push(error);
+  };
+
+  let headers: string[] | null = null;
+  let profile: ProfileAccumulator | null = null;
+  let rowCount = 0;
+
+  const records = readCsvRecords(stream, {
+    encoding: mapping?.format.encoding,
+    delimiter: mapping?.format.delimiter,
+    onError: recordError,
+  });
+
+  for await (const record of records) {
+    if (!headers) {
+      const headerRow = record.fields.map((h) => h.trim());
+      headers = headerRow;
+      profile = new ProfileAccumulator(
+        headerRow,
+        mapping?.roles ?? suggestRoles(headerRow),
+        mapping?.format
+      );
+      forEachAnalyzer((analyzer) => analyzer.start(headerRow));
+      continue;
+    }
+
+    if (record.fields.length !== headers.length) {
+      recordError({
+        line: record.line,
+        message: `Row has ${record.fields.length} fields, expected ${headers.length}`,
+      });
+      continue;
+    }
+
+    rowCount++;
+    profile?.add(record.fields);
+    forEachAnalyzer((analyzer) => analyzer.add(record));
+
+    if (rowCount % PROGRESS_INTERVAL_ROWS === 0) {
+      analyzers.forEach((_, moduleId) => {
+        progress[moduleId] = { ...progress[moduleId], status: "running", rowsProcessed: rowCount };
+      });
+      await onProgress?.(progress);
+    }
+  }
+
+  if (!headers) {
+    analyzers.forEach((_, moduleId) => failModule(moduleId, new Error("File has no header row")));
+  }
+
+  const results: ModuleResults = {};
+  forEachAnalyzer((analyzer) => analyzer.finish(results));
+
+  analyzers.forEach((_, moduleId) => {
+    progress[moduleId] = {
+      ...progress[moduleId],
+      status: "completed",
+      completedAt: new Date().toISOString(),
+      rowsProcessed: rowCount,
+    };
+    outcome.completed.push(moduleId);
+  });
+
+  await onProgress?.(progress);
+
+  return {
+    ...outcome,
+    results,
+    ingestion: {
+      rowCount,
+      errorCount,
+      errors,
+      profile: profile?.finish() ?? { distinct: {} },
+    },
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Statistical Helpers
+ *
+ * Small numeric routines shared by the analysis modules.
+ * They are implemented here rather than pulled from a stats library
+ * because we only need a handful of distributions.
+ */
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ *
+ * @param x - Positive real number
+ * @returns ln(Γ(x))
+ */
+export function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) {
+    y += 1;
+    series += c / y;
+  }
+
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ *
+ * Uses the series expansion for small x and a continued fraction otherwise,
+ * as described in Numerical Recipes.
+ */
+function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+
+  const gln = logGamma(a);
+
+  if (x < a + 1) {
+    // Series representation of P(a, x); Q = 1 - P
+    let sum = 1 / a;
+    let term = sum;
+    let ap = a;
+    for (let n = 0; n < 200; n++) {
+      ap += 1;
+      term *= x / ap;
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - gln);
+  }
+
+  // Continued fraction representation of Q(a, x)
+  let b = x + 1 - a;
+  let c = 1 / 1e-300;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 200; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - gln) * h;
+}
+
+/**
+ * P-value of a chi-square statistic
+ *
+ * @param statistic - Chi-square test statistic
+ * @param degreesOfFreedom - Degrees of freedom (bins - 1)
+ * @returns Probability of observing a statistic at least this large
+ */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+  return upperIncompleteGamma(degreesOfFreedom / 2, statistic / 2);
+}
+
+/**
+ * Rounds a number for storage in JSON results
+ *
+ * @param value - Number to round
+ * @param digits - Decimal places to keep (default 6)
+ */
+export function round(value: number, digits = 6): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
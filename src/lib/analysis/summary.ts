@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Result Summaries
+ *
+ * Condenses a case's module results into the few numbers shown on
+ * case cards and dashboard statistics.
+ */
+
+import type { CaseResults } from "./types";
+
+/**
+ * Headline numbers for a case
+ */
+export interface ResultSummary {
+  anomaliesFound: number;
+  highRiskItems: number;
+}
+
+/**
+ * Summarises stored module results
+ *
+ * - Anomalies: Benford flagged rows, flagged M-Score ratios and Z-Score
+ *   periods in the distress zone
+ * - High risk: a nonconforming Benford first-digit test, a "likely"
+ *   8-variable M-Score and a latest Z-Score in the distress zone
+ *
+ * @param results - Value of the `Case.results` column
+ */
+export function summarizeResults(results: unknown): ResultSummary {
+  const modules = (results as CaseResults | null)?.modules;
+  if (!modules) {
+    return { anomaliesFound: 0, highRiskItems: 0 };
+  }
+
+  let anomaliesFound = 0;
+  let highRiskItems = 0;
+
+  if (modules.benford) {
+    anomaliesFound += modules.benford.flaggedRows.length;
+    if (modules.benford.tests.firstDigit.mad.conformity === "nonconformity") {
+      highRiskItems++;
+    }
+  }
+
+  if (modules.mscore) {
+    anomaliesFound += modules.mscore.ratios.filter((r) => r.flagged).length;
+    if (modules.mscore.eightVariable.likelihood === "likely") {
+      highRiskItems++;
+    }
+  }
+
+  if (modules.zscore) {
+    const variant = modules.zscore.primaryVariant;
+    const scored = modules.zscore.periods.filter((p) => p.variants[variant]);
+    anomaliesFound += scored.filter((p) => p.variants[variant]!.zone === "distress").length;
+    if (scored[scored.length - 1]?.variants[variant]!.zone === "distress") {
+      highRiskItems++;
+    }
+  }
+
+  return { anomaliesFound, highRiskItems };
+}
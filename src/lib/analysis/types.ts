@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Analysis Result Types
+ *
+ * Shared types describing what the analysis modules write into `Case.results`.
+ * The JSON column is keyed by module id so several modules can run on
+ * the same case without overwriting each other.
+ */
+
+import type { CsvRowError } from "@/lib/csv-stream";
+import type { BenfordResult } from "./benford";
+import type { MScoreResult } from "./mscore";
+import type { ZScoreResult } from "./zscore";
+import type { DataProfile } from "./profile";
+
+/**
+ * Identifiers of the analysis modules offered on the New Case page
+ */
+export type AnalysisModuleId = "benford" | "mscore" | "zscore";
+
+/**
+ * Result payloads stored per module
+ */
+export interface ModuleResults {
+  benford?: BenfordResult;
+  mscore?: MScoreResult;
+  zscore?: ZScoreResult;
+}
+
+/**
+ * What happened while the file was read: rows analyzed, rows skipped
+ * because they could not be parsed, and a profile of the data
+ */
+export interface IngestionReport {
+  rowCount: number;
+  errorCount: number;
+  /** The first skipped rows with their line numbers (capped, see runner) */
+  errors: CsvRowError[];
+  profile: DataProfile;
+}
+
+/**
+ * Shape of the `Case.results` JSON column
+ */
+export interface CaseResults {
+  modules: ModuleResults;
+  ingestion?: IngestionReport;
+  updatedAt: string;
+}
@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Altman Z-Score Analysis
+ *
+ * The Altman Z-Score predicts the likelihood of bankruptcy from a weighted
+ * sum of balance-sheet and income-statement ratios:
+ *
+ * - X1: Working capital / Total assets
+ * - X2: Retained earnings / Total assets
+ * - X3: EBIT / Total assets
+ * - X4: Market value of equity / Total liabilities (book value for Z' and Z'')
+ * - X5: Sales / Total assets
+ *
+ * Three published variants are supported:
+ * - Z   (Altman 1968): public manufacturing companies
+ * - Z'  (Altman 1983): private companies, book value of equity in X4
+ * - Z'' (Altman 1995): non-manufacturers and emerging markets, drops X5
+ *
+ * Each variant has its own distress / grey / safe zone cut-offs. When several
+ * periods are supplied the module also reports the trend across them.
+ */
+
+import type { FinancialPeriod, LineItem } from "./financials";
+import { round } from "./stats";
+
+/**
+ * Supported Z-Score variants
+ */
+export type ZScoreVariant = "original" | "private" | "nonManufacturer";
+
+/**
+ * Zone classification
+ */
+export type ZScoreZone = "distress" | "grey" | "safe";
+
+/**
+ * Direction of the score across periods
+ */
+export type ZScoreTrendDirection = "improving" | "deteriorating" | "stable";
+
+/**
+ * Score for one variant in one period
+ */
+export interface ZScoreValue {
+  score: number;
+  zone: ZScoreZone;
+  components: Record<string, { ratio: number; coefficient: number; contribution: number }>;
+}
+
+/**
+ * All variants computed for a single period
+ */
+export interface ZScorePeriodResult {
+  period: string;
+  inputs: Partial<Record<LineItem, number>>;
+  variants: Partial<Record<ZScoreVariant, ZScoreValue>>;
+  /** Variants that could not be computed, with the missing (or zero divisor) line items */
+  unavailable: Partial<Record<ZScoreVariant, LineItem[]>>;
+}
+
+/**
+ * Score trend for a variant across the supplied periods
+ */
+export interface ZScoreTrend {
+  variant: ZScoreVariant;
+  points: Array<{ period: string; score: number; zone: ZScoreZone }>;
+  change: number;
+  direction: ZScoreTrendDirection;
+}
+
+/**
+ * Full Z-Score module output stored in `Case.results.modules.zscore`
+ */
+export interface ZScoreResult {
+  primaryVariant: ZScoreVariant;
+  periods: ZScorePeriodResult[];
+  trends: ZScoreTrend[];
+  generatedAt: string;
+}
+
+/**
+ * Variant definitions: coefficients, required inputs and zone cut-offs
+ * (score below `distress` is distress, above `safe` is safe, grey in between)
+ */
+const VARIANTS: Record<
+  ZScoreVariant,
+  {
+    name: string;
+    coefficients: Partial<Record<"X1" | "X2" | "X3" | "X4" | "X5", number>>;
+    equity: "marketValueEquity" | "bookValueEquity";
+    distress: number;
+    safe: number;
+  }
+> = {
+  original: {
+    name: "Z (public manufacturer)",
+    coefficients: { X1: 1.2, X2: 1.4, X3: 3.3, X4: 0.6, X5: 1.0 },
+    equity: "marketValueEquity",
+    distress: 1.81,
+    safe: 2.99,
+  },
+  private: {
+    name: "Z' (private firm)",
+    coefficients: { X1: 0.717, X2: 0.847, X3: 3.107, X4: 0.42, X5: 0.998 },
+    equity: "bookValueEquity",
+    distress: 1.23,
+    safe: 2.9,
+  },
+  nonManufacturer: {
+    name: "Z'' (non-manufacturer / emerging market)",
+    coefficients: { X1: 6.56, X2: 3.26, X3: 6.72, X4: 1.05 },
+    equity: "bookValueEquity",
+    distress: 1.1,
+    safe: 2.6,
+  },
+};
+
+/**
+ * Score changes smaller than this are reported as a stable trend
+ */
+const STABLE_TREND_TOLERANCE = 0.1;
+
+/**
+ * Line items every variant needs, in addition to its equity measure
+ */
+const BASE_ITEMS: LineItem[] = [
+  "currentAssets",
+  "currentLiabilities",
+  "totalAssets",
+  "retainedEarnings",
+  "ebit",
+  "totalLiabilities",
+];
+
+/**
+ * Classifies a score into its variant's zone
+ */
+function classifyZone(variant: ZScoreVariant, score: number): ZScoreZone {
+  const { distress, safe } = VARIANTS[variant];
+  if (score < distress) return "distress";
+  if (score > safe) return "safe";
+  return "grey";
+}
+
+/**
+ * Computes one variant for a period, or returns the line items that are
+ * missing or are zero where the ratios divide by them
+ */
+function computeVariant(
+  variant: ZScoreVariant,
+  period: FinancialPeriod
+): ZScoreValue | LineItem[] {
+  const definition = VARIANTS[variant];
+  const required: LineItem[] = [...BASE_ITEMS, definition.equity];
+  if (definition.coefficients.X5 !== undefined) required.push("revenue");
+
+  const missing = required.filter((item) => period.values[item] === undefined);
+  if (missing.length > 0) return missing;
+
+  // A zero divisor (e.g. a debt-free company) only leaves this period out
+  const v = period.values as Record<LineItem, number>;
+  const zero = (["totalAssets", "totalLiabilities"] as LineItem[]).filter((item) => v[item] === 0);
+  if (zero.length > 0) return zero;
+
+  const ratios = {
+    X1: (v.currentAssets - v.currentLiabilities) / v.totalAssets,
+    X2: v.retainedEarnings / v.totalAssets,
+    X3: v.ebit / v.totalAssets,
+    X4: v[definition.equity] / v.totalLiabilities,
+    X5: (v.revenue ?? 0) / v.totalAssets,
+  };
+
+  let score = 0;
+  const components: ZScoreValue["components"] = {};
+  for (const [key, coefficient] of Object.entries(definition.coefficients)) {
+    const ratio = ratios[key as keyof typeof ratios];
+    const contribution = coefficient * ratio;
+    score += contribution;
+    components[key] = {
+      ratio: round(ratio, 4),
+      coefficient,
+      contribution: round(contribution, 4),
+    };
+  }
+
+  return {
+    score: round(score, 4),
+    zone: classifyZone(variant, score),
+    components,
+  };
+}
+
+/**
+ * Builds the trend for a variant from the per-period results
+ */
+function buildTrend(variant: ZScoreVariant, periods: ZScorePeriodResult[]): ZScoreTrend {
+  const points = periods
+    .filter((p) => p.variants[variant])
+    .map((p) => ({
+      period: p.period,
+      score: p.variants[variant]!.score,
+      zone: p.variants[variant]!.zone,
+    }));
+
+  const change = points.length > 1 ? points[points.length - 1].score - points[0].score : 0;
+
+  let direction: ZScoreTrendDirection = "stable";
+  if (change > STABLE_TREND_TOLERANCE) direction = "improving";
+  if (change < -STABLE_TREND_TOLERANCE) direction = "deteriorating";
+
+  return { variant, points, change: round(change, 4), direction };
+}
+
+/**
+ * Calculates the Altman Z-Score variants for one or more periods
+ *
+ * @param periods - Financial statements, oldest first
+ * @param primaryVariant - Variant to highlight; defaults to Z when market
+ *   value of equity is available, otherwise Z'
+ * @returns Per-period scores and trends
+ * @throws Error if no variant can be computed for any period
+ */
+export function calculateZScore(
+  periods: FinancialPeriod[],
+  primaryVariant?: ZScoreVariant
+): ZScoreResult {
+  const variantIds = Object.keys(VARIANTS) as ZScoreVariant[];
+
+  const results: ZScorePeriodResult[] = periods.map((period) => {
+    const result: ZScorePeriodResult = {
+      period: period.label,
+      inputs: period.values,
+      variants: {},
+      unavailable: {},
+    };
+
+    for (const variant of variantIds) {
+      const value = computeVariant(variant, period);
+      if (Array.isArray(value)) {
+        result.unavailable[variant] = value;
+      } else {
+        result.variants[variant] = value;
+      }
+    }
+
+    return result;
+  });
+
+  const computed = results.some((r) => Object.keys(r.variants).length > 0);
+  if (!computed) {
+    const missing = Object.values(results[0]?.unavailable ?? {}).flat();
+    throw new Error(
+      `No Z-Score variant could be calculated. Missing or zero line items: ${Array.from(new Set(missing)).join(", ")}`
+    );
+  }
+
+  const hasMarketValue = results.some((r) => r.variants.original);
+
+  return {
+    primaryVariant: primaryVariant ?? (hasMarketValue ? "original" : "private"),
+    periods: results,
+    trends: variantIds
+      .map((variant) => buildTrend(variant, results))
+      .filter((trend) => trend.points.length > 0),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Human-readable variant names for display
+ */
+export const Z_SCORE_VARIANT_NAMES: Record<ZScoreVariant, string> = {
+  original: VARIANTS.original.name,
+  private: VARIANTS.private.name,
+  nonManufacturer: VARIANTS.nonManufacturer.name,
+};
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview API Keys
+ *
+ * Requests to the public API (/api/v1) authenticate with an API key sent
+ * as a bearer token instead of the session cookie:
+ *
+ *   Authorization: Bearer frk_...
+ *
+ * Users create named keys in Settings, each with the scopes it may use
+ * and an optional expiry. Keys are long random strings, so a single
+ * SHA-256 hash is enough to store them safely (a slow hash like bcrypt
+ * protects guessable passwords and would make every request slow). Only
+ * the hash and a short prefix are stored: the key itself is shown once,
+ * when it is created. Revoking a key deletes it.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { UserPayload } from "@/lib/auth";
+import type { ApiKeyScope, CreateApiKeyInput } from "@/lib/validations/api-key";
+
+/**
+ * Start of every API key, so leaked keys are easy to recognize
+ */
+export const API_KEY_PREFIX = "frk_";
+
+/**
+ * Characters of a key kept (with `API_KEY_PREFIX`) to tell keys apart in lists
+ */
+const VISIBLE_KEY_CHARS = 8;
+
+/**
+ * Most keys a user can have at once
+ */
+const MAX_KEYS_PER_USER = 25;
+
+/**
+ * `lastUsedAt` is updated at most this often per key, not on every request
+ */
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+/**
+ * Fields returned for keys (never the hash)
+ */
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiKeySelect;
+
+export type ApiKeyView = Prisma.ApiKeyGetPayload<{ select: typeof apiKeySelect }>;
+
+/**
+ * Outcome of creating a key: the key (its only appearance) and its
+ * listing, or an error with its HTTP status
+ */
+export type CreateApiKeyResult =
+  | { ok: true; key: string; apiKey: ApiKeyView }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Outcome of authenticating a request: its user, or why it is refused
+ * (401 for a missing, unknown or expired key, 403 for a missing scope)
+ */
+export type ApiAuthResult =
+  | { ok: true; user: UserPayload }
+  | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * SHA-256 of a key, as stored in `ApiKey.keyHash`
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Lists a user's keys, newest first
+ */
+export async function listApiKeys(userId: string): Promise<ApiKeyView[]> {
+  return prisma.apiKey.findMany({
+    where: { userId },
+    select: apiKeySelect,
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Creates a key with 256 random bits
+ *
+ * @param userId - Owner of the key
+ * @param input - Validated name, scopes and expiry
+ */
+export async function createApiKey(
+  userId: string,
+  input: CreateApiKeyInput
+): Promise<CreateApiKeyResult> {
+  const count = await prisma.apiKey.count({ where: { userId } });
+  if (count >= MAX_KEYS_PER_USER) {
+    return {
+      ok: false,
+      status: 400,
+      error: `You can have at most ${MAX_KEYS_PER_USER} API keys. Revoke one first.`,
+    };
+  }
+
+  const key = API_KEY_PREFIX + randomBytes(32).toString("base64url");
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name: input.name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + VISIBLE_KEY_CHARS),
+      keyHash: hashApiKey(key),
+      scopes: input.scopes,
+      expiresAt: input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+      userId,
+    },
+    select: apiKeySelect,
+  });
+
+  return { ok: true, key, apiKey };
+}
+
+/**
+ * Revokes (deletes) a key; requests with it fail from then on
+ *
+ * @returns True if a key was revoked
+ */
+export async function revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+  const { count } = await prisma.apiKey.deleteMany({ where: { id: keyId, userId } });
+  return count > 0;
+}
+
+/**
+ * Resolves an API key to its owner and checks it may be used for a scope
+ *
+ * @param key - The full key
+ * @param scope - Scope the endpoint requires
+ */
+export async function authenticateApiKey(key: string, scope: ApiKeyScope): Promise<ApiAuthResult> {
+  const apiKey = key.startsWith(API_KEY_PREFIX)
+    ? await prisma.apiKey.findUnique({
+        where: { keyHash: hashApiKey(key) },
+        include: { user: { select: { email: true } } },
+      })
+    : null;
+
+  if (!apiKey) {
+    return { ok: false, status: 401, error: "Missing or invalid API key" };
+  }
+
+  const now = new Date();
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+    return { ok: false, status: 401, error: "The API key has expired" };
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `The API key does not have the ${scope} scope` };
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+    // updateMany: the key may have been revoked since it was read
+    await prisma.apiKey.updateMany({ where: { id: apiKey.id }, data: { lastUsedAt: now } });
+  }
+
+  return { ok: true, user: { userId: apiKey.userId, email: apiKey.user.email } };
+}
+
+/**
+ * Gets the user a request's bearer API key belongs to
+ *
+ * The counterpart of `getCurrentUser` for the public API: handlers get
+ * the same user payload whether a person or a program is calling.
+ *
+ * @param request - Incoming request
+ * @param scope - Scope the endpoint requires
+ */
+export async function getApiUser(request: Request, scope: ApiKeyScope): Promise<ApiAuthResult> {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("authorization") ?? "");
+  if (!match) {
+    return { ok: false, status: 401, error: "Missing or invalid API key" };
+  }
+
+  return authenticateApiKey(match[1], scope);
+}
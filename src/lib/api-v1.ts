@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Public API (v1) Responses
+ *
+ * Shared by the /api/v1 route handlers:
+ * - Errors in one envelope, `{ error: { code, message, details? } }`,
+ *   whatever went wrong (see `v1ErrorSchema`)
+ * - Conversion of cases and integrations to their v1 shapes, so internal
+ *   columns never leak into the public API by accident
+ */
+
+import { NextResponse } from "next/server";
+import { summarizeResults } from "@/lib/analysis/summary";
+import type { ApiAuthResult } from "@/lib/api-keys";
+import type { getCase, CaseListItem } from "@/lib/cases";
+import type { LimitExceeded } from "@/lib/entitlements";
+import type { IntegrationView } from "@/lib/integrations";
+import type {
+  V1Case,
+  V1CaseDetail,
+  V1Error,
+  V1Integration,
+} from "@/lib/validations/v1";
+
+/**
+ * Stable error codes of the v1 API
+ */
+export type V1ErrorCode =
+  | "unauthorized"
+  | "insufficient_scope"
+  | "invalid_request"
+  | "not_found"
+  | "payload_too_large"
+  | "internal_error"
+  | Lowercase<LimitExceeded["body"]["code"]>;
+
+/**
+ * An error response in the v1 envelope
+ *
+ * @param status - HTTP status
+ * @param code - Stable machine-readable code
+ * @param message - Human-readable explanation
+ * @param details - Extra fields for the code (e.g. plan limits)
+ */
+export function v1Error(
+  status: number,
+  code: V1ErrorCode,
+  message: string,
+  details?: Record<string, unknown>
+): NextResponse<V1Error> {
+  return NextResponse.json(
+    { error: { code, message, ...(details ? { details } : {}) } },
+    { status }
+  );
+}
+
+/**
+ * The v1 error for a request whose API key was refused
+ */
+export function v1AuthError(auth: Extract<ApiAuthResult, { ok: false }>): NextResponse<V1Error> {
+  return v1Error(
+    auth.status,
+    auth.status === 403 ? "insufficient_scope" : "unauthorized",
+    auth.error
+  );
+}
+
+/**
+ * The v1 error for a plan limit, with the limit in `details`
+ */
+export function v1LimitError(denied: LimitExceeded): NextResponse<V1Error> {
+  const { error, code, tier, limit, used, resetsAt } = denied.body;
+  return v1Error(denied.status, code.toLowerCase() as V1ErrorCode, error, {
+    tier,
+    limit,
+    used,
+    resets_at: resetsAt,
+  });
+}
+
+/**
+ * A case list item in its v1 shape
+ */
+export function toV1Case(item: CaseListItem): V1Case {
+  return {
+    id: item.id,
+    name: item.name,
+    description: item.description,
+    status: item.status,
+    modules: item.modules,
+    anomalies_found: item.anomaliesFound,
+    high_risk_items: item.highRiskItems,
+    created_at: item.createdAt.toISOString(),
+    updated_at: item.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * A case with its results in its v1 shape
+ */
+export function toV1CaseDetail(
+  caseItem: NonNullable<Awaited<ReturnType<typeof getCase>>>
+): V1CaseDetail {
+  const { anomaliesFound, highRiskItems } = summarizeResults(caseItem.results);
+  const job = caseItem.jobs[0];
+
+  return {
+    ...toV1Case({ ...caseItem, anomaliesFound, highRiskItems }),
+    job: job ? { status: job.status, attempts: job.attempts, error: job.lastError } : null,
+    results: (caseItem.results as Record<string, unknown> | null) ?? null,
+  };
+}
+
+/**
+ * An integration in its v1 shape
+ */
+export function toV1Integration(integration: IntegrationView): V1Integration {
+  return {
+    id: integration.id,
+    name: integration.name,
+    type: integration.type,
+    config: integration.config,
+    is_active: integration.isActive,
+    secret_fields: integration.secretFields,
+    created_at: integration.createdAt.toISOString(),
+    updated_at: integration.updatedAt.toISOString(),
+  };
+}
@@ -2,33 +2,52 @@
  * @fileoverview Authentication Library
  * 
  * This file contains authentication utilities for the Fraudlr platform.
- * We use JWT (JSON Web Tokens) for session management, which allows
- * stateless authentication across our API routes.
+ * We use JWT (JSON Web Tokens) as short-lived access tokens, backed by
+ * server-side sessions (see sessions.ts) that can be signed out at any time.
  * 
  * Security Notes:
  * - Passwords are hashed using bcrypt (never stored in plain text)
- * - JWTs are signed with a secret key and have expiration times
+ * - JWTs are signed with a secret key and expire after 15 minutes
+ * - Each JWT names its session (`jti`) and only verifies while the session
+ *   exists; an expired one is renewed with the rotating refresh token
  * - Tokens are stored in HTTP-only cookies for security
  */
 
 import { SignJWT, jwtVerify } from "jose";
-import { cookies } from "next/headers";
+import { cookies, headers } from "next/headers";
 import bcrypt from "bcryptjs";
+import { AUTH_COOKIE, JWT_SECRET, REFRESH_COOKIE, readAccessToken } from "@/lib/jwt";
+import { clientIp } from "@/lib/rate-limit";
+import {
+  SESSION_TTL_MS,
+  createSession,
+  refreshSession,
+  touchSession,
+  type SessionClient,
+} from "@/lib/sessions";
 
 /**
- * Secret key for signing JWTs
- * IMPORTANT: In production, use a strong, randomly generated secret
- * stored in environment variables
+ * Access token expiration time (15 minutes in seconds)
+ * Kept short because a copied token works until it expires; the refresh
+ * token keeps the user signed in for longer
  */
-const JWT_SECRET = new TextEncoder().encode(
-  process.env.JWT_SECRET || "your-secret-key-change-in-production"
-);
+const TOKEN_EXPIRY = 60 * 15;
 
 /**
- * Token expiration time (7 days in seconds)
- * Adjust based on your security requirements
+ * Cookie name for the pending second sign-in step of users with two-factor
+ * authentication (the access and refresh cookies are named in jwt.ts)
  */
-const TOKEN_EXPIRY = 60 * 60 * 24 * 7;
+const MFA_CHALLENGE_COOKIE = "mfa-challenge";
+
+/**
+ * Time to enter the authentication code after the password (5 minutes)
+ */
+const MFA_CHALLENGE_EXPIRY = 60 * 5;
+
+/**
+ * JWT audience of MFA challenge tokens, so they can't pass for access tokens
+ */
+const MFA_CHALLENGE_AUDIENCE = "mfa-challenge";
 
 /**
  * User payload interface for JWT tokens
@@ -37,24 +56,29 @@ const TOKEN_EXPIRY = 60 * 60 * 24 * 7;
 export interface UserPayload {
   userId: string;
   email: string;
+  /** Session the token belongs to (absent for API key requests) */
+  sessionId?: string;
 }
 
 /**
- * Creates a JWT token for an authenticated user
+ * Creates a JWT access token for a session
  * 
- * @param payload - User information to encode in the token
+ * @param payload - User information to encode in the token, and its session
  * @returns Signed JWT token string
  * 
  * How JWT works:
  * 1. User logs in with email/password
- * 2. Server verifies credentials
- * 3. Server creates a signed token with user data
+ * 2. Server verifies credentials and starts a session
+ * 3. Server creates a signed token with user data and the session id
  * 4. Client stores token and sends it with future requests
- * 5. Server verifies token signature on each request
+ * 5. Server verifies token signature (and session) on each request
  */
-export async function createToken(payload: UserPayload): Promise<string> {
-  return await new SignJWT(payload)
+export async function createToken(
+  payload: UserPayload & { sessionId: string }
+): Promise<string> {
+  return await new SignJWT({ userId: payload.userId, email: payload.email })
     .setProtectedHeader({ alg: "HS256" }) // Use HMAC-SHA256 algorithm
+    .setJti(payload.sessionId) // Session the token belongs to
     .setIssuedAt() // Set token creation time
     .setExpirationTime(`${TOKEN_EXPIRY}s`) // Set expiration
     .sign(JWT_SECRET);
@@ -64,16 +88,17 @@ export async function createToken(payload: UserPayload): Promise<string> {
  * Verifies a JWT token and extracts the payload
  * 
  * @param token - The JWT token string to verify
- * @returns User payload if valid, null if invalid or expired
+ * @returns User payload if valid, null if invalid, expired, or its session
+ * was signed out
  */
 export async function verifyToken(token: string): Promise<UserPayload | null> {
-  try {
-    const { payload } = await jwtVerify(token, JWT_SECRET);
-    return payload as unknown as UserPayload;
-  } catch (error) {
-    // Token is invalid, expired, or tampered with
+  const claims = await readAccessToken(token);
+
+  if (!claims || !(await touchSession(claims.sessionId, claims.userId))) {
     return null;
   }
+
+  return claims;
 }
 
 /**
@@ -120,7 +145,7 @@ export async function comparePasswords(
  */
 export async function setAuthCookie(token: string): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.set("auth-token", token, {
+  cookieStore.set(AUTH_COOKIE, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === "production",
     sameSite: "lax",
@@ -129,26 +154,168 @@ export async function setAuthCookie(token: string): Promise<void> {
   });
 }
 
+/**
+ * Sets the refresh token cookie (same security settings as the auth
+ * cookie; it lasts as long as an unused session)
+ * 
+ * @param token - Refresh token to store in cookie
+ */
+export async function setRefreshCookie(token: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(REFRESH_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: SESSION_TTL_MS / 1000,
+    path: "/",
+  });
+}
+
+/**
+ * Describes the device making the current request
+ */
+async function currentClient(): Promise<SessionClient> {
+  const headerStore = await headers();
+  return {
+    userAgent: headerStore.get("user-agent"),
+    ip: clientIp({ headers: headerStore }),
+  };
+}
+
+/**
+ * Signs a user in on the requesting device
+ * 
+ * Starts a session and sets the access and refresh cookies.
+ * 
+ * @param user - The user who just proved who they are
+ */
+export async function startSession(user: UserPayload): Promise<void> {
+  const { sessionId, refreshToken } = await createSession(user.userId, await currentClient());
+  const token = await createToken({ userId: user.userId, email: user.email, sessionId });
+
+  await setAuthCookie(token);
+  await setRefreshCookie(refreshToken);
+}
+
+/**
+ * Renews the access token with the refresh cookie
+ * 
+ * Only call this from route handlers: it sets cookies.
+ * 
+ * @returns User payload if the refresh token is still valid, null otherwise
+ */
+export async function refreshAuth(): Promise<UserPayload | null> {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get(REFRESH_COOKIE)?.value;
+
+  if (!refreshToken) {
+    return null;
+  }
+
+  const result = await refreshSession(refreshToken, await currentClient());
+  if (!result.ok) {
+    return null;
+  }
+
+  const user = { userId: result.userId, email: result.email, sessionId: result.sessionId };
+  await setAuthCookie(await createToken(user));
+  if (result.refreshToken) {
+    await setRefreshCookie(result.refreshToken);
+  }
+  return user;
+}
+
 /**
  * Gets the current user from the authentication cookie
  * 
+ * When the access token has expired, it is renewed with the refresh
+ * cookie, so only call this from route handlers. Cookies that no longer
+ * work (the session was signed out) are cleared: the middleware only
+ * checks the token's signature, and would otherwise keep sending the
+ * browser from the login page back to the dashboard until it expires.
+ * 
  * @returns User payload if authenticated, null otherwise
  */
 export async function getCurrentUser(): Promise<UserPayload | null> {
   const cookieStore = await cookies();
-  const token = cookieStore.get("auth-token")?.value;
+  const token = cookieStore.get(AUTH_COOKIE)?.value;
   
+  const user = (token ? await verifyToken(token) : null) ?? (await refreshAuth());
+  if (!user && (token || cookieStore.has(REFRESH_COOKIE))) {
+    await clearAuthCookie();
+  }
+  return user;
+}
+
+/**
+ * Remembers that a user entered the right password but still has to
+ * enter an authentication code (two-factor sign-in)
+ * 
+ * The cookie holds a signed token for the user that only the MFA verify
+ * route accepts; no session exists until the code is checked.
+ * 
+ * @param user - The user who entered the right password
+ */
+export async function setMfaChallengeCookie(user: UserPayload): Promise<void> {
+  const token = await new SignJWT({ email: user.email })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(user.userId)
+    .setAudience(MFA_CHALLENGE_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${MFA_CHALLENGE_EXPIRY}s`)
+    .sign(JWT_SECRET);
+
+  const cookieStore = await cookies();
+  cookieStore.set(MFA_CHALLENGE_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: MFA_CHALLENGE_EXPIRY,
+    path: "/api/auth/mfa",
+  });
+}
+
+/**
+ * Gets the user waiting for the second sign-in step
+ * 
+ * @returns User payload if the challenge cookie is valid, null otherwise
+ */
+export async function getMfaChallenge(): Promise<UserPayload | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(MFA_CHALLENGE_COOKIE)?.value;
+
   if (!token) {
     return null;
   }
-  
-  return await verifyToken(token);
+
+  try {
+    const { payload } = await jwtVerify(token, JWT_SECRET, {
+      audience: MFA_CHALLENGE_AUDIENCE,
+    });
+    if (!payload.sub || typeof payload.email !== "string") {
+      return null;
+    }
+    return { userId: payload.sub, email: payload.email };
+  } catch (error) {
+    // Challenge is invalid or expired
+    return null;
+  }
+}
+
+/**
+ * Removes the MFA challenge cookie once the second step is done
+ */
+export async function clearMfaChallengeCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete({ name: MFA_CHALLENGE_COOKIE, path: "/api/auth/mfa" });
 }
 
 /**
- * Removes the authentication cookie (logs user out)
+ * Removes the authentication cookies (the session itself is signed out
+ * separately, see sessions.ts)
  */
 export async function clearAuthCookie(): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.delete("auth-token");
+  cookieStore.delete(AUTH_COOKIE);
+  cookieStore.delete(REFRESH_COOKIE);
 }
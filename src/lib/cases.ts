@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Case Data Access
+ *
+ * Database queries for fraud detection cases. Every function takes the
+ * owning user's id and scopes its query to it, so a user can never read
+ * or modify another user's case by guessing an id.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+import { summarizeResults } from "@/lib/analysis/summary";
+import type {
+  CreateCaseInput,
+  ListCasesQuery,
+  UpdateCaseInput,
+} from "@/lib/validations/case";
+
+/**
+ * Fields returned for case list items (results are summarised, not sent whole)
+ */
+const caseListSelect = {
+  id: true,
+  name: true,
+  description: true,
+  status: true,
+  fileUrl: true,
+  modules: true,
+  results: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.CaseSelect;
+
+type CaseListRow = Prisma.CaseGetPayload<{ select: typeof caseListSelect }>;
+
+/**
+ * Converts a database row into a list item with result counts
+ */
+function toListItem({ results, ...rest }: CaseListRow) {
+  return { ...rest, ...summarizeResults(results) };
+}
+
+export type CaseListItem = ReturnType<typeof toListItem>;
+
+/**
+ * Lists a user's cases with search, status filter, sorting and cursor pagination
+ *
+ * @param userId - Owner of the cases
+ * @param query - Validated list query
+ * @returns Page of cases and the cursor for the next page (null on the last page)
+ */
+export async function listCases(
+  userId: string,
+  query: ListCasesQuery
+): Promise<{ cases: CaseListItem[]; nextCursor: string | null }> {
+  const where: Prisma.CaseWhereInput = { userId };
+
+  if (query.status) {
+    where.status = query.status;
+  }
+
+  if (query.search) {
+    where.OR = [
+      { name: { contains: query.search, mode: "insensitive" } },
+      { description: { contains: query.search, mode: "insensitive" } },
+    ];
+  }
+
+  // Sort by id as a tie-breaker so the cursor position is stable
+  const rows = await prisma.case.findMany({
+    where,
+    select: caseListSelect,
+    orderBy: [{ [query.sort]: query.order }, { id: query.order }],
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+
+  // We fetched one extra row to know whether another page exists
+  const hasMore = rows.length > query.limit;
+  const page = hasMore ? rows.slice(0, query.limit) : rows;
+
+  return {
+    cases: page.map(toListItem),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+}
+
+/**
+ * Gets a single case with its full results and latest analysis job
+ *
+ * @returns The case, or null if it does not exist or belongs to someone else
+ */
+export async function getCase(userId: string, caseId: string) {
+  return prisma.case.findFirst({
+    where: { id: caseId, userId },
+    include: {
+      jobs: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: {
+          status: true,
+          attempts: true,
+          maxAttempts: true,
+          runAt: true,
+          progress: true,
+          lastError: true,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Creates a new case in the PENDING state
+ */
+export async function createCase(userId: string, input: CreateCaseInput) {
+  return prisma.case.create({
+    data: {
+      name: input.name,
+      description: input.description || null,
+      userId,
+    },
+  });
+}
+
+/**
+ * Updates a case's editable fields
+ *
+ * @returns The updated case, or null if not found for this user
+ */
+export async function updateCase(userId: string, caseId: string, input: UpdateCaseInput) {
+  const { count } = await prisma.case.updateMany({
+    where: { id: caseId, userId },
+    data: input,
+  });
+
+  if (count === 0) return null;
+  return getCase(userId, caseId);
+}
+
+/**
+ * Deletes a case and its uploaded file
+ *
+ * @returns True if a case was deleted
+ */
+export async function deleteCase(userId: string, caseId: string): Promise<boolean> {
+  const existing = await prisma.case.findFirst({
+    where: { id: caseId, userId },
+    select: { fileUrl: true },
+  });
+
+  if (!existing) return false;
+
+  await prisma.case.delete({ where: { id: caseId } });
+
+  // A missing file should not block deleting the case record
+  if (existing.fileUrl) {
+    await getStorage()
+      .delete(existing.fileUrl)
+      .catch((error) => console.error("Failed to delete case file:", error));
+  }
+
+  return true;
+}
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Column Mapping
+ *
+ * Every ERP names its export columns differently ("Amount", "Betrag",
+ * "DocAmt", ...). A column mapping ties the columns of one file to the
+ * semantic roles the analysis modules understand, together with the
+ * file's format. It is stored on the case (`Case.columnMapping`) and can
+ * be saved as a per-user template that is applied automatically to later
+ * files with the same headers.
+ *
+ * This module has no server dependencies so the New Case wizard can use
+ * the same role list and suggestions as the upload pipeline.
+ */
+
+import type { CsvFormat, CsvPreview, DateFormat } from "@/lib/csv-format";
+
+/**
+ * Semantic roles a column can be mapped to
+ */
+export const COLUMN_ROLES = [
+  "amount",
+  "date",
+  "vendor",
+  "account",
+  "documentNumber",
+  "user",
+  "description",
+] as const;
+
+export type ColumnRole = (typeof COLUMN_ROLES)[number];
+
+/**
+ * Display labels for the mapping wizard
+ */
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  amount: "Amount",
+  date: "Date",
+  vendor: "Vendor",
+  account: "Account",
+  documentNumber: "Document number",
+  user: "User",
+  description: "Description",
+};
+
+/**
+ * Header name mapped to each role (unmapped roles are omitted)
+ */
+export type ColumnRoles = Partial<Record<ColumnRole, string>>;
+
+/**
+ * Mapping stored on a case and in templates
+ */
+export interface ColumnMapping {
+  format: CsvFormat;
+  roles: ColumnRoles;
+}
+
+/**
+ * Header names that usually hold each role, in order of preference
+ */
+const ROLE_PATTERNS: Record<ColumnRole, RegExp[]> = {
+  amount: [/^amount$/i, /amount|amt\b/i, /^value$/i, /total/i, /debit|credit/i, /betrag|montant|importe/i],
+  date: [/^date$/i, /posting.?date|doc(ument)?.?date|invoice.?date/i, /date|datum|fecha/i],
+  vendor: [/^vendor$/i, /vendor|supplier|payee|creditor|lieferant/i],
+  account: [/^account$/i, /g\/?l|account|acct|konto/i],
+  documentNumber: [/doc(ument)?.?(no|num|number|#|id)/i, /invoice.?(no|num|number|#|id)/i, /reference|^ref\b|voucher|beleg/i],
+  user: [/^user$/i, /user|created.?by|entered.?by|posted.?by|clerk|benutzer/i],
+  description: [/^description$/i, /desc|memo|narrative|text|comment|buchungstext/i],
+};
+
+/**
+ * Suggests a role for each column from its header name
+ *
+ * Each header is used for at most one role. Only columns whose values
+ * look like dates are suggested for the date role.
+ *
+ * @param headers - Header row of the file
+ * @param dateFormats - Date format per date-like column (from the preview)
+ */
+export function suggestRoles(
+  headers: string[],
+  dateFormats: Record<string, DateFormat> = {}
+): ColumnRoles {
+  const roles: ColumnRoles = {};
+  const used = new Set<string>();
+
+  for (const role of COLUMN_ROLES) {
+    const candidates =
+      role === "date" && Object.keys(dateFormats).length > 0
+        ? headers.filter((h) => dateFormats[h])
+        : headers;
+
+    for (const pattern of ROLE_PATTERNS[role]) {
+      const match = candidates.find((h) => !used.has(h) && pattern.test(h));
+      if (match) {
+        roles[role] = match;
+        used.add(match);
+        break;
+      }
+    }
+  }
+
+  // Fall back to the first date-like column if no header name matched
+  if (!roles.date) {
+    const dateColumn = headers.find((h) => dateFormats[h] && !used.has(h));
+    if (dateColumn) roles.date = dateColumn;
+  }
+
+  return roles;
+}
+
+/**
+ * Builds the default mapping for a file from its preview
+ *
+ * The date format is taken from the column suggested for the date role.
+ */
+export function defaultMapping(preview: CsvPreview): ColumnMapping {
+  const roles = suggestRoles(preview.headers, preview.dateFormats);
+  const dateFormat = roles.date ? preview.dateFormats[roles.date] : undefined;
+
+  return {
+    format: dateFormat ? { ...preview.format, dateFormat } : preview.format,
+    roles,
+  };
+}
+
+/**
+ * Normalizes a header row for template matching
+ *
+ * Column order, case and surrounding whitespace do not matter.
+ */
+export function normalizeHeaders(headers: string[]): string[] {
+  return Array.from(new Set(headers.map((h) => h.trim().toLowerCase()))).sort();
+}
+
+/**
+ * Returns the mapped roles whose column does not exist in the headers
+ */
+export function missingColumns(roles: ColumnRoles, headers: string[]): string[] {
+  const available = new Set(headers.map((h) => h.trim().toLowerCase()));
+  return Object.values(roles).filter(
+    (column): column is string => !!column && !available.has(column.trim().toLowerCase())
+  );
+}
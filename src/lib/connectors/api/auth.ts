@@ -0,0 +1,210 @@
+/**
+ * @fileoverview API Authentication
+ *
+ * Builds the headers each API auth scheme sends. OAuth2 client
+ * credentials tokens are requested from the token endpoint when first
+ * needed and reused until shortly before they expire (or until the API
+ * rejects them).
+ */
+
+import type { ApiAuth, ApiConfig, ApiSecrets } from "@/lib/validations/integration";
+import { classifyNetworkError, type ClassifiedError } from "../errors";
+import { checkHostAllowed } from "../network";
+
+/**
+ * Headers for a request, or why they could not be built
+ */
+export type AuthHeadersResult =
+  | { ok: true; headers: Record<string, string> }
+  | ({ ok: false } & ClassifiedError);
+
+/**
+ * Supplies the auth headers for the requests of one test or import
+ */
+export interface ApiAuthorizer {
+  /** Headers for the next request */
+  headers(): Promise<AuthHeadersResult>;
+  /** Drops a cached access token; returns whether a new one can be requested */
+  renew(): boolean;
+}
+
+/**
+ * Seconds before a token's expiry at which it is renewed
+ */
+const EXPIRY_MARGIN_S = 30;
+
+/**
+ * The auth scheme of saved settings
+ *
+ * Settings saved before auth schemes existed send a saved API key as a
+ * bearer token.
+ */
+export function resolveAuth(config: ApiConfig, secrets: ApiSecrets): ApiAuth {
+  return config.auth ?? { type: secrets.apiKey ? "bearer" : "none" };
+}
+
+/**
+ * Requests an access token with the client credentials grant
+ *
+ * The client credentials are sent with HTTP Basic auth as RFC 6749
+ * recommends. Token endpoints that reject that get them again as form
+ * fields, which some providers require instead.
+ */
+async function requestToken(
+  auth: Extract<ApiAuth, { type: "oauth2" }>,
+  clientSecret: string,
+  timeoutMs: number
+): Promise<({ ok: true; token: string; expiresIn?: number }) | ({ ok: false } & ClassifiedError)> {
+  const url = new URL(auth.tokenUrl);
+  const denied = await checkHostAllowed(url.hostname);
+  if (denied) return { ok: false, ...denied };
+
+  const form = new URLSearchParams({ grant_type: "client_credentials" });
+  if (auth.scope) form.set("scope", auth.scope);
+
+  const basic = Buffer.from(
+    `${encodeURIComponent(auth.clientId)}:${encodeURIComponent(clientSecret)}`
+  ).toString("base64");
+
+  const attempts: Array<{ headers: Record<string, string>; body: URLSearchParams }> = [
+    { headers: { Authorization: `Basic ${basic}` }, body: form },
+    {
+      headers: {},
+      body: new URLSearchParams({ ...Object.fromEntries(form), client_id: auth.clientId, client_secret: clientSecret }),
+    },
+  ];
+
+  let response: Response | null = null;
+  for (const attempt of attempts) {
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...attempt.headers,
+          Accept: "application/json",
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: attempt.body,
+        redirect: "manual",
+        cache: "no-store",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      return {
+        ok: false,
+        ...(classifyNetworkError(error, url.host) ?? {
+          problem: "network",
+          message: `Could not reach the token endpoint ${url.host}`,
+        }),
+      };
+    }
+    // 400 invalid_client and 401 mean the endpoint did not accept these client credentials
+    if (response.status !== 400 && response.status !== 401) break;
+  }
+
+  const body = (await response!.json().catch(() => null)) as {
+    access_token?: unknown;
+    expires_in?: unknown;
+    error?: unknown;
+    error_description?: unknown;
+  } | null;
+
+  if (!response!.ok || typeof body?.access_token !== "string") {
+    const reason = [body?.error, body?.error_description].filter(Boolean).join(": ");
+    return {
+      ok: false,
+      problem: "auth",
+      message: `The token endpoint did not issue an access token (${response!.status}${reason ? `, ${reason}` : ""}). Check the client ID, secret and scope.`,
+    };
+  }
+
+  const expiresIn = Number(body.expires_in);
+  return {
+    ok: true,
+    token: body.access_token,
+    expiresIn: Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn : undefined,
+  };
+}
+
+/**
+ * Creates the authorizer for an API integration
+ *
+ * @param auth - Auth scheme (see `resolveAuth`)
+ * @param secrets - Decrypted credentials
+ * @param timeoutMs - Timeout for token requests
+ */
+export function createAuthorizer(
+  auth: ApiAuth,
+  secrets: ApiSecrets,
+  timeoutMs: number
+): ApiAuthorizer {
+  const missing = (name: string): AuthHeadersResult => ({
+    ok: false,
+    problem: "auth",
+    message: `No ${name} is saved for this integration`,
+  });
+
+  switch (auth.type) {
+    case "none":
+      return { headers: async () => ({ ok: true, headers: {} }), renew: () => false };
+
+    case "bearer":
+      return {
+        headers: async () =>
+          secrets.apiKey
+            ? { ok: true, headers: { Authorization: `Bearer ${secrets.apiKey}` } }
+            : missing("token"),
+        renew: () => false,
+      };
+
+    case "basic": {
+      const encoded = Buffer.from(`${auth.username}:${secrets.password ?? ""}`).toString("base64");
+      return {
+        headers: async () =>
+          secrets.password
+            ? { ok: true, headers: { Authorization: `Basic ${encoded}` } }
+            : missing("password"),
+        renew: () => false,
+      };
+    }
+
+    case "header":
+      return {
+        headers: async () =>
+          secrets.apiKey
+            ? { ok: true, headers: { [auth.header]: secrets.apiKey } }
+            : missing("API key"),
+        renew: () => false,
+      };
+
+    case "oauth2": {
+      let token: { value: string; expiresAt: number } | null = null;
+      let renewed = false;
+
+      return {
+        async headers() {
+          if (!secrets.clientSecret) return missing("client secret");
+
+          if (!token || Date.now() >= token.expiresAt) {
+            const issued = await requestToken(auth, secrets.clientSecret, timeoutMs);
+            if (!issued.ok) return issued;
+            token = {
+              value: issued.token,
+              expiresAt: issued.expiresIn
+                ? Date.now() + Math.max(issued.expiresIn - EXPIRY_MARGIN_S, 1) * 1000
+                : Infinity,
+            };
+          }
+          return { ok: true, headers: { Authorization: `Bearer ${token.value}` } };
+        },
+        // A rejected token is renewed once; a second rejection is a real auth failure
+        renew() {
+          if (renewed || !token) return false;
+          renewed = true;
+          token = null;
+          return true;
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,385 @@
+/**
+ * @fileoverview REST API Connector
+ *
+ * Reads records from a JSON HTTP endpoint with the integration's auth
+ * scheme (bearer, basic, API key header or OAuth2 client credentials).
+ * Imports follow the pagination style page by page, pick the records out
+ * of each response with the JSONPath-style selector (or detect them) and
+ * map them onto the analysis columns.
+ *
+ * Every page must stay on the endpoint's origin, since credentials are
+ * sent with it. Rate limited and temporarily unavailable responses are
+ * retried a few times; imports stop at the page and row limits.
+ *
+ * Incremental syncs send the watermark as a query parameter when one is
+ * configured, and skip records whose field is not above it.
+ */
+
+import { parseJsonPath, selectJsonPath } from "@/lib/json-path";
+import type { ApiAuth, ApiConfig, ApiSecrets } from "@/lib/validations/integration";
+import { classifyNetworkError, type ClassifiedError } from "../errors";
+import { IMPORT_MAX_ROWS } from "../limits";
+import { checkHostAllowed } from "../network";
+import { SAMPLE_ROWS, toSample } from "../sample";
+import type { ConnectionTestResult } from "../types";
+import { acceptRecord, type WatermarkTracker } from "../watermark";
+import { createAuthorizer, resolveAuth, type ApiAuthorizer } from "./auth";
+import { firstPageUrl, nextPage } from "./pagination";
+import { createRowMapper, selectRecords, type ApiRecord } from "./records";
+
+export { mappedColumns } from "./records";
+
+/**
+ * Timeout for each request of an import
+ */
+const REQUEST_TIMEOUT_MS = 60_000;
+
+/**
+ * Largest response body read
+ */
+const MAX_RESPONSE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Attempts per page when the API is rate limiting or unavailable
+ */
+const MAX_ATTEMPTS = 4;
+
+/**
+ * Longest wait before a retry, whatever Retry-After asks for
+ */
+const MAX_RETRY_WAIT_MS = 60_000;
+
+/**
+ * Statuses that are worth retrying
+ */
+const RETRY_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * A fetched page, or why it could not be read
+ */
+type PageResult =
+  | { ok: true; body: unknown; headers: Headers }
+  | ({ ok: false; retryAfterMs?: number } & ClassifiedError);
+
+/**
+ * Reads a response body as JSON, refusing bodies over the size limit
+ */
+async function readJson(response: Response): Promise<{ ok: true; body: unknown } | ({ ok: false } & ClassifiedError)> {
+  const declared = Number(response.headers.get("content-length"));
+  const tooLarge: { ok: false } & ClassifiedError = {
+    ok: false,
+    problem: "schema",
+    message: `The response is larger than ${MAX_RESPONSE_BYTES / 1024 / 1024} MB. Use a smaller page size.`,
+  };
+  if (declared > MAX_RESPONSE_BYTES) {
+    await response.body?.cancel();
+    return tooLarge;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > MAX_RESPONSE_BYTES) {
+        await reader.cancel();
+        return tooLarge;
+      }
+      chunks.push(value);
+    }
+  }
+
+  try {
+    return { ok: true, body: JSON.parse(Buffer.concat(chunks).toString("utf-8")) };
+  } catch {
+    return {
+      ok: false,
+      problem: "schema",
+      message: `The endpoint did not return JSON (content type: ${response.headers.get("content-type") ?? "none"})`,
+    };
+  }
+}
+
+/**
+ * Parses a Retry-After header (seconds or an HTTP date)
+ */
+function retryAfterMs(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) ? Math.max(ms, 0) : undefined;
+}
+
+/**
+ * Fetches one page with the auth headers
+ *
+ * A 401 gets one more try with a fresh OAuth2 token, since a token can
+ * be revoked or expire early.
+ *
+ * @param url - Page URL
+ * @param auth - Auth scheme, for the messages
+ * @param authorizer - Supplies the auth headers
+ * @param timeoutMs - Give up after this long
+ */
+async function fetchPage(
+  url: URL,
+  auth: ApiAuth,
+  authorizer: ApiAuthorizer,
+  timeoutMs: number
+): Promise<PageResult> {
+  const denied = await checkHostAllowed(url.hostname);
+  if (denied) return { ok: false, ...denied };
+
+  let response: Response;
+  for (;;) {
+    const authHeaders = await authorizer.headers();
+    if (!authHeaders.ok) return authHeaders;
+
+    try {
+      response = await fetch(url, {
+        headers: { ...authHeaders.headers, Accept: "application/json" },
+        // Redirects are not followed: the target would bypass the host check
+        redirect: "manual",
+        cache: "no-store",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      const classified = classifyNetworkError(error, url.host);
+      // fetch wraps the underlying failure as "fetch failed" with the reason as its cause
+      const cause = (error as { cause?: unknown }).cause;
+      const reason =
+        cause instanceof Error ? cause.message : error instanceof Error ? error.message : "";
+      return {
+        ok: false,
+        ...(classified ?? { problem: "unknown", message: `Request failed: ${reason}` }),
+      };
+    }
+
+    if (response.status !== 401 || !authorizer.renew()) break;
+    await response.body?.cancel();
+  }
+
+  if (!response.ok) await response.body?.cancel();
+
+  if (response.status >= 300 && response.status < 400) {
+    return {
+      ok: false,
+      problem: "schema",
+      message: `The endpoint redirects to ${response.headers.get("location") ?? "another URL"}. Use the final URL instead.`,
+    };
+  }
+  if (response.status === 401) {
+    return {
+      ok: false,
+      problem: "auth",
+      message:
+        auth.type === "none"
+          ? "The API requires authentication (401 Unauthorized). Choose an auth scheme."
+          : "The API rejected the credentials (401 Unauthorized)",
+    };
+  }
+  if (response.status === 403) {
+    return {
+      ok: false,
+      problem: "permission",
+      message: "The credentials are valid but not allowed to read this endpoint (403 Forbidden)",
+    };
+  }
+  if (response.status === 404) {
+    return {
+      ok: false,
+      problem: "schema",
+      message: "The endpoint was not found (404). Check the URL path.",
+    };
+  }
+  if (!response.ok) {
+    return {
+      ok: false,
+      problem: "unknown",
+      message: `The API responded with ${response.status} ${response.statusText}`,
+      retryAfterMs: RETRY_STATUSES.has(response.status)
+        ? retryAfterMs(response.headers.get("retry-after")) ?? 0
+        : undefined,
+    };
+  }
+
+  const json = await readJson(response);
+  return json.ok ? { ok: true, body: json.body, headers: response.headers } : json;
+}
+
+/**
+ * Fetches a page, retrying while the API is rate limiting or unavailable
+ *
+ * Waits for Retry-After when the API sends it, otherwise backs off
+ * exponentially (1s, 2s, 4s).
+ */
+async function fetchPageWithRetry(
+  url: URL,
+  auth: ApiAuth,
+  authorizer: ApiAuthorizer
+): Promise<PageResult> {
+  for (let attempt = 1; ; attempt++) {
+    const page = await fetchPage(url, auth, authorizer, REQUEST_TIMEOUT_MS);
+    if (page.ok || page.retryAfterMs === undefined || attempt >= MAX_ATTEMPTS) return page;
+
+    const wait = Math.min(page.retryAfterMs || 1000 * 2 ** (attempt - 1), MAX_RETRY_WAIT_MS);
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+}
+
+/**
+ * Error for a next page on another origin than the endpoint
+ */
+function foreignPage(url: URL): ClassifiedError {
+  return {
+    problem: "schema",
+    message: `The next page is on another host (${url.host}). Pages must stay on the endpoint's host.`,
+  };
+}
+
+/**
+ * Tests an API integration by fetching its first page
+ *
+ * Reports where the records were found, whether more pages follow and
+ * whether the mapped fields exist in the first records.
+ *
+ * @param config - Endpoint settings
+ * @param secrets - Decrypted credentials
+ * @param timeoutMs - Timeout for each request
+ */
+export async function testApiConnection(
+  config: ApiConfig,
+  secrets: ApiSecrets,
+  timeoutMs: number
+): Promise<Omit<ConnectionTestResult, "durationMs">> {
+  const auth = resolveAuth(config, secrets);
+  const url = firstPageUrl(config.url, config.pagination);
+  const page = await fetchPage(url, auth, createAuthorizer(auth, secrets, timeoutMs), timeoutMs);
+  if (!page.ok) return { ok: false, problem: page.problem, message: page.message };
+
+  const found = selectRecords(page.body, config.recordsPath);
+  if (!found || found.records.length === 0) {
+    return {
+      ok: false,
+      problem: "schema",
+      message: config.recordsPath
+        ? `Connected, but ${config.recordsPath} matches no records in the response`
+        : "Connected, but the response contains no list of records. Set the records path.",
+    };
+  }
+
+  const rows = found.records.slice(0, SAMPLE_ROWS).map(createRowMapper(config.fields));
+  const sample = toSample(found.path, rows);
+
+  const unmatched = Object.entries(config.fields ?? {}).filter(
+    ([role]) => rows.every((row) => row[role] === null || row[role] === undefined)
+  );
+  if (unmatched.length > 0) {
+    return {
+      ok: false,
+      problem: "schema",
+      message: `Connected, but these mapped fields are missing from the first records: ${unmatched
+        .map(([role, path]) => `${role} (${path})`)
+        .join(", ")}`,
+      sample,
+    };
+  }
+
+  const next = nextPage(config.pagination, {
+    url,
+    index: 0,
+    count: found.records.length,
+    total: found.records.length,
+    body: page.body,
+    headers: page.headers,
+  });
+  const paging =
+    config.pagination.type === "none"
+      ? ""
+      : next
+        ? next.url.origin === url.origin
+          ? " More pages follow."
+          : ` ${foreignPage(next.url).message}`
+        : " This is the only page.";
+
+  return {
+    ok: true,
+    message: `Connected. Found ${found.records.length} records at ${found.path} in the first page.${paging}`,
+    sample,
+  };
+}
+
+/**
+ * Reads the records of an API integration, page by page
+ *
+ * Stops at the last page, after `maxPages` pages or at `IMPORT_MAX_ROWS`
+ * records. Failures are thrown with a message that says what to fix.
+ *
+ * @param config - Endpoint settings
+ * @param secrets - Decrypted credentials
+ * @param watermark - Reads only records above it and tracks the new one
+ *   (incremental syncs)
+ */
+export async function* readApiRecords(
+  config: ApiConfig,
+  secrets: ApiSecrets,
+  watermark?: WatermarkTracker
+): AsyncGenerator<ApiRecord> {
+  const auth = resolveAuth(config, secrets);
+  const authorizer = createAuthorizer(auth, secrets, REQUEST_TIMEOUT_MS);
+  const mapRow = createRowMapper(config.fields);
+  const origin = new URL(config.url).origin;
+
+  const incremental =
+    watermark && config.incremental
+      ? { ...config.incremental, path: parseJsonPath(config.incremental.field), tracker: watermark }
+      : null;
+
+  const url = firstPageUrl(config.url, config.pagination);
+  if (incremental?.param && incremental.tracker.since !== null) {
+    url.searchParams.set(incremental.param, incremental.tracker.since);
+  }
+
+  let request: { url: URL; cursor?: string } | null = { url };
+  let total = 0;
+
+  for (let index = 0; request && index < config.maxPages; index++) {
+    const page = await fetchPageWithRetry(request.url, auth, authorizer);
+    if (!page.ok) throw new Error(page.message);
+
+    const found = selectRecords(page.body, config.recordsPath);
+    if (!found) {
+      // A later page without the records array marks the end of the data
+      if (index > 0) return;
+      throw new Error(
+        config.recordsPath
+          ? `${config.recordsPath} matches no records in the response`
+          : "The response contains no list of records"
+      );
+    }
+
+    for (const record of found.records) {
+      if (incremental && !acceptRecord(incremental.tracker, selectJsonPath(record, incremental.path)[0])) {
+        continue;
+      }
+      yield mapRow(record);
+      if (++total >= IMPORT_MAX_ROWS) return;
+    }
+
+    request = nextPage(config.pagination, {
+      url: request.url,
+      index,
+      count: found.records.length,
+      total,
+      body: page.body,
+      headers: page.headers,
+      cursor: request.cursor,
+    });
+    if (request && request.url.origin !== origin) {
+      throw new Error(foreignPage(request.url).message);
+    }
+  }
+}
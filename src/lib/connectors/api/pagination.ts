@@ -0,0 +1,127 @@
+/**
+ * @fileoverview API Pagination
+ *
+ * Works out the URL of each page for the pagination styles an API
+ * integration can use (see `apiPaginationSchema`). Parameters the saved
+ * URL already has are kept; the paging parameters are set on top.
+ */
+
+import { selectJsonPath } from "@/lib/json-path";
+import type { ApiPagination } from "@/lib/validations/integration";
+
+/**
+ * What the previous page returned
+ */
+export interface PageState {
+  /** URL the page was read from */
+  url: URL;
+  /** Number of the page, from 0 */
+  index: number;
+  /** Records read from the page */
+  count: number;
+  /** Records read from all pages so far, including this one */
+  total: number;
+  /** Parsed response body */
+  body: unknown;
+  /** Response headers */
+  headers: Headers;
+  /** Cursor the page was requested with (cursor pagination) */
+  cursor?: string;
+}
+
+/**
+ * URL of the first page
+ *
+ * @param base - Saved endpoint URL
+ * @param pagination - Pagination settings
+ */
+export function firstPageUrl(base: string, pagination: ApiPagination): URL {
+  const url = new URL(base);
+
+  switch (pagination.type) {
+    case "offset":
+      url.searchParams.set(pagination.offsetParam, "0");
+      url.searchParams.set(pagination.limitParam, String(pagination.pageSize));
+      break;
+    case "page":
+      url.searchParams.set(pagination.pageParam, String(pagination.firstPage));
+      if (pagination.sizeParam && pagination.pageSize) {
+        url.searchParams.set(pagination.sizeParam, String(pagination.pageSize));
+      }
+      break;
+  }
+  return url;
+}
+
+/**
+ * Parses the `rel="next"` target out of a Link header (RFC 8288)
+ */
+export function nextLink(header: string | null, base: URL): URL | null {
+  if (!header) return null;
+
+  for (const link of header.split(/,(?=\s*<)/)) {
+    const match = link.match(/^\s*<([^>]*)>(.*)$/);
+    if (match && /;\s*rel\s*=\s*"?(?:[^";]*\s)?next(?:\s[^";]*)?"?\s*(?:;|$)/i.test(match[2])) {
+      try {
+        return new URL(match[1], base);
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the next cursor from a response
+ */
+export function nextCursor(body: unknown, cursorPath: string): string | null {
+  const value = selectJsonPath(body, cursorPath)[0];
+  if (typeof value === "number") return String(value);
+  return typeof value === "string" && value !== "" ? value : null;
+}
+
+/**
+ * URL of the page after `page`, or null if it was the last one
+ *
+ * @param pagination - Pagination settings
+ * @param page - What the previous page returned
+ * @returns The URL, with the cursor it carries for cursor pagination
+ */
+export function nextPage(
+  pagination: ApiPagination,
+  page: PageState
+): { url: URL; cursor?: string } | null {
+  // An empty page ends every style, even if the API offers another link
+  if (page.count === 0) return null;
+
+  const url = new URL(page.url);
+
+  switch (pagination.type) {
+    case "none":
+      return null;
+
+    case "offset":
+      if (page.count < pagination.pageSize) return null;
+      url.searchParams.set(pagination.offsetParam, String(page.total));
+      return { url };
+
+    case "page":
+      if (pagination.pageSize && page.count < pagination.pageSize) return null;
+      url.searchParams.set(pagination.pageParam, String(pagination.firstPage + page.index + 1));
+      return { url };
+
+    case "cursor": {
+      const cursor = nextCursor(page.body, pagination.cursorPath);
+      // The same cursor again would read the same page forever
+      if (!cursor || cursor === page.cursor) return null;
+      url.searchParams.set(pagination.cursorParam, cursor);
+      return { url, cursor };
+    }
+
+    case "link": {
+      const next = nextLink(page.headers.get("link"), page.url);
+      return next && next.href !== page.url.href ? { url: next } : null;
+    }
+  }
+}
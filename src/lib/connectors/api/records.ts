@@ -0,0 +1,126 @@
+/**
+ * @fileoverview API Response Records
+ *
+ * Finds the records in a JSON response and turns each into a flat row:
+ * either the fields mapped onto the analysis columns, or every field,
+ * with nested objects flattened to dotted names ("amount.value").
+ */
+
+import { COLUMN_ROLES, type ColumnRole } from "@/lib/column-mapping";
+import { parseJsonPath, selectJsonPath } from "@/lib/json-path";
+import type { ApiConfig } from "@/lib/validations/integration";
+
+/**
+ * A record from a response
+ */
+export type ApiRecord = Record<string, unknown>;
+
+/**
+ * Property names that commonly hold the records in a JSON response
+ */
+const RECORD_KEYS = ["data", "items", "results", "records", "transactions", "rows"];
+
+/**
+ * Deepest nesting flattened into columns; deeper values are kept as JSON
+ */
+const MAX_FLATTEN_DEPTH = 4;
+
+const isRecord = (value: unknown): value is ApiRecord =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const isRecordArray = (value: unknown): value is ApiRecord[] =>
+  Array.isArray(value) && value.every(isRecord);
+
+/**
+ * Finds the array of records in a JSON response
+ *
+ * Accepts a top-level array, or an object with the array under one of the
+ * usual keys (or, failing that, the first array-valued property).
+ *
+ * @returns The records and a JSONPath-style description of where they were
+ */
+export function findRecords(body: unknown): { path: string; records: ApiRecord[] } | null {
+  if (isRecordArray(body)) return { path: "$", records: body };
+  if (!isRecord(body)) return null;
+
+  const key =
+    RECORD_KEYS.find((candidate) => isRecordArray(body[candidate])) ??
+    Object.keys(body).find((candidate) => isRecordArray(body[candidate]));
+
+  return key ? { path: `$.${key}`, records: body[key] as ApiRecord[] } : null;
+}
+
+/**
+ * Reads the records from a response with the integration's selector, or
+ * detects them when there is none
+ *
+ * A selector may match the array itself (`$.data`) or its elements
+ * (`$.data[*]`). Matched values that are not objects are skipped.
+ *
+ * @returns The records and where they were, or null if there are none
+ */
+export function selectRecords(
+  body: unknown,
+  recordsPath: string | undefined
+): { path: string; records: ApiRecord[] } | null {
+  if (!recordsPath) return findRecords(body);
+
+  const matches = selectJsonPath(body, recordsPath);
+  if (matches.length === 0) return null;
+
+  const values = matches.length === 1 && Array.isArray(matches[0]) ? matches[0] : matches;
+  return { path: recordsPath, records: values.filter(isRecord) };
+}
+
+/**
+ * Flattens nested objects into dotted column names
+ *
+ * Arrays are kept as JSON text; they have no natural column layout.
+ */
+function flatten(record: ApiRecord, prefix = "", depth = 0, row: ApiRecord = {}): ApiRecord {
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (isRecord(value) && depth < MAX_FLATTEN_DEPTH) {
+      flatten(value, name, depth + 1, row);
+    } else {
+      row[name] = value;
+    }
+  }
+  return row;
+}
+
+/**
+ * Builds the function that turns a response record into a row
+ *
+ * With a field mapping, rows have one column per mapped role, named after
+ * the role ("amount", "date", ...), so the analysis picks them up without
+ * a separate column mapping. Without one, every field becomes a column.
+ *
+ * @param fields - Path within each record per analysis column
+ */
+export function createRowMapper(fields: ApiConfig["fields"]): (record: ApiRecord) => ApiRecord {
+  const mapped = COLUMN_ROLES.filter((role) => fields?.[role]).map(
+    (role) => [role, parseJsonPath(fields![role]!)] as const
+  );
+  if (mapped.length === 0) return (record) => flatten(record);
+
+  return (record) => {
+    const row: ApiRecord = {};
+    for (const [role, path] of mapped) {
+      row[role] = selectJsonPath(record, path)[0] ?? null;
+    }
+    return row;
+  };
+}
+
+/**
+ * Analysis columns a field mapping produces, for the case's column mapping
+ *
+ * @returns Column name per mapped role, or null without a field mapping
+ */
+export function mappedColumns(
+  fields: ApiConfig["fields"]
+): Partial<Record<ColumnRole, string>> | null {
+  const roles = COLUMN_ROLES.filter((role) => fields?.[role]);
+  return roles.length > 0 ? Object.fromEntries(roles.map((role) => [role, role])) : null;
+}
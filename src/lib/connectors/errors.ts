@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Connection Error Classification
+ *
+ * Node reports network and TLS failures as error codes on the error (or on
+ * its `cause`, for fetch). This maps those codes onto the categories shown
+ * to users, with a message that says what to check.
+ */
+
+import type { ConnectionProblem } from "./types";
+
+/**
+ * Codes Node uses for failed DNS lookups
+ */
+const DNS_CODES = new Set(["ENOTFOUND", "EAI_AGAIN", "EAI_FAIL", "EAI_NONAME"]);
+
+/**
+ * Codes Node uses when the host could not be reached
+ */
+const NETWORK_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ETIMEDOUT",
+  "EPIPE",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+/**
+ * Codes from certificate verification and the TLS handshake
+ */
+const TLS_CODES = new Set([
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "CERT_HAS_EXPIRED",
+  "CERT_NOT_YET_VALID",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+  "EPROTO",
+]);
+
+/**
+ * A classified connection failure
+ */
+export interface ClassifiedError {
+  problem: ConnectionProblem;
+  message: string;
+}
+
+/**
+ * Finds a Node error code on an error or its cause chain
+ */
+export function errorCode(error: unknown): string | undefined {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 4; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === "string") return code;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+/**
+ * Classifies network-level failures (DNS, unreachable host, TLS, timeouts)
+ *
+ * @param error - Error thrown by the driver or fetch
+ * @param target - Host (and port) for the message
+ * @returns The classification, or null if it was not a network-level failure
+ */
+export function classifyNetworkError(error: unknown, target: string): ClassifiedError | null {
+  const code = errorCode(error);
+  const name = (error as { name?: string } | null)?.name;
+
+  if (name === "TimeoutError" || name === "AbortError") {
+    return { problem: "network", message: `Timed out connecting to ${target}` };
+  }
+  if (!code) return null;
+
+  if (DNS_CODES.has(code)) {
+    return { problem: "network", message: `Could not resolve ${target}. Check the host name.` };
+  }
+  if (NETWORK_CODES.has(code)) {
+    return {
+      problem: "network",
+      message: `Could not connect to ${target} (${code}). Check the host, port and firewall rules.`,
+    };
+  }
+  if (TLS_CODES.has(code) || code.startsWith("ERR_TLS") || code.startsWith("ERR_SSL")) {
+    return {
+      problem: "tls",
+      message: `TLS error connecting to ${target} (${code}). Check the server certificate.`,
+    };
+  }
+  return null;
+}
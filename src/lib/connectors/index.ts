@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Integration Connectors Entry Point
+ *
+ * Dispatches to the connector for an integration's type. Connection tests
+ * never throw for problems with the remote source; they return a
+ * categorized result so the Integrations page can say what to fix.
+ * Imports read the source's records one at a time and throw on failure,
+ * like reading a file would.
+ *
+ * Webhook integrations have no source: they receive deliveries instead
+ * (see inbound-webhooks.ts), so they cannot be tested or imported here.
+ */
+
+import type { IntegrationType } from "@prisma/client";
+import type { ZodError } from "zod";
+import type { ColumnRoles } from "@/lib/column-mapping";
+import { integrationSchemas, type WatermarkKind } from "@/lib/validations/integration";
+import { firstIssue } from "@/lib/validations/common";
+import { mappedColumns, readApiRecords, testApiConnection } from "./api";
+import { readSqlRecords, testSqlConnection } from "./sql";
+import type { ConnectionTestResult } from "./types";
+import type { WatermarkTracker } from "./watermark";
+
+export type { ConnectionProblem, ConnectionTestResult, DataSample } from "./types";
+export { IMPORT_MAX_ROWS } from "./limits";
+export { SQL_QUERY_TIMEOUT_MS } from "./sql";
+export { createWatermarkTracker, type WatermarkTracker } from "./watermark";
+
+/**
+ * How long a connection test may take
+ */
+export const CONNECTION_TEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Result for saved settings that no longer pass validation
+ */
+function invalidSettings(error: ZodError): Omit<ConnectionTestResult, "durationMs"> {
+  return { ok: false, problem: "unknown", message: `Invalid settings: ${firstIssue(error)}` };
+}
+
+/**
+ * Tests that an integration's source can be reached and read
+ *
+ * @param type - Integration type
+ * @param config - Settings (validated here, so saved settings from older versions work too)
+ * @param secrets - Decrypted credentials
+ * @param userId - Owner of the integration
+ */
+export async function testConnection(
+  type: IntegrationType,
+  config: unknown,
+  secrets: Record<string, string>,
+  userId: string
+): Promise<ConnectionTestResult> {
+  const started = Date.now();
+  let result: Omit<ConnectionTestResult, "durationMs">;
+
+  if (type === "WEBHOOK") {
+    result = {
+      ok: false,
+      problem: "unknown",
+      message: "Webhook integrations receive data instead of connecting. Check the recent deliveries.",
+    };
+  } else if (type === "API") {
+    const parsed = integrationSchemas.API.config.safeParse(config);
+    result = parsed.success
+      ? await testApiConnection(parsed.data, secrets, CONNECTION_TEST_TIMEOUT_MS)
+      : invalidSettings(parsed.error);
+  } else {
+    const parsed = integrationSchemas.SQL.config.safeParse(config);
+    result = parsed.success
+      ? await testSqlConnection(parsed.data, secrets, CONNECTION_TEST_TIMEOUT_MS, userId)
+      : invalidSettings(parsed.error);
+  }
+
+  return { ...result, durationMs: Date.now() - started };
+}
+
+/**
+ * Validates saved settings for reading, throwing if they no longer pass
+ */
+function parseForImport<T>(
+  result: { success: true; data: T } | { success: false; error: ZodError }
+): T {
+  if (!result.success) {
+    throw new Error(`Invalid integration settings: ${firstIssue(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Reads the records an integration imports
+ *
+ * @param type - Integration type
+ * @param config - Saved settings (validated here)
+ * @param secrets - Decrypted credentials
+ * @param userId - Owner of the integration
+ * @param watermark - For incremental syncs: reads only records above it
+ *   and moves it to the highest one read
+ */
+export async function* readIntegrationRecords(
+  type: IntegrationType,
+  config: unknown,
+  secrets: Record<string, string>,
+  userId: string,
+  watermark?: WatermarkTracker
+): AsyncGenerator<Record<string, unknown>> {
+  if (type === "WEBHOOK") {
+    throw new Error("Webhook integrations receive their data and cannot be imported");
+  }
+  if (type === "API") {
+    yield* readApiRecords(
+      parseForImport(integrationSchemas.API.config.safeParse(config)),
+      secrets,
+      watermark
+    );
+  } else {
+    yield* readSqlRecords(
+      parseForImport(integrationSchemas.SQL.config.safeParse(config)),
+      secrets,
+      userId,
+      watermark
+    );
+  }
+}
+
+/**
+ * Kind of watermark an integration syncs incrementally with
+ *
+ * @returns The kind, or null if every sync reads everything
+ */
+export function integrationWatermarkKind(type: IntegrationType, config: unknown): WatermarkKind | null {
+  if (type === "WEBHOOK") return null;
+  const parsed = integrationSchemas[type].config.safeParse(config);
+  return parsed.success ? parsed.data.incremental?.kind ?? null : null;
+}
+
+/**
+ * Analysis columns an integration's settings map explicitly
+ *
+ * API and webhook integrations with a field mapping name their columns
+ * after the roles; those roles are used as they are rather than guessed.
+ *
+ * @returns Column per role, or null if the columns should be detected
+ */
+export function integrationColumnRoles(type: IntegrationType, config: unknown): ColumnRoles | null {
+  if (type === "SQL") return null;
+  const parsed = integrationSchemas[type].config.safeParse(config);
+  return parsed.success ? mappedColumns(parsed.data.fields) : null;
+}
@@ -0,0 +1,11 @@
+/**
+ * @fileoverview Import Limits
+ *
+ * Caps that apply to every connector, so a huge source cannot fill the
+ * storage or hold a worker forever.
+ */
+
+/**
+ * Most records one import reads, whatever the integration asks for
+ */
+export const IMPORT_MAX_ROWS = Number(process.env.INTEGRATIONS_MAX_ROWS) || 1_000_000;
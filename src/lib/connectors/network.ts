@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Outbound Connection Guard
+ *
+ * Integrations make the server connect to hosts that users type in. Left
+ * unchecked, that lets anyone probe our internal network or read the cloud
+ * metadata service through a connection test. Before connecting, the host
+ * is resolved and rejected if any address is:
+ * - link-local (169.254.0.0/16, fe80::/10, includes the metadata service): always
+ * - loopback or private (10/8, 172.16/12, 192.168/16, 100.64/10, fc00::/7):
+ *   unless `INTEGRATIONS_ALLOW_PRIVATE_NETWORKS` is "true" (self-hosted
+ *   installs whose databases live on the same network)
+ *
+ * The check resolves the name separately from the driver, so it does not
+ * stop DNS rebinding; it is a guard against the obvious cases.
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { classifyNetworkError, type ClassifiedError } from "./errors";
+
+/**
+ * Addresses no integration may connect to
+ */
+const blocked = new BlockList();
+blocked.addSubnet("0.0.0.0", 8, "ipv4");
+blocked.addSubnet("169.254.0.0", 16, "ipv4");
+blocked.addSubnet("fe80::", 10, "ipv6");
+blocked.addAddress("::", "ipv6");
+
+/**
+ * Loopback and private addresses, allowed only when configured
+ */
+const internal = new BlockList();
+internal.addSubnet("127.0.0.0", 8, "ipv4");
+internal.addSubnet("10.0.0.0", 8, "ipv4");
+internal.addSubnet("172.16.0.0", 12, "ipv4");
+internal.addSubnet("192.168.0.0", 16, "ipv4");
+internal.addSubnet("100.64.0.0", 10, "ipv4");
+internal.addAddress("::1", "ipv6");
+internal.addSubnet("fc00::", 7, "ipv6");
+
+/**
+ * Checks an address against a block list, unwrapping IPv4-mapped IPv6
+ */
+function matches(list: BlockList, address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return list.check(mapped[1], "ipv4");
+  return list.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Checks that a host may be connected to
+ *
+ * @param host - Host name or IP address typed by the user
+ * @returns null if allowed, otherwise why not (including DNS failures)
+ */
+export async function checkHostAllowed(host: string): Promise<ClassifiedError | null> {
+  const bare = host.replace(/^\[|\]$/g, "");
+
+  let addresses: string[];
+  try {
+    addresses = isIP(bare) ? [bare] : (await lookup(bare, { all: true })).map((a) => a.address);
+  } catch (error) {
+    return (
+      classifyNetworkError(error, host) ?? {
+        problem: "network",
+        message: `Could not resolve ${host}`,
+      }
+    );
+  }
+
+  const allowInternal = process.env.INTEGRATIONS_ALLOW_PRIVATE_NETWORKS === "true";
+  const denied = addresses.find(
+    (address) => matches(blocked, address) || (!allowInternal && matches(internal, address))
+  );
+
+  if (denied) {
+    return {
+      problem: "network",
+      message: `${isIP(bare) ? host : `${host} (${denied})`} is an internal address. Connections to internal networks are not allowed.`,
+    };
+  }
+  return null;
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Data Samples
+ *
+ * Turns the first records read from a source into a small table for the
+ * connection test, whatever shape the records came in.
+ */
+
+import type { DataSample } from "./types";
+
+/**
+ * Number of records shown in a sample
+ */
+export const SAMPLE_ROWS = 5;
+
+/**
+ * Longest cell value shown in a sample
+ */
+const MAX_CELL_LENGTH = 200;
+
+/**
+ * Formats a single value as table text
+ */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH)}…` : text;
+}
+
+/**
+ * Builds a sample table from records
+ *
+ * Columns are the union of the records' keys in first-seen order, so
+ * sparse JSON records still line up.
+ *
+ * @param source - Where the records came from
+ * @param records - Records read from the source (only the first few are used)
+ */
+export function toSample(source: string, records: Array<Record<string, unknown>>): DataSample {
+  const first = records.slice(0, SAMPLE_ROWS);
+  const columns: string[] = [];
+
+  for (const record of first) {
+    for (const key of Object.keys(record)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  return {
+    source,
+    columns,
+    rows: first.map((record) => columns.map((column) => cellText(record[column]))),
+  };
+}
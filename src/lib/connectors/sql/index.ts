@@ -0,0 +1,253 @@
+/**
+ * @fileoverview SQL Database Connector
+ *
+ * Connects to the database saved with a SQL integration through the
+ * driver for its engine (PostgreSQL, MySQL/MariaDB, SQL Server, SQLite).
+ *
+ * Data is read either from a whole table or from a user-supplied query.
+ * Queries are checked to be a single SELECT when saved, and sessions are
+ * read-only on the server as well. Every session runs with a connection
+ * and statement timeout, and imports stop at a row limit, so a slow or
+ * huge source cannot hold a worker forever.
+ *
+ * Incremental syncs wrap the source in a query that keeps the rows above
+ * the watermark, oldest first, so a sync cut short by the row limit picks
+ * up where it stopped.
+ */
+
+import type { SqlConfig, SqlEngine, SqlSecrets, SqlSource } from "@/lib/validations/integration";
+import { classifyNetworkError, type ClassifiedError } from "../errors";
+import { IMPORT_MAX_ROWS } from "../limits";
+import { SAMPLE_ROWS, toSample } from "../sample";
+import { SQL_ENGINES, type ConnectionTestResult } from "../types";
+import { acceptRecord, watermarkParam, type WatermarkTracker } from "../watermark";
+import { mysqlDriver } from "./mysql";
+import { postgresDriver } from "./postgres";
+import { sqlServerDriver } from "./sqlserver";
+import { sqliteDriver } from "./sqlite";
+import type { SqlDriver, SqlParam, SqlRow, SqlSession } from "./types";
+
+/**
+ * Tables listed when looking for data to sample
+ */
+const MAX_TABLES = 50;
+
+/**
+ * Statement timeout for imports (default 5 minutes)
+ */
+export const SQL_QUERY_TIMEOUT_MS =
+  Number(process.env.INTEGRATIONS_QUERY_TIMEOUT_MS) || 5 * 60 * 1000;
+
+/**
+ * Driver per engine
+ */
+const drivers: Record<SqlEngine, SqlDriver> = {
+  postgres: postgresDriver,
+  mysql: mysqlDriver,
+  sqlserver: sqlServerDriver,
+  sqlite: sqliteDriver,
+};
+
+/**
+ * Fills in the engine's default port
+ */
+function withPort(config: SqlConfig): SqlConfig {
+  return { ...config, port: config.port ?? SQL_ENGINES[config.engine].defaultPort ?? undefined };
+}
+
+/**
+ * Builds the query for an import source
+ *
+ * Table names are split on "." into schema and table and quoted, so they
+ * cannot inject SQL. A trailing semicolon is dropped from queries because
+ * some drivers wrap them (e.g. in a cursor).
+ */
+function sourceQuery(driver: SqlDriver, source: SqlSource): string {
+  if (source.kind === "query") {
+    return source.query.replace(/;\s*$/, "");
+  }
+  const table = source.table.split(".").map(driver.quoteIdentifier).join(".");
+  return `SELECT * FROM ${table}`;
+}
+
+/**
+ * Query for the rows of a source above a watermark, ordered by its column
+ *
+ * The first sync has no watermark yet and reads everything in order.
+ */
+function incrementalQuery(
+  driver: SqlDriver,
+  config: SqlConfig & { source: SqlSource; incremental: NonNullable<SqlConfig["incremental"]> },
+  watermark: WatermarkTracker
+): { sql: string; params: SqlParam[] } {
+  const column = driver.quoteIdentifier(config.incremental.column);
+  const base = `SELECT * FROM (${sourceQuery(driver, config.source)}) fraudlr_sync`;
+
+  if (watermark.since === null) {
+    return { sql: `${base} ORDER BY ${column}`, params: [] };
+  }
+  return {
+    sql: `${base} WHERE ${column} > ${driver.placeholder(1)} ORDER BY ${column}`,
+    params: [watermarkParam(config.incremental.kind, watermark.since)],
+  };
+}
+
+/**
+ * Reads up to `limit` rows of a query
+ */
+async function firstRows(session: SqlSession, sql: string, limit: number): Promise<SqlRow[]> {
+  const rows: SqlRow[] = [];
+  for await (const row of session.query(sql)) {
+    rows.push(row);
+    if (rows.length >= limit) break;
+  }
+  return rows;
+}
+
+/**
+ * Maps a driver or network error onto a connection problem
+ *
+ * @param error - Error from the driver
+ * @param config - Connection settings, for the message
+ */
+function classifySqlError(error: unknown, config: SqlConfig): ClassifiedError {
+  const specific = drivers[config.engine].classifyError(error, config);
+  if (specific) return specific;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (config.engine === "sqlite") {
+    return { problem: "unknown", message };
+  }
+
+  const network = classifyNetworkError(error, `${config.host}:${config.port}`);
+  if (network) return network;
+
+  if (/ssl|tls|certificate/i.test(message)) {
+    return { problem: "tls", message };
+  }
+  if (/timeout|timed out/i.test(message)) {
+    return { problem: "network", message: `Timed out connecting to ${config.host}:${config.port}` };
+  }
+  return { problem: "unknown", message };
+}
+
+/**
+ * Tests a SQL integration: logs in, lists the readable tables and reads
+ * the first rows of the import source (or, until one is chosen, of the
+ * first table)
+ *
+ * @param settings - Connection settings
+ * @param secrets - Decrypted credentials
+ * @param timeoutMs - Connection and statement timeout
+ * @param userId - Owner of the integration
+ */
+export async function testSqlConnection(
+  settings: SqlConfig,
+  secrets: SqlSecrets,
+  timeoutMs: number,
+  userId: string
+): Promise<Omit<ConnectionTestResult, "durationMs">> {
+  const config = withPort(settings);
+  const driver = drivers[config.engine];
+
+  const denied = await driver.checkTarget(config, userId);
+  if (denied) return { ok: false, ...denied };
+
+  let session: SqlSession | null = null;
+  try {
+    session = await driver.open(config, secrets.password, timeoutMs, userId);
+    const tables = await session.listTables(MAX_TABLES);
+    const visible = `${tables.length}${tables.length === MAX_TABLES ? "+" : ""} tables visible`;
+
+    if (config.source) {
+      const source = config.source.kind === "table" ? config.source.table : "query";
+      const rows = await firstRows(session, sourceQuery(driver, config.source), SAMPLE_ROWS);
+
+      return {
+        ok: true,
+        message: `Connected. ${visible}; showing the first rows from ${source}.`,
+        sample: toSample(source, rows),
+        tables,
+      };
+    }
+
+    if (tables.length === 0) {
+      return {
+        ok: false,
+        problem: "permission",
+        message: `Logged in, but user "${config.username}" cannot see any tables in "${config.database}"`,
+      };
+    }
+
+    const rows = await firstRows(
+      session,
+      sourceQuery(driver, { kind: "table", table: tables[0] }),
+      SAMPLE_ROWS
+    );
+
+    return {
+      ok: true,
+      message: `Connected. ${visible}; showing rows from ${tables[0]}. Choose a table or query to import.`,
+      sample: toSample(tables[0], rows),
+      tables,
+    };
+  } catch (error) {
+    return { ok: false, ...classifySqlError(error, config) };
+  } finally {
+    await session?.close();
+  }
+}
+
+/**
+ * Reads the rows of a SQL integration's import source
+ *
+ * Stops after the integration's row limit (capped at `IMPORT_MAX_ROWS`).
+ * Failures are thrown with a message that says what to fix.
+ *
+ * @param settings - Connection settings, with a source
+ * @param secrets - Decrypted credentials
+ * @param userId - Owner of the integration
+ * @param watermark - Reads only rows above it and tracks the new one
+ *   (incremental syncs)
+ */
+export async function* readSqlRecords(
+  settings: SqlConfig,
+  secrets: SqlSecrets,
+  userId: string,
+  watermark?: WatermarkTracker
+): AsyncGenerator<SqlRow> {
+  const config = withPort(settings);
+  const driver = drivers[config.engine];
+  const { source, incremental } = config;
+
+  if (!source) {
+    throw new Error("No table or query is selected for import");
+  }
+
+  const { sql, params } =
+    watermark && incremental
+      ? incrementalQuery(driver, { ...config, source, incremental }, watermark)
+      : { sql: sourceQuery(driver, source), params: [] };
+
+  const denied = await driver.checkTarget(config, userId);
+  if (denied) throw new Error(denied.message);
+
+  const maxRows = Math.min(config.rowLimit ?? IMPORT_MAX_ROWS, IMPORT_MAX_ROWS);
+  let session: SqlSession | null = null;
+  let count = 0;
+
+  try {
+    session = await driver.open(config, secrets.password, SQL_QUERY_TIMEOUT_MS, userId);
+    for await (const row of session.query(sql, params)) {
+      if (watermark && incremental && !acceptRecord(watermark, row[incremental.column])) {
+        continue;
+      }
+      yield row;
+      if (++count >= maxRows) break;
+    }
+  } catch (error) {
+    throw new Error(classifySqlError(error, config).message);
+  } finally {
+    await session?.close();
+  }
+}
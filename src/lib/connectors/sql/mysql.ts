@@ -0,0 +1,118 @@
+/**
+ * @fileoverview MySQL / MariaDB Driver
+ *
+ * Queries run inside a READ ONLY transaction and are streamed row by row.
+ * MySQL and MariaDB name the statement timeout differently
+ * (`max_execution_time` in milliseconds, `max_statement_time` in
+ * seconds), so both are tried.
+ */
+
+import { createConnection } from "mysql2";
+import type { SqlConfig } from "@/lib/validations/integration";
+import { errorCode } from "../errors";
+import { checkHostAllowed } from "../network";
+import type { SqlDriver, SqlRow } from "./types";
+
+/**
+ * Quotes an identifier for use in SQL
+ */
+function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+export const mysqlDriver: SqlDriver = {
+  checkTarget: (config) => checkHostAllowed(config.host),
+
+  async open(config: SqlConfig, password: string | undefined, timeoutMs: number) {
+    const connection = createConnection({
+      host: config.host,
+      port: config.port,
+      database: config.database,
+      user: config.username,
+      password,
+      ssl: config.ssl ? { rejectUnauthorized: true } : undefined,
+      connectTimeout: timeoutMs,
+      // Read DATETIME values as UTC instead of the server process's time zone
+      timezone: "Z",
+    });
+    // Errors after connecting (e.g. the server closing the socket) surface through queries
+    connection.on("error", () => undefined);
+    const db = connection.promise();
+
+    try {
+      await db.connect();
+      await db
+        .query(`SET SESSION max_execution_time = ${Math.ceil(timeoutMs)}`)
+        .catch(() => db.query(`SET SESSION max_statement_time = ${Math.ceil(timeoutMs / 1000)}`));
+    } catch (error) {
+      connection.destroy();
+      throw error;
+    }
+
+    return {
+      async listTables(limit) {
+        const [rows] = await db.query(
+          `SELECT table_name AS table_name
+             FROM information_schema.tables
+            WHERE table_schema = DATABASE()
+            ORDER BY table_name
+            LIMIT ?`,
+          [limit]
+        );
+        return (rows as Array<{ table_name: string }>).map((row) => row.table_name);
+      },
+
+      async *query(sql, params = []) {
+        await db.query("START TRANSACTION READ ONLY");
+        let finished = false;
+        try {
+          for await (const row of connection.query(sql, params).stream()) {
+            yield row as SqlRow;
+          }
+          finished = true;
+        } finally {
+          // A query stopped early is still sending rows; only closing the connection ends it
+          if (finished) {
+            await db.query("ROLLBACK").catch(() => undefined);
+          } else {
+            connection.destroy();
+          }
+        }
+      },
+
+      async close() {
+        await db.end().catch(() => connection.destroy());
+      },
+    };
+  },
+
+  quoteIdentifier,
+  placeholder: () => "?",
+
+  classifyError(error, config) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    switch (errorCode(error)) {
+      case "ER_ACCESS_DENIED_ERROR":
+      case "ER_ACCESS_DENIED_NO_PASSWORD_ERROR":
+        return { problem: "auth", message: `Login failed for user "${config.username}": ${message}` };
+      case "ER_BAD_DB_ERROR":
+        return { problem: "schema", message: `Database "${config.database}" does not exist` };
+      case "ER_DBACCESS_DENIED_ERROR":
+      case "ER_TABLEACCESS_DENIED_ERROR":
+      case "ER_COLUMNACCESS_DENIED_ERROR":
+      case "ER_SPECIFIC_ACCESS_DENIED_ERROR":
+        return { problem: "permission", message: `Permission denied: ${message}` };
+      case "ER_CANT_EXECUTE_IN_READ_ONLY_TRANSACTION":
+        return { problem: "permission", message: "Only read-only queries are allowed" };
+      case "ER_NO_SUCH_TABLE":
+        return { problem: "schema", message };
+      case "ER_QUERY_TIMEOUT":
+      case "ER_STATEMENT_TIMEOUT":
+        return { problem: "network", message: "The query was cancelled by the statement timeout" };
+      case "HANDSHAKE_NO_SSL_SUPPORT":
+        return { problem: "tls", message: "The server does not support TLS connections" };
+    }
+    return null;
+  },
+};
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview PostgreSQL Driver
+ *
+ * Queries run inside a READ ONLY transaction, so the server itself rejects
+ * writes, and are read through a cursor in batches, so large results are
+ * never held in memory. `statement_timeout` applies to every statement.
+ */
+
+import { Client } from "pg";
+import type { SqlConfig } from "@/lib/validations/integration";
+import { errorCode } from "../errors";
+import { checkHostAllowed } from "../network";
+import type { SqlDriver } from "./types";
+
+/**
+ * Rows fetched from the cursor at a time
+ */
+const FETCH_SIZE = 1000;
+
+/**
+ * Quotes an identifier for use in SQL
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+export const postgresDriver: SqlDriver = {
+  checkTarget: (config) => checkHostAllowed(config.host),
+
+  async open(config: SqlConfig, password: string | undefined, timeoutMs: number) {
+    const client = new Client({
+      host: config.host,
+      port: config.port,
+      database: config.database,
+      user: config.username,
+      password,
+      ssl: config.ssl ? { rejectUnauthorized: true } : false,
+      connectionTimeoutMillis: timeoutMs,
+      statement_timeout: timeoutMs,
+      query_timeout: timeoutMs,
+      application_name: "fraudlr",
+    });
+    // Errors after connecting (e.g. the server closing the socket) surface through queries
+    client.on("error", () => undefined);
+
+    try {
+      await client.connect();
+    } catch (error) {
+      await client.end().catch(() => undefined);
+      throw error;
+    }
+
+    return {
+      async listTables(limit) {
+        const tables = await client.query<{ table_schema: string; table_name: string }>(
+          `SELECT table_schema, table_name
+             FROM information_schema.tables
+            WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+              AND table_type IN ('BASE TABLE', 'VIEW')
+            ORDER BY table_schema, table_name
+            LIMIT $1`,
+          [limit]
+        );
+        return tables.rows.map((row) => `${row.table_schema}.${row.table_name}`);
+      },
+
+      async *query(sql, params = []) {
+        await client.query("BEGIN TRANSACTION READ ONLY");
+        try {
+          await client.query(`DECLARE fraudlr_rows NO SCROLL CURSOR FOR ${sql}`, params);
+          for (;;) {
+            const batch = await client.query(`FETCH ${FETCH_SIZE} FROM fraudlr_rows`);
+            yield* batch.rows;
+            if (batch.rows.length < FETCH_SIZE) break;
+          }
+        } finally {
+          await client.query("ROLLBACK").catch(() => undefined);
+        }
+      },
+
+      close: () => client.end().catch(() => undefined),
+    };
+  },
+
+  quoteIdentifier,
+  placeholder: (index) => `$${index}`,
+
+  classifyError(error, config) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // SQLSTATE codes (https://www.postgresql.org/docs/current/errcodes-appendix.html)
+    switch (errorCode(error)) {
+      case "28P01":
+      case "28000":
+        return { problem: "auth", message: `Login failed for user "${config.username}": ${message}` };
+      case "3D000":
+        return { problem: "schema", message: `Database "${config.database}" does not exist` };
+      case "42501":
+        return { problem: "permission", message: `Permission denied: ${message}` };
+      case "25006":
+        return { problem: "permission", message: "Only read-only queries are allowed" };
+      case "42P01":
+      case "3F000":
+        return { problem: "schema", message };
+      case "57014":
+        return { problem: "network", message: "The query was cancelled by the statement timeout" };
+    }
+    return null;
+  },
+};
@@ -0,0 +1,295 @@
+/**
+ * @fileoverview SQLite Driver
+ *
+ * SQLite databases are files on the server, so this engine is off unless
+ * `INTEGRATIONS_SQLITE_DIR` names the directory that holds them. Each
+ * user has a folder of their own in it (named by user id); the
+ * integration's database is a path inside that folder. Files are opened
+ * read-only.
+ *
+ * SQLite has no date type; Date parameters are passed as UTC text in its
+ * own "YYYY-MM-DD HH:MM:SS.SSS" format, so they compare correctly with
+ * timestamps stored that way.
+ *
+ * better-sqlite3 is synchronous and SQLite has no statement timeout, so
+ * every session runs in a child process of its own. The time spent
+ * waiting on it is added up and, once it exceeds the timeout, the process
+ * is killed. That stops even a single long step (a large cross join or a
+ * runaway recursive CTE) without blocking the server; a worker thread
+ * would not do, as terminating one can't interrupt SQLite's native code.
+ */
+
+import path from "path";
+import { spawn } from "child_process";
+import type { SqlConfig } from "@/lib/validations/integration";
+import { errorCode } from "../errors";
+import type { SqlDriver, SqlRow } from "./types";
+
+/**
+ * Rows sent from the child process at a time
+ */
+const BATCH_ROWS = 500;
+
+/**
+ * Code run in the child process: opens the file and answers requests one
+ * at a time with `{ ok, value }` or `{ ok: false, message, code }`
+ *
+ * Passed as source (`node -e`) rather than as a file, so it works the same
+ * from the Next.js server bundle and from the worker process.
+ */
+const CHILD_SOURCE = `
+const Database = require("better-sqlite3");
+
+let db = null;
+let rows = null;
+
+function handle(request) {
+  switch (request.type) {
+    case "open":
+      db = new Database(request.file, {
+        readonly: true,
+        fileMustExist: true,
+        timeout: request.timeoutMs,
+      });
+      return null;
+    case "listTables":
+      return db
+        .prepare(
+          "SELECT name FROM sqlite_master WHERE type IN ('table', 'view') " +
+            "AND name NOT LIKE 'sqlite_%' ORDER BY name LIMIT ?"
+        )
+        .all(request.limit)
+        .map((row) => row.name);
+    case "query": {
+      const statement = db.prepare(request.sql);
+      if (!statement.reader) throw new Error("The query does not return rows");
+      rows = statement.iterate(...request.params);
+      return null;
+    }
+    case "next": {
+      const batch = [];
+      while (batch.length < request.size) {
+        const next = rows.next();
+        if (next.done) {
+          rows = null;
+          return { rows: batch, done: true };
+        }
+        batch.push(next.value);
+      }
+      return { rows: batch, done: false };
+    }
+    case "end":
+      if (rows && rows.return) rows.return();
+      rows = null;
+      return null;
+  }
+}
+
+process.on("message", (request) => {
+  try {
+    process.send({ ok: true, value: handle(request) });
+  } catch (error) {
+    process.send({ ok: false, message: error.message, code: error.code });
+  }
+});
+process.on("disconnect", () => process.exit(0));
+`;
+
+/**
+ * A request to the child process
+ */
+type ChildRequest =
+  | { type: "open"; file: string; timeoutMs: number }
+  | { type: "listTables"; limit: number }
+  | { type: "query"; sql: string; params: Array<string | number> }
+  | { type: "next"; size: number }
+  | { type: "end" };
+
+/**
+ * The child process's answer
+ */
+type ChildReply = { ok: true; value: unknown } | { ok: false; message: string; code?: string };
+
+/**
+ * Resolves the database file inside the user's folder of the SQLite directory
+ *
+ * @returns The absolute path, or null if SQLite is disabled or the path leaves the folder
+ */
+function databasePath(config: SqlConfig, userId: string): string | null {
+  const directory = process.env.INTEGRATIONS_SQLITE_DIR;
+  if (!directory) return null;
+
+  const root = path.resolve(directory, userId);
+  const file = path.resolve(root, config.database);
+  return file.startsWith(root + path.sep) ? file : null;
+}
+
+/**
+ * Quotes an identifier for use in SQL
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Error thrown when a session runs out of time
+ */
+function timeoutError(): Error {
+  return Object.assign(new Error("The query was cancelled by the statement timeout"), {
+    code: "SQLITE_TIMEOUT",
+  });
+}
+
+/**
+ * Starts the child process for one session
+ *
+ * `call` sends a request and waits at most `budgetMs` for the answer;
+ * past that the process is killed and a timeout error thrown.
+ */
+function startChild() {
+  const child = spawn(process.execPath, ["-e", CHILD_SOURCE], {
+    stdio: ["ignore", "inherit", "inherit", "ipc"],
+    serialization: "advanced",
+  });
+  let pending: ((reply: ChildReply) => void) | null = null;
+  let exited = false;
+
+  const settle = (reply: ChildReply) => {
+    const resolve = pending;
+    pending = null;
+    resolve?.(reply);
+  };
+  child.on("message", (reply: ChildReply) => settle(reply));
+  child.on("error", (error) => settle({ ok: false, message: error.message }));
+  child.on("exit", () => {
+    exited = true;
+    settle({ ok: false, message: "The SQLite process stopped" });
+  });
+
+  const kill = () => {
+    if (exited) return;
+    exited = true;
+    child.kill("SIGKILL");
+  };
+
+  const call = (request: ChildRequest, budgetMs: number): Promise<unknown> =>
+    new Promise((resolve, reject) => {
+      if (exited) {
+        reject(timeoutError());
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        pending = null;
+        kill();
+        reject(timeoutError());
+      }, Math.max(budgetMs, 0));
+
+      pending = (reply) => {
+        clearTimeout(timer);
+        if (reply.ok) {
+          resolve(reply.value);
+        } else {
+          reject(Object.assign(new Error(reply.message), { code: reply.code }));
+        }
+      };
+      child.send(request);
+    });
+
+  return { call, kill };
+}
+
+export const sqliteDriver: SqlDriver = {
+  async checkTarget(config, userId) {
+    if (!process.env.INTEGRATIONS_SQLITE_DIR) {
+      return { problem: "permission", message: "SQLite integrations are not enabled on this server" };
+    }
+    if (!databasePath(config, userId)) {
+      return {
+        problem: "permission",
+        message: "The database file must be inside your folder of the server's SQLite directory",
+      };
+    }
+    return null;
+  },
+
+  async open(config: SqlConfig, _password: string | undefined, timeoutMs: number, userId: string) {
+    const file = databasePath(config, userId);
+    if (!file) throw new Error("SQLite database path is not allowed");
+
+    const child = startChild();
+    try {
+      await child.call({ type: "open", file, timeoutMs }, timeoutMs);
+    } catch (error) {
+      child.kill();
+      throw error;
+    }
+
+    return {
+      async listTables(limit) {
+        return (await child.call({ type: "listTables", limit }, timeoutMs)) as string[];
+      },
+
+      async *query(sql, params = []) {
+        let remainingMs = timeoutMs;
+        const timed = async (request: ChildRequest) => {
+          const started = Date.now();
+          try {
+            return await child.call(request, remainingMs);
+          } finally {
+            remainingMs -= Date.now() - started;
+          }
+        };
+
+        await timed({
+          type: "query",
+          sql,
+          params: params.map((value) =>
+            value instanceof Date ? value.toISOString().replace("T", " ").replace("Z", "") : value
+          ),
+        });
+
+        let done = false;
+        try {
+          while (!done) {
+            const batch = (await timed({ type: "next", size: BATCH_ROWS })) as {
+              rows: SqlRow[];
+              done: boolean;
+            };
+            done = batch.done;
+            yield* batch.rows;
+          }
+        } finally {
+          // Stopped early: finish the statement so the session can be reused
+          if (!done) await timed({ type: "end" }).catch(() => undefined);
+        }
+      },
+
+      async close() {
+        child.kill();
+      },
+    };
+  },
+
+  quoteIdentifier,
+  placeholder: () => "?",
+
+  classifyError(error, config) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    switch (errorCode(error)) {
+      case "SQLITE_CANTOPEN":
+        return { problem: "schema", message: `Database file "${config.database}" was not found` };
+      case "SQLITE_NOTADB":
+        return { problem: "schema", message: `"${config.database}" is not a SQLite database` };
+      case "SQLITE_READONLY":
+        return { problem: "permission", message: "Only read-only queries are allowed" };
+      case "SQLITE_TIMEOUT":
+        return { problem: "network", message };
+    }
+    if (/no such (table|column)/i.test(message)) {
+      return { problem: "schema", message };
+    }
+    return null;
+  },
+};
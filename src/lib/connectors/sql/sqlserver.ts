@@ -0,0 +1,134 @@
+/**
+ * @fileoverview SQL Server Driver
+ *
+ * SQL Server has no read-only transactions, so every query runs inside a
+ * transaction that is always rolled back; nothing it does is kept.
+ * Rows are streamed with back pressure, and `requestTimeout` limits how
+ * long a statement may run.
+ */
+
+import sql from "mssql";
+import type { SqlConfig } from "@/lib/validations/integration";
+import { classifyNetworkError, errorCode } from "../errors";
+import { checkHostAllowed } from "../network";
+import type { SqlDriver, SqlRow } from "./types";
+
+/**
+ * Quotes an identifier for use in T-SQL
+ */
+function quoteIdentifier(name: string): string {
+  return `[${name.replace(/]/g, "]]")}]`;
+}
+
+export const sqlServerDriver: SqlDriver = {
+  checkTarget: (config) => checkHostAllowed(config.host),
+
+  async open(config: SqlConfig, password: string | undefined, timeoutMs: number) {
+    const pool = new sql.ConnectionPool({
+      server: config.host,
+      port: config.port,
+      database: config.database,
+      user: config.username,
+      password,
+      connectionTimeout: timeoutMs,
+      requestTimeout: timeoutMs,
+      pool: { min: 0, max: 1 },
+      options: {
+        encrypt: config.ssl,
+        trustServerCertificate: false,
+        appName: "fraudlr",
+      },
+    });
+    pool.on("error", () => undefined);
+
+    try {
+      await pool.connect();
+    } catch (error) {
+      await pool.close().catch(() => undefined);
+      throw error;
+    }
+
+    return {
+      async listTables(limit) {
+        const result = await pool
+          .request()
+          .input("limit", sql.Int, limit)
+          .query<{ table_schema: string; table_name: string }>(
+            `SELECT TOP (@limit) TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name
+               FROM INFORMATION_SCHEMA.TABLES
+              ORDER BY TABLE_SCHEMA, TABLE_NAME`
+          );
+        return result.recordset.map((row) => `${row.table_schema}.${row.table_name}`);
+      },
+
+      async *query(text, params = []) {
+        const transaction = new sql.Transaction(pool);
+        await transaction.begin();
+
+        const request = new sql.Request(transaction);
+        params.forEach((value, i) => request.input(`p${i + 1}`, value));
+        const rows = request.toReadableStream();
+        let finished = false;
+
+        // In stream mode, errors arrive through the stream
+        void request.query(text);
+
+        try {
+          for await (const row of rows) {
+            yield row as SqlRow;
+          }
+          finished = true;
+        } finally {
+          if (!finished) request.cancel();
+          await transaction.rollback().catch(() => undefined);
+        }
+      },
+
+      close: () => pool.close().catch(() => undefined),
+    };
+  },
+
+  quoteIdentifier,
+  placeholder: (index) => `@p${index}`,
+
+  classifyError(error, config) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Server error number (https://learn.microsoft.com/sql/relational-databases/errors-events/database-engine-events-and-errors)
+    const number = (error as { number?: number } | null)?.number;
+
+    switch (errorCode(error)) {
+      case "ELOGIN":
+        return { problem: "auth", message: `Login failed for user "${config.username}": ${message}` };
+      case "ETIMEOUT":
+        return {
+          problem: "network",
+          message: /request/i.test(message)
+            ? "The query was cancelled by the statement timeout"
+            : `Timed out connecting to ${config.host}:${config.port}`,
+        };
+      case "ESOCKET": {
+        // The driver wraps the socket errors (one per address tried) two levels down
+        const target = `${config.host}:${config.port}`;
+        let cause = (error as { originalError?: { cause?: unknown } }).originalError?.cause;
+        if (cause instanceof AggregateError) cause = cause.errors[0];
+        return (
+          classifyNetworkError(cause, target) ?? {
+            problem: "network",
+            message: `Could not connect to ${target}. Check the host, port and firewall rules.`,
+          }
+        );
+      }
+    }
+
+    switch (number) {
+      case 229:
+      case 230:
+        return { problem: "permission", message: `Permission denied: ${message}` };
+      case 208:
+        return { problem: "schema", message };
+      case 4060:
+        return { problem: "schema", message: `Cannot open database "${config.database}"` };
+    }
+    return null;
+  },
+};
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview SQL Driver Interface
+ *
+ * Each database engine is a `SqlDriver`. The shared code in index.ts does
+ * the rest (host checks, sampling, row limits, error fallbacks), so adding
+ * an engine means implementing this interface and registering the driver.
+ *
+ * Drivers must keep sessions read-only and apply the statement timeout
+ * they are given; how depends on the engine.
+ */
+
+import type { SqlConfig } from "@/lib/validations/integration";
+import type { ClassifiedError } from "../errors";
+
+/**
+ * A row as returned by the driver, keyed by column name
+ */
+export type SqlRow = Record<string, unknown>;
+
+/**
+ * A query parameter value
+ */
+export type SqlParam = string | number | Date;
+
+/**
+ * An open connection to a database
+ */
+export interface SqlSession {
+  /**
+   * Lists the tables and views the user can read, as names that
+   * `SqlDriver.quoteIdentifier` can quote (schema-qualified where the
+   * engine has schemas)
+   */
+  listTables(limit: number): Promise<string[]>;
+
+  /**
+   * Runs a read-only query and yields its rows as they arrive
+   *
+   * Returning early (e.g. at the row limit) stops the query.
+   *
+   * @param sql - Query, with `SqlDriver.placeholder` markers for the parameters
+   * @param params - Parameter values, in order
+   */
+  query(sql: string, params?: SqlParam[]): AsyncGenerator<SqlRow>;
+
+  /**
+   * Closes the connection; never throws
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * A database engine
+ */
+export interface SqlDriver {
+  /**
+   * Checks that the target may be connected to before opening a session
+   *
+   * @param config - Connection settings
+   * @param userId - Owner of the integration (SQLite files are per user)
+   * @returns null if allowed, otherwise why not
+   */
+  checkTarget(config: SqlConfig, userId: string): Promise<ClassifiedError | null>;
+
+  /**
+   * Opens a session
+   *
+   * @param config - Connection settings, with the port filled in
+   * @param password - Decrypted password, if one is saved
+   * @param timeoutMs - Connection and statement timeout
+   * @param userId - Owner of the integration
+   */
+  open(
+    config: SqlConfig,
+    password: string | undefined,
+    timeoutMs: number,
+    userId: string
+  ): Promise<SqlSession>;
+
+  /**
+   * Quotes one part of a table name
+   */
+  quoteIdentifier(name: string): string;
+
+  /**
+   * Marker for the nth query parameter (from 1), e.g. "$1" or "?"
+   */
+  placeholder(index: number): string;
+
+  /**
+   * Classifies errors only this engine reports (login failures, missing
+   * tables, timeouts, ...)
+   *
+   * @returns The classification, or null to fall back to the generic checks
+   */
+  classifyError(error: unknown, config: SqlConfig): ClassifiedError | null;
+}
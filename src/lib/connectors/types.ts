@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Connector Types
+ *
+ * Shapes shared by every integration connector. Client-safe (no server
+ * imports), so the Integrations page can render test results and the
+ * engine list with the same definitions.
+ */
+
+import type { SqlEngine } from "@/lib/validations/integration";
+
+/**
+ * Display name and default port of each SQL engine (SQLite is a file)
+ */
+export const SQL_ENGINES: Record<SqlEngine, { label: string; defaultPort: number | null }> = {
+  postgres: { label: "PostgreSQL", defaultPort: 5432 },
+  mysql: { label: "MySQL / MariaDB", defaultPort: 3306 },
+  sqlserver: { label: "SQL Server", defaultPort: 1433 },
+  sqlite: { label: "SQLite", defaultPort: null },
+};
+
+/**
+ * What kind of problem a failed connection test ran into
+ *
+ * - network: DNS lookup failed, host unreachable, connection refused or timed out
+ * - auth: credentials were rejected
+ * - tls: certificate or TLS handshake problem
+ * - permission: logged in, but not allowed to read the data
+ * - schema: reached the source, but the database/table/records were not where expected
+ * - unknown: anything else
+ */
+export type ConnectionProblem = "network" | "auth" | "tls" | "permission" | "schema" | "unknown";
+
+/**
+ * A few records from the source, as a table
+ */
+export interface DataSample {
+  /** Where the rows came from, e.g. "public.transactions" or "$.data" */
+  source: string;
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Outcome of testing a connection
+ */
+export interface ConnectionTestResult {
+  ok: boolean;
+  /** Set when `ok` is false */
+  problem?: ConnectionProblem;
+  message: string;
+  durationMs: number;
+  /** Records the integration would ingest, when any could be read */
+  sample?: DataSample;
+  /** Tables and views the credentials can read (SQL), for choosing what to import */
+  tables?: string[];
+}
@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Cron Schedules
+ *
+ * Parses standard five-field cron expressions and finds when they next
+ * fire. Used for integration sync schedules.
+ *
+ *   ┌──────── minute (0-59)
+ *   │ ┌────── hour (0-23)
+ *   │ │ ┌──── day of month (1-31)
+ *   │ │ │ ┌── month (1-12 or JAN-DEC)
+ *   │ │ │ │ ┌ day of week (0-7 or SUN-SAT; 0 and 7 are Sunday)
+ *   * * * * *
+ *
+ * Each field takes `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`)
+ * and comma-separated lists. `@hourly`, `@daily`, `@weekly`, `@monthly`
+ * and `@yearly` are shorthands. As in Vixie cron, when both day fields are
+ * restricted, a day matching either one fires.
+ *
+ * All times are UTC. No server dependencies, so forms can preview the
+ * next run with the same code the worker uses.
+ */
+
+/**
+ * A parsed expression: the allowed values of each field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether each day field was restricted (not `*`) */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+/**
+ * Range and names of each field
+ */
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, offset: 1 },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, offset: 0 },
+] as const;
+
+/**
+ * How far ahead to look for the next run before giving up (e.g. "0 0 30 2 *")
+ */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parses one field into its allowed values
+ */
+function parseField(text: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number => {
+    const upper = token.toUpperCase();
+    if ("names" in field) {
+      const index = (field.names as readonly string[]).indexOf(upper);
+      if (index !== -1) return index + field.offset;
+    }
+    if (!/^\d+$/.test(token)) throw new Error(`Invalid ${field.name} "${token}"`);
+    const value = Number(token);
+    if (value < field.min || value > field.max) {
+      throw new Error(`The ${field.name} must be between ${field.min} and ${field.max}`);
+    }
+    return value;
+  };
+
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in the ${field.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = toNumber(from);
+      end = toNumber(to);
+      if (start > end) throw new Error(`Invalid range "${range}" in the ${field.name}`);
+    } else {
+      start = toNumber(range);
+      // "5/15" means from 5 to the end in steps of 15
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+/**
+ * Parses a cron expression
+ *
+ * @param expression - Five fields or a shorthand such as "@daily"
+ * @throws Error describing the first problem if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const text = expression.trim();
+  const expanded = SHORTHANDS[text.toLowerCase()] ?? text;
+  const parts = expanded.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error("A schedule needs five fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i])
+  );
+
+  // 7 is another name for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: parts[2] !== "*",
+    dowRestricted: parts[4] !== "*",
+  };
+}
+
+/**
+ * Whether a schedule fires on a day
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Finds the first time after `after` at which a schedule fires
+ *
+ * @param schedule - Parsed schedule or expression
+ * @param after - Start searching after this time (default now)
+ * @returns The next run, or null if the schedule never fires (e.g. February 30th)
+ */
+export function nextCronTime(schedule: CronSchedule | string, after = new Date()): Date | null {
+  const parsed = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  // Start at the next whole minute
+  const time = new Date(after);
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  // Skip whole months, days and hours that cannot match
+  while (time.getTime() <= limit) {
+    if (!parsed.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0);
+    } else if (!matchesDay(parsed, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0);
+    } else if (!parsed.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0);
+    } else if (!parsed.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+  return null;
+}
+
+/**
+ * Shortest time between runs, found by looking at the next few runs
+ *
+ * @returns Milliseconds, or null if the schedule never fires
+ */
+export function shortestCronInterval(schedule: CronSchedule | string, runs = 10): number | null {
+  const parsed = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  let previous = nextCronTime(parsed);
+  if (!previous) return null;
+
+  let shortest = Infinity;
+  for (let i = 0; i < runs; i++) {
+    const next = nextCronTime(parsed, previous);
+    if (!next) break;
+    shortest = Math.min(shortest, next.getTime() - previous.getTime());
+    previous = next;
+  }
+  return shortest;
+}
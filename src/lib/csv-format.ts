@@ -0,0 +1,312 @@
+/**
+ * @fileoverview CSV Format Detection
+ *
+ * Exports from different ERPs rarely agree on a CSV dialect. Before a file
+ * is analyzed we sniff its format from a sample:
+ * - Encoding: byte order mark, then UTF-8, falling back to Windows-1252
+ * - Delimiter: comma, semicolon, tab or pipe
+ * - Decimal separator: "1,234.56" vs "1.234,56"
+ * - Date formats: per column, e.g. YYYY-MM-DD or DD/MM/YYYY
+ *
+ * Detection only ever looks at a sample, so the user can correct the
+ * result in the column mapping wizard before the case is created.
+ */
+
+import { parseCsv } from "@/lib/csv";
+
+/**
+ * Supported text encodings (names understood by TextDecoder)
+ */
+export const CSV_ENCODINGS = ["utf-8", "utf-16le", "utf-16be", "windows-1252"] as const;
+export type CsvEncoding = (typeof CSV_ENCODINGS)[number];
+
+/**
+ * Supported field delimiters
+ */
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+/**
+ * Supported decimal separators
+ */
+export const DECIMAL_SEPARATORS = [".", ","] as const;
+export type DecimalSeparator = (typeof DECIMAL_SEPARATORS)[number];
+
+/**
+ * Supported date formats
+ */
+export const DATE_FORMATS = [
+  "YYYY-MM-DD",
+  "YYYY/MM/DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "DD-MM-YYYY",
+  "DD.MM.YYYY",
+] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+/**
+ * Detected (or user-corrected) file format
+ */
+export interface CsvFormat {
+  encoding: CsvEncoding;
+  delimiter: CsvDelimiter;
+  decimalSeparator: DecimalSeparator;
+  dateFormat?: DateFormat;
+}
+
+/**
+ * Date formats with the regular expression used to recognise them.
+ * Groups are always captured in the order they appear in the format.
+ */
+const DATE_PATTERNS: Record<DateFormat, RegExp> = {
+  "YYYY-MM-DD": /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/,
+  "YYYY/MM/DD": /^(\d{4})\/(\d{1,2})\/(\d{1,2})(?: .*)?$/,
+  "DD/MM/YYYY": /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: .*)?$/,
+  "MM/DD/YYYY": /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: .*)?$/,
+  "DD-MM-YYYY": /^(\d{1,2})-(\d{1,2})-(\d{4})(?: .*)?$/,
+  "DD.MM.YYYY": /^(\d{1,2})\.(\d{1,2})\.(\d{4})(?: .*)?$/,
+};
+
+/**
+ * How much of a file is read for format detection and previews
+ */
+export const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Detects the text encoding of a file sample
+ *
+ * @param data - Raw bytes (a sample is enough)
+ */
+export function detectEncoding(data: Uint8Array): CsvEncoding {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return "utf-8";
+  if (data[0] === 0xff && data[1] === 0xfe) return "utf-16le";
+  if (data[0] === 0xfe && data[1] === 0xff) return "utf-16be";
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(data);
+    return "utf-8";
+  } catch {
+    // Legacy Excel exports on Windows are usually Windows-1252
+    return "windows-1252";
+  }
+}
+
+/**
+ * Decodes file bytes using the given encoding
+ *
+ * @param data - Raw bytes
+ * @param encoding - Encoding to decode with
+ * @param fatal - Throw on invalid byte sequences instead of substituting
+ */
+export function decodeCsv(data: Uint8Array, encoding: CsvEncoding, fatal = false): string {
+  return new TextDecoder(encoding, { fatal }).decode(data);
+}
+
+/**
+ * Counts delimiter occurrences outside quoted fields for one line
+ */
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * Detects the field delimiter from the first lines of a file
+ *
+ * The best delimiter appears the same (non-zero) number of times on
+ * every line; ties are broken by the higher count.
+ *
+ * @param text - Decoded file sample
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "").slice(0, 20);
+  let best: CsvDelimiter = ",";
+  let bestScore = -1;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map((line) => countOutsideQuotes(line, delimiter));
+    const first = counts[0] ?? 0;
+    if (first === 0) continue;
+
+    const consistent = counts.filter((c) => c === first).length / counts.length;
+    const score = consistent * 1000 + first;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Detects the decimal separator from numeric-looking sample values
+ *
+ * @param values - Cell values from the sample
+ */
+export function detectDecimalSeparator(values: string[]): DecimalSeparator {
+  let dot = 0;
+  let comma = 0;
+
+  for (const raw of values) {
+    const value = raw.trim().replace(/^[(-]|[)]$/g, "").replace(/[^\d.,]/g, "");
+    if (!/\d/.test(value)) continue;
+
+    if (/^\d{1,3}(\.\d{3})+,\d+$/.test(value) || /^\d+,\d{1,2}$/.test(value)) {
+      comma++;
+    } else if (/^\d{1,3}(,\d{3})+\.\d+$/.test(value) || /^\d+\.\d{1,2}$/.test(value)) {
+      dot++;
+    }
+  }
+
+  return comma > dot ? "," : ".";
+}
+
+/**
+ * Checks that a date matched by a pattern has a valid day and month
+ */
+function isValidDate(format: DateFormat, match: RegExpMatchArray): boolean {
+  const [a, b, c] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  let day: number;
+  let month: number;
+
+  if (format.startsWith("YYYY")) {
+    month = b;
+    day = c;
+  } else if (format.startsWith("MM")) {
+    month = a;
+    day = b;
+  } else {
+    day = a;
+    month = b;
+  }
+
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+/**
+ * Detects the date format of a column from sample values
+ *
+ * When a sample could be read both ways (e.g. 03/04/2025), DD/MM/YYYY is
+ * preferred unless some value only makes sense as MM/DD/YYYY.
+ *
+ * @param values - Cell values from one column
+ * @returns The matching format, or null if the column is not a date column
+ */
+export function detectDateFormat(values: string[]): DateFormat | null {
+  const samples = values.map((v) => v.trim()).filter(Boolean);
+  if (samples.length === 0) return null;
+
+  for (const format of DATE_FORMATS) {
+    const pattern = DATE_PATTERNS[format];
+    const matchesAll = samples.every((value) => {
+      const match = value.match(pattern);
+      return match !== null && isValidDate(format, match);
+    });
+    if (matchesAll) return format;
+  }
+
+  return null;
+}
+
+/**
+ * Parses a date string in a known format
+ *
+ * @returns The date (UTC midnight), or null if it does not match
+ */
+export function parseDate(value: string, format: DateFormat): Date | null {
+  const match = value.trim().match(DATE_PATTERNS[format]);
+  if (!match || !isValidDate(format, match)) return null;
+
+  const [a, b, c] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  if (format.startsWith("YYYY")) return new Date(Date.UTC(a, b - 1, c));
+  if (format.startsWith("MM")) return new Date(Date.UTC(c, a - 1, b));
+  return new Date(Date.UTC(c, b - 1, a));
+}
+
+/**
+ * Cuts a file sample after its last line break, so that neither a row
+ * nor a multi-byte character is split
+ *
+ * @param data - The start of a larger file
+ */
+export function completeLines(data: Uint8Array): Uint8Array {
+  let end = data.lastIndexOf(0x0a) + 1;
+  if (end <= 0) return data;
+
+  // In UTF-16LE the line break is 0A 00; keep the second byte too
+  const utf16le = data[0] === 0xff && data[1] === 0xfe;
+  if (utf16le && end % 2 === 1 && end < data.length) end++;
+
+  return data.subarray(0, end);
+}
+
+/**
+ * Result of sniffing a file sample
+ */
+export interface CsvPreview {
+  format: CsvFormat;
+  headers: string[];
+  rows: string[][];
+  /** Detected date format per column, for columns that look like dates */
+  dateFormats: Record<string, DateFormat>;
+}
+
+/**
+ * Options for previewing a file sample
+ */
+export interface PreviewCsvOptions {
+  /** True when the data is a prefix of a larger file */
+  partial?: boolean;
+  /** Use this encoding instead of detecting it */
+  encoding?: CsvEncoding;
+  /** Use this delimiter instead of detecting it */
+  delimiter?: CsvDelimiter;
+  /** Number of data rows to return */
+  maxRows?: number;
+}
+
+/**
+ * Detects the format of a file sample and returns its first rows
+ *
+ * For partial samples the trailing incomplete line is dropped.
+ *
+ * @param data - The start of the file
+ * @param options - Sample information and user overrides
+ */
+export function previewCsv(data: Uint8Array, options: PreviewCsvOptions = {}): CsvPreview {
+  const { partial = false, maxRows = 10 } = options;
+  const bytes = partial ? completeLines(data) : data;
+
+  const encoding = options.encoding ?? detectEncoding(bytes);
+  const text = decodeCsv(bytes, encoding);
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const { headers, rows } = parseCsv(text, { delimiter });
+
+  const dateFormats: Record<string, DateFormat> = {};
+  headers.forEach((header, i) => {
+    const format = detectDateFormat(rows.map((r) => r[i] ?? ""));
+    if (format) dateFormats[header] = format;
+  });
+
+  const numericCells = rows.flatMap((row) =>
+    row.filter((_, i) => !dateFormats[headers[i]])
+  );
+
+  return {
+    format: {
+      encoding,
+      delimiter,
+      decimalSeparator: detectDecimalSeparator(numericCells),
+    },
+    headers,
+    rows: rows.slice(0, maxRows),
+    dateFormats,
+  };
+}
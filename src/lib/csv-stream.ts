@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Streaming CSV Parser
+ *
+ * General ledger extracts run to millions of rows, far too many to hold
+ * in memory as text or as a parsed table. `readCsvRecords` decodes and
+ * parses a byte stream chunk by chunk and yields one record at a time,
+ * so memory use depends on the longest row rather than the file size.
+ *
+ * The dialect is the same as `parseCsv` (RFC 4180 with a configurable
+ * delimiter). Problems affecting a single row are reported through
+ * `onError` with the row's line number and the row is skipped, instead of
+ * failing the whole file.
+ */
+
+/**
+ * A parsed record and the line of the file it starts on (1-based)
+ */
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * A problem with a single row
+ */
+export interface CsvRowError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Options for streaming CSV parsing
+ */
+export interface CsvStreamOptions {
+  /** Text encoding (TextDecoder label), UTF-8 by default */
+  encoding?: string;
+  /** Field delimiter, comma by default */
+  delimiter?: string;
+  /** Longest accepted record in characters; protects against unclosed quotes */
+  maxRecordLength?: number;
+  /** Called for every skipped row */
+  onError?: (error: CsvRowError) => void;
+}
+
+/**
+ * Default longest record (1M characters)
+ */
+const DEFAULT_MAX_RECORD_LENGTH = 1_000_000;
+
+/**
+ * Parses a CSV byte stream into records
+ *
+ * Blank lines are skipped. A UTF-8 byte order mark is removed.
+ *
+ * @param source - File contents, e.g. a Node.js readable stream
+ * @param options - Encoding, delimiter and error callback
+ */
+export async function* readCsvRecords(
+  source: AsyncIterable<Uint8Array>,
+  options: CsvStreamOptions = {}
+): AsyncGenerator<CsvRecord> {
+  const encoding = options.encoding ?? "utf-8";
+  const delimiter = options.delimiter ?? ",";
+  const maxRecordLength = options.maxRecordLength ?? DEFAULT_MAX_RECORD_LENGTH;
+  const decoder = new TextDecoder(encoding);
+
+  // Parser state, carried over between chunks
+  let field = "";
+  let record: string[] = [];
+  let recordLength = 0;
+  let inQuotes = false;
+  let afterQuote = false; // saw a quote inside a quoted field, need the next char
+  let afterCarriageReturn = false;
+  let skipping = false; // discarding the rest of an oversized record
+  let line = 1;
+  let recordLine = 1;
+  let started = false;
+
+  const reportError = (message: string) => {
+    options.onError?.({ line: recordLine, message });
+  };
+
+  /**
+   * Finishes the current record, returning it unless it must be skipped
+   */
+  const endRecord = (): CsvRecord | null => {
+    record.push(field);
+    const fields = record;
+    const startLine = recordLine;
+
+    field = "";
+    record = [];
+    recordLength = 0;
+
+    if (fields.length === 1 && fields[0].trim() === "") return null;
+
+    // U+FFFD is what the decoder substitutes for invalid byte sequences
+    if (fields.some((f) => f.includes("\uFFFD"))) {
+      options.onError?.({
+        line: startLine,
+        message: `Row contains characters that are not valid ${encoding.toUpperCase()}`,
+      });
+      return null;
+    }
+
+    return { line: startLine, fields };
+  };
+
+  /**
+   * Parses one decoded chunk, returning the records it completes
+   */
+  const parseChunk = (chunk: string): CsvRecord[] => {
+    const records: CsvRecord[] = [];
+    let text = chunk;
+
+    if (!started && text.length > 0) {
+      started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (afterCarriageReturn) {
+        afterCarriageReturn = false;
+        // \r\n counts as a single line break
+        if (char === "\n") continue;
+      }
+
+      if (skipping) {
+        if (char === "\n" || char === "\r") {
+          skipping = false;
+          afterCarriageReturn = char === "\r";
+          line++;
+          recordLine = line;
+        }
+        continue;
+      }
+
+      if (++recordLength > maxRecordLength) {
+        reportError(
+          `Row exceeds ${maxRecordLength.toLocaleString("en-US")} characters (unclosed quote?)`
+        );
+        field = "";
+        record = [];
+        recordLength = 0;
+        inQuotes = false;
+        afterQuote = false;
+        skipping = true;
+        continue;
+      }
+
+      if (afterQuote) {
+        afterQuote = false;
+        if (char === '"') {
+          // Escaped quote inside a quoted field
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          afterQuote = true;
+        } else {
+          field += char;
+          if (char === "\n") line++;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        afterCarriageReturn = char === "\r";
+        const completed = endRecord();
+        if (completed) records.push(completed);
+        line++;
+        recordLine = line;
+      } else {
+        field += char;
+      }
+    }
+
+    return records;
+  };
+
+  for await (const chunk of source) {
+    yield* parseChunk(decoder.decode(chunk, { stream: true }));
+  }
+  yield* parseChunk(decoder.decode());
+
+  if (afterQuote) inQuotes = false;
+
+  if (inQuotes) {
+    reportError("Quoted field is never closed");
+    return;
+  }
+
+  // Flush the final record when the file has no trailing newline
+  if (!skipping && (field !== "" || record.length > 0)) {
+    const completed = endRecord();
+    if (completed) yield completed;
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview CSV Parsing Utilities
+ *
+ * Lightweight CSV helpers used by the analysis modules.
+ * We parse uploaded files on the server so the analysis never depends
+ * on what the browser decided to send.
+ *
+ * Supported format (RFC 4180):
+ * - Fields separated by a delimiter (comma by default)
+ * - Fields may be wrapped in double quotes
+ * - Quotes inside a quoted field are escaped by doubling them ("")
+ * - Rows end with \n or \r\n
+ */
+
+/**
+ * Parsed CSV table
+ */
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Options for parsing CSV text
+ */
+export interface ParseCsvOptions {
+  delimiter?: string;
+}
+
+/**
+ * Options for reading numbers from a CSV (see `parseAmount`)
+ */
+export interface ReadCsvOptions extends ParseCsvOptions {
+  decimalSeparator?: "." | ",";
+}
+
+/**
+ * Parses CSV text into a header row and data rows
+ *
+ * @param text - Raw CSV file contents
+ * @param options - Parsing options (delimiter)
+ * @returns Headers and rows; blank lines are skipped
+ */
+export function parseCsv(text: string, options: ParseCsvOptions = {}): CsvTable {
+  const delimiter = options.delimiter ?? ",";
+  const records: string[][] = [];
+
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark, common in Excel exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          // Escaped quote inside a quoted field
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      // Treat \r\n as a single line break
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      field = "";
+      record = [];
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the final record when the file has no trailing newline
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(
+    (r) => !(r.length === 1 && r[0].trim() === "")
+  );
+
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+/**
+ * Formats one CSV row, quoting fields that need it
+ *
+ * @param fields - Cell values
+ * @returns The row including its line break
+ */
+export function formatCsvRow(fields: string[]): string {
+  const quoted = fields.map((field) =>
+    /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+  );
+  return `${quoted.join(",")}\r\n`;
+}
+
+/**
+ * Finds the index of a column by name (case-insensitive)
+ *
+ * @param headers - Header row of the CSV
+ * @param column - Column name to look for
+ * @returns Column index, or -1 if not found
+ */
+export function findColumn(headers: string[], column: string): number {
+  const target = column.trim().toLowerCase();
+  return headers.findIndex((h) => h.trim().toLowerCase() === target);
+}
+
+/**
+ * Parses a monetary or numeric value as it usually appears in exports
+ *
+ * @param raw - Cell value
+ * @param decimalSeparator - "." (1,234.56) or "," (1.234,56)
+ * @returns The number, or null if the cell is not numeric
+ *
+ * @example
+ * parseAmount("1,234.56")      // 1234.56
+ * parseAmount("(250.00)")      // -250 (accounting negative)
+ * parseAmount("R 1 500")       // 1500
+ * parseAmount("1.234,56", ",") // 1234.56
+ */
+export function parseAmount(raw: string, decimalSeparator: "." | "," = "."): number | null {
+  let value = raw.trim();
+  if (!value) return null;
+
+  // Accounting notation: (123.45) means -123.45
+  let negative = false;
+  if (value.startsWith("(") && value.endsWith(")")) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+
+  // European notation: dots group thousands, the comma is the decimal point
+  if (decimalSeparator === ",") {
+    value = value.replace(/\./g, "").replace(",", ".");
+  }
+
+  // Remove currency symbols, thousands separators and spaces
+  value = value.replace(/[^0-9.eE+-]/g, "");
+  if (!value || !/[0-9]/.test(value)) return null;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return null;
+
+  return negative ? -parsed : parsed;
+}
+
+/**
+ * Result of validating an uploaded CSV file
+ */
+export type CsvValidation =
+  | { valid: true; text: string; headers: string[]; rowCount: number }
+  | { valid: false; error: string };
+
+/**
+ * Options for validating an uploaded file
+ */
+export interface ValidateCsvOptions extends ParseCsvOptions {
+  /** Text encoding (TextDecoder label), UTF-8 by default */
+  encoding?: string;
+  /** True when `data` is only the start of the file */
+  partial?: boolean;
+}
+
+/**
+ * Validates uploaded bytes as a CSV file
+ *
+ * The browser only checks the file extension, so the server verifies
+ * the content itself:
+ * - Valid text in the expected encoding, with no binary (NUL) bytes
+ * - Balanced quotes (every quoted field is closed)
+ * - A header row and at least one data row
+ *
+ * Large uploads are validated on a sample (the first complete lines).
+ * Individual malformed rows do not reject the file; the analysis skips
+ * them and reports their line numbers.
+ *
+ * @param data - Raw uploaded bytes (or a sample ending on a line break)
+ * @param options - Encoding and delimiter of the file
+ * @returns The decoded text and header on success, or an error message
+ */
+export function validateCsv(data: Uint8Array, options: ValidateCsvOptions = {}): CsvValidation {
+  const encoding = options.encoding ?? "utf-8";
+
+  // UTF-16 text legitimately contains zero bytes
+  if (!encoding.startsWith("utf-16") && data.includes(0)) {
+    return { valid: false, error: "File appears to be binary, not CSV" };
+  }
+
+  let text: string;
+  try {
+    text = new TextDecoder(encoding, { fatal: true }).decode(data);
+  } catch {
+    return { valid: false, error: `File is not valid ${encoding.toUpperCase()} text` };
+  }
+
+  // Escaped quotes come in pairs, so an odd count means an unclosed field.
+  // A sample may legitimately end inside a multi-line field, so skip it there.
+  const quotes = text.match(/"/g)?.length ?? 0;
+  if (!options.partial && quotes % 2 !== 0) {
+    return { valid: false, error: "File contains an unterminated quoted field" };
+  }
+
+  const { headers, rows } = parseCsv(text, options);
+
+  if (headers.length === 0 || headers.every((h) => h === "")) {
+    return { valid: false, error: "File is missing a header row" };
+  }
+
+  if (rows.length === 0) {
+    return { valid: false, error: "File has no data rows" };
+  }
+
+  return { valid: true, text, headers, rowCount: rows.length };
+}
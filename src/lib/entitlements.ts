@@ -0,0 +1,355 @@
+/**
+ * @fileoverview Subscription Entitlements
+ *
+ * Single place that decides what a user's subscription allows (limits are
+ * defined in plans.ts):
+ *
+ * | Tier     | CSV uploads per billing month | Integrations | Scheduled syncs |
+ * |----------|-------------------------------|--------------|-----------------|
+ * | FREE     | 2                             | none         | no              |
+ * | STANDARD | 10                            | 1            | no              |
+ * | PRO      | unlimited                     | unlimited    | yes             |
+ *
+ * The upload counter (`Subscription.csvUploadsThisMonth`) resets on the
+ * subscription's billing anniversary: the day of the month the subscription
+ * started on. The reset happens lazily, the first time usage is read in a
+ * new period, so no scheduled job is needed.
+ *
+ * A downgrade does not delete integrations over the new limit: the oldest
+ * ones keep working and the rest stop taking in data
+ * (`checkIntegrationUsable`).
+ *
+ * Denials are returned as a structured body the routes send unchanged:
+ * - 402 Payment Required when a quota is used up (upgrading raises it)
+ * - 403 Forbidden when the tier does not include the feature at all
+ */
+
+import { Prisma, SubscriptionTier } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { TIER_LIMITS, TIER_NAMES, type Entitlements } from "@/lib/plans";
+
+export type { Entitlements } from "@/lib/plans";
+
+/**
+ * Machine-readable reason for a denial
+ */
+export type LimitCode =
+  | "UPLOAD_LIMIT_REACHED"
+  | "INTEGRATION_LIMIT_REACHED"
+  | "INTEGRATIONS_NOT_INCLUDED"
+  | "SCHEDULES_NOT_INCLUDED";
+
+/**
+ * A denied action: HTTP status and the response body to send
+ */
+export interface LimitExceeded {
+  status: 402 | 403;
+  body: {
+    error: string;
+    code: LimitCode;
+    tier: SubscriptionTier;
+    limit: number;
+    used: number;
+    /** When the quota frees up again (uploads only) */
+    resetsAt: string | null;
+  };
+}
+
+/**
+ * Adds whole months to a billing anchor, keeping its day of month
+ *
+ * Anchors on the 29th-31st fall on the last day of shorter months.
+ */
+function addMonths(anchor: Date, months: number): Date {
+  const target = new Date(anchor);
+  target.setUTCDate(1);
+  target.setUTCMonth(anchor.getUTCMonth() + months);
+
+  const daysInMonth = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(anchor.getUTCDate(), daysInMonth));
+  return target;
+}
+
+/**
+ * Returns the start and end of the billing month containing `now`
+ *
+ * @param anchor - Subscription start date
+ * @param now - Point in time to look up
+ */
+export function billingPeriod(anchor: Date, now = new Date()): { start: Date; end: Date } {
+  if (now < anchor) {
+    return { start: anchor, end: addMonths(anchor, 1) };
+  }
+
+  let months =
+    (now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+    (now.getUTCMonth() - anchor.getUTCMonth());
+  if (addMonths(anchor, months) > now) months--;
+
+  return { start: addMonths(anchor, months), end: addMonths(anchor, months + 1) };
+}
+
+/**
+ * Loads the user's subscription with the upload counter for the current
+ * billing month
+ *
+ * Users without a subscription row get a FREE one. An inactive or expired
+ * paid subscription is treated as FREE.
+ */
+async function loadUsage(userId: string, db: Prisma.TransactionClient = prisma) {
+  const subscription = await db.subscription.upsert({
+    where: { userId },
+    create: { userId },
+    update: {},
+  });
+
+  const now = new Date();
+  const period = billingPeriod(subscription.startDate, now);
+  let used = subscription.csvUploadsThisMonth;
+
+  // First read in a new billing month: reset the counter. The condition on
+  // usagePeriodStart makes concurrent resets harmless.
+  if (subscription.usagePeriodStart < period.start) {
+    await db.subscription.updateMany({
+      where: { id: subscription.id, usagePeriodStart: { lt: period.start } },
+      data: { csvUploadsThisMonth: 0, usagePeriodStart: period.start },
+    });
+    used = 0;
+  }
+
+  const expired = subscription.endDate !== null && subscription.endDate < now;
+  const tier = subscription.isActive && !expired ? subscription.tier : SubscriptionTier.FREE;
+
+  return { tier, used, period, limits: TIER_LIMITS[tier] };
+}
+
+/**
+ * Denial for an exhausted upload quota
+ */
+function uploadLimitExceeded(
+  tier: SubscriptionTier,
+  limit: number,
+  used: number,
+  resetsAt: Date
+): LimitExceeded {
+  return {
+    status: 402,
+    body: {
+      error: `Your ${TIER_NAMES[tier]} plan includes ${limit} CSV uploads per month. Upgrade to upload more before ${resetsAt.toISOString().slice(0, 10)}.`,
+      code: "UPLOAD_LIMIT_REACHED",
+      tier,
+      limit,
+      used,
+      resetsAt: resetsAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Returns the user's current usage and limits
+ *
+ * @param userId - User to look up
+ */
+export async function getEntitlements(userId: string): Promise<Entitlements> {
+  const [usage, integrations] = await Promise.all([
+    loadUsage(userId),
+    prisma.integration.count({ where: { userId } }),
+  ]);
+  const { csvUploadsPerMonth, integrations: integrationLimit } = usage.limits;
+
+  return {
+    tier: usage.tier,
+    uploads: {
+      used: usage.used,
+      limit: csvUploadsPerMonth,
+      remaining: csvUploadsPerMonth === null ? null : Math.max(csvUploadsPerMonth - usage.used, 0),
+      resetsAt: usage.period.end.toISOString(),
+    },
+    integrations: {
+      used: integrations,
+      limit: integrationLimit,
+      remaining: integrationLimit === null ? null : Math.max(integrationLimit - integrations, 0),
+    },
+    scheduledSync: usage.limits.scheduledSync,
+  };
+}
+
+/**
+ * Checks that the user has an upload left, without using it
+ *
+ * Called before a file is received so an over-quota user is not made to
+ * upload a large file only to have it rejected.
+ *
+ * @returns null if allowed, otherwise the denial
+ */
+export async function checkUploadAllowed(userId: string): Promise<LimitExceeded | null> {
+  const { tier, used, period, limits } = await loadUsage(userId);
+  const limit = limits.csvUploadsPerMonth;
+
+  if (limit !== null && used >= limit) {
+    return uploadLimitExceeded(tier, limit, used, period.end);
+  }
+  return null;
+}
+
+/**
+ * Uses one upload from the user's quota
+ *
+ * The increment is conditional on the counter being below the limit, so
+ * two uploads racing for the last slot cannot both succeed.
+ *
+ * @returns null if an upload was used, otherwise the denial
+ */
+export async function consumeUpload(userId: string): Promise<LimitExceeded | null> {
+  const { tier, used, period, limits } = await loadUsage(userId);
+  const limit = limits.csvUploadsPerMonth;
+
+  const { count } = await prisma.subscription.updateMany({
+    where: {
+      userId,
+      ...(limit !== null ? { csvUploadsThisMonth: { lt: limit } } : {}),
+    },
+    data: { csvUploadsThisMonth: { increment: 1 } },
+  });
+
+  if (count === 0 && limit !== null) {
+    return uploadLimitExceeded(tier, limit, Math.max(used, limit), period.end);
+  }
+  return null;
+}
+
+/**
+ * Gives back an upload used by `consumeUpload` when the case could not be
+ * created after all
+ */
+export async function releaseUpload(userId: string): Promise<void> {
+  await prisma.subscription.updateMany({
+    where: { userId, csvUploadsThisMonth: { gt: 0 } },
+    data: { csvUploadsThisMonth: { decrement: 1 } },
+  });
+}
+
+/**
+ * Denial for a tier without integrations
+ */
+function integrationsNotIncluded(tier: SubscriptionTier, used: number): LimitExceeded {
+  return {
+    status: 403,
+    body: {
+      error: `Integrations are not included in the ${TIER_NAMES[tier]} plan. Upgrade to connect a data source.`,
+      code: "INTEGRATIONS_NOT_INCLUDED",
+      tier,
+      limit: 0,
+      used,
+      resetsAt: null,
+    },
+  };
+}
+
+/**
+ * Checks that the user may add another integration
+ *
+ * The count is only final inside the transaction that creates the
+ * integration, with the user row locked (see `createIntegration`); routes
+ * also call this up front to refuse early.
+ *
+ * @param db - Transaction to run in (defaults to the global client)
+ * @returns null if allowed, otherwise the denial
+ */
+export async function checkIntegrationAllowed(
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<LimitExceeded | null> {
+  const { tier, limits } = await loadUsage(userId, db);
+  const used = await db.integration.count({ where: { userId } });
+  const limit = limits.integrations;
+
+  if (limit === 0) {
+    return integrationsNotIncluded(tier, used);
+  }
+
+  if (limit !== null && used >= limit) {
+    return {
+      status: 402,
+      body: {
+        error: `Your ${TIER_NAMES[tier]} plan includes ${limit} integration${limit === 1 ? "" : "s"}. Upgrade to add more.`,
+        code: "INTEGRATION_LIMIT_REACHED",
+        tier,
+        limit,
+        used,
+        resetsAt: null,
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Checks that the user's plan still covers an existing integration
+ *
+ * Called before an integration takes in data (imports, syncs, webhooks).
+ * After a downgrade the user's oldest integrations, up to the new limit,
+ * keep working; the others stop until the user upgrades or deletes some.
+ *
+ * @returns null if allowed, otherwise the denial
+ */
+export async function checkIntegrationUsable(
+  userId: string,
+  integrationId: string
+): Promise<LimitExceeded | null> {
+  const { tier, limits } = await loadUsage(userId);
+  const limit = limits.integrations;
+  if (limit === null) return null;
+
+  const used = await prisma.integration.count({ where: { userId } });
+  if (limit === 0) {
+    return integrationsNotIncluded(tier, used);
+  }
+
+  const covered = await prisma.integration.findMany({
+    where: { userId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: limit,
+    select: { id: true },
+  });
+  if (covered.some((integration) => integration.id === integrationId)) return null;
+
+  return {
+    status: 402,
+    body: {
+      error: `Your ${TIER_NAMES[tier]} plan includes ${limit} integration${limit === 1 ? "" : "s"}. Upgrade or delete other integrations to use this one.`,
+      code: "INTEGRATION_LIMIT_REACHED",
+      tier,
+      limit,
+      used,
+      resetsAt: null,
+    },
+  };
+}
+
+/**
+ * Checks that the user's plan includes scheduled syncs
+ *
+ * Manual syncs only need an integration; schedules are a Pro feature.
+ *
+ * @returns null if allowed, otherwise the denial
+ */
+export async function checkScheduleAllowed(userId: string): Promise<LimitExceeded | null> {
+  const { tier, limits } = await loadUsage(userId);
+  if (limits.scheduledSync) return null;
+
+  return {
+    status: 403,
+    body: {
+      error: `Scheduled syncs are not included in the ${TIER_NAMES[tier]} plan. Upgrade to Pro to sync on a schedule.`,
+      code: "SCHEDULES_NOT_INCLUDED",
+      tier,
+      limit: 0,
+      used: 0,
+      resetsAt: null,
+    },
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * @fileoverview Integration Import Pipeline
+ *
+ * Turns the data behind an integration into a case, so database tables,
+ * queries and API endpoints go through the same analysis as uploaded CSV
+ * files:
+ * 1. `createCaseFromIntegration` (request): create the case in the PENDING
+ *    state with `Case.integrationId` set and queue analysis
+ * 2. `importCaseData` (worker, before analysis): read the records from the
+ *    source, stream them to storage as CSV, detect the column mapping and
+ *    set `Case.fileUrl`
+ * 3. The analysis runner reads the file like any upload
+ *
+ * Webhook integrations have no source to read; their buffered deliveries
+ * are written with `storeCaseRecords` (see inbound-webhooks.ts).
+ *
+ * Syncs (see lib/sync.ts) store the records themselves with
+ * `storeIntegrationRecords`, so they can read incrementally, and queue
+ * cases that already have their file.
+ *
+ * Reading happens in the worker because a large table takes longer than
+ * a request may. A job retried after the file was written reuses it, so
+ * every attempt analyzes the same data.
+ *
+ * Imports do not use the monthly upload quota; plans limit the number of
+ * integrations instead, and integrations over the limit cannot import.
+ */
+
+import { Readable } from "stream";
+import { Prisma, type Integration } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatCsvRow } from "@/lib/csv";
+import { SAMPLE_BYTES } from "@/lib/csv-format";
+import type { ColumnMapping, ColumnRoles } from "@/lib/column-mapping";
+import {
+  integrationColumnRoles,
+  readIntegrationRecords,
+  type WatermarkTracker,
+} from "@/lib/connectors";
+import { checkIntegrationUsable } from "@/lib/entitlements";
+import { getIntegrationCredentials } from "@/lib/integrations";
+import { enqueueAnalysis } from "@/lib/jobs";
+import { caseFileKey, getStorage } from "@/lib/storage";
+import { detectMapping, discardUpload, type StoredUpload } from "@/lib/uploads";
+import { integrationSchemas } from "@/lib/validations/integration";
+import type { ImportCaseInput } from "@/lib/validations/case";
+
+/**
+ * Outcome of starting an import: the created case, or an error with its HTTP status
+ */
+export type ImportResult =
+  | { ok: true; case: { id: string; name: string; status: string; integrationId: string } }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Records of an integration written to a case's file
+ */
+export interface StoredRecords {
+  fileUrl: string;
+  mapping: ColumnMapping;
+  rows: number;
+}
+
+/**
+ * Rows collected before a chunk is handed to storage
+ */
+const ROWS_PER_CHUNK = 500;
+
+/**
+ * Formats a value read from a source as CSV cell text
+ *
+ * Dates are written as ISO 8601, which the date detection recognizes.
+ */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString("base64");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Creates a case that imports an integration's data, and queues it
+ *
+ * @param userId - Owner of the integration and the new case
+ * @param integrationId - Integration to import from
+ * @param input - Validated case name, description and modules
+ */
+export async function createCaseFromIntegration(
+  userId: string,
+  integrationId: string,
+  input: ImportCaseInput
+): Promise<ImportResult> {
+  const integration = await prisma.integration.findFirst({
+    where: { id: integrationId, userId },
+  });
+
+  if (!integration) {
+    return { ok: false, status: 404, error: "Integration not found" };
+  }
+  if (!integration.isActive) {
+    return { ok: false, status: 400, error: "Integration is disabled" };
+  }
+
+  const denied = await checkIntegrationUsable(userId, integration.id);
+  if (denied) {
+    return { ok: false, status: denied.status, error: denied.body.error };
+  }
+
+  if (integration.type === "WEBHOOK") {
+    return {
+      ok: false,
+      status: 400,
+      error: "Webhook integrations receive their data and cannot be imported",
+    };
+  }
+  // API integrations import their endpoint; SQL ones need a table or query
+  if (integration.type === "SQL") {
+    const config = integrationSchemas.SQL.config.safeParse(integration.config);
+    if (!config.success || !config.data.source) {
+      return {
+        ok: false,
+        status: 400,
+        error: "Choose a table or query to import in the integration's settings",
+      };
+    }
+  }
+
+  const newCase = await prisma.case.create({
+    data: {
+      name: input.name,
+      description: input.description || null,
+      integrationId: integration.id,
+      userId,
+    },
+  });
+
+  try {
+    await enqueueAnalysis(newCase.id, input.modules);
+  } catch (error) {
+    // Roll back the case so no case without queued analysis remains
+    await prisma.case.delete({ where: { id: newCase.id } }).catch(() => undefined);
+    throw error;
+  }
+
+  return {
+    ok: true,
+    case: { id: newCase.id, name: newCase.name, status: "PENDING", integrationId: integration.id },
+  };
+}
+
+/**
+ * Writes records to a case's file as CSV
+ *
+ * Streams the records to storage, detects the column mapping and sets the
+ * case's `fileUrl` and `columnMapping`. The header comes from the first
+ * record; keys later records lack become empty cells.
+ *
+ * @param userId - Owner of the case
+ * @param caseId - Case the file belongs to
+ * @param fileName - Name of the file
+ * @param records - Records to write
+ * @param roles - Columns the records map explicitly (null detects them)
+ * @returns The stored file, or null if there were no records (nothing is stored)
+ */
+export async function storeCaseRecords(
+  userId: string,
+  caseId: string,
+  fileName: string,
+  records: AsyncIterable<Record<string, unknown>>,
+  roles: ColumnRoles | null
+): Promise<StoredRecords | null> {
+  // Filled in while the CSV is written
+  const stats = { rows: 0, size: 0 };
+  const sample: Buffer[] = [];
+  let sampled = 0;
+
+  const emit = (text: string): Buffer => {
+    const chunk = Buffer.from(text, "utf-8");
+    stats.size += chunk.length;
+    if (sampled < SAMPLE_BYTES) {
+      const part = chunk.subarray(0, SAMPLE_BYTES - sampled);
+      sample.push(part);
+      sampled += part.length;
+    }
+    return chunk;
+  };
+
+  /**
+   * Writes the records as CSV, a chunk of rows at a time
+   */
+  async function* csvChunks(): AsyncGenerator<Buffer> {
+    let columns: string[] | null = null;
+    let text = "";
+    let pending = 0;
+
+    for await (const record of records) {
+      if (!columns) {
+        columns = Object.keys(record);
+        text += formatCsvRow(columns);
+      }
+      text += formatCsvRow(columns.map((column) => cellText(record[column])));
+      stats.rows++;
+
+      if (++pending >= ROWS_PER_CHUNK) {
+        yield emit(text);
+        text = "";
+        pending = 0;
+      }
+    }
+    if (text) yield emit(text);
+  }
+
+  const url = await getStorage().put(
+    caseFileKey(userId, caseId, fileName),
+    Readable.from(csvChunks()),
+    "text/csv"
+  );
+  const file: StoredUpload = { url, fileName, size: stats.size, sample: Buffer.concat(sample) };
+
+  if (stats.rows === 0) {
+    await discardUpload(file);
+    return null;
+  }
+
+  try {
+    const detected = await detectMapping(userId, file);
+    // Columns the source maps explicitly need no guessing
+    const mapping = roles ? { ...detected, roles } : detected;
+    await prisma.case.update({
+      where: { id: caseId },
+      data: { fileUrl: url, columnMapping: mapping as unknown as Prisma.InputJsonValue },
+    });
+    return { fileUrl: url, mapping, rows: stats.rows };
+  } catch (error) {
+    await discardUpload(file);
+    throw error;
+  }
+}
+
+/**
+ * Reads an integration's records into a case's file
+ *
+ * Throws if the source cannot be read.
+ *
+ * @param userId - Owner of the case
+ * @param caseId - Case the file belongs to
+ * @param integration - Integration to read from
+ * @param watermark - For incremental syncs: reads only newer records
+ * @returns The stored file, or null if there were no records (nothing is stored)
+ */
+export async function storeIntegrationRecords(
+  userId: string,
+  caseId: string,
+  integration: Integration,
+  watermark?: WatermarkTracker
+): Promise<StoredRecords | null> {
+  const records = readIntegrationRecords(
+    integration.type,
+    integration.config,
+    getIntegrationCredentials(integration),
+    integration.userId,
+    watermark
+  );
+
+  return storeCaseRecords(
+    userId,
+    caseId,
+    `${integration.name}.csv`,
+    records,
+    integrationColumnRoles(integration.type, integration.config)
+  );
+}
+
+/**
+ * Reads an imported case's data into storage
+ *
+ * Called by the analysis runner for cases that have an integration but
+ * no file yet. Throws if the source cannot be read; the job queue then
+ * retries later.
+ *
+ * @param caseId - Case to import data for
+ * @returns The stored file's URL and the detected column mapping
+ */
+export async function importCaseData(
+  caseId: string
+): Promise<{ fileUrl: string; mapping: ColumnMapping }> {
+  const caseItem = await prisma.case.findUnique({
+    where: { id: caseId },
+    select: { userId: true, integration: true },
+  });
+
+  if (!caseItem?.integration) {
+    throw new Error("The integration this case imports from no longer exists");
+  }
+
+  const stored = await storeIntegrationRecords(caseItem.userId, caseId, caseItem.integration);
+  if (!stored) {
+    throw new Error("The integration's table or query returned no rows");
+  }
+  return { fileUrl: stored.fileUrl, mapping: stored.mapping };
+}
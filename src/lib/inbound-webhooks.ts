@@ -0,0 +1,560 @@
+/**
+ * @fileoverview Inbound Webhooks
+ *
+ * WEBHOOK integrations receive records instead of reading them: senders
+ * POST batches to the integration's inbound URL (/api/ingest/:id).
+ *
+ * 1. `receiveDelivery` (request): checks the body size, verifies the HMAC
+ *    signature and timestamp (see signatures.ts), refuses replays of an
+ *    accepted signature, parses the JSON or NDJSON batch and buffers its
+ *    records in the integration's open window
+ * 2. A window stays open for the integration's `windowMinutes` after its
+ *    first record (or until it holds `IMPORT_MAX_ROWS` records)
+ * 3. The worker claims windows that are due (`claimDueWindow`) and turns
+ *    each into a case analyzed with the integration's modules
+ *    (`closeWindow`); the buffered records are then deleted
+ *
+ * Every delivery is recorded, accepted or rejected with its reason, so
+ * the Integrations page can show what senders are doing. Deliveries are
+ * kept for `DELIVERY_RETENTION_MS`. Rejections are recorded up to
+ * `RECORDED_REJECTIONS` per hour and integration: the inbound URL is
+ * public, so unsigned requests must not be able to fill the table.
+ */
+
+import { Prisma, type DeliveryStatus, type WindowStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { deleteCase } from "@/lib/cases";
+import { IMPORT_MAX_ROWS, integrationColumnRoles } from "@/lib/connectors";
+import { createRowMapper, selectRecords, type ApiRecord } from "@/lib/connectors/api/records";
+import { storeCaseRecords } from "@/lib/imports";
+import { getIntegrationCredentials } from "@/lib/integrations";
+import { enqueueAnalysis } from "@/lib/jobs";
+import { checkIntegrationUsable } from "@/lib/entitlements";
+import { verifySignature } from "@/lib/signatures";
+import { webhookConfigSchema } from "@/lib/validations/integration";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * Largest accepted delivery body (default 5 MB)
+ */
+export const MAX_DELIVERY_BYTES = Number(process.env.WEBHOOK_MAX_BYTES) || 5 * 1024 * 1024;
+
+/**
+ * Most records accepted in one delivery
+ */
+const MAX_DELIVERY_RECORDS = 10_000;
+
+/**
+ * How long deliveries are kept for the history (and replay checks)
+ */
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Rejected deliveries recorded per integration within the last
+ * `REJECTION_WINDOW_MS`; later ones are still answered with their reason
+ * but not recorded
+ */
+const RECORDED_REJECTIONS = 50;
+const REJECTION_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * How long a worker may take to close a window before another may retry
+ */
+const CLOSE_LEASE_MS = 30 * 60 * 1000;
+
+/**
+ * Attempts to turn a window into a case before it is marked FAILED
+ */
+const MAX_CLOSE_ATTEMPTS = 3;
+
+/**
+ * Delay before the first retry of a window; doubles with every attempt
+ */
+const CLOSE_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Buffered records read from the database at a time when closing a window
+ */
+const RECORDS_PER_READ = 1000;
+
+/**
+ * Outcome of a delivery: how many records were buffered, or why it was rejected
+ */
+export type DeliveryResult =
+  | { ok: true; accepted: number; windowId: string | null }
+  | { ok: false; status: number; error: string };
+
+/**
+ * A window claimed by a worker
+ */
+export interface ClaimedWindow {
+  id: string;
+  integrationId: string;
+  attempts: number;
+}
+
+/**
+ * A delivery as returned by the API
+ */
+export interface DeliveryView {
+  id: string;
+  status: DeliveryStatus;
+  receivedAt: Date;
+  records: number;
+  bytes: number;
+  reason: string | null;
+  windowId: string | null;
+}
+
+/**
+ * A window as returned by the API
+ */
+export interface WindowView {
+  id: string;
+  status: WindowStatus;
+  openedAt: Date;
+  closesAt: Date;
+  closedAt: Date | null;
+  records: number;
+  error: string | null;
+  caseId: string | null;
+}
+
+const isRecord = (value: unknown): value is ApiRecord =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Reads a request body, giving up once it is larger than the limit
+ *
+ * @returns The body, or null if it is too large
+ */
+async function readBody(request: Request): Promise<Buffer | null> {
+  if (Number(request.headers.get("content-length")) > MAX_DELIVERY_BYTES) return null;
+  if (!request.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_DELIVERY_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Parses the records of a delivery
+ *
+ * JSON bodies may be an array of records, an object holding them (found
+ * with the records path or detected, as for API responses) or a single
+ * record. NDJSON bodies (`application/x-ndjson`, `application/jsonl`)
+ * hold one record per line. Without a JSON content type, the body is
+ * read as JSON if it parses and as NDJSON otherwise.
+ *
+ * @returns The records, or why the body cannot be read
+ */
+function parseDelivery(
+  body: Buffer,
+  contentType: string,
+  recordsPath: string | undefined
+): { ok: true; records: ApiRecord[] } | { ok: false; error: string } {
+  const text = body.toString("utf-8");
+  const ndjson = /ndjson|jsonl|json-seq/i.test(contentType);
+
+  if (!ndjson) {
+    let value: unknown;
+    let parsed = true;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      if (/json/i.test(contentType)) return { ok: false, error: "The body is not valid JSON" };
+      parsed = false;
+    }
+
+    if (parsed) {
+      const found = selectRecords(value, recordsPath);
+      if (found) return { ok: true, records: found.records };
+      if (!recordsPath && isRecord(value)) return { ok: true, records: [value] };
+      return {
+        ok: false,
+        error: recordsPath
+          ? `${recordsPath} matches no records in the body`
+          : "The body contains no records",
+      };
+    }
+  }
+
+  const records: ApiRecord[] = [];
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      return { ok: false, error: `Line ${i + 1} is not valid JSON` };
+    }
+    if (!isRecord(value)) return { ok: false, error: `Line ${i + 1} is not a JSON object` };
+    records.push(value);
+  }
+  return { ok: true, records };
+}
+
+/**
+ * Deletes an integration's deliveries that are past the retention period
+ */
+async function pruneDeliveries(integrationId: string): Promise<void> {
+  await prisma.webhookDelivery.deleteMany({
+    where: {
+      integrationId,
+      receivedAt: { lt: new Date(Date.now() - DELIVERY_RETENTION_MS) },
+    },
+  });
+}
+
+/**
+ * Verifies a delivery to a webhook integration and buffers its records
+ *
+ * Unknown integrations get a 404 and are not recorded; every other
+ * delivery is recorded, with the reason when it is rejected (up to
+ * `RECORDED_REJECTIONS` rejections per hour).
+ *
+ * @param integrationId - Integration from the inbound URL
+ * @param request - The delivery request (the body is read here)
+ */
+export async function receiveDelivery(
+  integrationId: string,
+  request: Request
+): Promise<DeliveryResult> {
+  const integration = await prisma.integration.findUnique({ where: { id: integrationId } });
+
+  if (!integration || integration.type !== "WEBHOOK") {
+    return { ok: false, status: 404, error: "Not found" };
+  }
+
+  const reject = async (status: number, reason: string, bytes = 0): Promise<DeliveryResult> => {
+    const recorded = await prisma.webhookDelivery.count({
+      where: {
+        integrationId: integration.id,
+        status: "REJECTED",
+        receivedAt: { gt: new Date(Date.now() - REJECTION_WINDOW_MS) },
+      },
+    });
+    if (recorded < RECORDED_REJECTIONS) {
+      await prisma.webhookDelivery.create({
+        data: { integrationId: integration.id, status: "REJECTED", reason, bytes },
+      });
+      await pruneDeliveries(integration.id);
+    }
+    return { ok: false, status, error: reason };
+  };
+
+  if (!integration.isActive) {
+    return reject(403, "The integration is disabled");
+  }
+
+  const denied = await checkIntegrationUsable(integration.userId, integration.id);
+  if (denied) {
+    return reject(denied.status, denied.body.error);
+  }
+
+  const body = await readBody(request);
+  if (!body) {
+    return reject(413, `The body is larger than ${MAX_DELIVERY_BYTES / 1024 / 1024} MB`);
+  }
+
+  const { signingSecret } = getIntegrationCredentials(integration);
+  if (!signingSecret) {
+    return reject(401, "The integration has no signing secret", body.length);
+  }
+
+  const check = verifySignature(signingSecret, request.headers, body);
+  if (!check.ok) {
+    return reject(401, check.reason, body.length);
+  }
+
+  const config = webhookConfigSchema.safeParse(integration.config);
+  if (!config.success) {
+    return reject(500, `Invalid integration settings: ${firstIssue(config.error)}`, body.length);
+  }
+
+  const parsed = parseDelivery(
+    body,
+    request.headers.get("content-type") ?? "",
+    config.data.recordsPath
+  );
+  if (!parsed.ok) {
+    return reject(400, parsed.error, body.length);
+  }
+  if (parsed.records.length > MAX_DELIVERY_RECORDS) {
+    return reject(
+      413,
+      `The delivery has ${parsed.records.length} records; send at most ${MAX_DELIVERY_RECORDS} at a time`,
+      body.length
+    );
+  }
+
+  const mapRow = createRowMapper(config.data.fields);
+  const rows = parsed.records.map(mapRow);
+
+  let windowId: string | null = null;
+  try {
+    windowId = await prisma.$transaction(async (tx) => {
+      // One delivery per integration at a time, so concurrent deliveries share a window
+      await tx.$queryRaw`SELECT "id" FROM "integrations" WHERE "id" = ${integration.id} FOR UPDATE`;
+
+      // The signature is unique per integration: a replay fails here
+      const delivery = await tx.webhookDelivery.create({
+        data: {
+          integrationId: integration.id,
+          status: "ACCEPTED",
+          signature: check.signature,
+          records: rows.length,
+          bytes: body.length,
+        },
+      });
+
+      if (rows.length === 0) return null;
+
+      const now = new Date();
+      let window = await tx.webhookWindow.findFirst({
+        where: { integrationId: integration.id, status: "OPEN", closesAt: { gt: now } },
+        orderBy: { openedAt: "desc" },
+      });
+
+      // A full window closes now and the records start a new one
+      if (window && window.records + rows.length > IMPORT_MAX_ROWS) {
+        await tx.webhookWindow.update({ where: { id: window.id }, data: { closesAt: now } });
+        window = null;
+      }
+      if (!window) {
+        window = await tx.webhookWindow.create({
+          data: {
+            integrationId: integration.id,
+            closesAt: new Date(now.getTime() + config.data.windowMinutes * 60 * 1000),
+          },
+        });
+      }
+
+      await tx.webhookRecord.createMany({
+        data: rows.map((row) => ({
+          windowId: window.id,
+          data: row as Prisma.InputJsonValue,
+        })),
+      });
+      await tx.webhookWindow.update({
+        where: { id: window.id },
+        data: { records: { increment: rows.length } },
+      });
+      await tx.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { windowId: window.id },
+      });
+
+      return window.id;
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return reject(409, "This delivery was already received (replayed signature)", body.length);
+    }
+    throw error;
+  }
+
+  await pruneDeliveries(integration.id);
+  return { ok: true, accepted: rows.length, windowId };
+}
+
+/**
+ * Lists a user's webhook integration's recent deliveries and windows, newest first
+ *
+ * @returns The history, or null if the integration does not exist or belongs to someone else
+ */
+export async function listDeliveries(
+  userId: string,
+  integrationId: string
+): Promise<{ deliveries: DeliveryView[]; windows: WindowView[] } | null> {
+  const integration = await prisma.integration.findFirst({
+    where: { id: integrationId, userId, type: "WEBHOOK" },
+    select: { id: true },
+  });
+
+  if (!integration) return null;
+
+  const [deliveries, windows] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where: { integrationId: integration.id },
+      orderBy: { receivedAt: "desc" },
+      take: 50,
+      select: {
+        id: true,
+        status: true,
+        receivedAt: true,
+        records: true,
+        bytes: true,
+        reason: true,
+        windowId: true,
+      },
+    }),
+    prisma.webhookWindow.findMany({
+      where: { integrationId: integration.id },
+      orderBy: { openedAt: "desc" },
+      take: 10,
+      select: {
+        id: true,
+        status: true,
+        openedAt: true,
+        closesAt: true,
+        closedAt: true,
+        records: true,
+        error: true,
+        caseId: true,
+      },
+    }),
+  ]);
+
+  return { deliveries, windows };
+}
+
+/**
+ * Claims the next window that is due to be analyzed
+ *
+ * Open windows are due when they end; windows being closed are due again
+ * when their retry time or a stopped worker's lease has passed.
+ *
+ * @returns The claimed window, or null if none is due
+ */
+export async function claimDueWindow(): Promise<ClaimedWindow | null> {
+  const leaseUntil = new Date(Date.now() + CLOSE_LEASE_MS);
+
+  const [window] = await prisma.$queryRaw<ClaimedWindow[]>`
+    UPDATE "webhook_windows"
+    SET "status" = 'CLOSING',
+        "attempts" = "attempts" + 1,
+        "closesAt" = ${leaseUntil}
+    WHERE "id" = (
+      SELECT "id" FROM "webhook_windows"
+      WHERE "status" IN ('OPEN', 'CLOSING') AND "closesAt" <= NOW()
+      ORDER BY "closesAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id", "integrationId", "attempts"
+  `;
+
+  return window ?? null;
+}
+
+/**
+ * Reads a window's buffered records in insertion order, a page at a time
+ */
+async function* bufferedRecords(windowId: string): AsyncGenerator<Record<string, unknown>> {
+  let after: bigint | null = null;
+
+  for (;;) {
+    const rows: { id: bigint; data: Prisma.JsonValue }[] = await prisma.webhookRecord.findMany({
+      where: { windowId, ...(after !== null ? { id: { gt: after } } : {}) },
+      orderBy: { id: "asc" },
+      take: RECORDS_PER_READ,
+      select: { id: true, data: true },
+    });
+
+    for (const row of rows) yield row.data as Record<string, unknown>;
+    if (rows.length < RECORDS_PER_READ) return;
+    after = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * Turns a claimed window into a case and queues its analysis
+ *
+ * Never throws for a failing window: it is retried with backoff and
+ * marked FAILED after `MAX_CLOSE_ATTEMPTS`.
+ *
+ * @param claimed - Window returned by `claimDueWindow`
+ */
+export async function closeWindow(claimed: ClaimedWindow): Promise<void> {
+  const window = await prisma.webhookWindow.findUnique({
+    where: { id: claimed.id },
+    include: { integration: true },
+  });
+
+  // Deleted with its integration since the claim
+  if (!window) return;
+
+  const { integration } = window;
+  const closedAt = new Date();
+  let caseId: string | null = null;
+
+  try {
+    const config = webhookConfigSchema.safeParse(integration.config);
+    if (!config.success) {
+      throw new Error(`Invalid integration settings: ${firstIssue(config.error)}`);
+    }
+
+    // Records buffered before a downgrade don't become a case either
+    const denied = await checkIntegrationUsable(integration.userId, integration.id);
+    if (denied) throw new Error(denied.body.error);
+
+    const newCase = await prisma.case.create({
+      data: {
+        name: `${integration.name} ${window.openedAt.toISOString().slice(0, 16).replace("T", " ")} UTC`,
+        description: `Webhook deliveries received from ${window.openedAt.toISOString()} to ${closedAt.toISOString()}`,
+        integrationId: integration.id,
+        userId: integration.userId,
+      },
+    });
+    caseId = newCase.id;
+
+    const stored = await storeCaseRecords(
+      integration.userId,
+      newCase.id,
+      `${integration.name}.csv`,
+      bufferedRecords(window.id),
+      integrationColumnRoles(integration.type, integration.config)
+    );
+
+    if (stored) {
+      await enqueueAnalysis(newCase.id, config.data.modules);
+    } else {
+      await prisma.case.delete({ where: { id: newCase.id } });
+      caseId = null;
+    }
+
+    await prisma.$transaction([
+      prisma.webhookWindow.update({
+        where: { id: window.id },
+        data: { status: "CLOSED", closedAt, caseId, error: null },
+      }),
+      prisma.webhookRecord.deleteMany({ where: { windowId: window.id } }),
+    ]);
+  } catch (error) {
+    console.error(`Closing webhook window ${window.id} failed:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+
+    // Remove the half-made case (and its file) so only analyzable cases remain
+    if (caseId) await deleteCase(integration.userId, caseId).catch(() => undefined);
+
+    if (claimed.attempts >= MAX_CLOSE_ATTEMPTS) {
+      await prisma.$transaction([
+        prisma.webhookWindow.update({
+          where: { id: window.id },
+          data: { status: "FAILED", closedAt, error: reason },
+        }),
+        prisma.webhookRecord.deleteMany({ where: { windowId: window.id } }),
+      ]);
+    } else {
+      const delay = CLOSE_RETRY_DELAY_MS * 2 ** (claimed.attempts - 1);
+      await prisma.webhookWindow.update({
+        where: { id: window.id },
+        data: { error: reason, closesAt: new Date(Date.now() + delay) },
+      });
+    }
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * @fileoverview Integration Data Access
+ *
+ * Database queries for external data integrations. Like the case queries,
+ * every function takes the owning user's id and scopes its query to it.
+ *
+ * Credentials are kept out of `Integration.config`. Each one is sealed on
+ * its own (see secrets.ts) and stored in `Integration.secrets` keyed by
+ * field name. Functions that return integrations to callers only report
+ * which secret fields are set, never their values; connectors get the
+ * decrypted values through `getIntegrationCredentials`.
+ */
+
+import { Prisma, type Integration } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkIntegrationAllowed, type LimitExceeded } from "@/lib/entitlements";
+import { testConnection, type ConnectionTestResult } from "@/lib/connectors";
+import { openSecret, rewrapSecret, sealSecret, type SealedSecret } from "@/lib/secrets";
+import {
+  integrationSchemas,
+  missingCredential,
+  type CreateIntegrationInput,
+  type TestIntegrationInput,
+  type UpdateIntegrationInput,
+} from "@/lib/validations/integration";
+import { firstIssue } from "@/lib/validations/common";
+
+/**
+ * Sealed credentials as stored in `Integration.secrets`
+ */
+type StoredSecrets = Record<string, SealedSecret>;
+
+/**
+ * Integration as returned by the API
+ */
+export interface IntegrationView {
+  id: string;
+  name: string;
+  type: Integration["type"];
+  config: Record<string, unknown>;
+  isActive: boolean;
+  /** Cron expression of scheduled syncs (null = manual only) */
+  schedule: string | null;
+  syncModules: string[];
+  nextSyncAt: Date | null;
+  syncRequestedAt: Date | null;
+  lastSyncedAt: Date | null;
+  /** Highest value synced so far (incremental syncs) */
+  watermark: string | null;
+  /** Names of the credentials that are saved (their values are never returned) */
+  secretFields: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Outcome of a create or update: the integration, or an error with its HTTP status
+ */
+export type IntegrationResult =
+  | { ok: true; integration: IntegrationView }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Outcome of creating an integration: the integration, or the plan limit
+ * that stopped it
+ */
+export type CreateIntegrationResult =
+  | { ok: true; integration: IntegrationView }
+  | { ok: false; denied: LimitExceeded };
+
+/**
+ * Outcome of a connection test request: the test result (which may itself
+ * report a failed connection), or an error with its HTTP status
+ */
+export type TestOutcome =
+  | { ok: true; result: ConnectionTestResult }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Strips the credentials from a database row
+ */
+function toView({ secrets, userId: _userId, ...rest }: Integration): IntegrationView {
+  return {
+    ...rest,
+    config: rest.config as Record<string, unknown>,
+    secretFields: Object.keys((secrets as StoredSecrets | null) ?? {}).sort(),
+  };
+}
+
+/**
+ * What a saved watermark was read from: the source and its incremental field
+ *
+ * When this changes, the watermark says nothing about the new source and
+ * the next sync starts over.
+ */
+function watermarkBasis(config: unknown): string {
+  const { url, engine, host, database, source, incremental } = (config ?? {}) as Record<string, unknown>;
+  return JSON.stringify([url, engine, host, database, source, incremental]);
+}
+
+/**
+ * Seals every credential that has a value
+ */
+function sealAll(values: Record<string, string | undefined>): StoredSecrets {
+  const sealed: StoredSecrets = {};
+  for (const [field, value] of Object.entries(values)) {
+    if (value) sealed[field] = sealSecret(value);
+  }
+  return sealed;
+}
+
+/**
+ * Lists a user's integrations, newest first
+ */
+export async function listIntegrations(userId: string): Promise<IntegrationView[]> {
+  const rows = await prisma.integration.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map(toView);
+}
+
+/**
+ * Gets a single integration
+ *
+ * @returns The integration, or null if it does not exist or belongs to someone else
+ */
+export async function getIntegration(
+  userId: string,
+  integrationId: string
+): Promise<IntegrationView | null> {
+  const row = await prisma.integration.findFirst({ where: { id: integrationId, userId } });
+  return row ? toView(row) : null;
+}
+
+/**
+ * Creates an integration, encrypting its credentials
+ *
+ * The user's integration limit is checked in the same transaction, with
+ * the user row locked, so concurrent requests can't exceed it.
+ */
+export async function createIntegration(
+  userId: string,
+  input: CreateIntegrationInput
+): Promise<CreateIntegrationResult> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "users" WHERE "id" = ${userId} FOR UPDATE`;
+
+    const denied = await checkIntegrationAllowed(userId, tx);
+    if (denied) {
+      return { ok: false as const, denied };
+    }
+
+    const row = await tx.integration.create({
+      data: {
+        name: input.name,
+        type: input.type,
+        config: input.config as Prisma.InputJsonValue,
+        secrets: sealAll(input.secrets) as unknown as Prisma.InputJsonValue,
+        userId,
+      },
+    });
+    return { ok: true as const, integration: toView(row) };
+  });
+}
+
+/**
+ * Updates an integration's name, active flag, settings or credentials
+ *
+ * New settings are validated against the integration's type. Credentials
+ * are merged: only the fields present in `input.secrets` change.
+ */
+export async function updateIntegration(
+  userId: string,
+  integrationId: string,
+  input: UpdateIntegrationInput
+): Promise<IntegrationResult> {
+  const existing = await prisma.integration.findFirst({ where: { id: integrationId, userId } });
+
+  if (!existing) {
+    return { ok: false, status: 404, error: "Integration not found" };
+  }
+
+  const schemas = integrationSchemas[existing.type];
+  const data: Prisma.IntegrationUpdateInput = {};
+
+  if (input.name !== undefined) data.name = input.name;
+  if (input.isActive !== undefined) data.isActive = input.isActive;
+
+  let config: unknown = existing.config;
+  if (input.config !== undefined) {
+    const parsed = schemas.config.safeParse(input.config);
+    if (!parsed.success) {
+      return { ok: false, status: 400, error: `config.${firstIssue(parsed.error)}` };
+    }
+    config = parsed.data;
+    data.config = parsed.data as Prisma.InputJsonValue;
+
+    if (watermarkBasis(parsed.data) !== watermarkBasis(existing.config)) {
+      data.watermark = null;
+    }
+  }
+
+  const secrets: StoredSecrets = { ...((existing.secrets as StoredSecrets | null) ?? {}) };
+  if (input.secrets !== undefined) {
+    const allowed = Object.keys(schemas.secrets.shape);
+
+    for (const [field, value] of Object.entries(input.secrets)) {
+      if (!allowed.includes(field)) {
+        return { ok: false, status: 400, error: `secrets.${field}: Unknown credential` };
+      }
+      if (value === null) {
+        delete secrets[field];
+      } else {
+        secrets[field] = sealSecret(value);
+      }
+    }
+
+    data.secrets = secrets as unknown as Prisma.InputJsonValue;
+  }
+
+  // Removing a required credential (e.g. a SQL password), or switching to
+  // settings that need one that is not saved, is not allowed
+  const missing = missingCredential(existing.type, config, Object.keys(secrets));
+  if (missing) {
+    return { ok: false, status: 400, error: `secrets.${missing.field}: ${missing.message}` };
+  }
+
+  const row = await prisma.integration.update({ where: { id: existing.id }, data });
+  return { ok: true, integration: toView(row) };
+}
+
+/**
+ * Deletes an integration
+ *
+ * @returns True if an integration was deleted
+ */
+export async function deleteIntegration(userId: string, integrationId: string): Promise<boolean> {
+  const { count } = await prisma.integration.deleteMany({
+    where: { id: integrationId, userId },
+  });
+  return count > 0;
+}
+
+/**
+ * Decrypts an integration's credentials for a connector
+ *
+ * Server-side only; the result must never be sent to the browser.
+ */
+export function getIntegrationCredentials(
+  integration: Pick<Integration, "secrets">
+): Record<string, string> {
+  const sealed = (integration.secrets as StoredSecrets | null) ?? {};
+  return Object.fromEntries(
+    Object.entries(sealed).map(([field, secret]) => [field, openSecret<string>(secret)])
+  );
+}
+
+/**
+ * Tests the connection of a saved integration
+ */
+export async function testSavedIntegration(
+  userId: string,
+  integrationId: string
+): Promise<TestOutcome> {
+  const row = await prisma.integration.findFirst({ where: { id: integrationId, userId } });
+
+  if (!row) {
+    return { ok: false, status: 404, error: "Integration not found" };
+  }
+
+  const result = await testConnection(
+    row.type,
+    row.config,
+    getIntegrationCredentials(row),
+    row.userId
+  );
+  return { ok: true, result };
+}
+
+/**
+ * Tests settings entered in the integration form before they are saved
+ *
+ * When editing, credentials that were left blank are taken from the saved
+ * integration, so the user does not have to type the password again.
+ */
+export async function testIntegrationSettings(
+  userId: string,
+  input: TestIntegrationInput
+): Promise<TestOutcome> {
+  let saved: Record<string, string> = {};
+
+  if (input.integrationId) {
+    const row = await prisma.integration.findFirst({
+      where: { id: input.integrationId, userId },
+    });
+    if (!row) {
+      return { ok: false, status: 404, error: "Integration not found" };
+    }
+    if (row.type !== input.type) {
+      return { ok: false, status: 400, error: "The integration type cannot be changed" };
+    }
+    saved = getIntegrationCredentials(row);
+  }
+
+  const secrets: Record<string, string> = { ...saved };
+  for (const [field, value] of Object.entries(input.secrets)) {
+    if (value) secrets[field] = value;
+  }
+
+  const result = await testConnection(input.type, input.config, secrets, userId);
+  return { ok: true, result };
+}
+
+/**
+ * Re-wraps every integration credential with the current master key
+ *
+ * Run after putting a new key first in `SECRETS_MASTER_KEYS`; once it
+ * finishes, the old key can be removed.
+ *
+ * @returns How many integrations were checked and how many were updated
+ */
+export async function rotateIntegrationSecrets(): Promise<{ scanned: number; updated: number }> {
+  let scanned = 0;
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = await prisma.integration.findMany({
+      where: { secrets: { not: Prisma.DbNull } },
+      select: { id: true, secrets: true },
+      orderBy: { id: "asc" },
+      take: 100,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      scanned++;
+      const secrets = { ...(row.secrets as unknown as StoredSecrets) };
+      let changed = false;
+
+      for (const [field, secret] of Object.entries(secrets)) {
+        const rewrapped = rewrapSecret(secret);
+        if (rewrapped) {
+          secrets[field] = rewrapped;
+          changed = true;
+        }
+      }
+
+      if (changed) {
+        await prisma.integration.update({
+          where: { id: row.id },
+          data: { secrets: secrets as unknown as Prisma.InputJsonValue },
+        });
+        updated++;
+      }
+    }
+
+    cursor = rows[rows.length - 1].id;
+  }
+
+  return { scanned, updated };
+}
@@ -0,0 +1,314 @@
+/**
+ * @fileoverview Analysis Job Queue
+ *
+ * Persistent queue for case analysis, stored in the `analysis_jobs` table.
+ * Uploads call `enqueueAnalysis` instead of running the modules inline,
+ * because large files cannot be analyzed within a single request.
+ *
+ * Case status transitions driven by the queue:
+ *
+ *   PENDING --claim--> PROCESSING --success--> COMPLETED
+ *      ^                   |
+ *      +---retry (backoff)-+--last attempt--> FAILED (with Case.error)
+ *
+ * Jobs are claimed with `FOR UPDATE SKIP LOCKED`, so several worker
+ * processes can share the queue without running a job twice. A running
+ * job's worker refreshes its lock (`heartbeatJob`, and with every progress
+ * update); a job whose lock goes stale is assumed to belong to a crashed
+ * worker and is claimed again, or marked FAILED when it has no attempts
+ * left. Updates from a worker that lost its lock this way, its results
+ * included, are ignored.
+ *
+ * The transitions queue the case's outbound webhook events (see
+ * outbound-webhooks.ts) in the same transaction: case.created with the
+ * first job, case.completed (and anomaly.high_risk when high-risk items
+ * were found) and case.failed.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { AnalysisModuleId } from "@/lib/analysis/types";
+import type { AnalysisOutcome, AnalysisProgress } from "@/lib/analysis/runner";
+import { saveCaseResults } from "@/lib/analysis";
+import { summarizeResults } from "@/lib/analysis/summary";
+import { caseEventData, queueEvent } from "@/lib/outbound-webhooks";
+
+/**
+ * Attempts per job before the case is marked FAILED
+ */
+const MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 3;
+
+/**
+ * Delay before the first retry; doubles with every further attempt
+ */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/**
+ * Upper bound on the retry delay
+ */
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * A RUNNING job whose lock has not been refreshed within this time is
+ * assumed to belong to a crashed worker and may be claimed again
+ */
+const STALE_LOCK_MS = 30 * 60 * 1000;
+
+/**
+ * How often a worker refreshes the lock of the job it is running
+ */
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Failure reason for a job whose worker crashed on its last attempt
+ */
+const ABANDONED_REASON = "The worker stopped responding while analyzing the case";
+
+/**
+ * Job fields the worker needs after claiming
+ */
+export interface ClaimedJob {
+  id: string;
+  caseId: string;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string;
+}
+
+/**
+ * Filter matching a job only while it is still held by the given claim
+ *
+ * `attempts` changes with every claim, so a worker whose stale job was
+ * claimed again (even by itself) no longer matches.
+ */
+function heldBy(job: ClaimedJob) {
+  return {
+    id: job.id,
+    status: "RUNNING" as const,
+    lockedBy: job.lockedBy,
+    attempts: job.attempts,
+  };
+}
+
+/**
+ * Queues a case for analysis with the given modules
+ *
+ * The case is (re)set to PENDING. If the case already has a queued or
+ * running job, no second job is created.
+ *
+ * @param caseId - Case to analyze
+ * @param modules - Modules selected by the user
+ */
+export async function enqueueAnalysis(
+  caseId: string,
+  modules: AnalysisModuleId[]
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const updated = await tx.case.update({
+      where: { id: caseId },
+      data: { status: "PENDING", modules, error: null },
+    });
+
+    const active = await tx.analysisJob.findFirst({
+      where: { caseId, status: { in: ["QUEUED", "RUNNING"] } },
+      select: { id: true },
+    });
+
+    if (!active) {
+      const isNew = (await tx.analysisJob.count({ where: { caseId } })) === 0;
+      await tx.analysisJob.create({
+        data: { caseId, maxAttempts: MAX_ATTEMPTS },
+      });
+      if (isNew) {
+        await queueEvent(tx, updated.userId, "case.created", caseEventData(updated));
+      }
+    }
+  });
+}
+
+/**
+ * Claims the next runnable job and moves its case to PROCESSING
+ *
+ * @param workerId - Identifier of the claiming worker (for debugging)
+ * @returns The claimed job, or null if the queue is empty
+ */
+export async function claimNextJob(workerId: string): Promise<ClaimedJob | null> {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+
+  await failAbandonedJobs(staleBefore);
+
+  const [job] = await prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE "analysis_jobs"
+    SET "status" = 'RUNNING',
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "attempts" = "attempts" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "analysis_jobs"
+      WHERE ("status" = 'QUEUED' AND "runAt" <= NOW())
+         OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore}
+             AND "attempts" < "maxAttempts")
+      ORDER BY "runAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id", "caseId", "attempts", "maxAttempts", "lockedBy"
+  `;
+
+  if (!job) return null;
+
+  await prisma.case.update({
+    where: { id: job.caseId },
+    data: { status: "PROCESSING" },
+  });
+
+  return job;
+}
+
+/**
+ * Marks stale jobs that have used up their attempts as FAILED
+ *
+ * Their worker crashed (ran out of memory, was killed) on the last
+ * attempt; claiming them again would crash the next worker the same way.
+ */
+async function failAbandonedJobs(staleBefore: Date): Promise<void> {
+  const abandoned = await prisma.analysisJob.findMany({
+    where: {
+      status: "RUNNING",
+      lockedAt: { lt: staleBefore },
+      attempts: { gte: prisma.analysisJob.fields.maxAttempts },
+    },
+    select: { id: true, caseId: true, attempts: true, maxAttempts: true, lockedBy: true },
+    take: 10,
+  });
+
+  for (const job of abandoned) {
+    await failJob({ ...job, lockedBy: job.lockedBy ?? "" }, ABANDONED_REASON, false);
+  }
+}
+
+/**
+ * Refreshes the lock of a running job so it is not taken for abandoned
+ *
+ * @returns False if the job is no longer held by this claim
+ */
+export async function heartbeatJob(job: ClaimedJob): Promise<boolean> {
+  const { count } = await prisma.analysisJob.updateMany({
+    where: heldBy(job),
+    data: { lockedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Stores per-module progress for a running job and refreshes its lock
+ */
+export async function updateJobProgress(
+  job: ClaimedJob,
+  progress: AnalysisProgress
+): Promise<void> {
+  await prisma.analysisJob.updateMany({
+    where: heldBy(job),
+    data: { progress: progress as Prisma.InputJsonValue, lockedAt: new Date() },
+  });
+}
+
+/**
+ * Saves a run's results, marks its job as succeeded and its case as
+ * COMPLETED
+ *
+ * Does nothing if the job is no longer held by this claim, so a stale run
+ * cannot overwrite the results of the run that took its job over.
+ */
+export async function completeJob(job: ClaimedJob, outcome: AnalysisOutcome): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.analysisJob.updateMany({
+      where: heldBy(job),
+      data: { status: "SUCCEEDED", lockedAt: null, lockedBy: null },
+    });
+    if (count === 0) return;
+
+    await saveCaseResults(job.caseId, outcome.results, outcome.ingestion, tx);
+
+    const completed = await tx.case.update({
+      where: { id: job.caseId },
+      data: { status: "COMPLETED", error: null },
+    });
+
+    const data = caseEventData(completed);
+    await queueEvent(tx, completed.userId, "case.completed", data);
+    if (summarizeResults(completed.results).highRiskItems > 0) {
+      await queueEvent(tx, completed.userId, "anomaly.high_risk", data);
+    }
+  });
+}
+
+/**
+ * Records a failed attempt
+ *
+ * Retryable failures are rescheduled with exponential backoff until the
+ * job runs out of attempts; then (or immediately when `retryable` is
+ * false) the case is marked FAILED with the error as its reason. Does
+ * nothing if the job is no longer held by this claim.
+ *
+ * @param job - The job that failed
+ * @param reason - Error message to store
+ * @param retryable - Whether another attempt could succeed
+ * @param outcome - Run whose modules all failed, saved with the failure
+ */
+export async function failJob(
+  job: ClaimedJob,
+  reason: string,
+  retryable = true,
+  outcome?: AnalysisOutcome
+): Promise<void> {
+  if (retryable && job.attempts < job.maxAttempts) {
+    const delay = Math.min(
+      RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1),
+      RETRY_MAX_DELAY_MS
+    );
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.analysisJob.updateMany({
+        where: heldBy(job),
+        data: {
+          status: "QUEUED",
+          runAt: new Date(Date.now() + delay),
+          lockedAt: null,
+          lockedBy: null,
+          lastError: reason,
+        },
+      });
+      if (count === 0) return;
+
+      await tx.case.update({
+        where: { id: job.caseId },
+        data: { status: "PENDING" },
+      });
+    });
+    return;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.analysisJob.updateMany({
+      where: heldBy(job),
+      data: { status: "FAILED", lockedAt: null, lockedBy: null, lastError: reason },
+    });
+    if (count === 0) return;
+
+    if (outcome) {
+      await saveCaseResults(job.caseId, outcome.results, outcome.ingestion, tx);
+    }
+
+    const failed = await tx.case.update({
+      where: { id: job.caseId },
+      data: { status: "FAILED", error: reason },
+    });
+
+    await queueEvent(tx, failed.userId, "case.failed", {
+      ...caseEventData(failed),
+      error: reason,
+    });
+  });
+}
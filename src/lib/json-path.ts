@@ -0,0 +1,134 @@
+/**
+ * @fileoverview JSONPath Selectors
+ *
+ * A small subset of JSONPath for pointing at data inside API responses:
+ * - `$` the document (optional at the start)
+ * - `.name` or `['name']` a property
+ * - `[0]` an array element (negative indexes count from the end)
+ * - `[*]` or `.*` every element or property value
+ *
+ * Examples: `$.data.items`, `results[*].transactions`, `meta['next-cursor']`.
+ * Filters, slices and recursive descent are not supported.
+ *
+ * No server dependencies, so forms validate selectors the same way the
+ * connectors read them.
+ */
+
+/**
+ * One step of a parsed selector
+ */
+export type JsonPathSegment =
+  | { kind: "property"; name: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" };
+
+/**
+ * Longest selector accepted
+ */
+const MAX_PATH_LENGTH = 500;
+
+/**
+ * Parses a selector
+ *
+ * @param path - Selector such as `$.data[*].amount`
+ * @returns The segments in order
+ * @throws Error describing the first problem if the selector is invalid
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const text = path.trim();
+  if (text.length > MAX_PATH_LENGTH) throw new Error("The path is too long");
+
+  const segments: JsonPathSegment[] = [];
+  let i = text.startsWith("$") ? 1 : 0;
+
+  // A bare leading name ("data.items") reads like ".data.items"
+  if (i === 0 && text && text[0] !== "." && text[0] !== "[") {
+    const name = text.match(/^[^.[\]]+/)![0];
+    segments.push({ kind: "property", name });
+    i = name.length;
+  }
+
+  while (i < text.length) {
+    if (text[i] === ".") {
+      const rest = text.slice(i + 1);
+      if (rest.startsWith("*")) {
+        segments.push({ kind: "wildcard" });
+        i += 2;
+        continue;
+      }
+      const name = rest.match(/^[^.[\]*]+/)?.[0];
+      if (!name) throw new Error(`Expected a property name after "." at position ${i + 1}`);
+      segments.push({ kind: "property", name });
+      i += 1 + name.length;
+      continue;
+    }
+
+    if (text[i] === "[") {
+      const bracket = text.slice(i).match(/^\[\s*(\*|-?\d+|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\]/);
+      if (!bracket) throw new Error(`Invalid bracket expression at position ${i + 1}`);
+
+      if (bracket[1] === "*") {
+        segments.push({ kind: "wildcard" });
+      } else if (bracket[2] !== undefined || bracket[3] !== undefined) {
+        const quoted = bracket[2] ?? bracket[3];
+        segments.push({ kind: "property", name: quoted.replace(/\\(.)/g, "$1") });
+      } else {
+        segments.push({ kind: "index", index: Number(bracket[1]) });
+      }
+      i += bracket[0].length;
+      continue;
+    }
+
+    throw new Error(`Unexpected "${text[i]}" at position ${i + 1}`);
+  }
+
+  return segments;
+}
+
+/**
+ * Explains why a selector is invalid
+ *
+ * @returns The problem, or null if the selector can be used
+ */
+export function jsonPathIssue(path: string): string | null {
+  try {
+    parseJsonPath(path);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid path";
+  }
+}
+
+/**
+ * Returns every value a selector matches
+ *
+ * Missing properties and out-of-range indexes match nothing rather than
+ * failing, so a selector can be applied to records of varying shape.
+ *
+ * @param value - Parsed JSON document
+ * @param path - Selector, as a string or already parsed
+ */
+export function selectJsonPath(value: unknown, path: string | JsonPathSegment[]): unknown[] {
+  const segments = typeof path === "string" ? parseJsonPath(path) : path;
+  let current: unknown[] = [value];
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+    for (const item of current) {
+      if (item === null || typeof item !== "object") continue;
+
+      if (segment.kind === "wildcard") {
+        next.push(...(Array.isArray(item) ? item : Object.values(item)));
+      } else if (segment.kind === "index") {
+        if (!Array.isArray(item)) continue;
+        const index = segment.index < 0 ? item.length + segment.index : segment.index;
+        if (index >= 0 && index < item.length) next.push(item[index]);
+      } else if (!Array.isArray(item) && Object.hasOwn(item, segment.name)) {
+        next.push((item as Record<string, unknown>)[segment.name]);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Access Token Verification
+ *
+ * The parts of authentication that run in the middleware (Edge runtime):
+ * the JWT signing key, the cookie names, and reading an access token.
+ * Only `jose` is used here; the database checks that complete a sign-in
+ * (is the session still signed in?) live in auth.ts and run in the route
+ * handlers.
+ */
+
+import { jwtVerify } from "jose";
+
+/**
+ * Secret key for signing JWTs
+ * IMPORTANT: In production, use a strong, randomly generated secret
+ * stored in environment variables
+ */
+export const JWT_SECRET = new TextEncoder().encode(
+  process.env.JWT_SECRET || "your-secret-key-change-in-production"
+);
+
+/**
+ * Cookie names for the access and refresh tokens
+ */
+export const AUTH_COOKIE = "auth-token";
+export const REFRESH_COOKIE = "refresh-token";
+
+/**
+ * Claims of a valid access token
+ */
+export interface AccessTokenClaims {
+  userId: string;
+  email: string;
+  /** Session the token belongs to (`jti`) */
+  sessionId: string;
+}
+
+/**
+ * Checks an access token's signature and expiry
+ *
+ * This does not tell whether its session was signed out since; route
+ * handlers check that with `verifyToken` (auth.ts).
+ *
+ * @param token - The JWT token string to verify
+ * @returns Its claims if valid, null if invalid, expired, or not an access token
+ */
+export async function readAccessToken(token: string): Promise<AccessTokenClaims | null> {
+  try {
+    const { payload } = await jwtVerify(token, JWT_SECRET);
+    if (
+      typeof payload.userId !== "string" ||
+      typeof payload.email !== "string" ||
+      !payload.jti
+    ) {
+      return null;
+    }
+    return { userId: payload.userId, email: payload.email, sessionId: payload.jti };
+  } catch (error) {
+    // Token is invalid, expired, or tampered with
+    return null;
+  }
+}
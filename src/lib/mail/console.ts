@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Console Mail Transport
+ *
+ * Prints messages to the server log instead of sending them, so links in
+ * account emails can be followed on a development machine without any
+ * mail setup. Not meant for production: nothing reaches the recipient.
+ */
+
+import type { MailMessage, MailTransport } from "./index";
+
+export class ConsoleTransport implements MailTransport {
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      [
+        "--- Email (MAIL_TRANSPORT=console, not sent) ---",
+        `From: ${this.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text,
+        "--- End of email ---",
+      ].join("\n")
+    );
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Outgoing Email
+ *
+ * Mail abstraction for account emails such as password resets. The rest of
+ * the app only talks to the `MailTransport` interface; which transport is
+ * used is a configuration change:
+ *
+ * - MAIL_TRANSPORT="smtp": sent through SMTP_HOST (the default when
+ *   SMTP_HOST is set). In development, point it at a local catcher such as
+ *   Mailpit (SMTP_HOST="localhost", SMTP_PORT="1025").
+ * - MAIL_TRANSPORT="console": printed to the server log instead of sent
+ *   (the default when SMTP_HOST is not set)
+ *
+ * Messages are sent from SMTP_FROM.
+ */
+
+import { ConsoleTransport } from "./console";
+import { SmtpTransport } from "./smtp";
+
+/**
+ * An email to send
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  /** Plain-text body */
+  text: string;
+  /** Optional HTML body, shown instead of the text by most mail clients */
+  html?: string;
+}
+
+/**
+ * Common interface implemented by every mail transport
+ */
+export interface MailTransport {
+  /**
+   * Sends a message; rejects when the transport could not accept it
+   */
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Sender used when SMTP_FROM is not set
+ */
+const DEFAULT_FROM = "Fraudlr <noreply@fraudlr.com>";
+
+/**
+ * Cached transport instance (configuration does not change at runtime)
+ */
+let transport: MailTransport | undefined;
+
+/**
+ * Returns the configured mail transport
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const from = process.env.SMTP_FROM || DEFAULT_FROM;
+    const driver = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+
+    transport = driver === "smtp" ? new SmtpTransport(from) : new ConsoleTransport(from);
+  }
+  return transport;
+}
+
+/**
+ * Sends an email through the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview SMTP Mail Transport
+ *
+ * Sends messages through an SMTP server: a mail provider in production, or
+ * a local catcher such as Mailpit or MailHog in development.
+ *
+ * Environment variables:
+ * - SMTP_HOST (required)
+ * - SMTP_PORT (default 587; port 465 connects with TLS straight away,
+ *   other ports upgrade with STARTTLS when the server offers it)
+ * - SMTP_USER / SMTP_PASSWORD (optional; local catchers need none)
+ */
+
+import nodemailer, { type Transporter } from "nodemailer";
+import type { MailMessage, MailTransport } from "./index";
+
+/**
+ * How long to wait for the server at each step (milliseconds)
+ */
+const SMTP_TIMEOUT_MS = 10_000;
+
+export class SmtpTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly from: string) {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error("SMTP_HOST must be set when MAIL_TRANSPORT is smtp");
+    }
+
+    const port = Number(process.env.SMTP_PORT) || 587;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD ?? "" }
+        : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
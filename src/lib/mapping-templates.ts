@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Column Mapping Template Data Access
+ *
+ * Saved column mappings, private to each user. A template stores the
+ * normalized header row it was created for; uploads whose headers match
+ * get the template's mapping applied automatically.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { normalizeHeaders, type ColumnMapping } from "@/lib/column-mapping";
+import type { CreateMappingTemplateInput } from "@/lib/validations/mapping";
+
+/**
+ * Fields returned for templates
+ */
+const templateSelect = {
+  id: true,
+  name: true,
+  headers: true,
+  mapping: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.MappingTemplateSelect;
+
+type TemplateRow = Prisma.MappingTemplateGetPayload<{ select: typeof templateSelect }>;
+
+/**
+ * Converts a database row into a template with a typed mapping
+ */
+function toTemplate({ mapping, ...rest }: TemplateRow) {
+  return { ...rest, mapping: mapping as unknown as ColumnMapping };
+}
+
+export type MappingTemplate = ReturnType<typeof toTemplate>;
+
+/**
+ * Lists a user's templates, most recently updated first
+ */
+export async function listMappingTemplates(userId: string): Promise<MappingTemplate[]> {
+  const rows = await prisma.mappingTemplate.findMany({
+    where: { userId },
+    select: templateSelect,
+    orderBy: { updatedAt: "desc" },
+  });
+  return rows.map(toTemplate);
+}
+
+/**
+ * Saves a template, replacing an existing template with the same name
+ *
+ * @param userId - Owner of the template
+ * @param input - Validated name, headers and mapping
+ */
+export async function saveMappingTemplate(
+  userId: string,
+  input: CreateMappingTemplateInput
+): Promise<MappingTemplate> {
+  const data = {
+    headers: normalizeHeaders(input.headers),
+    mapping: input.mapping as unknown as Prisma.InputJsonValue,
+  };
+
+  const row = await prisma.mappingTemplate.upsert({
+    where: { userId_name: { userId, name: input.name } },
+    create: { ...data, name: input.name, userId },
+    update: data,
+    select: templateSelect,
+  });
+  return toTemplate(row);
+}
+
+/**
+ * Deletes a template
+ *
+ * @returns False if the template does not exist or belongs to someone else
+ */
+export async function deleteMappingTemplate(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.mappingTemplate.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
+
+/**
+ * Finds the user's most recently updated template for a header row
+ *
+ * @param userId - Owner of the templates
+ * @param headers - Header row of the uploaded file
+ * @returns The matching template, or null
+ */
+export async function findMatchingTemplate(
+  userId: string,
+  headers: string[]
+): Promise<MappingTemplate | null> {
+  const row = await prisma.mappingTemplate.findFirst({
+    where: { userId, headers: { equals: normalizeHeaders(headers) } },
+    select: templateSelect,
+    orderBy: { updatedAt: "desc" },
+  });
+  return row ? toTemplate(row) : null;
+}
@@ -0,0 +1,465 @@
+/**
+ * @fileoverview Two-Factor Authentication
+ *
+ * Users can protect their account with an authenticator app (TOTP, see
+ * totp.ts). Turning it on takes two steps: setup creates a secret, shown
+ * as a QR code and as text, and enabling confirms it with a first code.
+ * The secret is only stored sealed with the master key (see secrets.ts).
+ *
+ * Once it is on, signing in needs a code after the password (see the
+ * login route): the password only earns a short-lived challenge cookie,
+ * and the session starts when a code is verified. A code from the app
+ * works once; a recovery code can be used instead, each one once. Ten
+ * recovery codes are created when MFA is turned on and shown only then;
+ * only their hashes are stored.
+ *
+ * Turning MFA off needs the password and a code again. Wrong codes are
+ * rate limited per user.
+ *
+ * MFA can be required, for every account (`MFA_REQUIRED=true`) or for
+ * chosen ones (`User.mfaRequired`, set with `npm run mfa:require`). A user
+ * who must use MFA but has not set it up gets the challenge cookie at
+ * login and sets it up before the session starts, and can't turn it off.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import QRCode from "qrcode";
+import { prisma } from "@/lib/prisma";
+import { comparePasswords } from "@/lib/auth";
+import { consumeRateLimit } from "@/lib/rate-limit";
+import { openSecret, rewrapSecret, sealSecret, type SealedSecret } from "@/lib/secrets";
+import { generateTotpSecret, totpUri, verifyTotp } from "@/lib/totp";
+
+/**
+ * Name shown for the account in authenticator apps
+ */
+const TOTP_ISSUER = "Fraudlr";
+
+/**
+ * Recovery codes created at a time
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Whether every account must use MFA
+ */
+const MFA_REQUIRED_FOR_ALL = process.env.MFA_REQUIRED === "true";
+
+/**
+ * Code checks allowed per user, per window
+ */
+const ATTEMPTS_PER_USER = 5;
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * MFA state of an account, as shown in Settings
+ */
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesLeft: number;
+  /** MFA can't be turned off */
+  required: boolean;
+}
+
+/**
+ * Outcome of starting setup: the secret to add to an authenticator app
+ */
+export type MfaSetupResult =
+  | { ok: true; secret: string; otpauthUrl: string; qrCode: string }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Outcome of enabling MFA or replacing the recovery codes: the new codes,
+ * shown this once
+ */
+export type RecoveryCodesResult =
+  | { ok: true; recoveryCodes: string[] }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Outcome of checking a code
+ */
+export type MfaVerifyResult =
+  | { ok: true; usedRecoveryCode: boolean }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Accounts to change with `setMfaRequired`
+ */
+export type MfaRequirementTarget = { all: true } | { emails: string[] };
+
+/**
+ * Outcome of turning MFA off
+ */
+export type DisableMfaResult = { ok: true } | { ok: false; status: number; error: string };
+
+const INVALID_CODE = { ok: false, status: 400, error: "Invalid authentication code" } as const;
+
+const TOO_MANY_ATTEMPTS = {
+  ok: false,
+  status: 429,
+  error: "Too many attempts. Please try again later.",
+} as const;
+
+/**
+ * SHA-256 of a recovery code, ignoring case, spaces and dashes
+ */
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * New recovery codes such as "k3p9x-7mwq2"
+ */
+function newRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = randomBytes(10)
+      .toString("base64url")
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, "")
+      .padEnd(10, "0")
+      .slice(0, 10);
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+/**
+ * Replaces a user's recovery codes inside a transaction
+ */
+async function replaceRecoveryCodes(
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<string[]> {
+  const codes = newRecoveryCodes();
+  await tx.mfaRecoveryCode.deleteMany({ where: { userId } });
+  await tx.mfaRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+  });
+  return codes;
+}
+
+/**
+ * Counts a code check against the user's limit
+ *
+ * @returns True if the check may go ahead
+ */
+async function allowAttempt(userId: string): Promise<boolean> {
+  const limit = await consumeRateLimit(`mfa:user:${userId}`, ATTEMPTS_PER_USER, ATTEMPT_WINDOW_MS);
+  return limit.ok;
+}
+
+/**
+ * Accepts an authenticator code once
+ *
+ * The step of the code is remembered, so the same code (or an older one)
+ * can't be used again, even within its 30 seconds.
+ */
+async function acceptTotp(userId: string, sealed: Prisma.JsonValue, code: string): Promise<boolean> {
+  const secret = openSecret<string>(sealed as unknown as SealedSecret);
+  const step = verifyTotp(secret, code);
+  if (step === null) return false;
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, OR: [{ mfaLastStep: null }, { mfaLastStep: { lt: step } }] },
+    data: { mfaLastStep: step },
+  });
+  return count > 0;
+}
+
+/**
+ * Uses up a recovery code
+ */
+async function acceptRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const { count } = await prisma.mfaRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Whether a user must use MFA
+ */
+export function isMfaRequired(user: { mfaRequired: boolean }): boolean {
+  return MFA_REQUIRED_FOR_ALL || user.mfaRequired;
+}
+
+/**
+ * Returns whether a user has MFA on, and their unused recovery codes
+ */
+export async function getMfaStatus(userId: string): Promise<MfaStatus> {
+  const [user, recoveryCodesLeft] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { mfaEnabledAt: true, mfaRequired: true },
+    }),
+    prisma.mfaRecoveryCode.count({ where: { userId, usedAt: null } }),
+  ]);
+
+  return {
+    enabled: Boolean(user?.mfaEnabledAt),
+    enabledAt: user?.mfaEnabledAt ?? null,
+    recoveryCodesLeft,
+    required: user ? isMfaRequired(user) : MFA_REQUIRED_FOR_ALL,
+  };
+}
+
+/**
+ * Whether signing in as a user needs a second factor
+ */
+export async function isMfaEnabled(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { mfaEnabledAt: true },
+  });
+  return Boolean(user?.mfaEnabledAt);
+}
+
+/**
+ * Creates a secret for the user to add to their authenticator app
+ *
+ * Calling it again replaces a secret that was not confirmed yet.
+ */
+export async function startMfaSetup(userId: string): Promise<MfaSetupResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, mfaEnabledAt: true },
+  });
+  if (!user) {
+    return { ok: false, status: 404, error: "User not found" };
+  }
+  if (user.mfaEnabledAt) {
+    return { ok: false, status: 400, error: "Two-factor authentication is already on" };
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { mfaPendingSecret: sealSecret(secret) as unknown as Prisma.InputJsonValue },
+  });
+
+  const otpauthUrl = totpUri(secret, user.email, TOTP_ISSUER);
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+
+  return { ok: true, secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Turns MFA on once a code from the app confirms the new secret
+ *
+ * @returns The recovery codes, shown this once
+ */
+export async function enableMfa(userId: string, code: string): Promise<RecoveryCodesResult> {
+  if (!(await allowAttempt(userId))) return TOO_MANY_ATTEMPTS;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { mfaEnabledAt: true, mfaPendingSecret: true },
+  });
+  if (!user) {
+    return { ok: false, status: 404, error: "User not found" };
+  }
+  if (user.mfaEnabledAt) {
+    return { ok: false, status: 400, error: "Two-factor authentication is already on" };
+  }
+  if (!user.mfaPendingSecret) {
+    return { ok: false, status: 400, error: "Start the setup first" };
+  }
+
+  const secret = openSecret<string>(user.mfaPendingSecret as unknown as SealedSecret);
+  const step = verifyTotp(secret, code);
+  if (step === null) return INVALID_CODE;
+
+  const recoveryCodes = await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        mfaSecret: user.mfaPendingSecret as Prisma.InputJsonValue,
+        mfaPendingSecret: Prisma.DbNull,
+        mfaEnabledAt: new Date(),
+        mfaLastStep: step,
+      },
+    });
+    return replaceRecoveryCodes(tx, userId);
+  });
+
+  return { ok: true, recoveryCodes };
+}
+
+/**
+ * Checks a code from the authenticator app, or a recovery code
+ *
+ * @param userId - User signing in or confirming an action
+ * @param code - Six-digit app code, or a recovery code
+ */
+export async function verifyMfaCode(userId: string, code: string): Promise<MfaVerifyResult> {
+  if (!(await allowAttempt(userId))) return TOO_MANY_ATTEMPTS;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { mfaEnabledAt: true, mfaSecret: true },
+  });
+  if (!user?.mfaEnabledAt || !user.mfaSecret) {
+    return { ok: false, status: 400, error: "Two-factor authentication is not on" };
+  }
+
+  if (/^\d[\d\s]*$/.test(code.trim())) {
+    return (await acceptTotp(userId, user.mfaSecret, code))
+      ? { ok: true, usedRecoveryCode: false }
+      : INVALID_CODE;
+  }
+
+  return (await acceptRecoveryCode(userId, code))
+    ? { ok: true, usedRecoveryCode: true }
+    : INVALID_CODE;
+}
+
+/**
+ * Replaces the recovery codes (the old ones stop working)
+ *
+ * @param code - Current app code or an unused recovery code
+ */
+export async function regenerateRecoveryCodes(
+  userId: string,
+  code: string
+): Promise<RecoveryCodesResult> {
+  const check = await verifyMfaCode(userId, code);
+  if (!check.ok) return check;
+
+  const recoveryCodes = await prisma.$transaction((tx) => replaceRecoveryCodes(tx, userId));
+  return { ok: true, recoveryCodes };
+}
+
+/**
+ * Turns MFA off after the user proves who they are again
+ *
+ * @param password - Current password
+ * @param code - Current app code or an unused recovery code
+ */
+export async function disableMfa(
+  userId: string,
+  password: string,
+  code: string
+): Promise<DisableMfaResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { password: true, mfaRequired: true },
+  });
+  if (!user) {
+    return { ok: false, status: 404, error: "User not found" };
+  }
+  if (isMfaRequired(user)) {
+    return {
+      ok: false,
+      status: 403,
+      error: "Two-factor authentication is required for your account",
+    };
+  }
+  if (!(await comparePasswords(password, user.password))) {
+    return { ok: false, status: 400, error: "Password is incorrect" };
+  }
+
+  const check = await verifyMfaCode(userId, code);
+  if (!check.ok) return check;
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaSecret: Prisma.DbNull,
+        mfaPendingSecret: Prisma.DbNull,
+        mfaEnabledAt: null,
+        mfaLastStep: null,
+      },
+    }),
+    prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+
+  return { ok: true };
+}
+
+/**
+ * Requires MFA for some or all accounts, or stops requiring it
+ *
+ * Accounts that must now use MFA but have not set it up are signed out
+ * everywhere, so they set it up at their next login. Used by
+ * `npm run mfa:require`.
+ *
+ * @returns Accounts changed, and how many of them were signed out
+ */
+export async function setMfaRequired(
+  target: MfaRequirementTarget,
+  required: boolean
+): Promise<{ updated: number; signedOut: number }> {
+  const where: Prisma.UserWhereInput =
+    "all" in target ? {} : { email: { in: target.emails.map((email) => email.toLowerCase()) } };
+
+  return prisma.$transaction(async (tx) => {
+    const { count: updated } = await tx.user.updateMany({
+      where,
+      data: { mfaRequired: required },
+    });
+
+    let signedOut = 0;
+    if (required) {
+      const users = await tx.user.findMany({
+        where: { ...where, mfaEnabledAt: null, sessions: { some: {} } },
+        select: { id: true },
+      });
+      await tx.session.deleteMany({
+        where: { userId: { in: users.map((user) => user.id) } },
+      });
+      signedOut = users.length;
+    }
+
+    return { updated, signedOut };
+  });
+}
+
+/**
+ * Re-wraps every stored TOTP secret with the current master key
+ *
+ * Used by `npm run secrets:rotate`.
+ */
+export async function rotateMfaSecrets(): Promise<{ scanned: number; updated: number }> {
+  let scanned = 0;
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = await prisma.user.findMany({
+      where: {
+        OR: [{ mfaSecret: { not: Prisma.DbNull } }, { mfaPendingSecret: { not: Prisma.DbNull } }],
+      },
+      select: { id: true, mfaSecret: true, mfaPendingSecret: true },
+      orderBy: { id: "asc" },
+      take: 100,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      scanned++;
+      const secret = row.mfaSecret && rewrapSecret(row.mfaSecret as unknown as SealedSecret);
+      const pending =
+        row.mfaPendingSecret && rewrapSecret(row.mfaPendingSecret as unknown as SealedSecret);
+      if (secret || pending) {
+        await prisma.user.update({
+          where: { id: row.id },
+          data: {
+            ...(secret ? { mfaSecret: secret as unknown as Prisma.InputJsonValue } : {}),
+            ...(pending ? { mfaPendingSecret: pending as unknown as Prisma.InputJsonValue } : {}),
+          },
+        });
+        updated++;
+      }
+    }
+
+    cursor = rows[rows.length - 1].id;
+  }
+
+  return { scanned, updated };
+}
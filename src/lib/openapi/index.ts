@@ -0,0 +1,305 @@
+/**
+ * @fileoverview OpenAPI Document for the Public API (v1)
+ *
+ * Describes /api/v1 as an OpenAPI 3.1 document, served at
+ * /api/v1/openapi.json and rendered on the /docs page. Each operation
+ * below points at the zod schemas its route handler parses requests with
+ * and types its responses by, so the document is generated from the same
+ * definitions as the behavior. A new v1 endpoint adds its entry to
+ * `V1_OPERATIONS`.
+ *
+ * Every operation authenticates with a bearer API key; the scope it
+ * requires is listed in its security requirement and description.
+ */
+
+import { z } from "zod";
+import type { ApiKeyScope } from "@/lib/validations/api-key";
+import { createIntegrationSchema } from "@/lib/validations/integration";
+import {
+  v1AnalyzeSchema,
+  v1CaseDetailSchema,
+  v1CaseListSchema,
+  v1CaseSchema,
+  v1ErrorSchema,
+  v1IntegrationSchema,
+  v1ListCasesQuerySchema,
+} from "@/lib/validations/v1";
+import { zodToJsonSchema, type JsonSchema } from "./json-schema";
+
+/**
+ * A documented response: its description and body schema, if any
+ */
+interface V1Response {
+  description: string;
+  schema?: z.ZodTypeAny;
+}
+
+/**
+ * One endpoint of the public API
+ */
+export interface V1Operation {
+  method: "get" | "post";
+  /** Path under /api/v1, with `{param}` placeholders */
+  path: string;
+  operationId: string;
+  summary: string;
+  description: string;
+  scope: ApiKeyScope;
+  pathParams?: { name: string; description: string }[];
+  query?: z.AnyZodObject;
+  body?:
+    | { type: "json"; schema: z.ZodTypeAny }
+    // File fields are parsed from the stream, outside the schema
+    | { type: "multipart"; schema: z.AnyZodObject; files: Record<string, string> };
+  responses: Record<number, V1Response>;
+}
+
+/**
+ * Response schemas listed under `components.schemas` and referenced by name
+ */
+const COMPONENT_SCHEMAS = new Map<z.ZodTypeAny, string>([
+  [v1ErrorSchema, "Error"],
+  [v1CaseSchema, "Case"],
+  [v1CaseDetailSchema, "CaseDetail"],
+  [v1CaseListSchema, "CaseList"],
+  [v1IntegrationSchema, "Integration"],
+]);
+
+/**
+ * Single resources are returned as `{ data: ... }`
+ */
+function dataOf(schema: z.ZodTypeAny) {
+  return z.object({ data: schema });
+}
+
+/**
+ * Errors every operation can return
+ */
+const COMMON_ERRORS: Record<number, V1Response> = {
+  401: { description: "Missing, unknown or expired API key", schema: v1ErrorSchema },
+  403: { description: "The API key does not have the required scope", schema: v1ErrorSchema },
+  500: { description: "Unexpected server error", schema: v1ErrorSchema },
+};
+
+/**
+ * The endpoints of the public API
+ */
+export const V1_OPERATIONS: V1Operation[] = [
+  {
+    method: "post",
+    path: "/analyze",
+    operationId: "analyzeFile",
+    summary: "Upload and analyze a CSV file for fraud detection",
+    description:
+      "Uploads a CSV and queues its analysis. Responds with the PENDING case; " +
+      "poll GET /cases/{id} for the results. Counts towards the monthly upload quota.",
+    scope: "cases:write",
+    body: {
+      type: "multipart",
+      schema: v1AnalyzeSchema,
+      files: { file: "CSV file to analyze" },
+    },
+    responses: {
+      202: { description: "The case, queued for analysis", schema: dataOf(v1CaseSchema) },
+      400: { description: "Missing file or invalid fields", schema: v1ErrorSchema },
+      402: { description: "Monthly upload quota reached", schema: v1ErrorSchema },
+      413: { description: "File exceeds the upload limit", schema: v1ErrorSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/cases",
+    operationId: "listCases",
+    summary: "Retrieve all analysis cases for the authenticated user",
+    description: "Lists cases a page at a time, newest first unless `order` says otherwise.",
+    scope: "cases:read",
+    query: v1ListCasesQuerySchema,
+    responses: {
+      200: { description: "A page of cases", schema: v1CaseListSchema },
+      400: { description: "Invalid query parameters", schema: v1ErrorSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/cases/{id}",
+    operationId: "getCase",
+    summary: "Get detailed results for a specific case",
+    description: "Returns the case with its analysis job and, once completed, its results.",
+    scope: "cases:read",
+    pathParams: [{ name: "id", description: "Case ID" }],
+    responses: {
+      200: { description: "The case", schema: dataOf(v1CaseDetailSchema) },
+      404: { description: "No such case", schema: v1ErrorSchema },
+    },
+  },
+  {
+    method: "post",
+    path: "/integrations",
+    operationId: "createIntegration",
+    summary: "Create a new data integration (API, SQL or webhook)",
+    description:
+      "Creates an integration. `config` and `secrets` depend on `type`; " +
+      "credentials are stored encrypted and never returned.",
+    scope: "integrations:manage",
+    body: { type: "json", schema: createIntegrationSchema },
+    responses: {
+      201: { description: "The integration", schema: dataOf(v1IntegrationSchema) },
+      400: { description: "Invalid body", schema: v1ErrorSchema },
+      402: { description: "Integration limit of the plan reached", schema: v1ErrorSchema },
+      403: {
+        description: "Missing scope, or integrations are not included in the plan",
+        schema: v1ErrorSchema,
+      },
+    },
+  },
+];
+
+/**
+ * JSON Schema of a request part (what clients send)
+ */
+function requestSchema(schema: z.ZodTypeAny): JsonSchema {
+  return zodToJsonSchema(schema, { io: "input", refs: COMPONENT_SCHEMAS });
+}
+
+/**
+ * The request body object of an operation
+ */
+function requestBody(body: NonNullable<V1Operation["body"]>) {
+  if (body.type === "json") {
+    return {
+      required: true,
+      content: { "application/json": { schema: requestSchema(body.schema) } },
+    };
+  }
+
+  const fields = requestSchema(body.schema);
+  const properties = { ...(fields.properties as Record<string, JsonSchema>) };
+  const required = [...((fields.required as string[] | undefined) ?? [])];
+  for (const [name, description] of Object.entries(body.files)) {
+    properties[name] = { type: "string", format: "binary", description };
+    required.unshift(name);
+  }
+
+  return {
+    required: true,
+    content: { "multipart/form-data": { schema: { type: "object", properties, required } } },
+  };
+}
+
+/**
+ * The parameters of an operation, from its path and query schema
+ */
+function parameters(operation: V1Operation) {
+  const path = (operation.pathParams ?? []).map((param) => ({
+    name: param.name,
+    in: "path",
+    required: true,
+    description: param.description,
+    schema: { type: "string" },
+  }));
+
+  const shape = (operation.query?.shape ?? {}) as Record<string, z.ZodTypeAny>;
+  const query = Object.entries(shape).map(([name, schema]) => {
+    const { description, ...rest } = requestSchema(schema);
+    return {
+      name,
+      in: "query",
+      required: !schema.isOptional(),
+      ...(description ? { description } : {}),
+      schema: rest,
+    };
+  });
+
+  return [...path, ...query];
+}
+
+/**
+ * The responses object of an operation, with the common errors (which
+ * the operation may describe more precisely)
+ */
+function responses(operation: V1Operation) {
+  const all = { ...COMMON_ERRORS, ...operation.responses };
+  return Object.fromEntries(
+    Object.entries(all).map(([status, response]) => [
+      status,
+      {
+        description: response.description,
+        ...(response.schema
+          ? {
+              content: {
+                "application/json": {
+                  schema: zodToJsonSchema(response.schema, {
+                    io: "output",
+                    refs: COMPONENT_SCHEMAS,
+                  }),
+                },
+              },
+            }
+          : {}),
+      },
+    ])
+  );
+}
+
+/**
+ * The `components.schemas` object (each converted without a reference to itself)
+ */
+function componentSchemas(): Record<string, JsonSchema> {
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [schema, name] of Array.from(COMPONENT_SCHEMAS)) {
+    const refs = new Map(COMPONENT_SCHEMAS);
+    refs.delete(schema);
+    schemas[name] = zodToJsonSchema(schema, { io: "output", refs });
+  }
+  return schemas;
+}
+
+/**
+ * Builds the OpenAPI 3.1 document of the public API
+ *
+ * The server URL is relative, so the document works on any host it is
+ * served from.
+ */
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of V1_OPERATIONS) {
+    const params = parameters(operation);
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: `${operation.description}\n\nRequires an API key with the \`${operation.scope}\` scope.`,
+        security: [{ bearerAuth: [operation.scope] }],
+        ...(params.length > 0 ? { parameters: params } : {}),
+        ...(operation.body ? { requestBody: requestBody(operation.body) } : {}),
+        responses: responses(operation),
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Fraudlr API",
+      version: "1.0.0",
+      description:
+        "Upload transaction files for fraud analysis, read the results and " +
+        "manage data integrations. Create an API key in Settings → API Keys " +
+        "and send it as a bearer token.",
+    },
+    servers: [{ url: "/api/v1" }],
+    paths,
+    components: {
+      schemas: componentSchemas(),
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: "An API key, e.g. `Authorization: Bearer frk_...`",
+        },
+      },
+    },
+  };
+}
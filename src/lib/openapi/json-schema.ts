@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Zod to JSON Schema
+ *
+ * Converts the zod schemas the route handlers validate with into JSON
+ * Schema (the 2020-12 dialect OpenAPI 3.1 uses), so the API document is
+ * generated from the same definitions that accept or reject requests.
+ *
+ * A schema reads differently on each side of a parse: a field with a
+ * default is optional in a request but always present in the parsed
+ * value, and a pipe accepts its input schema but produces its output.
+ * `io` picks the side: "input" for requests, "output" for responses.
+ *
+ * Refinements cannot be expressed and are left out; transforms are
+ * described by the schema they start from.
+ */
+
+import { z } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Which side of a parse a schema describes
+ */
+export type SchemaIo = "input" | "output";
+
+/**
+ * Options for a conversion
+ */
+export interface JsonSchemaOptions {
+  io: SchemaIo;
+  /** Schemas emitted as `$ref`s to `#/components/schemas/<name>` */
+  refs?: Map<z.ZodTypeAny, string>;
+}
+
+/**
+ * Whether an object property must be present on the given side
+ */
+function isRequired(schema: z.ZodTypeAny, io: SchemaIo): boolean {
+  if (io === "input") return !schema.isOptional();
+
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return false;
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return isRequired(def.schema, io);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return isRequired(def.out, io);
+    default:
+      return true;
+  }
+}
+
+/**
+ * JSON Schema keywords for a string's checks
+ */
+function stringSchema(def: z.ZodStringDef): JsonSchema {
+  const schema: JsonSchema = { type: "string" };
+  for (const check of def.checks) {
+    switch (check.kind) {
+      case "min":
+        schema.minLength = check.value;
+        break;
+      case "max":
+        schema.maxLength = check.value;
+        break;
+      case "length":
+        schema.minLength = check.value;
+        schema.maxLength = check.value;
+        break;
+      case "email":
+      case "url":
+      case "uuid":
+        schema.format = check.kind === "url" ? "uri" : check.kind;
+        break;
+      case "datetime":
+        schema.format = "date-time";
+        break;
+      case "regex":
+        schema.pattern = check.regex.source;
+        break;
+    }
+  }
+  return schema;
+}
+
+/**
+ * JSON Schema keywords for a number's checks
+ */
+function numberSchema(def: z.ZodNumberDef): JsonSchema {
+  const schema: JsonSchema = { type: "number" };
+  for (const check of def.checks) {
+    if (check.kind === "int") {
+      schema.type = "integer";
+    } else if (check.kind === "min") {
+      schema[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    } else if (check.kind === "max") {
+      schema[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+  }
+  return schema;
+}
+
+/**
+ * Converts a zod schema to JSON Schema
+ *
+ * @param schema - Schema to convert
+ * @param options - Side of the parse and named schemas
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, options: JsonSchemaOptions): JsonSchema {
+  const name = options.refs?.get(schema);
+  if (name) return { $ref: `#/components/schemas/${name}` };
+
+  const converted = convert(schema, options);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+}
+
+/**
+ * Converts one schema node (without its description)
+ */
+function convert(schema: z.ZodTypeAny, options: JsonSchemaOptions): JsonSchema {
+  const def = schema._def;
+  const inner = (child: z.ZodTypeAny) => zodToJsonSchema(child, options);
+
+  switch (def.typeName as z.ZodFirstPartyTypeKind) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: "integer" };
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" };
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: def.values };
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values) };
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const array: JsonSchema = { type: "array", items: inner(def.type) };
+      if (def.minLength) array.minItems = def.minLength.value;
+      if (def.maxLength) array.maxItems = def.maxLength.value;
+      if (def.exactLength) {
+        array.minItems = def.exactLength.value;
+        array.maxItems = def.exactLength.value;
+      }
+      return array;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodTuple:
+      return { type: "array", prefixItems: def.items.map(inner) };
+
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = def.shape() as Record<string, z.ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = inner(value);
+        if (isRequired(value, options.io)) required.push(key);
+      }
+      return {
+        type: "object",
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+      };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: inner(def.valueType) };
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map(inner) };
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { oneOf: Array.from(def.options as z.ZodTypeAny[]).map(inner) };
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [inner(def.left), inner(def.right)] };
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return inner(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [inner(def.innerType), { type: "null" }] };
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...inner(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return inner(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return inner(def.type);
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return inner(def.getter());
+
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return inner(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return inner(options.io === "input" ? def.in : def.out);
+
+    default:
+      // unknown, any and anything without a JSON form accept any value
+      return {};
+  }
+}
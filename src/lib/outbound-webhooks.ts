@@ -0,0 +1,645 @@
+/**
+ * @fileoverview Outbound Webhooks
+ *
+ * Users register endpoints that are notified of events in their account
+ * (case.created, case.completed, case.failed, anomaly.high_risk,
+ * integration.sync_failed; see validations/webhook.ts).
+ *
+ * 1. `queueEvent` records one `OutboundDelivery` per active endpoint
+ *    subscribed to the event. Callers pass their transaction, so an event
+ *    is queued exactly when the change it reports is saved.
+ * 2. The worker claims due deliveries (`claimDueDelivery`) and POSTs them
+ *    (`sendDelivery`). A 2xx response succeeds; anything else is retried
+ *    with exponential backoff and marked FAILED after
+ *    `MAX_DELIVERY_ATTEMPTS`.
+ * 3. Every attempt's status, response and error are kept on the delivery
+ *    for the delivery log. Redelivering creates a new delivery of the
+ *    same event.
+ *
+ * The body is the event as JSON, `{ id, type, created_at, data }`, with
+ * cases in their public API (v1) shape. It is signed like inbound
+ * deliveries (see signatures.ts) with the endpoint's secret, which is
+ * shown once when the endpoint is created and stored sealed. Receivers
+ * should deduplicate on the event id: deliveries are at least once and
+ * may arrive out of order.
+ */
+
+import { randomBytes, randomUUID } from "crypto";
+import { Prisma, type Case, type OutboundStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { summarizeResults } from "@/lib/analysis/summary";
+import { toV1Case } from "@/lib/api-v1";
+import { classifyNetworkError } from "@/lib/connectors/errors";
+import { checkHostAllowed } from "@/lib/connectors/network";
+import { openSecret, rewrapSecret, sealSecret, type SealedSecret } from "@/lib/secrets";
+import { signatureHeaders } from "@/lib/signatures";
+import type {
+  CreateWebhookEndpointInput,
+  UpdateWebhookEndpointInput,
+  WebhookEvent,
+} from "@/lib/validations/webhook";
+
+/**
+ * Most endpoints a user can have at once
+ */
+const MAX_ENDPOINTS_PER_USER = 10;
+
+/**
+ * Start of every endpoint secret
+ */
+const SECRET_PREFIX = "whsec_";
+
+/**
+ * Requests made for a delivery before it is marked FAILED
+ */
+const MAX_DELIVERY_ATTEMPTS = Number(process.env.OUTBOUND_WEBHOOK_MAX_ATTEMPTS) || 8;
+
+/**
+ * Delay before the first retry; doubles with every further attempt
+ */
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/**
+ * Upper bound on the retry delay
+ */
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * How long an endpoint may take to answer
+ */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * A SENDING delivery whose worker has not finished within this time may be claimed again
+ */
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Characters of a response body kept for the delivery log
+ */
+const RESPONSE_SNIPPET_CHARS = 1000;
+
+/**
+ * How long deliveries are kept for the log
+ */
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Event types that can be sent: the subscribable events and the test
+ * event, which goes to one endpoint whatever it subscribes to
+ */
+export type OutboundEvent = WebhookEvent | "webhook.test";
+
+/**
+ * Fields returned for endpoints (never the secret)
+ */
+const endpointSelect = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.WebhookEndpointSelect;
+
+export type WebhookEndpointView = Prisma.WebhookEndpointGetPayload<{
+  select: typeof endpointSelect;
+}>;
+
+/**
+ * Fields returned for the delivery log
+ */
+const deliverySelect = {
+  id: true,
+  eventId: true,
+  event: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastAttemptAt: true,
+  responseStatus: true,
+  responseBody: true,
+  durationMs: true,
+  error: true,
+  createdAt: true,
+} satisfies Prisma.OutboundDeliverySelect;
+
+export type OutboundDeliveryView = Prisma.OutboundDeliveryGetPayload<{
+  select: typeof deliverySelect;
+}>;
+
+/**
+ * Outcome of creating or updating an endpoint (`secret` only on creation,
+ * its only appearance), or an error with its HTTP status
+ */
+export type EndpointResult =
+  | { ok: true; endpoint: WebhookEndpointView; secret?: string }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Outcome of queueing a test event or a redelivery
+ */
+export type QueueResult =
+  | { ok: true; delivery: OutboundDeliveryView }
+  | { ok: false; status: number; error: string };
+
+/**
+ * A delivery claimed by a worker
+ */
+export interface ClaimedDelivery {
+  id: string;
+  endpointId: string;
+  attempts: number;
+}
+
+/**
+ * Outcome of one request to an endpoint
+ */
+interface AttemptResult {
+  ok: boolean;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+}
+
+/**
+ * Body of an event delivery
+ */
+function eventPayload(eventId: string, type: OutboundEvent, data: object): Prisma.InputJsonValue {
+  return { id: eventId, type, created_at: new Date().toISOString(), data } as Prisma.InputJsonValue;
+}
+
+/**
+ * New event id, e.g. "evt_3f2b..."
+ */
+function newEventId(): string {
+  return `evt_${randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Event data for a case: the case in its v1 shape
+ */
+export function caseEventData(caseRow: Case) {
+  return { case: toV1Case({ ...caseRow, ...summarizeResults(caseRow.results) }) };
+}
+
+/**
+ * Checks that an endpoint URL points to a host that may be connected to
+ *
+ * @returns null if allowed, otherwise why not
+ */
+async function checkEndpointUrl(url: string): Promise<string | null> {
+  const denied = await checkHostAllowed(new URL(url).hostname);
+  return denied ? denied.message : null;
+}
+
+/**
+ * Lists a user's endpoints, newest first
+ */
+export async function listWebhookEndpoints(userId: string): Promise<WebhookEndpointView[]> {
+  return prisma.webhookEndpoint.findMany({
+    where: { userId },
+    select: endpointSelect,
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Creates an endpoint with a new signing secret
+ *
+ * @param userId - Owner of the endpoint
+ * @param input - Validated URL, description and events
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  input: CreateWebhookEndpointInput
+): Promise<EndpointResult> {
+  const count = await prisma.webhookEndpoint.count({ where: { userId } });
+  if (count >= MAX_ENDPOINTS_PER_USER) {
+    return {
+      ok: false,
+      status: 400,
+      error: `You can have at most ${MAX_ENDPOINTS_PER_USER} webhook endpoints. Delete one first.`,
+    };
+  }
+
+  const denied = await checkEndpointUrl(input.url);
+  if (denied) {
+    return { ok: false, status: 400, error: denied };
+  }
+
+  const secret = SECRET_PREFIX + randomBytes(24).toString("base64url");
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: {
+      url: input.url,
+      description: input.description || null,
+      events: input.events,
+      secret: sealSecret(secret) as unknown as Prisma.InputJsonValue,
+      userId,
+    },
+    select: endpointSelect,
+  });
+
+  return { ok: true, endpoint, secret };
+}
+
+/**
+ * Updates a user's endpoint
+ *
+ * Queued deliveries go to the new URL; those of a disabled endpoint fail
+ * without being sent.
+ */
+export async function updateWebhookEndpoint(
+  userId: string,
+  endpointId: string,
+  input: UpdateWebhookEndpointInput
+): Promise<EndpointResult> {
+  const existing = await prisma.webhookEndpoint.findFirst({
+    where: { id: endpointId, userId },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    return { ok: false, status: 404, error: "Webhook endpoint not found" };
+  }
+
+  if (input.url) {
+    const denied = await checkEndpointUrl(input.url);
+    if (denied) {
+      return { ok: false, status: 400, error: denied };
+    }
+  }
+
+  const endpoint = await prisma.webhookEndpoint.update({
+    where: { id: existing.id },
+    data: {
+      url: input.url,
+      description: input.description === undefined ? undefined : input.description || null,
+      events: input.events,
+      isActive: input.isActive,
+    },
+    select: endpointSelect,
+  });
+
+  return { ok: true, endpoint };
+}
+
+/**
+ * Deletes a user's endpoint with its delivery log
+ *
+ * @returns True if an endpoint was deleted
+ */
+export async function deleteWebhookEndpoint(userId: string, endpointId: string): Promise<boolean> {
+  const { count } = await prisma.webhookEndpoint.deleteMany({ where: { id: endpointId, userId } });
+  return count > 0;
+}
+
+/**
+ * Lists a user's endpoint's recent deliveries, newest first
+ *
+ * @returns The deliveries, or null if the endpoint does not exist or belongs to someone else
+ */
+export async function listOutboundDeliveries(
+  userId: string,
+  endpointId: string
+): Promise<OutboundDeliveryView[] | null> {
+  const endpoint = await prisma.webhookEndpoint.findFirst({
+    where: { id: endpointId, userId },
+    select: { id: true },
+  });
+
+  if (!endpoint) return null;
+
+  return prisma.outboundDelivery.findMany({
+    where: { endpointId: endpoint.id },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+    select: deliverySelect,
+  });
+}
+
+/**
+ * Queues an event for every active endpoint of a user subscribed to it
+ *
+ * @param db - Client or transaction the change being reported is saved with
+ * @param userId - User the event belongs to
+ * @param type - Event type
+ * @param data - Event data (the `data` field of the body)
+ */
+export async function queueEvent(
+  db: Prisma.TransactionClient,
+  userId: string,
+  type: WebhookEvent,
+  data: object
+): Promise<void> {
+  const endpoints = await db.webhookEndpoint.findMany({
+    where: { userId, isActive: true, events: { has: type } },
+    select: { id: true },
+  });
+
+  if (endpoints.length === 0) return;
+
+  const eventId = newEventId();
+  const payload = eventPayload(eventId, type, data);
+  await db.outboundDelivery.createMany({
+    data: endpoints.map((endpoint) => ({ endpointId: endpoint.id, eventId, event: type, payload })),
+  });
+}
+
+/**
+ * Queues a test event for a user's endpoint, whatever it subscribes to
+ */
+export async function sendTestEvent(userId: string, endpointId: string): Promise<QueueResult> {
+  const endpoint = await prisma.webhookEndpoint.findFirst({
+    where: { id: endpointId, userId },
+    select: { id: true, url: true },
+  });
+
+  if (!endpoint) {
+    return { ok: false, status: 404, error: "Webhook endpoint not found" };
+  }
+
+  const eventId = newEventId();
+  const delivery = await prisma.outboundDelivery.create({
+    data: {
+      endpointId: endpoint.id,
+      eventId,
+      event: "webhook.test",
+      payload: eventPayload(eventId, "webhook.test", { endpoint: { id: endpoint.id, url: endpoint.url } }),
+    },
+    select: deliverySelect,
+  });
+
+  return { ok: true, delivery };
+}
+
+/**
+ * Sends a delivery's event again, as a new delivery with the same event id
+ */
+export async function redeliver(
+  userId: string,
+  endpointId: string,
+  deliveryId: string
+): Promise<QueueResult> {
+  const original = await prisma.outboundDelivery.findFirst({
+    where: { id: deliveryId, endpointId, endpoint: { userId } },
+    select: { endpointId: true, eventId: true, event: true, payload: true },
+  });
+
+  if (!original) {
+    return { ok: false, status: 404, error: "Delivery not found" };
+  }
+
+  const delivery = await prisma.outboundDelivery.create({
+    data: {
+      endpointId: original.endpointId,
+      eventId: original.eventId,
+      event: original.event,
+      payload: original.payload as Prisma.InputJsonValue,
+    },
+    select: deliverySelect,
+  });
+
+  return { ok: true, delivery };
+}
+
+/**
+ * Claims the next delivery that is due
+ *
+ * Pending deliveries are due at their next attempt; deliveries being sent
+ * are due again when a stopped worker's lease has passed.
+ *
+ * @returns The claimed delivery, or null if none is due
+ */
+export async function claimDueDelivery(): Promise<ClaimedDelivery | null> {
+  const leaseUntil = new Date(Date.now() + SEND_LEASE_MS);
+
+  const [delivery] = await prisma.$queryRaw<ClaimedDelivery[]>`
+    UPDATE "outbound_deliveries"
+    SET "status" = 'SENDING',
+        "attempts" = "attempts" + 1,
+        "nextAttemptAt" = ${leaseUntil}
+    WHERE "id" = (
+      SELECT "id" FROM "outbound_deliveries"
+      WHERE "status" IN ('PENDING', 'SENDING') AND "nextAttemptAt" <= NOW()
+      ORDER BY "nextAttemptAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id", "endpointId", "attempts"
+  `;
+
+  return delivery ?? null;
+}
+
+/**
+ * Reads the start of a response body for the log
+ */
+async function readSnippet(response: Response): Promise<string | null> {
+  if (!response.body) return null;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (text.length < RESPONSE_SNIPPET_CHARS) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => undefined);
+
+  return text ? text.slice(0, RESPONSE_SNIPPET_CHARS) : null;
+}
+
+/**
+ * POSTs a signed event to an endpoint
+ *
+ * @param url - Endpoint URL
+ * @param secret - Endpoint signing secret
+ * @param headers - Event headers
+ * @param body - Event JSON
+ */
+async function postEvent(
+  url: string,
+  secret: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<AttemptResult> {
+  const target = new URL(url);
+  const denied = await checkHostAllowed(target.hostname);
+  if (denied) {
+    return { ok: false, responseStatus: null, responseBody: null, error: denied.message };
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(target, {
+      method: "POST",
+      headers: {
+        ...headers,
+        "Content-Type": "application/json",
+        "User-Agent": "Fraudlr-Webhooks/1.0",
+        ...signatureHeaders(secret, body),
+      },
+      body,
+      // Redirects are not followed: the target would bypass the host check
+      redirect: "manual",
+      cache: "no-store",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const classified = classifyNetworkError(error, target.host);
+    const cause = (error as { cause?: unknown }).cause;
+    const reason =
+      cause instanceof Error ? cause.message : error instanceof Error ? error.message : "";
+    return {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: classified?.message ?? `Request failed: ${reason}`,
+    };
+  }
+
+  const responseBody = await readSnippet(response).catch(() => null);
+
+  if (response.ok) {
+    return { ok: true, responseStatus: response.status, responseBody, error: null };
+  }
+
+  return {
+    ok: false,
+    responseStatus: response.status,
+    responseBody,
+    error:
+      response.status >= 300 && response.status < 400
+        ? `The endpoint redirects to ${response.headers.get("location") ?? "another URL"}. Use the final URL instead.`
+        : `The endpoint answered ${response.status}`,
+  };
+}
+
+/**
+ * Sends a claimed delivery and records the outcome
+ *
+ * Never throws for a failing endpoint: the delivery is retried with
+ * backoff and marked FAILED after `MAX_DELIVERY_ATTEMPTS`. Deliveries to
+ * endpoints disabled since the event fail without a request.
+ *
+ * @param claimed - Delivery returned by `claimDueDelivery`
+ */
+export async function sendDelivery(claimed: ClaimedDelivery): Promise<void> {
+  const delivery = await prisma.outboundDelivery.findUnique({
+    where: { id: claimed.id },
+    include: { endpoint: true },
+  });
+
+  // Deleted with its endpoint since the claim
+  if (!delivery) return;
+
+  const { endpoint } = delivery;
+  const disabled = !endpoint.isActive && delivery.event !== "webhook.test";
+  const started = Date.now();
+  let result: AttemptResult;
+
+  if (disabled) {
+    result = {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: "The endpoint is disabled",
+    };
+  } else {
+    try {
+      result = await postEvent(
+        endpoint.url,
+        openSecret<string>(endpoint.secret as unknown as SealedSecret),
+        { "X-Fraudlr-Event": delivery.event, "X-Fraudlr-Delivery": delivery.id },
+        JSON.stringify(delivery.payload)
+      );
+    } catch (error) {
+      console.error(`Webhook delivery ${delivery.id} failed:`, error);
+      result = {
+        ok: false,
+        responseStatus: null,
+        responseBody: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  let status: OutboundStatus = "SUCCEEDED";
+  let nextAttemptAt = delivery.nextAttemptAt;
+  if (!result.ok) {
+    if (disabled || claimed.attempts >= MAX_DELIVERY_ATTEMPTS) {
+      status = "FAILED";
+    } else {
+      status = "PENDING";
+      const delay = Math.min(
+        RETRY_BASE_DELAY_MS * 2 ** (claimed.attempts - 1),
+        RETRY_MAX_DELAY_MS
+      );
+      nextAttemptAt = new Date(Date.now() + delay);
+    }
+  }
+
+  // Nothing to record if the endpoint was deleted while the request ran
+  const { count } = await prisma.outboundDelivery.updateMany({
+    where: { id: delivery.id },
+    data: {
+      status,
+      nextAttemptAt,
+      lastAttemptAt: new Date(started),
+      durationMs: Date.now() - started,
+      responseStatus: result.responseStatus,
+      responseBody: result.responseBody,
+      error: result.error,
+    },
+  });
+  if (count === 0) return;
+
+  // Keep the log to the retention period
+  await prisma.outboundDelivery.deleteMany({
+    where: {
+      endpointId: endpoint.id,
+      status: { in: ["SUCCEEDED", "FAILED"] },
+      createdAt: { lt: new Date(Date.now() - DELIVERY_RETENTION_MS) },
+    },
+  });
+}
+
+/**
+ * Re-wraps every endpoint secret with the current master key
+ *
+ * @returns How many endpoints were checked and how many were updated
+ */
+export async function rotateWebhookSecrets(): Promise<{ scanned: number; updated: number }> {
+  let scanned = 0;
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = await prisma.webhookEndpoint.findMany({
+      select: { id: true, secret: true },
+      orderBy: { id: "asc" },
+      take: 100,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      scanned++;
+      const rewrapped = rewrapSecret(row.secret as unknown as SealedSecret);
+      if (rewrapped) {
+        await prisma.webhookEndpoint.update({
+          where: { id: row.id },
+          data: { secret: rewrapped as unknown as Prisma.InputJsonValue },
+        });
+        updated++;
+      }
+    }
+
+    cursor = rows[rows.length - 1].id;
+  }
+
+  return { scanned, updated };
+}
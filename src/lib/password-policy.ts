@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Password Policy
+ *
+ * Rules a new password must follow, on top of the length checked by
+ * `passwordSchema` (8 to 128 characters):
+ *
+ * - Not one of the most common passwords, also when it only adds digits
+ *   or symbols around one ("Password123!")
+ * - Not built from a handful of characters ("aaaaaaaa", "abababab")
+ * - Not containing the user's email name or name
+ * - Optionally, not found in known data breaches: with
+ *   PASSWORD_BREACH_CHECK="true" the password is looked up in the Have I
+ *   Been Pwned range API. Only the first 5 characters of its SHA-1 hash
+ *   leave the server (k-anonymity), and a failed lookup does not block the
+ *   change.
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * Most common passwords (lower case), from public breach statistics
+ */
+const COMMON_PASSWORDS = new Set([
+  "123456", "123456789", "12345678", "1234567890", "12345", "1234567",
+  "111111", "000000", "123123", "654321", "666666", "121212", "112233",
+  "123321", "987654321", "11111111", "88888888", "147258369", "159753",
+  "password", "passw0rd", "p@ssw0rd", "p@ssword", "pass", "password1",
+  "qwerty", "qwertyuiop", "qwerty123", "qwe123", "1q2w3e4r", "1q2w3e4r5t",
+  "1qaz2wsx", "zaq12wsx", "asdfgh", "asdfghjkl", "asdf", "zxcvbnm",
+  "abc123", "abcd1234", "a1b2c3d4", "aa123456", "iloveyou", "admin",
+  "administrator", "root", "toor", "welcome", "welcome1", "login",
+  "letmein", "secret", "changeme", "default", "guest", "test", "test123",
+  "monkey", "dragon", "master", "sunshine", "princess", "football",
+  "baseball", "soccer", "hockey", "superman", "batman", "starwars",
+  "trustno1", "shadow", "michael", "jennifer", "jordan", "hunter",
+  "hunter2", "charlie", "freedom", "whatever", "computer", "internet",
+  "killer", "ninja", "mustang", "access", "flower", "hello", "hello123",
+  "lovely", "love", "loveme", "summer", "winter", "spring", "autumn",
+  "azerty", "solo", "pokemon", "chocolate", "cheese",
+  "google", "samsung", "apple", "microsoft", "linkedin", "facebook",
+  "fraudlr", "fraud", "company", "business", "finance", "money",
+  "banking", "invoice", "accounting", "security",
+]);
+
+/**
+ * Fewest different characters a password must use
+ */
+const MIN_DISTINCT_CHARS = 4;
+
+/**
+ * How long to wait for the breach lookup (milliseconds)
+ */
+const BREACH_CHECK_TIMEOUT_MS = 3000;
+
+/**
+ * Who the password is for, so it can't simply repeat their details
+ */
+export interface PasswordContext {
+  email: string;
+  name?: string | null;
+}
+
+/**
+ * Looks a password up in the Have I Been Pwned range API
+ *
+ * @returns True if the password appears in a breach; false if not or if
+ * the lookup failed
+ */
+async function isBreached(password: string): Promise<boolean> {
+  const hash = createHash("sha1").update(password).digest("hex").toUpperCase();
+  const prefix = hash.slice(0, 5);
+  const suffix = hash.slice(5);
+
+  try {
+    const response = await fetch(`https://api.pwnedpasswords.com/range/${prefix}`, {
+      headers: { "Add-Padding": "true" },
+      signal: AbortSignal.timeout(BREACH_CHECK_TIMEOUT_MS),
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      throw new Error(`Breach lookup answered ${response.status}`);
+    }
+
+    const body = await response.text();
+    return body.split("\n").some((line) => {
+      const [lineSuffix, count] = line.trim().split(":");
+      return lineSuffix === suffix && Number(count) > 0;
+    });
+  } catch (error) {
+    console.error("Password breach check error:", error);
+    return false;
+  }
+}
+
+/**
+ * Checks a new password against the policy
+ *
+ * @param password - Candidate password (length already validated)
+ * @param context - The account's email and name
+ * @returns Why the password is refused, or null if it is acceptable
+ */
+export async function checkPasswordPolicy(
+  password: string,
+  context: PasswordContext
+): Promise<string | null> {
+  const lower = password.toLowerCase();
+  // "Password123!" and "!!password" count as "password"
+  const core = lower.replace(/^[^a-z]+|[^a-z]+$/g, "");
+
+  if (COMMON_PASSWORDS.has(lower) || COMMON_PASSWORDS.has(core)) {
+    return "This password is too common. Choose a less predictable one.";
+  }
+
+  if (new Set(lower).size < MIN_DISTINCT_CHARS) {
+    return "This password is too simple. Use a mix of different characters.";
+  }
+
+  const personal = [
+    context.email.split("@")[0],
+    ...(context.name ?? "").split(/\s+/),
+  ].filter((part) => part.length >= 4);
+  if (personal.some((part) => lower.includes(part.toLowerCase()))) {
+    return "Password must not contain your email or name";
+  }
+
+  if (process.env.PASSWORD_BREACH_CHECK === "true" && (await isBreached(password))) {
+    return "This password has appeared in a data breach. Choose a different one.";
+  }
+
+  return null;
+}
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Password Reset
+ *
+ * Forgot-password flow: a user asks for a reset link by email, and the
+ * link lets them choose a new password once, within an hour.
+ *
+ * Reset tokens are 256 random bits, so like API keys only their SHA-256
+ * hash is stored; the token itself exists only in the emailed link. A new
+ * request replaces the user's earlier links, and resetting the password
+ * uses up every link the user has. The new password must follow the
+ * password policy, and the reset signs out every existing session.
+ *
+ * Requests never reveal whether an email is registered: the answer is the
+ * same either way, the link is stored and emailed in the background so
+ * response times match, and the per-email limit drops extra requests
+ * silently. Only the per-address limit answers with a 429, which says
+ * nothing about the email.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { hashPassword } from "@/lib/auth";
+import { sendMail } from "@/lib/mail";
+import { checkPasswordPolicy } from "@/lib/password-policy";
+import { consumeRateLimit } from "@/lib/rate-limit";
+
+/**
+ * How long a reset link works
+ */
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Reset requests allowed per client address, and per email, per window
+ */
+const REQUESTS_PER_IP = 5;
+const REQUESTS_PER_EMAIL = 3;
+const REQUEST_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Outcome of a reset request; `ok` does not mean an email was sent
+ */
+export type PasswordResetRequestResult =
+  | { ok: true }
+  | { ok: false; status: 429; error: string; retryAfterSeconds: number };
+
+/**
+ * Outcome of resetting a password
+ */
+export type PasswordResetResult = { ok: true } | { ok: false; status: number; error: string };
+
+/**
+ * SHA-256 of a value (hex), used for tokens and for emails in limit keys
+ */
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Absolute link to the reset page for a token
+ */
+function resetLink(token: string): string {
+  const appUrl = (process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+  return `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Emails a reset link
+ */
+async function sendResetEmail(email: string, token: string): Promise<void> {
+  const link = resetLink(token);
+  const minutes = RESET_TOKEN_TTL_MS / 60000;
+
+  await sendMail({
+    to: email,
+    subject: "Reset your Fraudlr password",
+    text: [
+      "Someone asked to reset the password of your Fraudlr account.",
+      "",
+      `Choose a new password here (the link works once, for ${minutes} minutes):`,
+      link,
+      "",
+      "If this wasn't you, ignore this email; your password stays the same.",
+    ].join("\n"),
+    html: [
+      "<p>Someone asked to reset the password of your Fraudlr account.</p>",
+      `<p><a href="${link}">Choose a new password</a> (the link works once, for ${minutes} minutes).</p>`,
+      "<p>If this wasn't you, ignore this email; your password stays the same.</p>",
+    ].join("\n"),
+  });
+}
+
+/**
+ * Replaces the user's reset links with a new one and emails it
+ */
+async function issueResetLink(userId: string, email: string, ip: string): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({ where: { userId } }),
+    prisma.passwordResetToken.create({
+      data: {
+        tokenHash: sha256(token),
+        expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+        requestIp: ip,
+        userId,
+      },
+    }),
+  ]);
+
+  await sendResetEmail(email, token);
+}
+
+/**
+ * Handles a forgot-password request
+ *
+ * @param email - Normalized (trimmed, lower-case) email address
+ * @param ip - Client address, for the per-address limit
+ */
+export async function requestPasswordReset(
+  email: string,
+  ip: string
+): Promise<PasswordResetRequestResult> {
+  const ipLimit = await consumeRateLimit(
+    `password-reset:ip:${ip}`,
+    REQUESTS_PER_IP,
+    REQUEST_WINDOW_MS
+  );
+  if (!ipLimit.ok) {
+    return {
+      ok: false,
+      status: 429,
+      error: "Too many reset requests. Please try again later.",
+      retryAfterSeconds: ipLimit.retryAfterSeconds,
+    };
+  }
+
+  const emailLimit = await consumeRateLimit(
+    `password-reset:email:${sha256(email)}`,
+    REQUESTS_PER_EMAIL,
+    REQUEST_WINDOW_MS
+  );
+  if (!emailLimit.ok) return { ok: true };
+
+  const user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+  if (!user) return { ok: true };
+
+  // Not awaited, so registered and unknown emails take equally long
+  issueResetLink(user.id, email, ip).catch((error) => {
+    console.error("Password reset email error:", error);
+  });
+
+  return { ok: true };
+}
+
+/**
+ * Sets a new password with a reset token, using the token up
+ *
+ * @param token - Token from the reset link
+ * @param password - Validated new password
+ */
+export async function resetPassword(token: string, password: string): Promise<PasswordResetResult> {
+  const invalid = {
+    ok: false,
+    status: 400,
+    error: "This reset link is invalid or has expired. Please request a new one.",
+  } as const;
+
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: sha256(token) },
+    select: {
+      id: true,
+      userId: true,
+      expiresAt: true,
+      usedAt: true,
+      user: { select: { email: true, name: true } },
+    },
+  });
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+    return invalid;
+  }
+
+  const policyError = await checkPasswordPolicy(password, resetToken.user);
+  if (policyError) {
+    return { ok: false, status: 400, error: policyError };
+  }
+
+  const hashedPassword = await hashPassword(password);
+
+  const used = await prisma.$transaction(async (tx) => {
+    // Claim the token first; a concurrent reset with the same link finds it used
+    const { count } = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) return false;
+
+    await tx.user.update({
+      where: { id: resetToken.userId },
+      data: { password: hashedPassword },
+    });
+    await tx.passwordResetToken.deleteMany({
+      where: { userId: resetToken.userId, id: { not: resetToken.id } },
+    });
+    // Whoever knew the old password is signed out
+    await tx.session.deleteMany({ where: { userId: resetToken.userId } });
+    return true;
+  });
+
+  return used ? { ok: true } : invalid;
+}
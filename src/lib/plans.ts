@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Subscription Plans
+ *
+ * Tier limits and display helpers shared by the entitlement service and
+ * the dashboard. Contains no server code so client components can import
+ * it; enforcement lives in entitlements.ts.
+ */
+
+import type { SubscriptionTier } from "@prisma/client";
+
+/**
+ * Limits of a tier (null means unlimited)
+ */
+export interface TierLimits {
+  csvUploadsPerMonth: number | null;
+  integrations: number | null;
+  /** Whether integrations can sync on a schedule */
+  scheduledSync: boolean;
+}
+
+/**
+ * Limits per tier, matching the pricing page
+ */
+export const TIER_LIMITS: Record<SubscriptionTier, TierLimits> = {
+  FREE: { csvUploadsPerMonth: 2, integrations: 0, scheduledSync: false },
+  STANDARD: { csvUploadsPerMonth: 10, integrations: 1, scheduledSync: false },
+  PRO: { csvUploadsPerMonth: null, integrations: null, scheduledSync: true },
+};
+
+/**
+ * Display names for tiers
+ */
+export const TIER_NAMES: Record<SubscriptionTier, string> = {
+  FREE: "Free",
+  STANDARD: "Standard",
+  PRO: "Pro",
+};
+
+/**
+ * Monthly price in USD per tier, matching the pricing page
+ */
+export const TIER_PRICES_USD: Record<SubscriptionTier, number> = {
+  FREE: 0,
+  STANDARD: 10,
+  PRO: 25,
+};
+
+/**
+ * Current usage and limits, as returned by GET /api/entitlements
+ */
+export interface Entitlements {
+  tier: SubscriptionTier;
+  uploads: {
+    used: number;
+    limit: number | null;
+    remaining: number | null;
+    /** Start of the next billing month, when `used` goes back to 0 */
+    resetsAt: string;
+  };
+  integrations: {
+    used: number;
+    limit: number | null;
+    remaining: number | null;
+  };
+  /** Whether integrations can sync on a schedule */
+  scheduledSync: boolean;
+}
+
+/**
+ * Formats a usage count against its limit, e.g. "3 / 10" or "3 / Unlimited"
+ */
+export function formatUsage(used: number, limit: number | null): string {
+  return `${used} / ${limit === null ? "Unlimited" : limit}`;
+}
+
+/**
+ * Share of a limit that is used, as a percentage for progress bars
+ * (0 when the limit is unlimited or zero)
+ */
+export function usagePercent(used: number, limit: number | null): number {
+  if (!limit) return 0;
+  return Math.min((used / limit) * 100, 100);
+}
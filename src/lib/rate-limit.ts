@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Request Rate Limits
+ *
+ * Fixed-window counters kept in the database, so limits hold across every
+ * app instance and survive restarts. Each limited key (a limit name plus a
+ * subject such as an address or email) counts requests until its window
+ * ends; the next request after that starts a new window.
+ *
+ * Counters are updated with a single upsert, so concurrent requests can
+ * not both slip under the limit. Expired counters are removed whenever a
+ * new window starts.
+ */
+
+import type { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Outcome of counting a request against a limit
+ */
+export type RateLimitResult =
+  | { ok: true; remaining: number }
+  | { ok: false; retryAfterSeconds: number };
+
+/**
+ * Counts one request for a key and tells whether it is within the limit
+ *
+ * @param key - Limit name and subject, e.g. "password-reset:ip:203.0.113.7"
+ * @param limit - Requests allowed per window
+ * @param windowMs - Window length in milliseconds
+ */
+export async function consumeRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number
+): Promise<RateLimitResult> {
+  const windowEnd = new Date(Date.now() + windowMs);
+
+  const [counter] = await prisma.$queryRaw<{ count: number; resetAt: Date }[]>`
+    INSERT INTO "rate_limits" ("key", "count", "resetAt")
+    VALUES (${key}, 1, ${windowEnd})
+    ON CONFLICT ("key") DO UPDATE
+    SET "count" = CASE WHEN "rate_limits"."resetAt" <= NOW() THEN 1 ELSE "rate_limits"."count" + 1 END,
+        "resetAt" = CASE WHEN "rate_limits"."resetAt" <= NOW() THEN EXCLUDED."resetAt" ELSE "rate_limits"."resetAt" END
+    RETURNING "count", "resetAt"
+  `;
+
+  if (counter.count === 1) {
+    await prisma.rateLimit.deleteMany({ where: { resetAt: { lt: new Date() } } });
+  }
+
+  if (counter.count > limit) {
+    return {
+      ok: false,
+      retryAfterSeconds: Math.max(1, Math.ceil((counter.resetAt.getTime() - Date.now()) / 1000)),
+    };
+  }
+
+  return { ok: true, remaining: limit - counter.count };
+}
+
+/**
+ * Best-effort client address of a request
+ *
+ * Uses X-Real-IP, which the reverse proxy in front of the app overwrites
+ * (see the Nginx setup in the README), then the last X-Forwarded-For entry,
+ * the one added by the nearest proxy; earlier entries come from the client
+ * and could be made up. "unknown" when there is neither.
+ */
+export function clientIp(request: Pick<NextRequest, "headers"> & { ip?: string }): string {
+  const realIp = request.headers.get("x-real-ip")?.trim();
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return realIp || forwarded || request.ip || "unknown";
+}
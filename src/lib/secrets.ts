@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Secret Encryption (Envelope Encryption)
+ *
+ * Credentials saved with integrations (API keys, database passwords) are
+ * encrypted at rest using envelope encryption:
+ *
+ * 1. Every sealed value gets its own random 256-bit data key
+ * 2. The value is encrypted with the data key (AES-256-GCM)
+ * 3. The data key is encrypted ("wrapped") with a master key (AES-256-GCM)
+ * 4. Only the wrapped data key is stored, together with the master key id
+ *
+ * Master keys come from `SECRETS_MASTER_KEYS`, a comma-separated list of
+ * `id:base64key` entries (32-byte keys). The first key encrypts new values;
+ * the others are only used to decrypt values sealed before a rotation.
+ *
+ * Rotating a master key:
+ * 1. Put a new key first in `SECRETS_MASTER_KEYS`, keep the old one after it
+ * 2. Run `npm run secrets:rotate`, which re-wraps every data key with the
+ *    new master key (the encrypted values themselves are not touched)
+ * 3. Remove the old key
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/**
+ * Stored form of an encrypted value
+ */
+export interface SealedSecret {
+  /** Format version */
+  v: 1;
+  /** Id of the master key that wrapped the data key */
+  kid: string;
+  /** Data key encrypted with the master key (iv + tag + ciphertext, base64) */
+  key: string;
+  /** Value encrypted with the data key (iv + tag + ciphertext, base64) */
+  data: string;
+}
+
+/**
+ * Master key from the keyring
+ */
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+let keyring: MasterKey[] | null = null;
+
+/**
+ * Parses `SECRETS_MASTER_KEYS` once
+ *
+ * @throws Error if the variable is missing or a key is not 32 bytes
+ */
+function getKeyring(): MasterKey[] {
+  if (keyring) return keyring;
+
+  const raw = process.env.SECRETS_MASTER_KEYS;
+  if (!raw) {
+    throw new Error("SECRETS_MASTER_KEYS is not set; integration credentials cannot be encrypted");
+  }
+
+  keyring = raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), "base64");
+      if (separator <= 0 || key.length !== 32) {
+        throw new Error(`Invalid master key "${id || entry.slice(0, 8)}": expected id:base64 of 32 bytes`);
+      }
+      return { id, key };
+    });
+
+  if (keyring.length === 0) {
+    throw new Error("SECRETS_MASTER_KEYS contains no keys");
+  }
+  return keyring;
+}
+
+/**
+ * Looks up a master key by id
+ */
+function masterKey(id: string): Buffer {
+  const entry = getKeyring().find((k) => k.id === id);
+  if (!entry) {
+    throw new Error(`Master key "${id}" is not in SECRETS_MASTER_KEYS`);
+  }
+  return entry.key;
+}
+
+/**
+ * AES-256-GCM encryption, returning iv + tag + ciphertext as base64
+ */
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+/**
+ * Reverses `encrypt`; throws if the data was tampered with or the key is wrong
+ */
+function decrypt(key: Buffer, encoded: string): Buffer {
+  const raw = Buffer.from(encoded, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, raw.subarray(0, IV_BYTES));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Encrypts a JSON-serializable value under the current master key
+ *
+ * @param value - Value to protect, e.g. `{ password: "..." }`
+ */
+export function sealSecret(value: unknown): SealedSecret {
+  const [current] = getKeyring();
+  const dataKey = randomBytes(32);
+
+  return {
+    v: 1,
+    kid: current.id,
+    key: encrypt(current.key, dataKey),
+    data: encrypt(dataKey, Buffer.from(JSON.stringify(value), "utf8")),
+  };
+}
+
+/**
+ * Decrypts a value sealed with `sealSecret`
+ *
+ * @param sealed - Stored envelope
+ * @throws Error if its master key is unknown or the data was tampered with
+ */
+export function openSecret<T>(sealed: SealedSecret): T {
+  const dataKey = decrypt(masterKey(sealed.kid), sealed.key);
+  return JSON.parse(decrypt(dataKey, sealed.data).toString("utf8")) as T;
+}
+
+/**
+ * Re-wraps a value's data key with the current master key
+ *
+ * @returns The updated envelope, or null if it already uses the current key
+ */
+export function rewrapSecret(sealed: SealedSecret): SealedSecret | null {
+  const [current] = getKeyring();
+  if (sealed.kid === current.id) return null;
+
+  const dataKey = decrypt(masterKey(sealed.kid), sealed.key);
+  return { ...sealed, kid: current.id, key: encrypt(current.key, dataKey) };
+}
@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Sessions
+ *
+ * Every sign-in creates a session: a row describing the device (browser,
+ * address, last use) that lives until the user signs it out or stops using
+ * it for `SESSION_TTL_MS`. A signed-in browser holds two cookies:
+ *
+ * - a short-lived access token (JWT, see auth.ts) whose `jti` is the
+ *   session id. It only verifies while the session exists, so signing a
+ *   device out takes effect on its next request.
+ * - a refresh token, used to get a new access token once it expires. It
+ *   is replaced on every use and the session's lifetime extended. Only
+ *   SHA-256 hashes of refresh tokens are stored.
+ *
+ * A refresh token that was already replaced is accepted for a few seconds
+ * (parallel requests refresh at the same time) without being replaced
+ * again. Used later, it means the token was copied: the session is deleted,
+ * signing out both the thief and the user.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * How long a session lasts without being used
+ */
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long a replaced refresh token is still accepted
+ */
+const REFRESH_GRACE_MS = 30 * 1000;
+
+/**
+ * `lastSeenAt` is updated at most this often per session, not on every request
+ */
+const LAST_SEEN_PRECISION_MS = 60 * 1000;
+
+/**
+ * Longest user agent kept for a session
+ */
+const MAX_USER_AGENT_CHARS = 500;
+
+/**
+ * Device a request comes from
+ */
+export interface SessionClient {
+  userAgent: string | null;
+  ip: string | null;
+}
+
+/**
+ * Session as listed in Settings
+ */
+export interface SessionView {
+  id: string;
+  /** Browser and operating system, e.g. "Chrome on macOS" */
+  device: string;
+  ip: string | null;
+  lastSeenAt: Date;
+  createdAt: Date;
+  /** Whether this is the session making the request */
+  current: boolean;
+}
+
+/**
+ * Outcome of using a refresh token: the session's user, with the
+ * replacement token (null when a just-replaced token was used in the grace
+ * period and the cookie already holds its successor)
+ */
+export type RefreshResult =
+  | { ok: true; sessionId: string; userId: string; email: string; refreshToken: string | null }
+  | { ok: false };
+
+/**
+ * SHA-256 of a refresh token, as stored in the session
+ */
+function hashRefreshToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * A new refresh token with 256 random bits
+ */
+function newRefreshToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Describes a user agent as "Browser on OS"
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : /curl\//.test(userAgent) ? "curl"
+    : "Unknown browser";
+
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Starts a session for a user who just signed in
+ *
+ * Also removes the user's sessions that have expired.
+ *
+ * @returns The session id (the access token's `jti`) and its refresh token
+ */
+export async function createSession(
+  userId: string,
+  client: SessionClient
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const refreshToken = newRefreshToken();
+
+  const [, session] = await prisma.$transaction([
+    prisma.session.deleteMany({ where: { userId, expiresAt: { lte: new Date() } } }),
+    prisma.session.create({
+      data: {
+        refreshTokenHash: hashRefreshToken(refreshToken),
+        userAgent: client.userAgent?.slice(0, MAX_USER_AGENT_CHARS) ?? null,
+        ip: client.ip,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+        userId,
+      },
+      select: { id: true },
+    }),
+  ]);
+
+  return { sessionId: session.id, refreshToken };
+}
+
+/**
+ * Checks that a session is still signed in, and notes that it was used
+ *
+ * @returns True if the session exists and has not expired
+ */
+export async function touchSession(sessionId: string, userId: string): Promise<boolean> {
+  const session = await prisma.session.findFirst({
+    where: { id: sessionId, userId, expiresAt: { gt: new Date() } },
+    select: { lastSeenAt: true },
+  });
+  if (!session) return false;
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_PRECISION_MS) {
+    await prisma.session.updateMany({
+      where: { id: sessionId },
+      data: { lastSeenAt: new Date() },
+    });
+  }
+  return true;
+}
+
+/**
+ * Uses a refresh token: replaces it and extends the session
+ *
+ * @param refreshToken - Token from the refresh cookie
+ * @param client - Device making the request, recorded as the session's latest
+ */
+export async function refreshSession(
+  refreshToken: string,
+  client: SessionClient
+): Promise<RefreshResult> {
+  const hash = hashRefreshToken(refreshToken);
+  const now = new Date();
+
+  const session = await prisma.session.findFirst({
+    where: { OR: [{ refreshTokenHash: hash }, { previousRefreshHash: hash }] },
+    select: {
+      id: true,
+      userId: true,
+      refreshTokenHash: true,
+      refreshedAt: true,
+      expiresAt: true,
+      user: { select: { email: true } },
+    },
+  });
+  if (!session) return { ok: false };
+
+  if (session.expiresAt <= now) {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    return { ok: false };
+  }
+
+  const result = {
+    ok: true as const,
+    sessionId: session.id,
+    userId: session.userId,
+    email: session.user.email,
+  };
+
+  if (session.refreshTokenHash !== hash) {
+    // A replaced token: fine right after the rotation, stolen after that
+    if (now.getTime() - session.refreshedAt.getTime() <= REFRESH_GRACE_MS) {
+      return { ...result, refreshToken: null };
+    }
+    console.warn(`Refresh token reuse detected, signing out session ${session.id}`);
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    return { ok: false };
+  }
+
+  const nextToken = newRefreshToken();
+  // Only the request still holding the current token may replace it
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: hash },
+    data: {
+      refreshTokenHash: hashRefreshToken(nextToken),
+      previousRefreshHash: hash,
+      refreshedAt: now,
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+      ip: client.ip,
+      userAgent: client.userAgent?.slice(0, MAX_USER_AGENT_CHARS) ?? null,
+    },
+  });
+
+  // A parallel request replaced it first; its cookie carries the new token
+  return { ...result, refreshToken: count > 0 ? nextToken : null };
+}
+
+/**
+ * Lists a user's active sessions, most recently used first
+ *
+ * @param currentSessionId - Session making the request, marked `current`
+ */
+export async function listSessions(
+  userId: string,
+  currentSessionId?: string
+): Promise<SessionView[]> {
+  const sessions = await prisma.session.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    select: { id: true, userAgent: true, ip: true, lastSeenAt: true, createdAt: true },
+    orderBy: { lastSeenAt: "desc" },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    device: describeDevice(session.userAgent),
+    ip: session.ip,
+    lastSeenAt: session.lastSeenAt,
+    createdAt: session.createdAt,
+    current: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Signs one session out
+ *
+ * @returns True if a session was signed out
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.session.deleteMany({ where: { id: sessionId, userId } });
+  return count > 0;
+}
+
+/**
+ * Signs out every session of a user, except `keepSessionId` if given
+ *
+ * @returns Number of sessions signed out
+ */
+export async function revokeAllSessions(userId: string, keepSessionId?: string): Promise<number> {
+  const { count } = await prisma.session.deleteMany({
+    where: { userId, ...(keepSessionId ? { id: { not: keepSessionId } } : {}) },
+  });
+  return count;
+}
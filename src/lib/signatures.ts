@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Webhook Signatures
+ *
+ * HMAC-SHA256 signatures over a timestamp and a request body, sent as two
+ * headers:
+ *
+ *   X-Fraudlr-Timestamp: 1760882400
+ *   X-Fraudlr-Signature: sha256=<hex HMAC of "<timestamp>.<body>">
+ *
+ * Signing the timestamp with the body lets the receiver refuse old
+ * requests, and the receiver remembers recent signatures so a captured
+ * request cannot be sent again within the tolerance either.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const TIMESTAMP_HEADER = "x-fraudlr-timestamp";
+export const SIGNATURE_HEADER = "x-fraudlr-signature";
+
+/**
+ * How far a signed timestamp may be from the receiver's clock
+ */
+export const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Outcome of verifying a request: the signature (for replay checks) or why it failed
+ */
+export type SignatureCheck = { ok: true; signature: string } | { ok: false; reason: string };
+
+/**
+ * HMAC-SHA256 of a timestamped body, as hex
+ *
+ * @param secret - Shared signing secret
+ * @param timestamp - Unix time in seconds
+ * @param body - Raw request body
+ */
+export function computeSignature(secret: string, timestamp: number, body: Buffer | string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.`).update(body).digest("hex");
+}
+
+/**
+ * Signature headers for a body, signed now
+ */
+export function signatureHeaders(secret: string, body: Buffer | string): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: `sha256=${computeSignature(secret, timestamp, body)}`,
+  };
+}
+
+/**
+ * Verifies a request's signature headers against its body
+ *
+ * @param secret - Shared signing secret
+ * @param headers - Request headers
+ * @param body - Raw request body, exactly as received
+ * @param now - Receiver's clock (for tests)
+ */
+export function verifySignature(
+  secret: string,
+  headers: Headers,
+  body: Buffer,
+  now = Date.now()
+): SignatureCheck {
+  const timestampText = headers.get(TIMESTAMP_HEADER);
+  const signatureText = headers.get(SIGNATURE_HEADER);
+
+  if (!timestampText || !signatureText) {
+    return { ok: false, reason: "Missing signature headers" };
+  }
+
+  const timestamp = Number(timestampText);
+  if (!/^\d+$/.test(timestampText) || !Number.isSafeInteger(timestamp)) {
+    return { ok: false, reason: "Invalid timestamp header" };
+  }
+  if (Math.abs(now - timestamp * 1000) > SIGNATURE_TOLERANCE_MS) {
+    return { ok: false, reason: "Timestamp is outside the allowed window" };
+  }
+
+  const match = /^sha256=([0-9a-f]{64})$/i.exec(signatureText.trim());
+  if (!match) {
+    return { ok: false, reason: "Invalid signature header" };
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), "hex");
+  const received = Buffer.from(match[1], "hex");
+  if (!timingSafeEqual(expected, received)) {
+    return { ok: false, reason: "Signature does not match" };
+  }
+
+  return { ok: true, signature: match[1].toLowerCase() };
+}
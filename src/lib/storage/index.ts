@@ -0,0 +1,79 @@
+/**
+ * @fileoverview File Storage
+ *
+ * Storage abstraction for uploaded case files. The rest of the app only
+ * talks to the `FileStorage` interface, so switching from local disk to an
+ * S3-compatible bucket is a configuration change:
+ *
+ * - STORAGE_DRIVER="local" (default): files under STORAGE_LOCAL_DIR
+ * - STORAGE_DRIVER="s3": files in S3_BUCKET (AWS S3, MinIO, R2, ...)
+ *
+ * Stored files are identified by a storage URL such as
+ * `local://user123/case456/data.csv` or `s3://bucket/user123/case456/data.csv`,
+ * which is what we save in `Case.fileUrl`.
+ *
+ * Uploads and analysis stream file contents, so files far larger than the
+ * available memory can be stored and read.
+ */
+
+import type { Readable } from "stream";
+import { LocalStorage } from "./local";
+import { S3Storage } from "./s3";
+
+/**
+ * Common interface implemented by every storage driver
+ */
+export interface FileStorage {
+  /**
+   * Stores a file (from memory or a stream) and returns its storage URL
+   */
+  put(key: string, data: Buffer | Readable, contentType: string): Promise<string>;
+
+  /**
+   * Reads a whole file into memory by its storage URL
+   */
+  get(url: string): Promise<Buffer>;
+
+  /**
+   * Opens a file for streaming by its storage URL
+   */
+  getStream(url: string): Promise<Readable>;
+
+  /**
+   * Deletes a file by its storage URL (no error if it is already gone)
+   */
+  delete(url: string): Promise<void>;
+}
+
+/**
+ * Cached driver instance (configuration does not change at runtime)
+ */
+let storage: FileStorage | undefined;
+
+/**
+ * Returns the configured storage driver
+ */
+export function getStorage(): FileStorage {
+  if (!storage) {
+    storage =
+      process.env.STORAGE_DRIVER === "s3"
+        ? new S3Storage()
+        : new LocalStorage(process.env.STORAGE_LOCAL_DIR || "./uploads");
+  }
+  return storage;
+}
+
+/**
+ * Builds the storage key for a case file
+ *
+ * Only a sanitised version of the original file name is kept so user input
+ * cannot escape the case's folder.
+ *
+ * @param userId - Owner of the case
+ * @param folder - Case id, or a unique upload id when the case does not exist yet
+ * @param fileName - Original file name from the upload
+ */
+export function caseFileKey(userId: string, folder: string, fileName: string): string {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, "_").replace(/^\.+/, "") || "upload.csv";
+  return `${userId}/${folder}/${safeName}`;
+}
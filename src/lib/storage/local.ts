@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Local Disk Storage Driver
+ *
+ * Stores files on the server's filesystem. This is the default driver and
+ * is intended for development and single-server deployments.
+ */
+
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { FileStorage } from "./index";
+
+const SCHEME = "local://";
+
+export class LocalStorage implements FileStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * Resolves a storage URL to an absolute path inside the storage root
+   */
+  private resolve(url: string): string {
+    if (!url.startsWith(SCHEME)) {
+      throw new Error(`Not a local storage URL: ${url}`);
+    }
+
+    const filePath = path.resolve(this.root, url.slice(SCHEME.length));
+
+    // Refuse anything that would escape the storage directory
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error("Invalid storage path");
+    }
+
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer | Readable): Promise<string> {
+    const url = `${SCHEME}${key}`;
+    const filePath = this.resolve(url);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    if (Buffer.isBuffer(data)) {
+      await fs.writeFile(filePath, data);
+    } else {
+      // Don't leave a partial file behind if the source stream fails
+      await pipeline(data, createWriteStream(filePath)).catch(async (error) => {
+        await fs.rm(filePath, { force: true });
+        throw error;
+      });
+    }
+
+    return url;
+  }
+
+  async get(url: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(url));
+  }
+
+  async getStream(url: string): Promise<Readable> {
+    const filePath = this.resolve(url);
+    // Fail here rather than on the first read if the file is missing
+    await fs.access(filePath);
+    return createReadStream(filePath);
+  }
+
+  async delete(url: string): Promise<void> {
+    await fs.rm(this.resolve(url), { force: true });
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview S3-Compatible Storage Driver
+ *
+ * Stores files in an S3 bucket. Setting S3_ENDPOINT allows any
+ * S3-compatible service such as MinIO or Cloudflare R2.
+ *
+ * Environment variables:
+ * - S3_BUCKET (required)
+ * - S3_REGION (default "us-east-1")
+ * - S3_ENDPOINT (optional, for non-AWS services)
+ * - S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY (optional, falls back to the
+ *   default AWS credential chain)
+ * - S3_FORCE_PATH_STYLE="true" (needed by most self-hosted services)
+ *
+ * Streams are uploaded with multipart uploads, so their size does not
+ * need to be known in advance.
+ */
+
+import type { Readable } from "stream";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import type { FileStorage } from "./index";
+
+const SCHEME = "s3://";
+
+export class S3Storage implements FileStorage {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor() {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error("S3_BUCKET must be set when STORAGE_DRIVER is s3");
+    }
+
+    this.bucket = bucket;
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      credentials:
+        process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: process.env.S3_ACCESS_KEY_ID,
+              secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    });
+  }
+
+  /**
+   * Extracts the object key from a storage URL
+   */
+  private keyFromUrl(url: string): string {
+    const prefix = `${SCHEME}${this.bucket}/`;
+    if (!url.startsWith(prefix)) {
+      throw new Error(`Not a storage URL for bucket ${this.bucket}: ${url}`);
+    }
+    return url.slice(prefix.length);
+  }
+
+  async put(key: string, data: Buffer | Readable, contentType: string): Promise<string> {
+    // Small buffers go up in a single request, streams in parts
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+      },
+    });
+    await upload.done();
+
+    return `${SCHEME}${this.bucket}/${key}`;
+  }
+
+  /**
+   * Fetches an object's body
+   */
+  private async body(url: string) {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.keyFromUrl(url) })
+    );
+
+    if (!response.Body) {
+      throw new Error(`Empty object: ${url}`);
+    }
+
+    return response.Body;
+  }
+
+  async get(url: string): Promise<Buffer> {
+    const body = await this.body(url);
+    return Buffer.from(await body.transformToByteArray());
+  }
+
+  async getStream(url: string): Promise<Readable> {
+    // In Node.js the SDK returns the body as a readable stream
+    return (await this.body(url)) as Readable;
+  }
+
+  async delete(url: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: this.keyFromUrl(url) })
+    );
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * @fileoverview Integration Syncs
+ *
+ * Scheduled and on-demand ingestion: each sync reads an integration's new
+ * records into a case and queues its analysis, like an import that runs
+ * by itself.
+ *
+ * - `Integration.schedule` is a cron expression (UTC, see cron.ts);
+ *   `nextSyncAt` holds its next run. "Sync now" sets `syncRequestedAt`.
+ * - The worker calls `claimDueSync` on every pass, between analysis jobs,
+ *   and runs what it claims with `runSync`. Claims use `FOR UPDATE SKIP
+ *   LOCKED` and a RUNNING `SyncRun`, so an integration never syncs twice
+ *   at once.
+ * - Integrations with incremental settings keep a watermark (see
+ *   connectors/watermark.ts). A sync reads only the records above it, and
+ *   the watermark moves only when the sync succeeds, so a failed sync is
+ *   repeated in full by the next one.
+ * - A sync that finds no new records succeeds without creating a case.
+ *
+ * Every sync is recorded as a `SyncRun` with its row count, duration and
+ * error; the newest `MAX_RUNS_KEPT` per integration are kept. A failed
+ * sync queues the integration.sync_failed webhook event.
+ */
+
+import type { Prisma, SyncStatus, SyncTrigger } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_MODULES } from "@/lib/analysis/modules";
+import type { AnalysisModuleId } from "@/lib/analysis/types";
+import { integrationWatermarkKind, createWatermarkTracker } from "@/lib/connectors";
+import { nextCronTime } from "@/lib/cron";
+import { checkIntegrationUsable, checkScheduleAllowed } from "@/lib/entitlements";
+import { storeIntegrationRecords } from "@/lib/imports";
+import { enqueueAnalysis } from "@/lib/jobs";
+import { queueEvent } from "@/lib/outbound-webhooks";
+import { getStorage } from "@/lib/storage";
+import {
+  integrationSchemas,
+  type ScheduleIntegrationInput,
+} from "@/lib/validations/integration";
+
+/**
+ * Runs kept per integration; older ones are deleted after each sync
+ */
+const MAX_RUNS_KEPT = 100;
+
+/**
+ * A RUNNING sync older than this belonged to a worker that stopped
+ */
+const STALE_RUN_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * A sync claimed by a worker
+ */
+export interface ClaimedSync {
+  runId: string;
+  integrationId: string;
+  trigger: SyncTrigger;
+}
+
+/**
+ * A sync run as returned by the API
+ */
+export interface SyncRunView {
+  id: string;
+  status: SyncStatus;
+  trigger: SyncTrigger;
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+  rowsRead: number;
+  watermarkFrom: string | null;
+  watermarkTo: string | null;
+  error: string | null;
+  caseId: string | null;
+}
+
+/**
+ * Schedule settings of an integration, as returned by the API
+ */
+export interface ScheduleView {
+  schedule: string | null;
+  syncModules: string[];
+  nextSyncAt: Date | null;
+  syncRequestedAt: Date | null;
+  lastSyncedAt: Date | null;
+  watermark: string | null;
+}
+
+/**
+ * Outcome of a schedule or sync request: the integration's sync settings,
+ * or an error with its HTTP status (and the body to send for plan denials)
+ */
+export type SyncResult =
+  | { ok: true; integration: ScheduleView }
+  | { ok: false; status: number; error: string; body?: object };
+
+const scheduleSelect = {
+  schedule: true,
+  syncModules: true,
+  nextSyncAt: true,
+  syncRequestedAt: true,
+  lastSyncedAt: true,
+  watermark: true,
+} as const;
+
+/**
+ * Name of a case created by a sync, e.g. "Payments sync 2026-10-19 14:00 UTC"
+ */
+function syncCaseName(integrationName: string, date: Date): string {
+  return `${integrationName} sync ${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/**
+ * Sets a user's integration's sync schedule and the modules syncs run
+ *
+ * Turning a schedule on requires a plan with scheduled syncs; turning it
+ * off is always allowed.
+ *
+ * @param userId - Owner of the integration
+ * @param integrationId - Integration to schedule
+ * @param input - Validated schedule (null turns it off) and modules
+ */
+export async function updateSchedule(
+  userId: string,
+  integrationId: string,
+  input: ScheduleIntegrationInput
+): Promise<SyncResult> {
+  const existing = await prisma.integration.findFirst({
+    where: { id: integrationId, userId },
+    select: { id: true, type: true },
+  });
+
+  if (!existing) {
+    return { ok: false, status: 404, error: "Integration not found" };
+  }
+  if (existing.type === "WEBHOOK") {
+    return {
+      ok: false,
+      status: 400,
+      error: "Webhook integrations receive their data and do not sync",
+    };
+  }
+
+  if (input.schedule) {
+    const denied = await checkScheduleAllowed(userId);
+    if (denied) {
+      return { ok: false, status: denied.status, error: denied.body.error, body: denied.body };
+    }
+  }
+
+  const integration = await prisma.integration.update({
+    where: { id: existing.id },
+    data: {
+      schedule: input.schedule,
+      nextSyncAt: input.schedule ? nextCronTime(input.schedule) : null,
+      ...(input.modules ? { syncModules: input.modules } : {}),
+    },
+    select: scheduleSelect,
+  });
+  return { ok: true, integration };
+}
+
+/**
+ * Asks for a sync of a user's integration as soon as a worker is free
+ *
+ * @param userId - Owner of the integration
+ * @param integrationId - Integration to sync
+ * @param resetWatermark - Forget the watermark, so the sync reads everything
+ */
+export async function requestSync(
+  userId: string,
+  integrationId: string,
+  resetWatermark: boolean
+): Promise<SyncResult> {
+  const existing = await prisma.integration.findFirst({
+    where: { id: integrationId, userId },
+  });
+
+  if (!existing) {
+    return { ok: false, status: 404, error: "Integration not found" };
+  }
+  if (!existing.isActive) {
+    return { ok: false, status: 400, error: "Integration is disabled" };
+  }
+
+  const denied = await checkIntegrationUsable(userId, existing.id);
+  if (denied) {
+    return { ok: false, status: denied.status, error: denied.body.error, body: denied.body };
+  }
+
+  if (existing.type === "WEBHOOK") {
+    return {
+      ok: false,
+      status: 400,
+      error: "Webhook integrations receive their data and do not sync",
+    };
+  }
+  // API integrations sync their endpoint; SQL ones need a table or query
+  if (existing.type === "SQL") {
+    const config = integrationSchemas.SQL.config.safeParse(existing.config);
+    if (!config.success || !config.data.source) {
+      return {
+        ok: false,
+        status: 400,
+        error: "Choose a table or query to import in the integration's settings",
+      };
+    }
+  }
+
+  const integration = await prisma.integration.update({
+    where: { id: existing.id },
+    data: {
+      syncRequestedAt: existing.syncRequestedAt ?? new Date(),
+      ...(resetWatermark ? { watermark: null } : {}),
+    },
+    select: scheduleSelect,
+  });
+  return { ok: true, integration };
+}
+
+/**
+ * Lists the sync runs of a user's integration, newest first
+ *
+ * @returns The runs, or null if the integration does not exist or belongs to someone else
+ */
+export async function listSyncRuns(
+  userId: string,
+  integrationId: string
+): Promise<SyncRunView[] | null> {
+  const integration = await prisma.integration.findFirst({
+    where: { id: integrationId, userId },
+    select: { id: true },
+  });
+
+  if (!integration) return null;
+
+  return prisma.syncRun.findMany({
+    where: { integrationId: integration.id },
+    orderBy: { startedAt: "desc" },
+    take: MAX_RUNS_KEPT,
+    select: {
+      id: true,
+      status: true,
+      trigger: true,
+      startedAt: true,
+      finishedAt: true,
+      durationMs: true,
+      rowsRead: true,
+      watermarkFrom: true,
+      watermarkTo: true,
+      error: true,
+      caseId: true,
+    },
+  });
+}
+
+/**
+ * Claims the next integration that is due to sync
+ *
+ * Requested syncs and passed schedules are due. The claim records a
+ * RUNNING run and moves `nextSyncAt` to the schedule's next time, so a
+ * sync that is missed while no worker runs happens once, not once per
+ * missed time.
+ *
+ * @returns The claimed sync, or null if none is due
+ */
+export async function claimDueSync(): Promise<ClaimedSync | null> {
+  const now = new Date();
+
+  // Runs left RUNNING by a stopped worker would block their integration
+  await prisma.syncRun.updateMany({
+    where: { status: "RUNNING", startedAt: { lt: new Date(now.getTime() - STALE_RUN_MS) } },
+    data: { status: "FAILED", finishedAt: now, error: "The worker stopped before the sync finished" },
+  });
+
+  return prisma.$transaction(async (tx) => {
+    const [due] = await tx.$queryRaw<
+      { id: string; schedule: string | null; nextSyncAt: Date | null; syncRequestedAt: Date | null }[]
+    >`
+      SELECT "id", "schedule", "nextSyncAt", "syncRequestedAt" FROM "integrations" AS i
+      WHERE "isActive"
+        AND ("syncRequestedAt" IS NOT NULL OR "nextSyncAt" <= ${now})
+        AND NOT EXISTS (
+          SELECT 1 FROM "sync_runs" AS r
+          WHERE r."integrationId" = i."id" AND r."status" = 'RUNNING'
+        )
+      ORDER BY COALESCE("syncRequestedAt", "nextSyncAt") ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    `;
+
+    if (!due) return null;
+
+    const trigger: SyncTrigger = due.syncRequestedAt ? "MANUAL" : "SCHEDULE";
+    const scheduleDue = due.nextSyncAt !== null && due.nextSyncAt <= now;
+
+    await tx.integration.update({
+      where: { id: due.id },
+      data: {
+        syncRequestedAt: null,
+        // A requested sync also covers a schedule that is due
+        ...(scheduleDue
+          ? { nextSyncAt: due.schedule ? nextCronTime(due.schedule, now) : null }
+          : {}),
+      },
+    });
+
+    const run = await tx.syncRun.create({
+      data: { integrationId: due.id, trigger },
+      select: { id: true },
+    });
+
+    return { runId: run.id, integrationId: due.id, trigger };
+  });
+}
+
+/**
+ * Runs a claimed sync to completion
+ *
+ * Never throws for a failing source: the run is marked FAILED with the
+ * reason and the watermark stays where it was.
+ *
+ * @param sync - Sync returned by `claimDueSync`
+ */
+export async function runSync(sync: ClaimedSync): Promise<void> {
+  const started = Date.now();
+  const integration = await prisma.integration.findUnique({ where: { id: sync.integrationId } });
+
+  // Deleted since the claim; its runs went with it
+  if (!integration) return;
+
+  const kind = integrationWatermarkKind(integration.type, integration.config);
+  const watermark = kind ? createWatermarkTracker(kind, integration.watermark) : undefined;
+  let caseId: string | null = null;
+  let fileUrl: string | null = null;
+
+  const finish = (
+    status: SyncStatus,
+    data: { rowsRead?: number; error?: string } = {},
+    db: Prisma.TransactionClient = prisma
+  ) =>
+    db.syncRun.update({
+      where: { id: sync.runId },
+      data: {
+        status,
+        finishedAt: new Date(),
+        durationMs: Date.now() - started,
+        watermarkFrom: watermark?.since ?? null,
+        watermarkTo: status === "SUCCEEDED" ? watermark?.latest ?? null : null,
+        caseId,
+        ...data,
+      },
+    });
+
+  try {
+    // Syncs stop when the plan no longer covers the integration, and
+    // scheduled ones when it no longer includes schedules
+    const denied =
+      (await checkIntegrationUsable(integration.userId, integration.id)) ??
+      (sync.trigger === "SCHEDULE" ? await checkScheduleAllowed(integration.userId) : null);
+    if (denied) throw new Error(denied.body.error);
+
+    const newCase = await prisma.case.create({
+      data: {
+        name: syncCaseName(integration.name, new Date(started)),
+        description: `Created by a ${sync.trigger === "SCHEDULE" ? "scheduled" : "manual"} sync of ${integration.name}`,
+        integrationId: integration.id,
+        userId: integration.userId,
+      },
+    });
+    caseId = newCase.id;
+
+    const stored = await storeIntegrationRecords(
+      integration.userId,
+      newCase.id,
+      integration,
+      watermark
+    );
+
+    if (!stored) {
+      // Nothing new: no case to analyze
+      await prisma.case.delete({ where: { id: newCase.id } });
+      caseId = null;
+    } else {
+      fileUrl = stored.fileUrl;
+      const modules = integration.syncModules.length
+        ? (integration.syncModules as AnalysisModuleId[])
+        : DEFAULT_MODULES;
+      await enqueueAnalysis(newCase.id, modules);
+    }
+
+    await prisma.integration.update({
+      where: { id: integration.id },
+      data: {
+        lastSyncedAt: new Date(),
+        ...(watermark ? { watermark: watermark.latest } : {}),
+      },
+    });
+    await finish("SUCCEEDED", { rowsRead: stored?.rows ?? 0 });
+  } catch (error) {
+    console.error(`Sync of integration ${integration.id} failed:`, error);
+
+    // Remove the half-made case so only analyzable cases remain
+    if (caseId) {
+      await prisma.case.delete({ where: { id: caseId } }).catch(() => undefined);
+      caseId = null;
+    }
+    if (fileUrl) {
+      await getStorage()
+        .delete(fileUrl)
+        .catch((deleteError) => console.error("Failed to delete sync file:", deleteError));
+    }
+
+    const reason = error instanceof Error ? error.message : String(error);
+    await prisma.$transaction(async (tx) => {
+      const run = await finish("FAILED", { error: reason }, tx);
+      await queueEvent(tx, integration.userId, "integration.sync_failed", {
+        integration: { id: integration.id, name: integration.name, type: integration.type },
+        sync: {
+          id: run.id,
+          trigger: run.trigger,
+          started_at: run.startedAt.toISOString(),
+          finished_at: run.finishedAt?.toISOString() ?? null,
+          error: reason,
+        },
+      });
+    });
+  }
+
+  // Keep the newest runs only
+  const old = await prisma.syncRun.findMany({
+    where: { integrationId: integration.id },
+    orderBy: { startedAt: "desc" },
+    skip: MAX_RUNS_KEPT,
+    select: { id: true },
+  });
+  if (old.length > 0) {
+    await prisma.syncRun.deleteMany({ where: { id: { in: old.map((run) => run.id) } } });
+  }
+}
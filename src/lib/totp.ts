@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Time-Based One-Time Passwords (RFC 6238)
+ *
+ * The codes shown by authenticator apps (Google Authenticator, 1Password,
+ * Authy, ...): an HMAC-SHA1 of the number of 30-second steps since the
+ * Unix epoch, keyed with a secret shared once through a QR code, cut down
+ * to 6 digits. Codes from the step before and after the current one are
+ * accepted too, to allow for clock drift.
+ *
+ * Secrets are exchanged in base32 (RFC 4648), the encoding apps expect in
+ * `otpauth://` URLs and for manual entry.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Seconds each code is valid for
+ */
+const STEP_SECONDS = 30;
+
+/**
+ * Digits in a code
+ */
+const DIGITS = 6;
+
+/**
+ * Steps before and after the current one whose codes are accepted
+ */
+const DRIFT_STEPS = 1;
+
+/**
+ * Bytes of a new secret (160 bits, as RFC 4226 recommends)
+ */
+const SECRET_BYTES = 20;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Encodes bytes as unpadded base32
+ */
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < data.length; i++) {
+    value = (value << 8) | data[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decodes base32, ignoring case, spaces and padding
+ *
+ * @throws Error if the text has characters outside the base32 alphabet
+ */
+export function base32Decode(text: string): Buffer {
+  const clean = text.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Creates a new random secret, base32 encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Number of the time step a moment falls in
+ */
+export function totpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * The code for a secret at a time step (HOTP, RFC 4226)
+ */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  // Dynamic truncation: 4 bytes at the offset given by the last nibble
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * Checks a code against the current step and its neighbours
+ *
+ * @param secret - Base32 secret
+ * @param code - Code typed by the user (spaces are ignored)
+ * @returns The step the code belongs to, or null if it does not match.
+ * Callers keep the last accepted step so a code can't be used twice.
+ */
+export function verifyTotp(secret: string, code: string, now: number = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) return null;
+
+  const current = totpStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * `otpauth://` URL that authenticator apps read from the QR code
+ *
+ * @param secret - Base32 secret
+ * @param account - Account name shown in the app (the user's email)
+ * @param issuer - Service name shown in the app
+ */
+export function totpUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
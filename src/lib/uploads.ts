@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Case Upload Pipeline
+ *
+ * Turns an uploaded CSV into a queued case:
+ * 1. Stream the multipart body straight to storage (`receiveUpload`),
+ *    keeping only the first bytes in memory as a sample and enforcing the
+ *    size limit as the bytes arrive
+ * 2. Resolve the column mapping: the one chosen in the wizard, else a
+ *    matching template, else auto-detection from the sample
+ * 3. Validate the sample as CSV in that format
+ * 4. Use one upload from the subscription's monthly quota
+ * 5. Create the case in the PENDING state with `Case.fileUrl` set
+ * 6. Queue analysis for the selected modules
+ *
+ * The file never sits in memory as a whole, so multi-gigabyte ledgers can
+ * be uploaded. If any later step fails, the stored file is deleted again
+ * and the upload is given back to the quota, so no orphaned files remain
+ * and failed uploads are not charged.
+ */
+
+import { randomUUID } from "crypto";
+import { Readable, Transform, pipeline } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import busboy from "busboy";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { validateCsv } from "@/lib/csv";
+import { completeLines, previewCsv, SAMPLE_BYTES } from "@/lib/csv-format";
+import { defaultMapping, missingColumns, type ColumnMapping } from "@/lib/column-mapping";
+import { findMatchingTemplate } from "@/lib/mapping-templates";
+import { consumeUpload, releaseUpload, type LimitExceeded } from "@/lib/entitlements";
+import { enqueueAnalysis } from "@/lib/jobs";
+import { caseFileKey, getStorage } from "@/lib/storage";
+import type { UploadCaseInput } from "@/lib/validations/case";
+
+/**
+ * Maximum accepted upload size in bytes (default 2 GB)
+ */
+export const MAX_UPLOAD_BYTES =
+  Number(process.env.MAX_UPLOAD_BYTES) || 2 * 1024 * 1024 * 1024;
+
+/**
+ * A file that has been streamed to storage but not yet attached to a case
+ */
+export interface StoredUpload {
+  url: string;
+  fileName: string;
+  size: number;
+  /** The first SAMPLE_BYTES of the file */
+  sample: Buffer;
+}
+
+/**
+ * Outcome of receiving a multipart upload
+ */
+export type ReceiveResult =
+  | { ok: true; fields: Record<string, string[]>; file: StoredUpload | null }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Outcome of an upload: the created case, or an error with its HTTP status
+ * (`limit` is set when the upload quota is used up)
+ */
+export type UploadResult =
+  | { ok: true; case: { id: string; name: string; status: string; fileUrl: string | null } }
+  | { ok: false; status: number; error: string; limit?: LimitExceeded["body"] };
+
+/**
+ * Human-readable upload limit for error messages
+ */
+function uploadLimitMessage(): string {
+  return `File exceeds the ${Math.floor(MAX_UPLOAD_BYTES / (1024 * 1024))} MB upload limit`;
+}
+
+/**
+ * Streams a multipart request: text fields are collected, the `file` part
+ * is written to storage as it arrives
+ *
+ * @param request - Incoming multipart/form-data request
+ * @param userId - Owner, used for the storage key
+ */
+export async function receiveUpload(request: Request, userId: string): Promise<ReceiveResult> {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (!contentType.startsWith("multipart/form-data") || !request.body) {
+    return { ok: false, status: 400, error: "Expected a multipart/form-data upload" };
+  }
+
+  const fields: Record<string, string[]> = {};
+  let stored: Promise<StoredUpload> | null = null;
+  let truncated = false;
+
+  const parser = busboy({
+    headers: { "content-type": contentType },
+    limits: { files: 1, fileSize: MAX_UPLOAD_BYTES, fields: 50, fieldSize: 1024 * 1024 },
+  });
+
+  parser.on("field", (name, value) => {
+    (fields[name] ??= []).push(value);
+  });
+
+  parser.on("file", (name, file, info) => {
+    if (name !== "file" || stored) {
+      file.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let sampled = 0;
+    let size = 0;
+
+    // Copy the first bytes aside for format detection while passing everything on
+    const tap = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        if (sampled < SAMPLE_BYTES) {
+          const part = chunk.subarray(0, SAMPLE_BYTES - sampled);
+          chunks.push(part);
+          sampled += part.length;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    file.on("limit", () => {
+      truncated = true;
+    });
+    // .pipe() doesn't pass errors on: end the write when the request fails
+    // part-way, and the malformed-upload branch below deletes it
+    file.on("error", () => tap.end());
+
+    const key = caseFileKey(userId, randomUUID(), info.filename || "upload.csv");
+    stored = getStorage()
+      .put(key, file.pipe(tap), "text/csv")
+      .then((url) => ({
+        url,
+        fileName: info.filename,
+        size,
+        sample: Buffer.concat(chunks),
+      }));
+
+    // Errors are handled once the whole request has been read. Until then
+    // the rest of the file is drained, or busboy would wait for it forever.
+    stored.catch(() => {
+      file.unpipe(tap);
+      file.resume();
+    });
+  });
+
+  const parsed = new Promise<void>((resolve, reject) => {
+    parser.on("close", resolve);
+    parser.on("error", reject);
+  });
+
+  // pipeline() (not .pipe()) so an aborted or failed body also fails the
+  // parser; its errors are handled through `parsed`
+  pipeline(Readable.fromWeb(request.body as WebReadableStream<Uint8Array>), parser, () => undefined);
+
+  // `stored` is assigned inside the event handler, which TypeScript cannot see
+  const storedUpload = () => stored as Promise<StoredUpload> | null;
+
+  try {
+    await parsed;
+  } catch {
+    await storedUpload()?.then(discardUpload, () => undefined);
+    return { ok: false, status: 400, error: "Malformed multipart upload" };
+  }
+
+  let file: StoredUpload | null;
+  try {
+    file = (await storedUpload()) ?? null;
+  } catch (error) {
+    console.error("Upload storage error:", error);
+    return { ok: false, status: 500, error: "Failed to store the uploaded file" };
+  }
+
+  if (truncated && file) {
+    await discardUpload(file);
+    return { ok: false, status: 413, error: uploadLimitMessage() };
+  }
+
+  return { ok: true, fields, file };
+}
+
+/**
+ * Deletes a stored upload that will not become a case
+ */
+export async function discardUpload(file: StoredUpload): Promise<void> {
+  await getStorage()
+    .delete(file.url)
+    .catch((error) => console.error("Failed to delete upload:", error));
+}
+
+/**
+ * Works out the mapping for a stored file that did not come with one
+ *
+ * A saved template whose headers match the file wins over detection.
+ */
+export async function detectMapping(userId: string, file: StoredUpload): Promise<ColumnMapping> {
+  const preview = previewCsv(file.sample, { partial: file.size > file.sample.length });
+  const template = await findMatchingTemplate(userId, preview.headers);
+  return template?.mapping ?? defaultMapping(preview);
+}
+
+/**
+ * Creates and queues a case for a stored upload
+ *
+ * The stored file is deleted if the case cannot be created.
+ *
+ * @param userId - Owner of the new case
+ * @param file - Upload returned by `receiveUpload`
+ * @param input - Validated case name, description, modules and optional mapping
+ */
+export async function createCaseFromUpload(
+  userId: string,
+  file: StoredUpload,
+  input: UploadCaseInput
+): Promise<UploadResult> {
+  try {
+    const mapping = input.mapping ?? (await detectMapping(userId, file));
+    const partial = file.size > file.sample.length;
+    const validation = validateCsv(partial ? completeLines(file.sample) : file.sample, {
+      ...mapping.format,
+      partial,
+    });
+
+    if (!validation.valid) {
+      await discardUpload(file);
+      return { ok: false, status: 400, error: validation.error };
+    }
+
+    const missing = missingColumns(mapping.roles, validation.headers);
+    if (missing.length > 0) {
+      await discardUpload(file);
+      return {
+        ok: false,
+        status: 400,
+        error: `Mapped columns not found in file: ${missing.join(", ")}`,
+      };
+    }
+
+    const denied = await consumeUpload(userId);
+    if (denied) {
+      await discardUpload(file);
+      return { ok: false, status: denied.status, error: denied.body.error, limit: denied.body };
+    }
+
+    try {
+      const newCase = await prisma.case.create({
+        data: {
+          name: input.name,
+          description: input.description || null,
+          fileUrl: file.url,
+          columnMapping: mapping as unknown as Prisma.InputJsonValue,
+          userId,
+        },
+      });
+
+      try {
+        await enqueueAnalysis(newCase.id, input.modules);
+      } catch (error) {
+        // Roll back the case so no case without queued analysis remains
+        await prisma.case.delete({ where: { id: newCase.id } }).catch(() => undefined);
+        throw error;
+      }
+
+      return {
+        ok: true,
+        case: { id: newCase.id, name: newCase.name, status: "PENDING", fileUrl: file.url },
+      };
+    } catch (error) {
+      await releaseUpload(userId).catch(() => undefined);
+      throw error;
+    }
+  } catch (error) {
+    await discardUpload(file);
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview API Key Request Validation
+ *
+ * Zod schemas for the API key routes. Scopes limit what a key may do in
+ * the public API; a key without a scope gets a 403 for its endpoints.
+ */
+
+import { z } from "zod";
+
+/**
+ * Permissions an API key can be given
+ * - cases:read: list cases and read their results
+ * - cases:write: upload files for analysis
+ * - integrations:manage: create integrations
+ */
+export const apiKeyScopeSchema = z.enum(["cases:read", "cases:write", "integrations:manage"]);
+
+/**
+ * Request body for POST /api/api-keys
+ */
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Key name is required").max(100),
+  scopes: z
+    .array(apiKeyScopeSchema)
+    .min(1, "Select at least one scope")
+    .transform((scopes) => Array.from(new Set(scopes))),
+  // Days until the key stops working; omitted keys never expire
+  expiresInDays: z.coerce.number().int().min(1).max(3650).optional(),
+});
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Account Request Validation
+ *
+ * Zod schemas for the password and two-factor authentication routes.
+ * Passwords follow the signup rule (at least 8 characters); the upper
+ * bound keeps bcrypt input sensible.
+ * The rest of the password policy needs the account, so it is checked by
+ * the services (see password-policy.ts).
+ */
+
+import { z } from "zod";
+
+/**
+ * A new password chosen by the user
+ */
+export const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be at most 128 characters");
+
+/**
+ * Request body for POST /api/auth/forgot-password
+ */
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email format").max(320),
+});
+
+/**
+ * Request body for POST /api/auth/reset-password
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string().trim().min(1, "Reset token is required").max(200),
+  password: passwordSchema,
+});
+
+/**
+ * Request body for POST /api/auth/change-password
+ */
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required").max(128),
+  newPassword: passwordSchema,
+});
+
+/**
+ * An authenticator app code ("123 456") or a recovery code ("k3p9x-7mwq2")
+ */
+const mfaCodeSchema = z.string().trim().min(1, "Authentication code is required").max(32);
+
+/**
+ * Request body for POST /api/auth/mfa/enable, /verify and /recovery-codes
+ */
+export const mfaCodeBodySchema = z.object({
+  code: mfaCodeSchema,
+});
+
+/**
+ * Request body for POST /api/auth/mfa/disable
+ */
+export const disableMfaSchema = z.object({
+  password: z.string().min(1, "Password is required").max(128),
+  code: mfaCodeSchema,
+});
+
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type DisableMfaInput = z.infer<typeof disableMfaSchema>;
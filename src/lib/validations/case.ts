@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Case Request Validation
+ *
+ * Zod schemas for the case API routes. Keeping them in one place lets the
+ * route handlers stay small and gives us a single definition of what a
+ * valid request looks like.
+ */
+
+import { z } from "zod";
+import { columnMappingFieldSchema } from "@/lib/validations/mapping";
+
+/**
+ * Case status values (mirrors the Prisma `CaseStatus` enum)
+ */
+export const caseStatusSchema = z.enum(["PENDING", "PROCESSING", "COMPLETED", "FAILED"]);
+
+/**
+ * Analysis module ids (see `AnalysisModuleId`)
+ */
+export const analysisModuleSchema = z.enum(["benford", "mscore", "zscore"]);
+
+/**
+ * Query parameters for GET /api/cases
+ */
+export const listCasesQuerySchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  status: caseStatusSchema.optional(),
+  sort: z.enum(["createdAt", "updatedAt", "name", "status"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Request body for POST /api/cases
+ */
+export const createCaseSchema = z.object({
+  name: z.string().trim().min(1, "Case name is required").max(200),
+  description: z.string().trim().max(2000).optional(),
+});
+
+/**
+ * Analysis modules selected for a new case (duplicates removed)
+ */
+const caseModulesSchema = z
+  .array(analysisModuleSchema)
+  .min(1, "Select at least one analysis module")
+  .transform((modules) => Array.from(new Set(modules)));
+
+/**
+ * Form fields for POST /api/cases/upload (the file is validated separately)
+ */
+export const uploadCaseSchema = createCaseSchema.extend({
+  modules: caseModulesSchema,
+  // Optional: detected from the file (or a matching template) when omitted
+  mapping: columnMappingFieldSchema.optional(),
+});
+
+/**
+ * Request body for POST /api/integrations/:id/import
+ *
+ * The column mapping is detected once the data has been read.
+ */
+export const importCaseSchema = createCaseSchema.extend({
+  modules: caseModulesSchema,
+});
+
+/**
+ * Request body for PATCH /api/cases/:id
+ */
+export const updateCaseSchema = z
+  .object({
+    name: z.string().trim().min(1, "Case name cannot be empty").max(200),
+    description: z.string().trim().max(2000).nullable(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Provide at least one field to update",
+  });
+
+export type ListCasesQuery = z.infer<typeof listCasesQuerySchema>;
+export type CreateCaseInput = z.infer<typeof createCaseSchema>;
+export type UploadCaseInput = z.infer<typeof uploadCaseSchema>;
+export type ImportCaseInput = z.infer<typeof importCaseSchema>;
+export type UpdateCaseInput = z.infer<typeof updateCaseSchema>;
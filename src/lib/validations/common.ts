@@ -0,0 +1,19 @@
+/**
+ * @fileoverview Shared Validation Helpers
+ *
+ * Helpers used by every API route that validates input with zod.
+ */
+
+import { z } from "zod";
+
+/**
+ * Returns the first validation message from a failed parse, for API errors
+ *
+ * @param error - Zod error from `safeParse`
+ * @returns Message such as "name: Case name is required"
+ */
+export function firstIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  if (!issue) return "Invalid request";
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
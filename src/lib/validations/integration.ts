@@ -0,0 +1,514 @@
+/**
+ * @fileoverview Integration Request Validation
+ *
+ * Zod schemas for the integration API routes. Each integration type has a
+ * settings schema (stored as plain JSON in `Integration.config`) and a
+ * secrets schema (stored encrypted in `Integration.secrets`). Keeping the
+ * two apart is what lets the API return settings without ever returning
+ * a credential.
+ *
+ * API and SQL integrations read from a source; WEBHOOK integrations
+ * receive signed deliveries instead (see inbound-webhooks.ts).
+ */
+
+import { z } from "zod";
+import { COLUMN_ROLES } from "@/lib/column-mapping";
+import { jsonPathIssue } from "@/lib/json-path";
+import { parseCron, shortestCronInterval } from "@/lib/cron";
+import { DEFAULT_MODULES } from "@/lib/analysis/modules";
+import { analysisModuleSchema } from "@/lib/validations/case";
+
+/**
+ * Integration types (mirrors the Prisma `IntegrationType` enum)
+ */
+export const integrationTypeSchema = z.enum(["API", "SQL", "WEBHOOK"]);
+
+/**
+ * A JSONPath-style selector (see json-path.ts)
+ */
+const jsonPathSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(500)
+  .superRefine((path, ctx) => {
+    const issue = jsonPathIssue(path);
+    if (issue) ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue });
+  });
+
+/**
+ * Record field (a path within each record) to use for each analysis column
+ */
+const fieldMappingSchema = z.record(z.enum(COLUMN_ROLES), jsonPathSchema);
+
+/**
+ * A query parameter name used for pagination
+ */
+const paramNameSchema = z.string().trim().min(1).max(100);
+
+/**
+ * What an incremental sync's watermark holds: a timestamp, or an id that
+ * only increases
+ */
+export const watermarkKindSchema = z.enum(["timestamp", "id"]);
+
+/**
+ * How an API integration authenticates. The credential each scheme uses
+ * is a secret: `apiKey` (bearer, header), `password` (basic) or
+ * `clientSecret` (oauth2).
+ */
+export const apiAuthSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("none") }),
+  // Authorization: Bearer <apiKey>
+  z.object({ type: z.literal("bearer") }),
+  // Authorization: Basic base64(username:password)
+  z.object({
+    type: z.literal("basic"),
+    username: z.string().trim().min(1, "Username is required").max(255),
+  }),
+  // <header>: <apiKey>, e.g. X-API-Key
+  z.object({
+    type: z.literal("header"),
+    header: z
+      .string()
+      .trim()
+      .min(1, "Header name is required")
+      .max(100)
+      .regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, "Enter a valid header name"),
+  }),
+  // OAuth2 client credentials grant; the token is sent as a bearer token
+  z.object({
+    type: z.literal("oauth2"),
+    tokenUrl: z
+      .string()
+      .trim()
+      .url("Enter a valid token URL")
+      .refine((url) => /^https?:\/\//i.test(url), "Token URL must start with http:// or https://"),
+    clientId: z.string().trim().min(1, "Client ID is required").max(500),
+    scope: z.string().trim().max(1000).optional(),
+  }),
+]);
+
+/**
+ * How an API integration pages through results
+ *
+ * - offset: `?offset=0&limit=100`, then `offset=100`, ...
+ * - page: `?page=1`, then `page=2`, ... (with an optional page size parameter)
+ * - cursor: the next cursor is read from each response and sent as a parameter
+ * - link: follow the `Link: <...>; rel="next"` response header
+ *
+ * Paging stops at an empty or short page, or when there is no next cursor/link.
+ */
+export const apiPaginationSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("none") }),
+  z.object({
+    type: z.literal("offset"),
+    offsetParam: paramNameSchema.default("offset"),
+    limitParam: paramNameSchema.default("limit"),
+    pageSize: z.coerce.number().int().min(1).max(10_000).default(100),
+  }),
+  z.object({
+    type: z.literal("page"),
+    pageParam: paramNameSchema.default("page"),
+    // Sent with the page size when set, e.g. "per_page"
+    sizeParam: paramNameSchema.optional(),
+    pageSize: z.coerce.number().int().min(1).max(10_000).optional(),
+    firstPage: z.coerce.number().int().min(0).default(1),
+  }),
+  z.object({
+    type: z.literal("cursor"),
+    cursorParam: paramNameSchema.default("cursor"),
+    // Where the next cursor is in each response, e.g. "$.meta.next_cursor"
+    cursorPath: jsonPathSchema,
+  }),
+  z.object({ type: z.literal("link") }),
+]);
+
+/**
+ * Settings of an API integration
+ *
+ * Settings saved before auth schemes existed have no `auth`; they send
+ * the API key as a bearer token when one is saved.
+ */
+export const apiConfigSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url("Enter a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "URL must start with http:// or https://"),
+  auth: apiAuthSchema.optional(),
+  pagination: apiPaginationSchema.default({ type: "none" }),
+  // Most pages read per import
+  maxPages: z.coerce.number().int().min(1).max(10_000).default(100),
+  // Where the records are in each response; detected when omitted
+  recordsPath: jsonPathSchema.optional(),
+  // Field of each record (a path within it) to use for each analysis column
+  fields: fieldMappingSchema.optional(),
+  // Incremental syncs: the record field that grows with new records, and
+  // the query parameter that asks the API for records after a value
+  // (without one, every record is read and older ones are dropped)
+  incremental: z
+    .object({
+      field: jsonPathSchema,
+      kind: watermarkKindSchema,
+      param: paramNameSchema.optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Credentials of an API integration
+ */
+export const apiSecretsSchema = z.object({
+  apiKey: z.string().min(1).max(4096).optional(),
+  password: z.string().min(1).max(4096).optional(),
+  clientSecret: z.string().min(1).max(4096).optional(),
+});
+
+/**
+ * Credential each API auth scheme needs
+ */
+const API_AUTH_SECRETS: Record<ApiAuth["type"], { field: string; message: string } | null> = {
+  none: null,
+  bearer: { field: "apiKey", message: "Token is required" },
+  basic: { field: "password", message: "Password is required" },
+  header: { field: "apiKey", message: "API key is required" },
+  oauth2: { field: "clientSecret", message: "Client secret is required" },
+};
+
+/**
+ * Database engines a SQL integration can connect to
+ */
+export const sqlEngineSchema = z.enum(["postgres", "mysql", "sqlserver", "sqlite"]);
+
+/**
+ * Statements that write data or change the schema. Sessions are read-only
+ * on the server as well; checking here gives a clear error when saving.
+ */
+const WRITE_KEYWORDS =
+  /\b(insert|update|delete|merge|upsert|drop|alter|create|truncate|grant|revoke|exec|execute|call|copy|into|lock|vacuum|attach|detach|pragma)\b/i;
+
+/**
+ * Comments, string literals and quoted identifiers, which may contain
+ * anything without it being SQL
+ */
+const NON_CODE = /--[^\n]*|\/\*[\s\S]*?\*\/|'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]/g;
+
+/**
+ * Explains why a query is not a single read-only SELECT
+ *
+ * @returns The problem, or null if the query is acceptable
+ */
+function readOnlyQueryIssue(query: string): string | null {
+  const code = query.replace(NON_CODE, " ").trim().replace(/;\s*$/, "");
+
+  if (code.includes(";")) return "Only a single statement is allowed";
+  if (!/^(select|with)\b/i.test(code)) return "The query must start with SELECT or WITH";
+
+  const write = code.match(WRITE_KEYWORDS);
+  return write ? `The query must be read-only (found ${write[1].toUpperCase()})` : null;
+}
+
+/**
+ * What a SQL integration imports: a whole table or view, or the rows of a query
+ */
+export const sqlSourceSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("table"),
+    // Optionally schema-qualified, e.g. "public.transactions"
+    table: z.string().trim().min(1, "Table is required").max(255),
+  }),
+  z.object({
+    kind: z.literal("query"),
+    query: z
+      .string()
+      .trim()
+      .min(1, "Query is required")
+      .max(20_000)
+      .superRefine((query, ctx) => {
+        const issue = readOnlyQueryIssue(query);
+        if (issue) ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue });
+      }),
+  }),
+]);
+
+/**
+ * Settings of a SQL integration
+ *
+ * For SQLite, `database` is the path of the database file (relative to
+ * the user's folder of the server's SQLite directory) and host, port and
+ * username are unused.
+ * Settings saved before engines existed are PostgreSQL.
+ */
+export const sqlConfigSchema = z
+  .object({
+    engine: sqlEngineSchema.default("postgres"),
+    host: z.string().trim().max(255).default(""),
+    // The engine's default port when omitted
+    port: z.coerce.number().int().min(1).max(65535).optional(),
+    database: z.string().trim().min(1, "Database is required").max(255),
+    username: z.string().trim().max(255).default(""),
+    // Encrypt the connection and verify the server certificate
+    ssl: z.boolean().default(false),
+    // Table or query to import; until set, only connection tests are possible
+    source: sqlSourceSchema.optional(),
+    // Most rows read per import (the server's own cap still applies)
+    rowLimit: z.coerce.number().int().min(1).optional(),
+    // Incremental syncs: the column that grows with new rows
+    incremental: z
+      .object({
+        column: z.string().trim().min(1, "Column is required").max(255),
+        kind: watermarkKindSchema,
+      })
+      .optional(),
+  })
+  .superRefine((config, ctx) => {
+    if (config.engine === "sqlite") return;
+    if (!config.host) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["host"], message: "Host is required" });
+    }
+    if (!config.username) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["username"],
+        message: "Username is required",
+      });
+    }
+  });
+
+/**
+ * Credentials of a SQL integration (SQLite files have none)
+ */
+export const sqlSecretsSchema = z.object({
+  password: z.string().min(1).max(4096).optional(),
+});
+
+/**
+ * Settings of a webhook integration
+ *
+ * Accepted records are buffered and analyzed as one case per window of
+ * `windowMinutes`, counted from the first record after the last window,
+ * with the selected modules.
+ */
+export const webhookConfigSchema = z.object({
+  windowMinutes: z.coerce.number().int().min(5).max(24 * 60).default(60),
+  modules: z
+    .array(analysisModuleSchema)
+    .min(1, "Select at least one analysis module")
+    .default(DEFAULT_MODULES),
+  // Where the records are in each JSON delivery; detected when omitted
+  recordsPath: jsonPathSchema.optional(),
+  // Analysis columns mapped to record fields, as for API integrations
+  fields: fieldMappingSchema.optional(),
+});
+
+/**
+ * Credentials of a webhook integration: the key deliveries are signed with
+ */
+export const webhookSecretsSchema = z.object({
+  signingSecret: z
+    .string()
+    .min(32, "The signing secret must be at least 32 characters")
+    .max(4096)
+    .optional(),
+});
+
+/**
+ * Checks that the credentials an integration needs are present
+ *
+ * Which credentials are required can depend on the settings (a SQLite
+ * file needs no password, each API auth scheme needs its own credential),
+ * so this runs on top of the secrets schema.
+ *
+ * @param type - Integration type
+ * @param config - Validated settings
+ * @param fields - Names of the credentials that are set
+ * @returns The missing credential and why it is needed, or null
+ */
+export function missingCredential(
+  type: z.infer<typeof integrationTypeSchema>,
+  config: unknown,
+  fields: string[]
+): { field: string; message: string } | null {
+  if (type === "API") {
+    const auth = (config as { auth?: ApiAuth } | null)?.auth;
+    const required = auth ? API_AUTH_SECRETS[auth.type] : null;
+    return required && !fields.includes(required.field) ? required : null;
+  }
+
+  if (type === "WEBHOOK") {
+    return fields.includes("signingSecret")
+      ? null
+      : { field: "signingSecret", message: "Signing secret is required" };
+  }
+
+  const engine = (config as { engine?: string } | null)?.engine;
+  if (engine !== "sqlite" && !fields.includes("password")) {
+    return { field: "password", message: "Password is required" };
+  }
+  return null;
+}
+
+/**
+ * Settings and credentials schema per integration type
+ */
+export const integrationSchemas = {
+  API: { config: apiConfigSchema, secrets: apiSecretsSchema },
+  SQL: { config: sqlConfigSchema, secrets: sqlSecretsSchema },
+  WEBHOOK: { config: webhookConfigSchema, secrets: webhookSecretsSchema },
+} satisfies Record<
+  z.infer<typeof integrationTypeSchema>,
+  { config: z.ZodTypeAny; secrets: z.ZodTypeAny }
+>;
+
+const integrationNameSchema = z.string().trim().min(1, "Integration name is required").max(100);
+
+/**
+ * Request body for POST /api/integrations
+ */
+export const createIntegrationSchema = z
+  .discriminatedUnion("type", [
+    z.object({
+      type: z.literal("API"),
+      name: integrationNameSchema,
+      config: apiConfigSchema,
+      secrets: apiSecretsSchema.default({}),
+    }),
+    z.object({
+      type: z.literal("SQL"),
+      name: integrationNameSchema,
+      config: sqlConfigSchema,
+      secrets: sqlSecretsSchema.default({}),
+    }),
+    z.object({
+      type: z.literal("WEBHOOK"),
+      name: integrationNameSchema,
+      config: webhookConfigSchema,
+      secrets: webhookSecretsSchema.default({}),
+    }),
+  ])
+  .superRefine((input, ctx) => {
+    const fields = Object.entries(input.secrets)
+      .filter(([, value]) => value)
+      .map(([field]) => field);
+    const missing = missingCredential(input.type, input.config, fields);
+    if (missing) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["secrets", missing.field],
+        message: missing.message,
+      });
+    }
+  });
+
+/**
+ * Request body for PATCH /api/integrations/:id
+ *
+ * `config` replaces the settings and is checked against the integration's
+ * type. In `secrets`, a string sets a credential, null removes it and an
+ * omitted key keeps the saved value, so forms can leave secrets blank.
+ */
+export const updateIntegrationSchema = z
+  .object({
+    name: integrationNameSchema,
+    isActive: z.boolean(),
+    config: z.record(z.unknown()),
+    secrets: z.record(z.string().min(1).max(4096).nullable()),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "Provide at least one field to update");
+
+/**
+ * Request body for POST /api/integrations/test
+ *
+ * Same settings as creating an API or SQL integration (webhooks have no
+ * source to connect to). When `integrationId` is given
+ * (testing changes to a saved integration), credentials left out are taken
+ * from the saved integration.
+ */
+export const testIntegrationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("API"),
+    integrationId: z.string().optional(),
+    config: apiConfigSchema,
+    secrets: apiSecretsSchema.default({}),
+  }),
+  z.object({
+    type: z.literal("SQL"),
+    integrationId: z.string().optional(),
+    config: sqlConfigSchema,
+    secrets: sqlSecretsSchema.default({}),
+  }),
+]);
+
+/**
+ * Shortest time allowed between scheduled syncs
+ */
+export const MIN_SYNC_INTERVAL_MINUTES = 15;
+
+/**
+ * A sync schedule: a cron expression (UTC) that runs at most every
+ * `MIN_SYNC_INTERVAL_MINUTES`
+ */
+export const syncScheduleSchema = z
+  .string()
+  .trim()
+  .min(1, "Schedule is required")
+  .max(100)
+  .superRefine((expression, ctx) => {
+    let interval: number | null;
+    try {
+      interval = shortestCronInterval(parseCron(expression));
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : "Invalid schedule",
+      });
+      return;
+    }
+    if (interval === null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The schedule never runs" });
+    } else if (interval < MIN_SYNC_INTERVAL_MINUTES * 60 * 1000) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Syncs can run at most every ${MIN_SYNC_INTERVAL_MINUTES} minutes`,
+      });
+    }
+  });
+
+/**
+ * Request body for PUT /api/integrations/:id/schedule
+ *
+ * A null schedule turns scheduled syncs off. `modules` are the analysis
+ * modules run on each case a sync creates.
+ */
+export const scheduleIntegrationSchema = z.object({
+  schedule: syncScheduleSchema.nullable(),
+  modules: z.array(analysisModuleSchema).min(1, "Select at least one analysis module").optional(),
+});
+
+/**
+ * Request body for POST /api/integrations/:id/sync
+ *
+ * `resetWatermark` forgets the watermark, so the sync reads everything.
+ */
+export const syncIntegrationSchema = z.object({
+  resetWatermark: z.boolean().default(false),
+});
+
+export type ApiAuth = z.infer<typeof apiAuthSchema>;
+export type ApiPagination = z.infer<typeof apiPaginationSchema>;
+export type ApiConfig = z.infer<typeof apiConfigSchema>;
+export type ApiSecrets = z.infer<typeof apiSecretsSchema>;
+export type SqlEngine = z.infer<typeof sqlEngineSchema>;
+export type SqlSource = z.infer<typeof sqlSourceSchema>;
+export type SqlConfig = z.infer<typeof sqlConfigSchema>;
+export type SqlSecrets = z.infer<typeof sqlSecretsSchema>;
+export type WebhookConfig = z.infer<typeof webhookConfigSchema>;
+export type IntegrationTypeInput = z.infer<typeof integrationTypeSchema>;
+export type CreateIntegrationInput = z.infer<typeof createIntegrationSchema>;
+export type UpdateIntegrationInput = z.infer<typeof updateIntegrationSchema>;
+export type TestIntegrationInput = z.infer<typeof testIntegrationSchema>;
+export type WatermarkKind = z.infer<typeof watermarkKindSchema>;
+export type ScheduleIntegrationInput = z.infer<typeof scheduleIntegrationSchema>;
+export type SyncIntegrationInput = z.infer<typeof syncIntegrationSchema>;
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Column Mapping Validation
+ *
+ * Zod schemas for column mappings submitted with uploads and for the
+ * mapping template API routes.
+ */
+
+import { z } from "zod";
+import { COLUMN_ROLES } from "@/lib/column-mapping";
+import {
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  DATE_FORMATS,
+  DECIMAL_SEPARATORS,
+} from "@/lib/csv-format";
+
+/**
+ * File format chosen (or confirmed) in the mapping wizard
+ */
+export const csvFormatSchema = z.object({
+  encoding: z.enum(CSV_ENCODINGS),
+  delimiter: z.enum(CSV_DELIMITERS),
+  decimalSeparator: z.enum(DECIMAL_SEPARATORS),
+  dateFormat: z.enum(DATE_FORMATS).optional(),
+});
+
+/**
+ * Format overrides for POST /api/cases/preview
+ */
+export const previewOverridesSchema = csvFormatSchema
+  .pick({ encoding: true, delimiter: true })
+  .partial();
+
+/**
+ * Column mapping: file format plus the header mapped to each role
+ */
+export const columnMappingSchema = z.object({
+  format: csvFormatSchema,
+  roles: z
+    .record(z.enum(COLUMN_ROLES), z.string().trim().min(1).max(200))
+    .refine((roles) => {
+      const columns = Object.values(roles);
+      return new Set(columns).size === columns.length;
+    }, "Each column can only be mapped to one role"),
+});
+
+/**
+ * Column mapping sent as a JSON string in a multipart form field
+ */
+export const columnMappingFieldSchema = z
+  .string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Mapping must be valid JSON" });
+      return z.NEVER;
+    }
+  })
+  .pipe(columnMappingSchema);
+
+/**
+ * Request body for POST /api/mapping-templates
+ */
+export const createMappingTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  headers: z.array(z.string()).min(1, "Headers are required").max(500),
+  mapping: columnMappingSchema,
+});
+
+export type ColumnMappingInput = z.infer<typeof columnMappingSchema>;
+export type CreateMappingTemplateInput = z.infer<typeof createMappingTemplateSchema>;
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Public API (v1) Schemas
+ *
+ * Requests and responses of /api/v1. The public API keeps its own
+ * schemas, with snake_case fields, so the dashboard's internal routes can
+ * change without breaking integrations built against v1. Response
+ * schemas describe exactly what v1 returns; a change that is not
+ * backwards compatible belongs in a new version.
+ */
+
+import { z } from "zod";
+import { DEFAULT_MODULES } from "@/lib/analysis/modules";
+import { analysisModuleSchema, caseStatusSchema } from "@/lib/validations/case";
+import { integrationTypeSchema } from "@/lib/validations/integration";
+
+/**
+ * Form fields for POST /api/v1/analyze (the file is validated separately)
+ *
+ * Modules may be repeated fields or one comma-separated field; the
+ * default modules run when none are given.
+ */
+export const v1AnalyzeSchema = z.object({
+  case_name: z
+    .string()
+    .trim()
+    .min(1, "Case name is required")
+    .max(200)
+    .describe("Name for this analysis case"),
+  description: z.string().trim().max(2000).optional().describe("Notes about the case"),
+  modules: z
+    .array(z.string())
+    .default([])
+    .describe("Analysis modules (benford, mscore, zscore), repeated or comma-separated")
+    .transform((values) =>
+      values.flatMap((value) => value.split(",")).map((value) => value.trim()).filter(Boolean)
+    )
+    .pipe(z.array(analysisModuleSchema))
+    .transform((modules) => (modules.length > 0 ? Array.from(new Set(modules)) : DEFAULT_MODULES)),
+});
+
+/**
+ * Query parameters for GET /api/v1/cases
+ */
+export const v1ListCasesQuerySchema = z.object({
+  status: caseStatusSchema.optional().describe("Only cases with this status"),
+  search: z.string().trim().max(200).optional().describe("Matches the name or description"),
+  order: z.enum(["asc", "desc"]).default("desc").describe("Order by creation time"),
+  cursor: z.string().optional().describe("pagination.next_cursor from the previous page"),
+  limit: z.coerce.number().int().min(1).max(100).default(20).describe("Cases per page"),
+});
+
+/**
+ * Error response of every v1 endpoint
+ *
+ * `code` is stable and meant for programs; `message` is for people.
+ */
+export const v1ErrorSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.record(z.unknown()).optional(),
+  }),
+});
+
+/**
+ * A case in lists
+ */
+export const v1CaseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  status: caseStatusSchema,
+  modules: z.array(z.string()),
+  anomalies_found: z.number().int(),
+  high_risk_items: z.number().int(),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+/**
+ * A case with its analysis job and full results
+ */
+export const v1CaseDetailSchema = v1CaseSchema.extend({
+  job: z
+    .object({
+      status: z.enum(["QUEUED", "RUNNING", "SUCCEEDED", "FAILED"]),
+      attempts: z.number().int(),
+      error: z.string().nullable(),
+    })
+    .nullable(),
+  // Per-module results once the analysis has completed
+  results: z.record(z.unknown()).nullable(),
+});
+
+/**
+ * An integration (credentials are never returned, only which are set)
+ */
+export const v1IntegrationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: integrationTypeSchema,
+  config: z.record(z.unknown()),
+  is_active: z.boolean(),
+  secret_fields: z.array(z.string()),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+/**
+ * Response of GET /api/v1/cases
+ */
+export const v1CaseListSchema = z.object({
+  data: z.array(v1CaseSchema),
+  pagination: z.object({
+    limit: z.number().int(),
+    has_more: z.boolean(),
+    // Pass as `cursor` to get the next page
+    next_cursor: z.string().nullable(),
+  }),
+});
+
+export type V1Error = z.infer<typeof v1ErrorSchema>;
+export type V1Case = z.infer<typeof v1CaseSchema>;
+export type V1CaseDetail = z.infer<typeof v1CaseDetailSchema>;
+export type V1Integration = z.infer<typeof v1IntegrationSchema>;
+export type V1CaseList = z.infer<typeof v1CaseListSchema>;
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Outbound Webhook Request Validation
+ *
+ * Zod schemas for the webhook endpoint routes. An endpoint subscribes to
+ * the events it wants; every other event is not sent to it.
+ */
+
+import { z } from "zod";
+
+/**
+ * Events an endpoint can subscribe to
+ * - case.created: a case was created and queued for analysis
+ * - case.completed: its analysis finished
+ * - case.failed: its analysis failed for good
+ * - anomaly.high_risk: a completed analysis found high-risk items
+ * - integration.sync_failed: a scheduled or manual sync failed
+ */
+export const webhookEventSchema = z.enum([
+  "case.created",
+  "case.completed",
+  "case.failed",
+  "anomaly.high_risk",
+  "integration.sync_failed",
+]);
+
+const endpointUrlSchema = z
+  .string()
+  .trim()
+  .url("Enter a valid URL")
+  .max(2000)
+  .refine((url) => /^https?:\/\//i.test(url), "URL must start with http:// or https://");
+
+const eventsSchema = z
+  .array(webhookEventSchema)
+  .min(1, "Select at least one event")
+  .transform((events) => Array.from(new Set(events)));
+
+/**
+ * Request body for POST /api/webhooks
+ */
+export const createWebhookEndpointSchema = z.object({
+  url: endpointUrlSchema,
+  description: z.string().trim().max(200).optional(),
+  events: eventsSchema,
+});
+
+/**
+ * Request body for PATCH /api/webhooks/:id
+ */
+export const updateWebhookEndpointSchema = z
+  .object({
+    url: endpointUrlSchema,
+    description: z.string().trim().max(200).nullable(),
+    events: eventsSchema,
+    isActive: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "Provide at least one field to update");
+
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type CreateWebhookEndpointInput = z.infer<typeof createWebhookEndpointSchema>;
+export type UpdateWebhookEndpointInput = z.infer<typeof updateWebhookEndpointSchema>;
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Analysis Worker
+ *
+ * Long-running loop that takes jobs from the analysis queue and runs them.
+ * Started by `npm run worker` (see scripts/worker.ts), separately from the
+ * Next.js server so large audits never run inside a request handler.
+ *
+ * Alongside analysis jobs the worker sends outbound webhook deliveries
+ * that are due (see outbound-webhooks.ts), closes webhook windows that
+ * are due (see inbound-webhooks.ts) and runs integration syncs that are
+ * due (see sync.ts); the cases they create come back through the queue.
+ * Each pass takes at most one item from every queue, so a backlog in one
+ * of them doesn't hold up the others.
+ */
+
+import os from "os";
+import { runCaseAnalysis } from "@/lib/analysis/runner";
+import { claimDueWindow, closeWindow } from "@/lib/inbound-webhooks";
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  HEARTBEAT_INTERVAL_MS,
+  updateJobProgress,
+  type ClaimedJob,
+} from "@/lib/jobs";
+import { claimDueDelivery, sendDelivery } from "@/lib/outbound-webhooks";
+import { claimDueSync, runSync } from "@/lib/sync";
+import { sleep } from "@/lib/utils";
+
+/**
+ * Options for the worker loop
+ */
+export interface WorkerOptions {
+  /** How long to wait when every queue is empty */
+  pollIntervalMs?: number;
+  /** Stops the loop after the current job when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs a single claimed job to completion
+ *
+ * - All modules failed on their data: FAILED immediately, no retry
+ * - At least one module completed: COMPLETED (failed modules keep their
+ *   error in the job progress)
+ * - Unexpected error: retried with backoff
+ *
+ * The job's lock is refreshed while it runs, so long audits are not taken
+ * for abandoned and claimed by another worker.
+ *
+ * @param job - Job returned by `claimNextJob`
+ */
+export async function processJob(job: ClaimedJob): Promise<void> {
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job)
+      .then((held) => {
+        if (!held) console.warn(`Analysis job ${job.id} lost its lock`);
+      })
+      .catch((error) => console.error(`Analysis job ${job.id} heartbeat failed:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const outcome = await runCaseAnalysis(job.caseId, (progress) =>
+      updateJobProgress(job, progress)
+    );
+
+    if (outcome.completed.length === 0 && outcome.failed.length > 0) {
+      const reasons = outcome.failed
+        .map((moduleId) => `${moduleId}: ${outcome.progress[moduleId]?.error}`)
+        .join("; ");
+      await failJob(job, reasons, false, outcome);
+      return;
+    }
+
+    await completeJob(job, outcome);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Analysis job ${job.id} failed (attempt ${job.attempts}):`, error);
+    await failJob(job, reason);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Processes jobs until the signal is aborted
+ *
+ * @param options - Poll interval and abort signal
+ */
+export async function runWorker(options: WorkerOptions = {}): Promise<void> {
+  const pollIntervalMs =
+    options.pollIntervalMs ?? (Number(process.env.WORKER_POLL_INTERVAL_MS) || 5000);
+  const workerId = `${os.hostname()}:${process.pid}`;
+
+  console.log(`Analysis worker ${workerId} started`);
+
+  while (!options.signal?.aborted) {
+    try {
+      let busy = false;
+
+      const job = await claimNextJob(workerId);
+      if (job) {
+        await processJob(job);
+        busy = true;
+      }
+
+      const delivery = await claimDueDelivery();
+      if (delivery) {
+        await sendDelivery(delivery);
+        busy = true;
+      }
+
+      const window = await claimDueWindow();
+      if (window) {
+        await closeWindow(window);
+        busy = true;
+      }
+
+      const sync = await claimDueSync();
+      if (sync) {
+        await runSync(sync);
+        busy = true;
+      }
+
+      if (!busy) {
+        await sleep(pollIntervalMs);
+      }
+    } catch (error) {
+      // Database unavailable or similar: wait and try again
+      console.error("Analysis worker error:", error);
+      await sleep(pollIntervalMs);
+    }
+  }
+
+  console.log(`Analysis worker ${workerId} stopped`);
+}
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Route Protection Middleware
+ *
+ * Runs before dashboard pages, the login and signup pages and the API
+ * routes, and checks the `auth-token` cookie at the edge:
+ *
+ * - Dashboard pages without a valid token redirect to `/login?next=...`.
+ *   When only the access token has expired, they first go through
+ *   `/api/auth/refresh`, which renews it and comes back.
+ * - API routes without a valid token answer 401 JSON. With a refresh
+ *   cookie they are let through: the route renews the access token itself.
+ * - Signed-in users are sent from /login and /signup to the dashboard.
+ *
+ * Public API routes (sign-in, password reset, signed webhook deliveries,
+ * the bearer-authenticated /api/v1) are not checked. The middleware only
+ * checks the token's signature and expiry; route handlers still check
+ * that its session has not been signed out (see auth.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { AUTH_COOKIE, REFRESH_COOKIE, readAccessToken } from "@/lib/jwt";
+import { safeNextPath } from "@/lib/utils";
+
+/**
+ * API routes that work without a session; each also covers its sub-paths
+ */
+const PUBLIC_API_ROUTES = [
+  "/api/auth/login",
+  "/api/auth/signup",
+  "/api/auth/logout",
+  "/api/auth/refresh",
+  "/api/auth/forgot-password",
+  "/api/auth/reset-password",
+  "/api/auth/mfa/verify",
+  "/api/auth/mfa/setup", // Also used at login by users who must set up MFA
+  "/api/auth/mfa/enable",
+  "/api/ingest", // Authenticated by the delivery signature
+  "/api/v1", // Authenticated by API key (includes /api/v1/openapi.json)
+];
+
+/**
+ * Pages only for signed-out visitors
+ */
+const AUTH_PAGES = ["/login", "/signup"];
+
+/**
+ * Whether a path is a route or one of its sub-paths
+ */
+function matches(pathname: string, route: string): boolean {
+  return pathname === route || pathname.startsWith(`${route}/`);
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (PUBLIC_API_ROUTES.some((route) => matches(pathname, route))) {
+    return NextResponse.next();
+  }
+
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  const user = token ? await readAccessToken(token) : null;
+  const canRefresh = request.cookies.has(REFRESH_COOKIE);
+
+  // Signed-in users have no business on the login and signup pages
+  if (AUTH_PAGES.includes(pathname)) {
+    if (!user) return NextResponse.next();
+
+    const next = safeNextPath(request.nextUrl.searchParams.get("next"));
+    return NextResponse.redirect(new URL(next, request.url));
+  }
+
+  if (user) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    if (canRefresh) return NextResponse.next();
+
+    return NextResponse.json(
+      { error: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  // Dashboard page: renew an expired access token, or sign in
+  const target = new URL(canRefresh ? "/api/auth/refresh" : "/login", request.url);
+  target.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(target);
+}
+
+export const config = {
+  matcher: ["/dashboard/:path*", "/login", "/signup", "/api/:path*"],
+};